@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+
+const fs = require("fs");
+const path = require("path");
+const mongoose = require("mongoose");
+
+function loadEnvFile(filePath) {
+  if (!fs.existsSync(filePath)) return;
+  const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eqIndex = line.indexOf("=");
+    if (eqIndex === -1) continue;
+    const key = line.slice(0, eqIndex).trim();
+    const value = line.slice(eqIndex + 1).trim().replace(/^['"]|['"]$/g, "");
+    if (!(key in process.env)) {
+      process.env[key] = value;
+    }
+  }
+}
+
+loadEnvFile(path.join(process.cwd(), ".env.local"));
+loadEnvFile(path.join(process.cwd(), ".env"));
+
+const mongoUri = process.env.MONGODB_URI;
+
+if (!mongoUri) {
+  console.error("MONGODB_URI is not set. Add it to .env.local or export it before running this script.");
+  process.exit(1);
+}
+
+const shouldWrite = process.argv.includes("--yes");
+
+// Same rules as normalizePhone in src/lib/clients.ts
+function normalizePhone(raw) {
+  const digits = String(raw || "").replace(/\D/g, "");
+  if (digits.length === 12 && digits.startsWith("91")) return digits.slice(2);
+  if (digits.length === 11 && digits.startsWith("0")) return digits.slice(1);
+  return digits;
+}
+
+function addressKey(address) {
+  return String(address || "").toLowerCase().replace(/[\s,.]+/g, " ").trim();
+}
+
+async function main() {
+  await mongoose.connect(mongoUri, { bufferCommands: false });
+
+  const db = mongoose.connection.db;
+  const clientsCollection = db.collection("clients");
+  const sources = [
+    { label: "Quotations", collection: db.collection("quotations") },
+    { label: "Projects", collection: db.collection("projects") },
+    { label: "Invoices", collection: db.collection("invoices") },
+  ];
+
+  // Records not yet linked, grouped by the client's phone number
+  const groups = new Map();
+  let skipped = 0;
+  for (const source of sources) {
+    const records = await source.collection
+      .find({ clientId: { $exists: false } })
+      .project({ clientName: 1, clientNumber: 1, clientAddress: 1, date: 1, createdAt: 1 })
+      .toArray();
+    for (const record of records) {
+      const phone = normalizePhone(record.clientNumber);
+      if (phone.length < 7) {
+        skipped++;
+        continue;
+      }
+      if (!groups.has(phone)) groups.set(phone, []);
+      groups.get(phone).push({ source, record });
+    }
+  }
+
+  const existingClients = await clientsCollection.find({}).project({ phone: 1, "contacts.phone": 1 }).toArray();
+  const clientByPhone = new Map();
+  for (const client of existingClients) {
+    clientByPhone.set(client.phone, client._id);
+    for (const contact of client.contacts || []) clientByPhone.set(contact.phone, client._id);
+  }
+
+  const newPhones = [...groups.keys()].filter((phone) => !clientByPhone.has(phone));
+  const recordCount = [...groups.values()].reduce((sum, entries) => sum + entries.length, 0);
+
+  console.log("Client migration preview:");
+  console.log(`- Unlinked records: ${recordCount}`);
+  console.log(`- Distinct phone numbers: ${groups.size}`);
+  console.log(`- Matching existing clients: ${groups.size - newPhones.length}`);
+  console.log(`- New clients to create: ${newPhones.length}`);
+  if (skipped > 0) console.log(`- Records skipped (no usable phone number): ${skipped}`);
+
+  if (!shouldWrite) {
+    console.log("");
+    console.log("No data changed. Re-run with --yes to create the clients and link the records.");
+    return;
+  }
+
+  let created = 0;
+  let linked = 0;
+  for (const [phone, entries] of groups) {
+    const byDate = entries
+      .map((entry) => entry.record)
+      .sort((a, b) => new Date(a.date || a.createdAt || 0) - new Date(b.date || b.createdAt || 0));
+
+    let clientId = clientByPhone.get(phone);
+    if (!clientId) {
+      const sites = [];
+      for (const record of byDate) {
+        const address = String(record.clientAddress || "").trim();
+        if (!address || sites.some((site) => addressKey(site.address) === addressKey(address))) continue;
+        sites.push({ _id: new mongoose.Types.ObjectId(), label: `Site ${sites.length + 1}`, address });
+      }
+      const first = byDate[0];
+      const latest = byDate[byDate.length - 1];
+      const result = await clientsCollection.insertOne({
+        name: String(latest.clientName || "").trim() || "Unknown client",
+        phone,
+        sites,
+        contacts: [],
+        createdAt: new Date(first.date || first.createdAt || Date.now()),
+        updatedAt: new Date(),
+      });
+      clientId = result.insertedId;
+      clientByPhone.set(phone, clientId);
+      created++;
+    }
+
+    for (const { source, record } of entries) {
+      await source.collection.updateOne({ _id: record._id }, { $set: { clientId } });
+      linked++;
+    }
+  }
+
+  console.log("");
+  console.log("Client migration complete:");
+  console.log(`- Clients created: ${created}`);
+  console.log(`- Records linked: ${linked}`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to migrate clients:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await mongoose.disconnect();
+  });
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+const fs = require("fs");
+const path = require("path");
+const mongoose = require("mongoose");
+
+function loadEnvFile(filePath) {
+  if (!fs.existsSync(filePath)) return;
+  const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eqIndex = line.indexOf("=");
+    if (eqIndex === -1) continue;
+    const key = line.slice(0, eqIndex).trim();
+    const value = line.slice(eqIndex + 1).trim().replace(/^['"]|['"]$/g, "");
+    if (!(key in process.env)) {
+      process.env[key] = value;
+    }
+  }
+}
+
+loadEnvFile(path.join(process.cwd(), ".env.local"));
+loadEnvFile(path.join(process.cwd(), ".env"));
+
+const mongoUri = process.env.MONGODB_URI;
+
+if (!mongoUri) {
+  console.error("MONGODB_URI is not set. Add it to .env.local or export it before running this script.");
+  process.exit(1);
+}
+
+const shouldWrite = process.argv.includes("--yes");
+
+// The old statuses were worked out from the balance: "completed" meant fully paid,
+// which usually, though not always, means the work is finished too
+const STATUS_MAP = {
+  ongoing: "in_progress",
+  completed: "work_complete",
+};
+
+async function main() {
+  await mongoose.connect(mongoUri, { bufferCommands: false });
+
+  const projects = mongoose.connection.db.collection("projects");
+  console.log("Project status migration preview:");
+  for (const [legacy, status] of Object.entries(STATUS_MAP)) {
+    const count = await projects.countDocuments({ status: legacy });
+    console.log(`- "${legacy}" → "${status}": ${count} project(s)`);
+  }
+  const missing = await projects.countDocuments({ status: { $exists: false } });
+  console.log(`- No status → "in_progress": ${missing} project(s)`);
+
+  if (!shouldWrite) {
+    console.log("");
+    console.log("No data changed. Re-run with --yes to update the projects.");
+    return;
+  }
+
+  const changedAt = new Date();
+  let updated = 0;
+  for (const [legacy, status] of [...Object.entries(STATUS_MAP), [null, "in_progress"]]) {
+    const result = await projects.updateMany(legacy ? { status: legacy } : { status: { $exists: false } }, {
+      $set: { status },
+      $push: {
+        statusHistory: {
+          to: status,
+          reason: legacy ? `Migrated from "${legacy}"` : "Migrated",
+          changedBy: "migration",
+          changedAt,
+        },
+      },
+    });
+    updated += result.modifiedCount;
+  }
+
+  console.log("");
+  console.log(`Project status migration complete: ${updated} project(s) updated.`);
+  console.log('Review projects now marked "Work Complete" and move any still on site back to In Progress.');
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to migrate project statuses:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await mongoose.disconnect();
+  });
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+
+// Triggers the automatic loyalty awards job on a running deployment, for system cron
+// or a manual run. Pass --url=https://example.com to target another host.
+
+const fs = require("fs");
+const path = require("path");
+
+function loadEnvFile(filePath) {
+  if (!fs.existsSync(filePath)) return;
+  const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eqIndex = line.indexOf("=");
+    if (eqIndex === -1) continue;
+    const key = line.slice(0, eqIndex).trim();
+    const value = line.slice(eqIndex + 1).trim().replace(/^['"]|['"]$/g, "");
+    if (!(key in process.env)) {
+      process.env[key] = value;
+    }
+  }
+}
+
+loadEnvFile(path.join(process.cwd(), ".env.local"));
+loadEnvFile(path.join(process.cwd(), ".env"));
+
+const urlArg = process.argv.find((arg) => arg.startsWith("--url="));
+const baseUrl = (urlArg ? urlArg.slice("--url=".length) : process.env.NEXT_PUBLIC_FRONTEND_URL || "").replace(/\/$/, "");
+const cronSecret = process.env.CRON_SECRET;
+
+if (!baseUrl) {
+  console.error("Set NEXT_PUBLIC_FRONTEND_URL or pass --url=<site url>.");
+  process.exit(1);
+}
+if (!cronSecret) {
+  console.error("CRON_SECRET is not set. Add it to .env.local or export it before running this script.");
+  process.exit(1);
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/cron/loyalty-awards`, {
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+
+  console.log("Loyalty awards:");
+  console.log(`- Entries added: ${body.awarded.length}`);
+  for (const award of body.awarded) {
+    console.log(`- ${award.rule}: worker ${award.workerId} +${award.points} (${award.sourceRef})`);
+  }
+  for (const skip of body.skipped) {
+    console.log(`- Skipped ${skip.rule}${skip.workerId ? ` for worker ${skip.workerId}` : ""}: ${skip.reason}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("Failed to run loyalty awards:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+// Triggers the quotation follow-up job on a running deployment, for system cron
+// or a manual run. Pass --url=https://example.com to target another host.
+
+const fs = require("fs");
+const path = require("path");
+
+function loadEnvFile(filePath) {
+  if (!fs.existsSync(filePath)) return;
+  const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eqIndex = line.indexOf("=");
+    if (eqIndex === -1) continue;
+    const key = line.slice(0, eqIndex).trim();
+    const value = line.slice(eqIndex + 1).trim().replace(/^['"]|['"]$/g, "");
+    if (!(key in process.env)) {
+      process.env[key] = value;
+    }
+  }
+}
+
+loadEnvFile(path.join(process.cwd(), ".env.local"));
+loadEnvFile(path.join(process.cwd(), ".env"));
+
+const urlArg = process.argv.find((arg) => arg.startsWith("--url="));
+const baseUrl = (urlArg ? urlArg.slice("--url=".length) : process.env.NEXT_PUBLIC_FRONTEND_URL || "").replace(/\/$/, "");
+const cronSecret = process.env.CRON_SECRET;
+
+if (!baseUrl) {
+  console.error("Set NEXT_PUBLIC_FRONTEND_URL or pass --url=<site url>.");
+  process.exit(1);
+}
+if (!cronSecret) {
+  console.error("CRON_SECRET is not set. Add it to .env.local or export it before running this script.");
+  process.exit(1);
+}
+
+async function main() {
+  const response = await fetch(`${baseUrl}/api/cron/quotation-followups`, {
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+
+  console.log("Quotation follow-ups:");
+  console.log(`- Expiry dates backfilled: ${body.backfilled}`);
+  console.log(`- Expired: ${body.expired.length ? body.expired.join(", ") : "none"}`);
+  console.log(`- Reminders sent: ${body.reminded.length ? body.reminded.join(", ") : "none"}`);
+  for (const failure of body.failed) {
+    console.log(`- Failed ${failure.quotationNumber}: ${failure.error}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("Failed to run quotation follow-ups:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import CatalogItem from "@/models/CatalogItem";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { updateCatalogItemSchema } from "@/lib/validators";
+
+type Params = { params: Promise<{ itemId: string }> };
+
+// PUT - Update a rate card entry. A changed rate is appended to its history.
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { itemId } = await params;
+    const data = updateCatalogItemSchema.parse(await request.json());
+
+    await dbConnect();
+
+    const item = await CatalogItem.findById(itemId);
+    if (!item) {
+      return NextResponse.json({ error: "Rate card item not found" }, { status: 404 });
+    }
+
+    const name = data.name ?? item.name;
+    const serviceCategory = data.serviceCategory ?? item.serviceCategory;
+    if (name !== item.name || serviceCategory !== item.serviceCategory) {
+      const duplicate = await CatalogItem.exists({ _id: { $ne: item._id }, name, serviceCategory });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: "An item with this name already exists for the service" },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (data.defaultRate !== undefined && data.defaultRate !== item.defaultRate) {
+      item.rateHistory.push({ rate: data.defaultRate, changedAt: new Date(), changedBy: session.user.id });
+    }
+
+    item.set(data);
+    await item.save();
+
+    return NextResponse.json({ item });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data", details: error.message }, { status: 400 });
+    }
+    return handleError(error, "Failed to update rate card item");
+  }
+}
+
+// DELETE - Remove a rate card entry. Lines already copied into quotations are unaffected.
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { itemId } = await params;
+
+    await dbConnect();
+
+    const item = await CatalogItem.findByIdAndDelete(itemId);
+    if (!item) {
+      return NextResponse.json({ error: "Rate card item not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Rate card item deleted" });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to delete rate card item");
+  }
+}
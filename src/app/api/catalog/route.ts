@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import CatalogItem from "@/models/CatalogItem";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { catalogItemSchema } from "@/lib/validators";
+
+// GET - Rate card entries, filtered by search text and service category
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const search = (searchParams.get("search") || "").trim();
+    const category = (searchParams.get("category") || "").trim();
+    const includeInactive = searchParams.get("includeInactive") === "true";
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get("limit") || "50", 10)));
+    const query: Record<string, unknown> = {};
+
+    if (search) {
+      const searchRegex = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+      query.$or = [{ name: searchRegex }, { defaultNote: searchRegex }];
+    }
+
+    if (category && category !== "all") {
+      query.serviceCategory = category;
+    }
+
+    if (!includeInactive) {
+      query.isActive = true;
+    }
+
+    await dbConnect();
+    const items = await CatalogItem.find(query).sort({ serviceCategory: 1, name: 1 }).limit(limit).lean();
+
+    return NextResponse.json({ items });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch rate card");
+  }
+}
+
+// POST - Add a rate card entry; its opening rate starts the rate history
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = catalogItemSchema.parse(await request.json());
+
+    await dbConnect();
+
+    const duplicate = await CatalogItem.exists({ name: data.name, serviceCategory: data.serviceCategory });
+    if (duplicate) {
+      return NextResponse.json(
+        { error: "An item with this name already exists for the service" },
+        { status: 409 }
+      );
+    }
+
+    const item = await CatalogItem.create({
+      ...data,
+      rateHistory: [{ rate: data.defaultRate, changedAt: new Date(), changedBy: session.user.id }],
+      createdBy: session.user.id,
+    });
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data", details: error.message }, { status: 400 });
+    }
+    return handleError(error, "Failed to create rate card item");
+  }
+}
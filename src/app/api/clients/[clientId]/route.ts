@@ -0,0 +1,167 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Client from "@/models/Client";
+import Quotation from "@/models/Quotation";
+import Project from "@/models/Project";
+import Invoice from "@/models/Invoice";
+import Review from "@/models/Review";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { updateClientSchema } from "@/lib/validators";
+import { getClientSummaries } from "@/lib/client-records";
+
+type Params = { params: Promise<{ clientId: string }> };
+
+// GET - A client with their lifetime quotations, projects, invoices and reviews
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { clientId } = await params;
+    if (!mongoose.isValidObjectId(clientId)) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    await dbConnect();
+    const client = await Client.findById(clientId).lean<{ _id: mongoose.Types.ObjectId; phone: string; contacts: { phone: string }[] }>();
+    if (!client) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    // Reviews are left through the public form, so they are matched on phone number
+    const phones = [client.phone, ...(client.contacts || []).map((contact) => contact.phone)];
+
+    const [quotations, projects, invoices, reviews, summaries] = await Promise.all([
+      Quotation.find({ clientId: client._id })
+        .select("quotationNumber clientName clientAddress date grandTotal isAccepted expiresAt currentRevision")
+        .sort({ date: -1 })
+        .lean(),
+      Project.find({ clientId: client._id })
+        .select("projectId quotationNumber clientAddress date grandTotal amountDue status")
+        .sort({ date: -1 })
+        .lean(),
+      Invoice.find({ clientId: client._id })
+        .select("invoiceId projectId date grandTotal amountDue")
+        .sort({ date: -1 })
+        .lean(),
+      Review.find({ phone: { $in: phones } })
+        .select("name rating comment serviceType status createdAt")
+        .sort({ createdAt: -1 })
+        .lean(),
+      getClientSummaries([client._id]),
+    ]);
+
+    return NextResponse.json({
+      client,
+      summary: summaries.get(client._id.toString()),
+      quotations,
+      projects,
+      invoices,
+      reviews,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch client");
+  }
+}
+
+// PUT - Update a client's details, sites and contacts. Past quotations keep the details they were sent with.
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { clientId } = await params;
+    const data = updateClientSchema.parse(await request.json());
+
+    await dbConnect();
+
+    const client = mongoose.isValidObjectId(clientId) ? await Client.findById(clientId) : null;
+    if (!client) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    const phones = [data.phone, ...(data.contacts || []).map((contact) => contact.phone)].filter(Boolean);
+    if (phones.length > 0) {
+      const duplicate = await Client.findOne({
+        _id: { $ne: client._id },
+        $or: [{ phone: { $in: phones } }, { "contacts.phone": { $in: phones } }],
+      })
+        .select("name")
+        .lean<{ name: string }>();
+      if (duplicate) {
+        return NextResponse.json(
+          { error: `A phone number already belongs to ${duplicate.name}` },
+          { status: 409 }
+        );
+      }
+    }
+
+    client.set(data);
+    await client.save();
+
+    await AuditLog.create({
+      action: "update_client",
+      userId: session.user.id,
+      details: { clientId, changes: Object.keys(data) },
+    });
+
+    return NextResponse.json({ client });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data", details: error.message }, { status: 400 });
+    }
+    return handleError(error, "Failed to update client");
+  }
+}
+
+// DELETE - Remove a client that has no quotations, projects or invoices
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { clientId } = await params;
+    if (!mongoose.isValidObjectId(clientId)) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    await dbConnect();
+
+    const [hasQuotations, hasProjects, hasInvoices] = await Promise.all([
+      Quotation.exists({ clientId }),
+      Project.exists({ clientId }),
+      Invoice.exists({ clientId }),
+    ]);
+    if (hasQuotations || hasProjects || hasInvoices) {
+      return NextResponse.json(
+        { error: "This client has quotations, projects or invoices and cannot be deleted" },
+        { status: 409 }
+      );
+    }
+
+    const client = await Client.findByIdAndDelete(clientId);
+    if (!client) {
+      return NextResponse.json({ error: "Client not found" }, { status: 404 });
+    }
+
+    await AuditLog.create({
+      action: "delete_client",
+      userId: session.user.id,
+      details: { clientId, name: client.name },
+    });
+
+    return NextResponse.json({ message: "Client deleted" });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to delete client");
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Client, { IClient } from "@/models/Client";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { clientSchema } from "@/lib/validators";
+import { getClientSummaries } from "@/lib/client-records";
+import { normalizePhone } from "@/lib/clients";
+
+// GET - Client directory with lifetime counts and dues, searchable by name, phone or site address
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get("limit") || "10", 10)));
+    const search = (searchParams.get("search") || "").trim();
+    const query: Record<string, unknown> = {};
+
+    if (search) {
+      const searchRegex = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+      const phone = normalizePhone(search);
+      query.$or = [
+        { name: searchRegex },
+        { "sites.address": searchRegex },
+        { "contacts.name": searchRegex },
+        ...(phone ? [{ phone: new RegExp(phone) }, { "contacts.phone": new RegExp(phone) }] : []),
+      ];
+    }
+
+    await dbConnect();
+    const [clients, total] = await Promise.all([
+      Client.find(query)
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<(IClient & { _id: mongoose.Types.ObjectId })[]>(),
+      Client.countDocuments(query),
+    ]);
+
+    const summaries = await getClientSummaries(clients.map((client) => client._id));
+
+    return NextResponse.json({
+      clients: clients.map((client) => ({ ...client, summary: summaries.get(client._id.toString()) })),
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch clients");
+  }
+}
+
+// POST - Add a client; one record per phone number
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = clientSchema.parse(await request.json());
+
+    await dbConnect();
+
+    const duplicate = await Client.findOne({ $or: [{ phone: data.phone }, { "contacts.phone": data.phone }] })
+      .select("name")
+      .lean<{ name: string }>();
+    if (duplicate) {
+      return NextResponse.json(
+        { error: `This phone number already belongs to ${duplicate.name}` },
+        { status: 409 }
+      );
+    }
+
+    const client = await Client.create({ ...data, createdBy: session.user.id });
+
+    await AuditLog.create({
+      action: "create_client",
+      userId: session.user.id,
+      details: { clientId: client._id.toString(), name: client.name },
+    });
+
+    return NextResponse.json({ client }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data", details: error.message }, { status: 400 });
+    }
+    return handleError(error, "Failed to create client");
+  }
+}
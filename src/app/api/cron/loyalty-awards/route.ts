@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import { handleError } from "@/lib/errorHandler";
+import { isValidCronRequest } from "@/lib/cron";
+import { runLoyaltyAwards } from "@/lib/loyalty-awards";
+
+// GET - Scheduled run: award loyalty points for attendance, reviews and project events
+export async function GET(request: NextRequest) {
+  try {
+    if (!isValidCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+    const summary = await runLoyaltyAwards();
+    console.log("Loyalty awards run:", { awarded: summary.awarded.length, skipped: summary.skipped.length });
+
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to run loyalty awards");
+  }
+}
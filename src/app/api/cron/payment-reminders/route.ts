@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import { handleError } from "@/lib/errorHandler";
+import { isValidCronRequest } from "@/lib/cron";
+import { runPaymentReminders } from "@/lib/payment-reminders";
+import { runMilestoneReminders } from "@/lib/milestone-notifications";
+
+// GET - Scheduled run: send due WhatsApp reminders for overdue invoices and milestones that fell due
+export async function GET(request: NextRequest) {
+  try {
+    if (!isValidCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+    const summary = await runPaymentReminders();
+    const milestones = await runMilestoneReminders();
+    console.log("Payment reminders run:", summary, milestones);
+
+    return NextResponse.json({ ...summary, milestones });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to run payment reminders");
+  }
+}
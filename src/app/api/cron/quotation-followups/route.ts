@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import { handleError } from "@/lib/errorHandler";
+import { isValidCronRequest } from "@/lib/cron";
+import { runQuotationFollowUps } from "@/lib/quotation-followups";
+
+// GET - Scheduled run: expire stale quotations and send due follow-up reminders
+export async function GET(request: NextRequest) {
+  try {
+    if (!isValidCronRequest(request)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+    const summary = await runQuotationFollowUps();
+    console.log("Quotation follow-ups run:", summary);
+
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to run quotation follow-ups");
+  }
+}
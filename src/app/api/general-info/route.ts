@@ -10,6 +10,8 @@ import { updateGeneralInfoSchema } from "@/lib/validators";
 import { cacheManager, CacheKeys, CacheTTL } from "@/lib/cache";
 import { apiRateLimiter } from "@/lib/rateLimiter";
 import cloudinary from "@/lib/cloudinary";
+import { normalizeReminderDays } from "@/lib/quotation-expiry";
+import { normalizePaymentReminderDays } from "@/lib/receivables";
 
 // Define Cloudinary upload result type
 interface CloudinaryUploadResult {
@@ -68,6 +70,13 @@ export async function PUT(request: NextRequest) {
       mobileNumber1: sanitizeInput(formData.get("mobileNumber1") as string),
       mobileNumber2: sanitizeInput(formData.get("mobileNumber2") as string),
       address: sanitizeInput(formData.get("address") as string),
+      quotationReminderDays: formData.get("quotationReminderDays")
+        ? JSON.parse(formData.get("quotationReminderDays") as string)
+        : undefined,
+      paymentTermsDays: formData.get("paymentTermsDays") ? Number(formData.get("paymentTermsDays")) : undefined,
+      paymentReminderDays: formData.get("paymentReminderDays")
+        ? JSON.parse(formData.get("paymentReminderDays") as string)
+        : undefined,
     };
 
     const parsed = updateGeneralInfoSchema.safeParse(data);
@@ -111,10 +120,18 @@ export async function PUT(request: NextRequest) {
       publicId,
       siteName: parsed.data.siteName,
       gstNumber: parsed.data.gstNumber,
+      gstPercent: parsed.data.gstPercent,
       termsAndConditions: parsed.data.termsAndConditions,
       mobileNumber1: parsed.data.mobileNumber1,
       mobileNumber2: parsed.data.mobileNumber2,
       address: parsed.data.address,
+      ...(parsed.data.quotationReminderDays && {
+        quotationReminderDays: normalizeReminderDays(parsed.data.quotationReminderDays),
+      }),
+      paymentTermsDays: parsed.data.paymentTermsDays,
+      ...(parsed.data.paymentReminderDays && {
+        paymentReminderDays: normalizePaymentReminderDays(parsed.data.paymentReminderDays),
+      }),
       lastUpdated: new Date(),
     };
 
@@ -0,0 +1,180 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Invoice from "@/models/Invoice";
+import Project from "@/models/Project";
+import CreditNote from "@/models/CreditNote";
+import Transaction from "@/models/Transaction";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { sanitizeInput } from "@/lib/security";
+import { createCreditNoteSchema } from "@/lib/validators";
+import { roundCurrency } from "@/lib/gst";
+import { CREDIT_NOTE_TYPE_LABELS, getCreditNoteTax, getCreditNoteTotal } from "@/lib/credit-notes";
+import { getBalanceDue, getTotalPaid } from "@/lib/payments";
+import { generateCreditNoteNumber } from "@/lib/generateCreditNoteNumber";
+import { applyPaymentTotals, syncInvoicePayments } from "@/lib/project-payments";
+
+type RouteContext = { params: Promise<{ invoiceId: string }> };
+
+// GET - Credit notes issued against the invoice, oldest first
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const { invoiceId } = await context.params;
+
+    await dbConnect();
+    const creditNotes = await CreditNote.find({ invoiceId }).sort({ createdAt: 1 });
+
+    return NextResponse.json(creditNotes);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch credit notes");
+  }
+}
+
+// POST - Issue a credit note, reducing the balance due and recording any refund paid out
+export async function POST(request: Request, context: RouteContext) {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { invoiceId } = await context.params;
+    const parsed = createCreditNoteSchema.safeParse(sanitizeInput(await request.json()));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+    const { type, reason, items, refund } = parsed.data;
+    const date = parsed.data.date ? new Date(parsed.data.date) : new Date();
+
+    await dbConnect();
+
+    const invoice = await Invoice.findOne({ invoiceId }).session(session);
+    if (!invoice) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+    const project = await Project.findOne({ projectId: invoice.projectId }).session(session);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const total = getCreditNoteTotal(items);
+    const creditedAmount = roundCurrency((project.creditedAmount || 0) + total);
+    const refundedAmount = roundCurrency((project.refundedAmount || 0) + (refund?.amount || 0));
+
+    if (creditedAmount > (project.grandTotal || 0)) {
+      const creditable = (project.grandTotal || 0) - (project.creditedAmount || 0);
+      return NextResponse.json(
+        { error: `Credit exceeds the ₹${creditable.toFixed(2)} still invoiced` },
+        { status: 400 }
+      );
+    }
+    if (refund && refund.amount > total) {
+      return NextResponse.json({ error: "Refund cannot be more than the credit note total" }, { status: 400 });
+    }
+    if (refundedAmount > getTotalPaid(project.paymentHistory)) {
+      return NextResponse.json({ error: "Refund exceeds the payments received" }, { status: 400 });
+    }
+    // Money the client has paid beyond the credited invoice has to go back to them
+    const balanceDue = getBalanceDue({
+      grandTotal: project.grandTotal,
+      paymentHistory: project.paymentHistory,
+      creditedAmount,
+      refundedAmount,
+    });
+    if (balanceDue < 0) {
+      return NextResponse.json(
+        { error: `The client has paid ₹${Math.abs(balanceDue).toFixed(2)} more than the credited invoice; refund at least that much` },
+        { status: 400 }
+      );
+    }
+
+    const creditNoteNumber = await generateCreditNoteNumber();
+
+    let transactionId: mongoose.Types.ObjectId | undefined;
+    if (refund) {
+      const [transaction] = await Transaction.create(
+        [
+          {
+            type: "debit",
+            amount: refund.amount,
+            date,
+            note: `Refund to ${invoice.clientName} - Credit Note #${creditNoteNumber} (Invoice #${invoiceId})`,
+            category: "refund",
+            projectId: project._id,
+            createdBy: authSession.user.email || "admin",
+          },
+        ],
+        { session }
+      );
+      transactionId = transaction._id;
+    }
+
+    const [creditNote] = await CreditNote.create(
+      [
+        {
+          creditNoteNumber,
+          invoiceId,
+          projectId: invoice.projectId,
+          quotationNumber: invoice.quotationNumber,
+          clientName: invoice.clientName,
+          clientAddress: invoice.clientAddress,
+          clientNumber: invoice.clientNumber,
+          clientId: invoice.clientId,
+          date,
+          type,
+          reason,
+          items,
+          total,
+          tax: getCreditNoteTax(total, invoice.tax),
+          refund: refund ? { ...refund, date, transactionId } : undefined,
+          createdBy: authSession.user.name || authSession.user.id || "admin",
+        },
+      ],
+      { session }
+    );
+
+    const before = { amountDue: project.amountDue };
+    project.creditedAmount = creditedAmount;
+    project.refundedAmount = refundedAmount;
+    project.lastUpdated = new Date();
+    applyPaymentTotals(project);
+    await project.save({ session });
+    await syncInvoicePayments(project, session);
+
+    await AuditLog.create(
+      [
+        {
+          action: "create_credit_note",
+          userId: authSession.user.id,
+          details: {
+            creditNoteNumber,
+            invoiceId,
+            projectId: invoice.projectId,
+            type: CREDIT_NOTE_TYPE_LABELS[type],
+            reason,
+            total,
+            refund: refund?.amount,
+            before,
+            after: { amountDue: project.amountDue },
+          },
+        },
+      ],
+      { session }
+    );
+
+    await session.commitTransaction();
+    return NextResponse.json(creditNote, { status: 201 });
+  } catch (error: unknown) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    return handleError(error, "Failed to create credit note");
+  } finally {
+    session.endSession();
+  }
+}
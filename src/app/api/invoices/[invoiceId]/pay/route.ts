@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import Invoice from "@/models/Invoice";
+import OnlinePayment from "@/models/OnlinePayment";
+import { handleError } from "@/lib/errorHandler";
+import { apiRateLimiter } from "@/lib/rateLimiter";
+import { isValidAccessToken } from "@/lib/security";
+import { getPaymentProvider } from "@/lib/payment-gateway";
+import { startOnlinePayment } from "@/lib/online-payments";
+
+type RouteContext = { params: Promise<{ invoiceId: string }> };
+
+// GET - Whether the invoice can be paid online, and the status of a checkout when ?reference= is given
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { invoiceId } = await context.params;
+    const reference = request.nextUrl.searchParams.get("reference");
+    const provider = getPaymentProvider();
+
+    let payment = null;
+    if (reference) {
+      await dbConnect();
+      payment = await OnlinePayment.findOne(
+        { reference, invoiceId },
+        { reference: 1, amount: 1, status: 1, receiptNumber: 1, _id: 0 }
+      );
+    }
+
+    return NextResponse.json({
+      provider: provider ? { id: provider.id, label: provider.label } : null,
+      payment,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch payment options");
+  }
+}
+
+// POST - Client starts paying part or all of the balance from the invoice link
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const rateLimitResponse = await apiRateLimiter(request);
+    if (rateLimitResponse.status !== 200) {
+      return rateLimitResponse;
+    }
+
+    const { invoiceId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const token = typeof body?.token === "string" ? body.token : "";
+    const amount = Math.round(Number(body?.amount) * 100) / 100;
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return NextResponse.json({ error: "Online payment is not available" }, { status: 503 });
+    }
+
+    await dbConnect();
+
+    const invoice = await Invoice.findOne({ invoiceId });
+    if (!invoice) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+    if (!isValidAccessToken(invoice.accessToken, token)) {
+      return NextResponse.json({ error: "Invalid or expired link" }, { status: 403 });
+    }
+
+    const amountDue = invoice.amountDue || 0;
+    if (amountDue <= 0) {
+      return NextResponse.json({ error: "This invoice is already paid" }, { status: 400 });
+    }
+    if (!Number.isFinite(amount) || amount < Math.min(1, amountDue) || amount > amountDue) {
+      return NextResponse.json(
+        { error: `Enter an amount between ₹1 and ₹${amountDue.toFixed(2)}` },
+        { status: 400 }
+      );
+    }
+
+    const checkout = await startOnlinePayment(provider, invoice, amount);
+    return NextResponse.json({ provider: { id: provider.id, label: provider.label }, ...checkout });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to start payment");
+  }
+}
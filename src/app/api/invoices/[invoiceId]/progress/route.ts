@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import Invoice from "@/models/Invoice";
+import Project, { IProject } from "@/models/Project";
+import { handleError } from "@/lib/errorHandler";
+import { apiRateLimiter } from "@/lib/rateLimiter";
+import { isValidAccessToken } from "@/lib/security";
+import { getProgressEntries } from "@/lib/progress-entries";
+import { toClientProgressEntry } from "@/lib/site-progress";
+
+// GET - Read-only progress feed for the client, behind the invoice link's token.
+// Answers 404 unless staff have chosen to share the project's log.
+export async function GET(request: NextRequest, context: { params: Promise<{ invoiceId: string }> }) {
+  try {
+    const rateLimitResponse = await apiRateLimiter(request);
+    if (rateLimitResponse.status !== 200) {
+      return rateLimitResponse;
+    }
+
+    const { invoiceId } = await context.params;
+    const token = request.nextUrl.searchParams.get("token") || "";
+
+    await dbConnect();
+
+    const invoice = await Invoice.findOne({ invoiceId }).select("projectId accessToken");
+    if (!invoice || !isValidAccessToken(invoice.accessToken, token)) {
+      return NextResponse.json({ error: "Progress not available" }, { status: 404 });
+    }
+
+    const project: IProject | null = await Project.findOne({ projectId: invoice.projectId }).select(
+      "_id projectId shareProgressWithClient"
+    );
+    if (!project?.shareProgressWithClient) {
+      return NextResponse.json({ error: "Progress not available" }, { status: 404 });
+    }
+
+    const entries = await getProgressEntries(project);
+    return NextResponse.json({ entries: entries.map(toClientProgressEntry) });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch progress");
+  }
+}
@@ -7,6 +7,8 @@ import { authOptions } from "@/lib/auth";
 import { handleError } from "@/lib/errorHandler";
 import { sanitizeInput } from "@/lib/security";
 import { updateInvoiceSchema } from "@/lib/validators";
+import { getPaymentSettings } from "@/lib/payment-reminders";
+import { getInvoiceDueDate } from "@/lib/receivables";
 
 // Define the type for updateData based on the Invoice model
 interface UpdateInvoiceData {
@@ -14,6 +16,8 @@ interface UpdateInvoiceData {
   clientAddress?: string;
   clientNumber?: string;
   date?: Date;
+  paymentTermsDays?: number;
+  dueDate?: Date;
   items?: {
     description: string;
     area?: number;
@@ -29,11 +33,6 @@ interface UpdateInvoiceData {
   subtotal?: number;
   discount?: number;
   grandTotal?: number;
-  paymentHistory?: {
-    amount: number;
-    date?: Date;
-    note?: string;
-  }[];
   amountDue?: number;
   lastUpdated?: Date;
 }
@@ -77,6 +76,12 @@ export async function PUT(
 
     // Use parsed.data to ensure type safety
     const data = parsed.data;
+    if (data.paymentHistory !== undefined) {
+      return NextResponse.json(
+        { error: "Payments are recorded, corrected and reversed through the project payment routes" },
+        { status: 400 }
+      );
+    }
 
     await dbConnect();
 
@@ -96,13 +101,20 @@ export async function PUT(
     if (data.subtotal !== undefined) updateData.subtotal = data.subtotal;
     if (data.discount !== undefined) updateData.discount = data.discount;
     if (data.grandTotal !== undefined) updateData.grandTotal = data.grandTotal;
-    if (data.paymentHistory !== undefined) {
-      updateData.paymentHistory = data.paymentHistory.map(payment => ({
-        ...payment,
-        date: payment.date ? new Date(payment.date) : new Date(),
-      }));
-    }
     if (data.amountDue !== undefined) updateData.amountDue = data.amountDue;
+    if (data.paymentTermsDays !== undefined) updateData.paymentTermsDays = data.paymentTermsDays;
+
+    // Due date follows the invoice date and its own payment terms
+    if (updateData.date || updateData.paymentTermsDays !== undefined) {
+      const existing = await Invoice.findOne({ invoiceId }).select("date paymentTermsDays");
+      if (!existing) {
+        return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+      }
+      const paymentTermsDays =
+        updateData.paymentTermsDays ?? existing.paymentTermsDays ?? (await getPaymentSettings()).paymentTermsDays;
+      updateData.paymentTermsDays = paymentTermsDays;
+      updateData.dueDate = getInvoiceDueDate(updateData.date || existing.date, paymentTermsDays);
+    }
     updateData.lastUpdated = new Date();
 
     const invoice = await Invoice.findOneAndUpdate(
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Invoice from "@/models/Invoice";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { normalizePhone } from "@/lib/clients";
+import { getCancelledProjectIds, getPaymentSettings } from "@/lib/payment-reminders";
+import {
+  emptyAgeingTotals,
+  getAgeingBucket,
+  getDaysOverdue,
+  getInvoiceDueDate,
+  type AgeingBucket,
+} from "@/lib/receivables";
+
+interface OpenInvoice {
+  invoiceId: string;
+  projectId: string;
+  clientId?: mongoose.Types.ObjectId;
+  clientName: string;
+  clientNumber: string;
+  date: Date;
+  dueDate?: Date;
+  paymentTermsDays?: number;
+  grandTotal?: number;
+  amountDue: number;
+  paymentReminders?: { createdAt: Date; delivered: boolean }[];
+}
+
+interface AgeingClientRow {
+  key: string;
+  clientId?: string;
+  clientName: string;
+  clientNumber: string;
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+  oldestDaysOverdue: number;
+  invoices: {
+    invoiceId: string;
+    projectId: string;
+    date: Date;
+    dueDate: Date;
+    grandTotal: number;
+    amountDue: number;
+    daysOverdue: number;
+    bucket: AgeingBucket;
+    lastReminderAt?: Date;
+  }[];
+}
+
+// GET - Unpaid balances by client, aged on days past each invoice's due date
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+    const now = new Date();
+    const { paymentTermsDays } = await getPaymentSettings();
+
+    const invoices = await Invoice.find({
+      amountDue: { $gt: 0 },
+      projectId: { $nin: await getCancelledProjectIds() },
+    })
+      .select("invoiceId projectId clientId clientName clientNumber date dueDate paymentTermsDays grandTotal amountDue paymentReminders")
+      .sort({ date: 1 })
+      .lean<OpenInvoice[]>();
+
+    const totals = emptyAgeingTotals();
+    const rows = new Map<string, AgeingClientRow>();
+
+    for (const invoice of invoices) {
+      // Invoices not yet backfilled by the reminder job use the current terms
+      const dueDate = invoice.dueDate ?? getInvoiceDueDate(invoice.date, invoice.paymentTermsDays ?? paymentTermsDays);
+      const daysOverdue = getDaysOverdue(dueDate, now);
+      const bucket = getAgeingBucket(daysOverdue);
+      const key = invoice.clientId ? invoice.clientId.toString() : `phone:${normalizePhone(invoice.clientNumber)}`;
+
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          key,
+          clientId: invoice.clientId?.toString(),
+          clientName: invoice.clientName,
+          clientNumber: invoice.clientNumber,
+          buckets: emptyAgeingTotals(),
+          total: 0,
+          oldestDaysOverdue: daysOverdue,
+          invoices: [],
+        };
+        rows.set(key, row);
+      }
+
+      const reminders = invoice.paymentReminders || [];
+      row.invoices.push({
+        invoiceId: invoice.invoiceId,
+        projectId: invoice.projectId,
+        date: invoice.date,
+        dueDate,
+        grandTotal: invoice.grandTotal || 0,
+        amountDue: invoice.amountDue,
+        daysOverdue,
+        bucket,
+        lastReminderAt: reminders.length > 0 ? reminders[reminders.length - 1].createdAt : undefined,
+      });
+      row.buckets[bucket] += invoice.amountDue;
+      row.total += invoice.amountDue;
+      row.oldestDaysOverdue = Math.max(row.oldestDaysOverdue, daysOverdue);
+      totals[bucket] += invoice.amountDue;
+    }
+
+    const clients = Array.from(rows.values()).sort(
+      (a, b) => b.oldestDaysOverdue - a.oldestDaysOverdue || b.total - a.total
+    );
+
+    return NextResponse.json({
+      asOf: now,
+      paymentTermsDays,
+      totals: { ...totals, total: clients.reduce((sum, row) => sum + row.total, 0) },
+      clients,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to build ageing report");
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import OnlinePayment from "@/models/OnlinePayment";
+import Invoice from "@/models/Invoice";
+import { handleError } from "@/lib/errorHandler";
+import { getPaymentProviderById, signFakeWebhook, verifyFakeCheckout } from "@/lib/payment-gateway";
+import { handleGatewayWebhook } from "@/lib/online-payments";
+import { getInvoicePortalUrl } from "@/lib/payment-reminders";
+
+// GET - Hosted "payment page" of the fake gateway: pays the checkout at once and
+// sends the client back to the invoice, like a real gateway would after payment
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getPaymentProviderById("fake");
+    if (!provider) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const reference = request.nextUrl.searchParams.get("reference") || "";
+    if (!verifyFakeCheckout(reference, request.nextUrl.searchParams.get("signature"))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+    const online = await OnlinePayment.findOne({ reference, provider: "fake" });
+    if (!online) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    const rawBody = JSON.stringify({
+      reference,
+      paymentId: `fake_pay_${Date.now().toString(36)}`,
+      amount: online.amount,
+    });
+    const headers = new Headers({ "x-fake-signature": signFakeWebhook(rawBody) });
+    const { status, error } = await handleGatewayWebhook(provider, rawBody, headers);
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+
+    const invoice = await Invoice.findOne({ invoiceId: online.invoiceId });
+    const returnUrl = new URL(getInvoicePortalUrl(online.invoiceId, invoice?.accessToken));
+    returnUrl.searchParams.set("payment", reference);
+    return NextResponse.redirect(returnUrl);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to complete test payment");
+  }
+}
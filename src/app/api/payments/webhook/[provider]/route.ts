@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleError } from "@/lib/errorHandler";
+import { getPaymentProviderById } from "@/lib/payment-gateway";
+import { handleGatewayWebhook } from "@/lib/online-payments";
+
+// POST - Payment notifications from the gateway; the signature is checked against the raw body
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const { provider: providerId } = await context.params;
+    const provider = getPaymentProviderById(providerId);
+    if (!provider) {
+      return NextResponse.json({ error: "Unknown payment provider" }, { status: 404 });
+    }
+
+    const rawBody = await request.text();
+    const { status, error } = await handleGatewayWebhook(provider, rawBody, request.headers);
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+    return NextResponse.json({ received: true });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to process payment webhook");
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Project, { IProject } from "@/models/Project";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { computeProjectCostings } from "@/lib/project-costing";
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await context.params;
+    await dbConnect();
+
+    const project = await Project.findOne({ projectId }).lean<IProject>();
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const [costing] = await computeProjectCostings([project]);
+    return NextResponse.json({ costing });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch project costing");
+  }
+}
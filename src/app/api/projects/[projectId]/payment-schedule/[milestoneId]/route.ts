@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Project, { IProject } from "@/models/Project";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { resolvePaymentSchedule } from "@/lib/payment-schedule";
+import { markMilestoneNotified, notifyMilestoneDue } from "@/lib/milestone-notifications";
+
+// POST - Mark a condition milestone (e.g. "On completion") as met and tell the client it is due
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ projectId: string; milestoneId: string }> }
+) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId, milestoneId } = await context.params;
+
+    await dbConnect();
+
+    const project: IProject | null = await Project.findOne({ projectId });
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    const milestone = project.paymentSchedule.find((entry) => String(entry._id) === milestoneId);
+    if (!milestone) {
+      return NextResponse.json({ error: "Milestone not found" }, { status: 404 });
+    }
+    if (milestone.dueDate) {
+      return NextResponse.json({ error: "This milestone falls due on its date" }, { status: 400 });
+    }
+    if (milestone.dueAt) {
+      return NextResponse.json({ error: "This milestone is already due" }, { status: 400 });
+    }
+
+    const now = new Date();
+    await Project.updateOne(
+      { _id: project._id, "paymentSchedule._id": milestone._id },
+      { $set: { "paymentSchedule.$.dueAt": now } }
+    );
+    milestone.dueAt = now;
+
+    const entry = resolvePaymentSchedule(project, now).find((resolved) => resolved.milestone === milestone)!;
+    let notified = false;
+    if (entry.status !== "paid") {
+      try {
+        notified = await notifyMilestoneDue(project, entry);
+      } catch (whatsappError) {
+        console.error(`WhatsApp Error for project ${projectId}:`, whatsappError);
+      }
+      await markMilestoneNotified(project, milestone, now);
+    }
+
+    await AuditLog.create({
+      action: "milestone_due",
+      userId: authSession.user.id,
+      details: { projectId, milestone: milestone.label, balance: entry.balance, notified },
+    });
+
+    const updatedProject = await Project.findOne({ projectId });
+    return NextResponse.json(updatedProject);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to mark milestone due");
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Project, { IPaymentMilestone, IProject } from "@/models/Project";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { sanitizeInput } from "@/lib/security";
+import { paymentScheduleSchema } from "@/lib/validators";
+import { getMilestoneAmount, getScheduleValue } from "@/lib/payment-schedule";
+import { applyMilestoneProgress, syncInvoicePayments } from "@/lib/project-payments";
+
+// PUT - Replace the project's payment schedule; milestones keep their due/notified state by id
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await context.params;
+    const parsed = paymentScheduleSchema.safeParse(sanitizeInput(await request.json()));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+    const { milestones } = parsed.data;
+
+    await dbConnect();
+
+    const project: IProject | null = await Project.findOne({ projectId }).session(session);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // An empty schedule turns milestone billing off
+    const scheduleValue = getScheduleValue(project);
+    const scheduled = milestones.reduce((sum, milestone) => sum + getMilestoneAmount(milestone, scheduleValue), 0);
+    if (milestones.length > 0 && Math.abs(scheduled - scheduleValue) > 1) {
+      return NextResponse.json(
+        { error: `Milestones add up to ₹${scheduled.toFixed(2)} but the project total is ₹${scheduleValue.toFixed(2)}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = new Map(project.paymentSchedule.map((milestone) => [String(milestone._id), milestone]));
+    const before = project.paymentSchedule.map(({ label, percent, amount, dueDate, condition }) => ({
+      label,
+      percent,
+      amount,
+      dueDate,
+      condition,
+    }));
+    project.paymentSchedule = milestones.map(({ _id, dueDate, ...milestone }): IPaymentMilestone => {
+      const previous = _id ? existing.get(_id) : undefined;
+      const nextDueDate = dueDate ? new Date(dueDate) : undefined;
+      // A rescheduled milestone is reminded again on its new date
+      const isSameDue =
+        previous?.condition === milestone.condition &&
+        previous?.dueDate?.getTime() === nextDueDate?.getTime();
+      return {
+        ...milestone,
+        // New milestones get their id from Mongoose
+        ...(previous ? { _id: previous._id } : {}),
+        dueDate: nextDueDate,
+        // A condition that was already met stays met
+        dueAt: !dueDate && previous?.condition === milestone.condition ? previous?.dueAt : undefined,
+        notifiedAt: isSameDue ? previous?.notifiedAt : undefined,
+        paidAt: previous?.paidAt,
+      };
+    });
+    applyMilestoneProgress(project);
+    project.lastUpdated = new Date();
+
+    await project.save({ session });
+    await syncInvoicePayments(project, session);
+
+    await AuditLog.create(
+      [
+        {
+          action: "update_payment_schedule",
+          userId: authSession.user.id,
+          details: { projectId, before, after: milestones },
+        },
+      ],
+      { session }
+    );
+
+    await session.commitTransaction();
+    return NextResponse.json(project);
+  } catch (error: unknown) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    return handleError(error, "Failed to update payment schedule");
+  } finally {
+    session.endSession();
+  }
+}
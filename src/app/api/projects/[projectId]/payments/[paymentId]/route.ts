@@ -0,0 +1,233 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose, { ClientSession } from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Project, { IPayment, IProject } from "@/models/Project";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { sanitizeInput } from "@/lib/security";
+import { reversePaymentSchema, updatePaymentSchema } from "@/lib/validators";
+import { EDITABLE_PAYMENT_FIELDS, findPaymentReversal } from "@/lib/payments";
+import { applyPaymentTotals, syncInvoicePayments } from "@/lib/project-payments";
+
+type RouteContext = { params: Promise<{ projectId: string; paymentId: string }> };
+
+// Correction trail values are stored as text so any field can be shown the same way
+const toText = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  return value instanceof Date ? value.toISOString().split("T")[0] : String(value);
+};
+
+const snapshotPayment = (payment: IPayment) =>
+  Object.fromEntries(EDITABLE_PAYMENT_FIELDS.map((field) => [field, payment[field]]));
+
+// Ends the transaction before an early error response so it isn't left open
+async function abortWith(session: ClientSession, response: NextResponse) {
+  await session.abortTransaction();
+  return response;
+}
+
+// Finds the payment and rejects reversal entries and payments that are already reversed
+function findCorrectablePayment(project: IProject, paymentId: string) {
+  const payment = project.paymentHistory.find((entry) => String(entry._id) === paymentId);
+  if (!payment) {
+    return { error: NextResponse.json({ error: "Payment not found" }, { status: 404 }) };
+  }
+  if (payment.isReversal) {
+    return { error: NextResponse.json({ error: "Reversal entries cannot be changed" }, { status: 400 }) };
+  }
+  if (findPaymentReversal(project.paymentHistory, payment)) {
+    return { error: NextResponse.json({ error: "This payment has already been reversed" }, { status: 400 }) };
+  }
+  return { payment };
+}
+
+// PATCH - Correct a recorded payment in place, keeping the old values on its correction trail
+export async function PATCH(request: Request, context: RouteContext) {
+  const session = await mongoose.startSession();
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId, paymentId } = await context.params;
+    const parsed = updatePaymentSchema.safeParse(sanitizeInput(await request.json()));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+    const { reason, ...updates } = parsed.data;
+
+    await dbConnect();
+
+    session.startTransaction();
+    const project = await Project.findOne({ projectId }).session(session);
+    if (!project) {
+      return abortWith(session, NextResponse.json({ error: "Project not found" }, { status: 404 }));
+    }
+    const { payment, error } = findCorrectablePayment(project, paymentId);
+    if (error) return abortWith(session, error);
+
+    const before = { ...snapshotPayment(payment), amountDue: project.amountDue };
+    const next: Partial<IPayment> = {
+      ...updates,
+      date: updates.date !== undefined ? new Date(updates.date) : undefined,
+    };
+    // Cheque details only belong to cheque payments
+    if (next.method && next.method !== "cheque") {
+      next.chequeNumber = "";
+      next.chequeBank = "";
+    }
+
+    const changes: { field: string; from?: string; to?: string }[] = [];
+    const applied: Partial<IPayment> = {};
+    for (const field of EDITABLE_PAYMENT_FIELDS) {
+      if (next[field] === undefined) continue;
+      const from = toText(payment[field]);
+      const to = toText(next[field]);
+      if (from === to) continue;
+      changes.push({ field, from, to });
+      Object.assign(applied, { [field]: next[field] === "" ? undefined : next[field] });
+    }
+    if (changes.length === 0) {
+      return abortWith(session, NextResponse.json({ error: "No changes to save" }, { status: 400 }));
+    }
+    Object.assign(payment, applied);
+    if (payment.method === "cheque" && !payment.chequeNumber) {
+      return abortWith(
+        session,
+        NextResponse.json({ error: "Cheque number is required for cheque payments" }, { status: 400 })
+      );
+    }
+
+    payment.corrections = [
+      ...(payment.corrections || []),
+      {
+        reason,
+        changes,
+        correctedBy: authSession.user.name || authSession.user.id || "admin",
+        correctedAt: new Date(),
+      },
+    ];
+    project.lastUpdated = new Date();
+    applyPaymentTotals(project);
+
+    if ((project.amountDue || 0) < 0) {
+      return abortWith(session, NextResponse.json({ error: "Total payments exceed grand total" }, { status: 400 }));
+    }
+
+    await project.save({ session });
+    await syncInvoicePayments(project, session);
+
+    await AuditLog.create(
+      [
+        {
+          action: "update_project_payment",
+          userId: authSession.user.id,
+          details: {
+            projectId,
+            paymentId,
+            receiptNumber: payment.receiptNumber,
+            reason,
+            before,
+            after: { ...snapshotPayment(payment), amountDue: project.amountDue },
+          },
+        },
+      ],
+      { session }
+    );
+
+    await session.commitTransaction();
+    return NextResponse.json(project);
+  } catch (error: unknown) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    return handleError(error, "Failed to update payment");
+  } finally {
+    session.endSession();
+  }
+}
+
+// DELETE - Reverse a payment with a negative entry; the original stays in the history
+export async function DELETE(request: Request, context: RouteContext) {
+  const session = await mongoose.startSession();
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId, paymentId } = await context.params;
+    const parsed = reversePaymentSchema.safeParse(sanitizeInput(await request.json().catch(() => ({}))));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+    const { reason } = parsed.data;
+
+    await dbConnect();
+
+    session.startTransaction();
+    const project = await Project.findOne({ projectId }).session(session);
+    if (!project) {
+      return abortWith(session, NextResponse.json({ error: "Project not found" }, { status: 404 }));
+    }
+    const { payment, error } = findCorrectablePayment(project, paymentId);
+    if (error) return abortWith(session, error);
+
+    const before = { amountDue: project.amountDue };
+    project.paymentHistory.push({
+      amount: -payment.amount,
+      date: new Date(),
+      method: payment.method,
+      receivedBy: authSession.user.name || undefined,
+      note: payment.receiptNumber ? `Reversal of receipt #${payment.receiptNumber}` : "Payment reversal",
+      isReversal: true,
+      reversalOf: payment._id,
+      reason,
+    });
+    project.lastUpdated = new Date();
+    applyPaymentTotals(project);
+
+    // Money already refunded can't be reversed again, so the balance can't rise past what is owed
+    if ((project.amountDue || 0) > (project.grandTotal || 0) - (project.creditedAmount || 0)) {
+      return abortWith(
+        session,
+        NextResponse.json({ error: "Reversal exceeds the amount kept after refunds" }, { status: 400 })
+      );
+    }
+
+    await project.save({ session });
+    await syncInvoicePayments(project, session);
+
+    await AuditLog.create(
+      [
+        {
+          action: "reverse_project_payment",
+          userId: authSession.user.id,
+          details: {
+            projectId,
+            paymentId,
+            receiptNumber: payment.receiptNumber,
+            amount: payment.amount,
+            reason,
+            before,
+            after: { amountDue: project.amountDue },
+          },
+        },
+      ],
+      { session }
+    );
+
+    await session.commitTransaction();
+    return NextResponse.json(project);
+  } catch (error: unknown) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    return handleError(error, "Failed to reverse payment");
+  } finally {
+    session.endSession();
+  }
+}
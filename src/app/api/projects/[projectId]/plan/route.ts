@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Project, { IProject } from "@/models/Project";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { sanitizeInput } from "@/lib/security";
+import { projectPlanSchema } from "@/lib/validators";
+
+// PUT - Set the dates the crew is planned to start and finish on site
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await context.params;
+    const parsed = projectPlanSchema.safeParse(sanitizeInput(await request.json()));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+    const { plannedStartDate, plannedEndDate } = parsed.data;
+
+    await dbConnect();
+
+    const project: IProject | null = await Project.findOne({ projectId });
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const before = { plannedStartDate: project.plannedStartDate, plannedEndDate: project.plannedEndDate };
+    project.plannedStartDate = plannedStartDate ? new Date(plannedStartDate) : undefined;
+    project.plannedEndDate = plannedEndDate ? new Date(plannedEndDate) : undefined;
+    project.lastUpdated = new Date();
+    await project.save();
+
+    await AuditLog.create({
+      action: "update_project_plan",
+      userId: authSession.user.id,
+      details: {
+        projectId,
+        before,
+        after: { plannedStartDate: project.plannedStartDate, plannedEndDate: project.plannedEndDate },
+      },
+    });
+
+    return NextResponse.json(project);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to update project plan");
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import ProgressEntry, { IProgressEntry } from "@/models/ProgressEntry";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import cloudinary from "@/lib/cloudinary";
+import { handleError } from "@/lib/errorHandler";
+import { sanitizeInput } from "@/lib/security";
+import { progressEntrySchema } from "@/lib/validators";
+
+type RouteContext = { params: Promise<{ projectId: string; entryId: string }> };
+
+function destroyPhotos(photos: { publicId: string }[]) {
+  photos.forEach((photo) => {
+    cloudinary.uploader.destroy(photo.publicId).catch((err) => {
+      console.error(`Failed to delete image ${photo.publicId} from Cloudinary:`, err);
+    });
+  });
+}
+
+// PUT - Correct a progress entry; photos dropped from it are deleted from Cloudinary
+export async function PUT(request: Request, context: RouteContext) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId, entryId } = await context.params;
+    if (!mongoose.isValidObjectId(entryId)) {
+      return NextResponse.json({ error: "Progress entry not found" }, { status: 404 });
+    }
+
+    const parsed = progressEntrySchema.safeParse(sanitizeInput(await request.json()));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const entry: IProgressEntry | null = await ProgressEntry.findOne({ _id: entryId, projectId });
+    if (!entry) {
+      return NextResponse.json({ error: "Progress entry not found" }, { status: 404 });
+    }
+
+    const removedPhotos = entry.photos.filter(
+      (photo) => !parsed.data.photos.some((kept) => kept.publicId === photo.publicId)
+    );
+
+    const date = new Date(parsed.data.date);
+    date.setHours(0, 0, 0, 0);
+    entry.date = date;
+    entry.stage = parsed.data.stage;
+    entry.notes = parsed.data.notes || undefined;
+    entry.photos = parsed.data.photos;
+    await entry.save();
+
+    destroyPhotos(removedPhotos);
+
+    await AuditLog.create({
+      action: "update_progress_entry",
+      userId: authSession.user.id,
+      details: { projectId, entryId, date, stage: entry.stage, removedPhotos: removedPhotos.length },
+    });
+
+    return NextResponse.json(entry);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to update progress entry");
+  }
+}
+
+// DELETE - Remove a progress entry and its photos
+export async function DELETE(_request: Request, context: RouteContext) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId, entryId } = await context.params;
+    if (!mongoose.isValidObjectId(entryId)) {
+      return NextResponse.json({ error: "Progress entry not found" }, { status: 404 });
+    }
+
+    await dbConnect();
+
+    const entry: IProgressEntry | null = await ProgressEntry.findOneAndDelete({ _id: entryId, projectId });
+    if (!entry) {
+      return NextResponse.json({ error: "Progress entry not found" }, { status: 404 });
+    }
+
+    destroyPhotos(entry.photos);
+
+    await AuditLog.create({
+      action: "delete_progress_entry",
+      userId: authSession.user.id,
+      details: { projectId, entryId, date: entry.date, stage: entry.stage },
+    });
+
+    return NextResponse.json({ message: "Progress entry deleted" });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to delete progress entry");
+  }
+}
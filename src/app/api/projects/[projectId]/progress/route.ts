@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Project, { IProject } from "@/models/Project";
+import Invoice from "@/models/Invoice";
+import ProgressEntry from "@/models/ProgressEntry";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { sanitizeInput } from "@/lib/security";
+import { progressEntrySchema } from "@/lib/validators";
+import { getProgressEntries } from "@/lib/progress-entries";
+import { getInvoicePortalUrl } from "@/lib/payment-reminders";
+
+type RouteContext = { params: Promise<{ projectId: string }> };
+
+// GET - The project's progress log, and the client link when it is shared
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await context.params;
+    await dbConnect();
+
+    const project: IProject | null = await Project.findOne({ projectId }).select("_id projectId shareProgressWithClient");
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const invoice = await Invoice.findOne({ projectId }).select("invoiceId accessToken").lean<{
+      invoiceId: string;
+      accessToken: string;
+    }>();
+
+    return NextResponse.json({
+      entries: await getProgressEntries(project),
+      shareProgressWithClient: !!project.shareProgressWithClient,
+      clientUrl: invoice ? getInvoicePortalUrl(invoice.invoiceId, invoice.accessToken) : null,
+    });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch progress log");
+  }
+}
+
+// POST - Log a day's work on site
+export async function POST(request: Request, context: RouteContext) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await context.params;
+    const parsed = progressEntrySchema.safeParse(sanitizeInput(await request.json()));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const project = await Project.exists({ projectId });
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const date = new Date(parsed.data.date);
+    date.setHours(0, 0, 0, 0);
+
+    const entry = await ProgressEntry.create({
+      projectId,
+      date,
+      stage: parsed.data.stage,
+      notes: parsed.data.notes || undefined,
+      photos: parsed.data.photos,
+      createdBy: authSession.user.name || authSession.user.email || "admin",
+    });
+
+    await AuditLog.create({
+      action: "add_progress_entry",
+      userId: authSession.user.id,
+      details: { projectId, entryId: entry._id, date, stage: entry.stage, photos: entry.photos.length },
+    });
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to add progress entry");
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Project, { IProject } from "@/models/Project";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+
+// PUT - Turn the client's view of the progress log on or off
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    if (typeof body?.enabled !== "boolean") {
+      return NextResponse.json({ error: "enabled must be true or false" }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const project: IProject | null = await Project.findOne({ projectId });
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    project.shareProgressWithClient = body.enabled;
+    project.lastUpdated = new Date();
+    await project.save();
+
+    await AuditLog.create({
+      action: body.enabled ? "share_progress_log" : "unshare_progress_log",
+      userId: authSession.user.id,
+      details: { projectId },
+    });
+
+    return NextResponse.json(project);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to update progress sharing");
+  }
+}
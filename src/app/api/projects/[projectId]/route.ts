@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next";
 import dbConnect from "@/lib/mongodb";
 import Project, { IProject } from "@/models/Project";
 import Invoice from "@/models/Invoice";
+import GeneralInfo from "@/models/GeneralInfo";
 import AuditLog from "@/models/AuditLog";
 import { authOptions } from "@/lib/auth";
 import cloudinary from "@/lib/cloudinary";
@@ -10,7 +11,14 @@ import { handleError } from "@/lib/errorHandler";
 import { sanitizeInput } from "@/lib/security";
 import { updateProjectSchema } from "@/lib/validators";
 import { sendNotification } from "@/lib/notifications";
+import { computeTaxBreakdown, hasTaxChanged, TaxBreakdown, TaxInput } from "@/lib/gst";
 import mongoose from "mongoose";
+import { resolveClient } from "@/lib/client-records";
+import { getPaymentSettings } from "@/lib/payment-reminders";
+import { getInvoiceDueDate } from "@/lib/receivables";
+import { getBalanceDue } from "@/lib/payments";
+import { applyPaymentTotals, syncInvoicePayments } from "@/lib/project-payments";
+import { isSameMeasurementRef } from "@/lib/measurements";
 
 interface CloudinaryUploadResult {
   secure_url: string;
@@ -23,26 +31,25 @@ interface UpdateProjectData {
   clientName?: string;
   clientAddress?: string;
   clientNumber?: string;
+  clientId?: string | mongoose.Types.ObjectId;
   date?: string | Date;
   items?: IProject["items"];
   extraWork?: IProject["extraWork"];
   subtotal?: number;
   discount?: number;
   grandTotal?: number;
+  tax?: TaxInput | TaxBreakdown;
   amountDue?: number;
   terms?: string[];
   note?: string;
   siteImages?: { url: string; publicId: string }[];
   existingImages?: { url: string; publicId: string }[];
-  newPayment?: { amount: number; date?: string; note?: string };
   lastUpdated?: Date;
-  status?: "ongoing" | "completed";
   updateHistory?: {
     updatedAt: Date;
     updatedBy: string;
     changes: string[];
   }[];
-  $push?: { paymentHistory: { amount: number; date: Date; note?: string } };
 }
 
 export async function GET(
@@ -100,6 +107,7 @@ export async function PUT(
       clientName: sanitizeToString(formData.get("clientName")),
       clientAddress: sanitizeToString(formData.get("clientAddress")),
       clientNumber: sanitizeToString(formData.get("clientNumber")),
+      clientId: sanitizeToString(formData.get("clientId")) || undefined,
       date: sanitizeToString(formData.get("date")),
       discount: formData.get("discount") ? Number(formData.get("discount")) || 0 : undefined,
       note: sanitizeToString(formData.get("note")),
@@ -117,13 +125,13 @@ export async function PUT(
       data.existingImages = formData.get("existingImages")
         ? JSON.parse(sanitizeToString(formData.get("existingImages")) ?? "[]")
         : undefined;
-      data.newPayment = formData.get("newPayment")
-        ? JSON.parse(sanitizeToString(formData.get("newPayment")) ?? "{}")
+      data.tax = formData.get("tax")
+        ? JSON.parse(sanitizeToString(formData.get("tax")) ?? "{}")
         : undefined;
     } catch (error: unknown) {
       console.error("Error parsing JSON fields:", error);
       return NextResponse.json(
-        { error: "Invalid JSON in items, extraWork, existingImages, or newPayment" },
+        { error: "Invalid JSON in items, extraWork, existingImages, or tax" },
         { status: 400 }
       );
     }
@@ -200,6 +208,8 @@ export async function PUT(
         rate: item.rate,
         total: item.total ?? undefined,
         note: item.note,
+        hsnSac: item.hsnSac || undefined,
+        measurement: item.measurement ?? undefined,
       }));
     }
 
@@ -228,6 +238,28 @@ export async function PUT(
       ) {
         updateData.clientNumber = parsed.data.clientNumber;
       }
+      const existingClientId = existingProject.clientId?.toString();
+      if (
+        !existingClientId ||
+        (parsed.data.clientId !== undefined && parsed.data.clientId !== existingClientId) ||
+        updateData.clientName !== undefined ||
+        updateData.clientNumber !== undefined ||
+        updateData.clientAddress !== undefined
+      ) {
+        const client = await resolveClient(
+          {
+            clientId: parsed.data.clientId ?? existingClientId,
+            clientName: updateData.clientName ?? existingProject.clientName,
+            clientNumber: updateData.clientNumber ?? existingProject.clientNumber,
+            clientAddress: updateData.clientAddress ?? existingProject.clientAddress,
+            createdBy: authSession.user.id,
+          },
+          session
+        );
+        if (client._id.toString() !== existingClientId) {
+          updateData.clientId = client._id;
+        }
+      }
       if (
         parsed.data.date !== undefined &&
         parsed.data.date !== existingProject.date.toISOString()
@@ -244,7 +276,9 @@ export async function PUT(
               (existingItem.area ?? undefined) === (newItem.area ?? undefined) &&
               existingItem.rate === newItem.rate &&
               (existingItem.total ?? undefined) === (newItem.total ?? undefined) &&
-              (existingItem.note ?? '') === (newItem.note ?? '')
+              (existingItem.note ?? '') === (newItem.note ?? '') &&
+              (existingItem.hsnSac ?? '') === (newItem.hsnSac ?? '') &&
+              isSameMeasurementRef(existingItem.measurement, newItem.measurement)
           )
         );
         const removedItems = oldItems.filter(
@@ -254,7 +288,9 @@ export async function PUT(
               (newItem.area ?? undefined) === (existingItem.area ?? undefined) &&
               newItem.rate === existingItem.rate &&
               (existingItem.total ?? undefined) === (newItem.total ?? undefined) &&
-              (existingItem.note ?? '') === (newItem.note ?? '')
+              (existingItem.note ?? '') === (newItem.note ?? '') &&
+              (existingItem.hsnSac ?? '') === (newItem.hsnSac ?? '') &&
+              isSameMeasurementRef(newItem.measurement, existingItem.measurement)
           )
         );
         if (addedItems.length > 0 || removedItems.length > 0) {
@@ -296,12 +332,6 @@ export async function PUT(
       ) {
         updateData.discount = parsed.data.discount;
       }
-      if (
-        parsed.data.grandTotal !== undefined &&
-        parsed.data.grandTotal !== existingProject.grandTotal
-      ) {
-        updateData.grandTotal = parsed.data.grandTotal;
-      }
       if (parsed.data.terms !== undefined) {
         const oldTerms: string[] = existingProject.terms || [];
         const newTerms: string[] = parsed.data.terms || [];
@@ -339,29 +369,33 @@ export async function PUT(
           });
         }
       }
-      if (parsed.data.newPayment) {
-        updateData.$push = {
-          paymentHistory: {
-            ...parsed.data.newPayment,
-            date: new Date(parsed.data.newPayment.date || Date.now()),
-          },
-        };
-      }
     }
     updateData.lastUpdated = new Date();
 
-    const currentTotalPayments = existingProject.paymentHistory?.reduce(
-      (sum: number, payment: { amount: number }) => sum + payment.amount,
-      0
-    ) || 0;
-    const newPaymentAmount = parsed.data.newPayment?.amount || 0;
-    const totalPayments = currentTotalPayments + newPaymentAmount;
-    const grandTotal = parsed.data.grandTotal || existingProject.grandTotal || 0;
-    updateData.amountDue = grandTotal - totalPayments;
+    // GST and the grand total are recomputed from the (possibly updated) subtotal and discount
+    const generalInfo = await GeneralInfo.findOne();
+    const { tax, grandTotal } = computeTaxBreakdown({
+      subtotal: updateData.subtotal ?? existingProject.subtotal ?? 0,
+      discount: updateData.discount ?? existingProject.discount ?? 0,
+      tax: parsed.data.tax ?? existingProject.tax,
+      supplierGstNumber: generalInfo?.gstNumber,
+      defaultGstPercent: generalInfo?.gstPercent,
+    });
+    if (hasTaxChanged(existingProject.tax, tax)) {
+      updateData.tax = tax;
+    }
+    if (grandTotal !== existingProject.grandTotal) {
+      updateData.grandTotal = grandTotal;
+    }
 
-    updateData.status = updateData.amountDue === 0 ? "completed" : "ongoing";
+    updateData.amountDue = getBalanceDue({
+      grandTotal,
+      paymentHistory: existingProject.paymentHistory,
+      creditedAmount: existingProject.creditedAmount,
+      refundedAmount: existingProject.refundedAmount,
+    });
 
-    if (totalPayments > grandTotal) {
+    if (updateData.amountDue < 0) {
       return NextResponse.json({ error: "Total payments exceed grand total" }, { status: 400 });
     }
 
@@ -375,20 +409,27 @@ export async function PUT(
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
+    // Percentage milestones are worth a different amount once the total changes
+    applyPaymentTotals(project);
+    await project.save({ session });
+
     const invoice = await Invoice.findOne({ projectId }).session(session);
     if (invoice) {
+      const paymentTermsDays = invoice.paymentTermsDays ?? (await getPaymentSettings()).paymentTermsDays;
       const invoiceUpdate = {
         clientName: project.clientName,
         clientAddress: project.clientAddress,
         clientNumber: project.clientNumber,
+        clientId: project.clientId,
         date: project.date,
+        paymentTermsDays,
+        dueDate: getInvoiceDueDate(project.date, paymentTermsDays),
         items: project.items || [],
         extraWork: project.extraWork || [],
         subtotal: project.subtotal || 0,
         discount: project.discount || 0,
         grandTotal: project.grandTotal || 0,
-        paymentHistory: project.paymentHistory || [],
-        amountDue: project.amountDue || 0,
+        tax: project.tax,
         terms: project.terms || [],
         note: project.note,
         lastUpdated: new Date(),
@@ -398,12 +439,13 @@ export async function PUT(
         { $set: invoiceUpdate },
         { new: true, session }
       );
+      await syncInvoicePayments(project, session);
     }
 
     await AuditLog.create(
       [
         {
-          action: parsed.data.newPayment ? "add_project_payment" : "update_project",
+          action: "update_project",
           userId: authSession.user.id,
           details: { projectId },
         },
@@ -414,33 +456,7 @@ export async function PUT(
     await session.commitTransaction();
 
     // Send notifications
-    if (parsed.data.newPayment && parsed.data.newPayment.amount > 0) {
-      const invoiceUrl = `${process.env.NEXT_PUBLIC_FRONTEND_URL}/invoice/${invoice?.invoiceId || projectId}?token=${invoice?.accessToken || ""}`;
-      const templateVariables: Record<string, string> = {
-        "1": project.clientName, // Dear {{1}}
-        "2": parsed.data.newPayment.amount.toFixed(2), // Payment amount {{2}}
-        "3": project.quotationNumber || projectId, // Quotation #{{3}}
-        "4": (project.amountDue || 0).toFixed(2), // Amount Due {{4}}
-        "5": invoiceUrl, // View invoice {{5}}
-      };
-      const whatsappMessage = `Dear ${project.clientName}, we have received a payment of ₹${parsed.data.newPayment.amount.toFixed(2)} towards Quotation #${project.quotationNumber || projectId}. Amount Due: ₹${(project.amountDue || 0).toFixed(2)}. View invoice: ${invoiceUrl}`;
-
-      try {
-        await sendNotification({
-          to: project.clientNumber,
-          message: whatsappMessage,
-          action: "payment_received",
-          templateVariables,
-        });
-        console.log(`WhatsApp notification sent for payment on project ${projectId}`);
-      } catch (whatsappError: unknown) {
-        console.error(`WhatsApp Error for project ${projectId}:`, whatsappError);
-        return NextResponse.json({
-          project,
-          warning: "Project updated, but failed to send payment notification",
-        });
-      }
-    } else if (Object.keys(updateData).length > 0) {
+    if (Object.keys(updateData).length > 0) {
       const projectUrl = `${process.env.NEXT_PUBLIC_FRONTEND_URL}/projects/${projectId}`;
       const templateVariables: Record<string, string> = {
         "1": project.clientName, // Dear {{1}}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Project, { IProject } from "@/models/Project";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { siteLocationSchema } from "@/lib/validators";
+
+// PUT - Pin the site workers check in against, or unpin it with null
+export async function PUT(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await context.params;
+    const parsed = siteLocationSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const project: IProject | null = await Project.findOne({ projectId });
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const before = project.siteLocation;
+    project.siteLocation = parsed.data ?? undefined;
+    project.lastUpdated = new Date();
+    await project.save();
+
+    await AuditLog.create({
+      action: "update_site_location",
+      userId: authSession.user.id,
+      details: { projectId, before, after: project.siteLocation },
+    });
+
+    return NextResponse.json(project);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to update site location");
+  }
+}
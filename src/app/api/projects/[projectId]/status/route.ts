@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Project, { IProject } from "@/models/Project";
+import AuditLog from "@/models/AuditLog";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { sanitizeInput } from "@/lib/security";
+import { changeProjectStatusSchema } from "@/lib/validators";
+import { PROJECT_STATUS_LABELS, canChangeProjectStatus, isStatusReasonRequired } from "@/lib/project-status";
+
+// POST - Move the project to another work status, recording the change on its timeline
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await context.params;
+    const parsed = changeProjectStatusSchema.safeParse(sanitizeInput(await request.json()));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+    const { status, reason } = parsed.data;
+
+    await dbConnect();
+
+    const project: IProject | null = await Project.findOne({ projectId });
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const from = project.status;
+    if (!canChangeProjectStatus(from, status)) {
+      return NextResponse.json(
+        { error: `A project cannot move from ${PROJECT_STATUS_LABELS[from] || from} to ${PROJECT_STATUS_LABELS[status]}` },
+        { status: 400 }
+      );
+    }
+    if (isStatusReasonRequired(from, status) && !reason) {
+      return NextResponse.json(
+        { error: `A reason is required to move the project to ${PROJECT_STATUS_LABELS[status]}` },
+        { status: 400 }
+      );
+    }
+
+    const changedAt = new Date();
+    project.status = status;
+    project.statusHistory.push({
+      from,
+      to: status,
+      reason: reason || undefined,
+      changedBy: authSession.user.name || authSession.user.email || "admin",
+      changedAt,
+    });
+    project.lastUpdated = changedAt;
+    await project.save();
+
+    await AuditLog.create({
+      action: "change_project_status",
+      userId: authSession.user.id,
+      details: { projectId, from, to: status, reason },
+    });
+
+    return NextResponse.json(project);
+  } catch (error: unknown) {
+    return handleError(error, "Failed to change project status");
+  }
+}
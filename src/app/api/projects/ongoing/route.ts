@@ -3,8 +3,9 @@ import dbConnect from "@/lib/mongodb";
 import Project from "@/models/Project";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { ACTIVE_PROJECT_STATUSES } from "@/lib/project-status";
 
-// GET - Fetch list of ongoing projects
+// GET - Fetch list of projects that are scheduled or in progress
 export async function GET() {
     try {
         await dbConnect();
@@ -14,8 +15,8 @@ export async function GET() {
             return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
         }
 
-        const projects = await Project.find({ status: "ongoing" })
-            .select("projectId clientName clientAddress")
+        const projects = await Project.find({ status: { $in: ACTIVE_PROJECT_STATUSES } })
+            .select("projectId clientName clientAddress status plannedStartDate plannedEndDate")
             .sort({ createdAt: -1 })
             .lean();
 
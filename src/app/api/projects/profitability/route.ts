@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Project, { IProject } from "@/models/Project";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { computeProjectCostings } from "@/lib/project-costing";
+
+// GET - Cost and margin per project, newest first
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get("limit") || "10", 10)));
+    const status = (searchParams.get("status") || "").trim();
+    const query: Record<string, unknown> = {};
+
+    if (status && status !== "all") {
+      query.status = status;
+    }
+
+    await dbConnect();
+    const projects = await Project.find(query)
+      .select("projectId clientName status grandTotal tax paymentHistory creditedAmount refundedAmount")
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean<IProject[]>();
+
+    const costings = await computeProjectCostings(projects);
+    const totals = costings.reduce(
+      (sum, costing) => ({
+        revenue: sum.revenue + costing.revenue,
+        totalCost: sum.totalCost + costing.totalCost,
+        margin: sum.margin + costing.margin,
+      }),
+      { revenue: 0, totalCost: 0, margin: 0 }
+    );
+
+    return NextResponse.json({ projects: costings, totals });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch project profitability");
+  }
+}
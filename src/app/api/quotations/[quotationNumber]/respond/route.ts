@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import Quotation from "@/models/Quotation";
+import AuditLog from "@/models/AuditLog";
+import { handleError } from "@/lib/errorHandler";
+import { getClientIP, isValidAccessToken, sanitizeInput } from "@/lib/security";
+import { sendNotification } from "@/lib/notifications";
+import cloudinary from "@/lib/cloudinary";
+import mongoose from "mongoose";
+import { getQuotationPortalUrl, syncProjectWithAcceptedQuotation } from "@/lib/quotation-acceptance";
+
+const SIGNATURE_DATA_URL = /^data:image\/png;base64,[A-Za-z0-9+/=]+$/;
+const MAX_SIGNATURE_LENGTH = 500 * 1024;
+
+// Removes a signature uploaded for a response that was never saved
+function discardSignature(publicId: string) {
+  cloudinary.uploader.destroy(publicId).catch((err) => {
+    console.error(`Failed to delete signature ${publicId} from Cloudinary:`, err);
+  });
+}
+
+// POST - Client accepts (with signature) or rejects (with reason) via the portal link
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ quotationNumber: string }> }
+) {
+  const session = await mongoose.startSession();
+  let signatureImage: { url: string; publicId: string } | undefined;
+  try {
+    const { quotationNumber } = await context.params;
+    const body = await request.json();
+
+    const token = typeof body?.token === "string" ? body.token : "";
+    const decision = body?.decision === "accepted" || body?.decision === "rejected" ? body.decision : null;
+    const signerName = String(sanitizeInput(body?.signerName) ?? "").trim();
+    const reason = String(sanitizeInput(body?.reason) ?? "").trim();
+    const signature = typeof body?.signature === "string" ? body.signature : "";
+    const revision = typeof body?.revision === "string" ? body.revision : "";
+
+    if (!decision) {
+      return NextResponse.json({ error: "decision must be accepted or rejected" }, { status: 400 });
+    }
+    if (!signerName) {
+      return NextResponse.json({ error: "Please enter your full name" }, { status: 400 });
+    }
+    if (decision === "accepted" && !SIGNATURE_DATA_URL.test(signature)) {
+      return NextResponse.json({ error: "Please sign to accept the quotation" }, { status: 400 });
+    }
+    if (signature.length > MAX_SIGNATURE_LENGTH) {
+      return NextResponse.json({ error: "Signature image is too large" }, { status: 400 });
+    }
+    if (decision === "rejected" && !reason) {
+      return NextResponse.json({ error: "Please tell us why you are rejecting" }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const current = await Quotation.findOne({ quotationNumber });
+    if (!current) {
+      return NextResponse.json({ error: "Quotation not found" }, { status: 404 });
+    }
+
+    if (!isValidAccessToken(current.accessToken, token)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (current.isAccepted !== "pending") {
+      return NextResponse.json(
+        { error: `This quotation has already been ${current.isAccepted}` },
+        { status: 409 }
+      );
+    }
+
+    // The follow-up job may not have run yet; the validity window still applies
+    if (current.expiresAt && current.expiresAt <= new Date()) {
+      return NextResponse.json(
+        {
+          error: `This quotation expired on ${current.expiresAt.toLocaleDateString("en-IN")}. Please contact us for a revised quotation.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // A client holding a link to an older revision must not accept superseded prices
+    if (revision && current.currentRevision && revision !== current.currentRevision) {
+      return NextResponse.json(
+        { error: `Rev ${revision} has been replaced by Rev ${current.currentRevision}. Please review the latest revision.` },
+        { status: 409 }
+      );
+    }
+
+    // Uploaded before the transaction starts so a slow upload doesn't hold it open
+    if (decision === "accepted") {
+      const upload = await cloudinary.uploader.upload(signature, { folder: "quotation-signatures" });
+      signatureImage = { url: upload.secure_url, publicId: upload.public_id };
+    }
+
+    session.startTransaction();
+
+    // Another response may have been saved while the signature was uploading
+    const quotation = await Quotation.findOne({ _id: current._id, isAccepted: "pending" }).session(session);
+    if (!quotation) {
+      await session.abortTransaction();
+      if (signatureImage) discardSignature(signatureImage.publicId);
+      return NextResponse.json({ error: "This quotation has already been responded to" }, { status: 409 });
+    }
+
+    quotation.isAccepted = decision;
+    quotation.lastUpdated = new Date();
+    quotation.acceptanceRecords.push({
+      decision,
+      signerName,
+      signature: signatureImage,
+      reason: decision === "rejected" ? reason : undefined,
+      grandTotal: quotation.grandTotal,
+      revision: quotation.currentRevision,
+      ipAddress: getClientIP(request),
+      userAgent: request.headers.get("user-agent") || undefined,
+      respondedAt: new Date(),
+    });
+    await quotation.save({ session });
+
+    if (decision === "accepted") {
+      await syncProjectWithAcceptedQuotation(quotation, quotation.createdBy, session);
+    }
+
+    await AuditLog.create(
+      [
+        {
+          action: "update_quotation_status",
+          userId: quotation.createdBy,
+          details: { quotationNumber, decision, signerName, via: "client_portal" },
+          createdAt: new Date(),
+        },
+      ],
+      { session }
+    );
+
+    await session.commitTransaction();
+
+    const quotationUrl = getQuotationPortalUrl(quotationNumber, quotation.accessToken);
+    try {
+      await sendNotification({
+        to: quotation.clientNumber,
+        message: `Dear ${quotation.clientName}, you have ${decision} Quotation #${quotationNumber}. Thank you! View details: ${quotationUrl}`,
+        action: decision === "accepted" ? "quotation_accepted" : "quotation_rejected",
+        templateVariables: {
+          "1": quotation.clientName, // Dear {{1}}
+          "2": quotationNumber, // Quotation #{{2}}
+          "3": quotationUrl, // View details: {{3}}
+        },
+      });
+    } catch (error: unknown) {
+      console.error(`Failed to send WhatsApp notification for quotation ${quotationNumber}:`, error);
+    }
+
+    return NextResponse.json({
+      isAccepted: quotation.isAccepted,
+      lastUpdated: quotation.lastUpdated,
+      acceptanceRecords: quotation.acceptanceRecords,
+    });
+  } catch (error: unknown) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+      if (signatureImage) discardSignature(signatureImage.publicId);
+    }
+    console.error("POST /api/quotations/[quotationNumber]/respond error:", error);
+    return handleError(error, "Failed to record quotation response");
+  } finally {
+    session.endSession();
+  }
+}
@@ -2,28 +2,42 @@ import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import dbConnect from "@/lib/mongodb";
 import Quotation, { IQuotation } from "@/models/Quotation";
-import Project, { IProject } from "@/models/Project";
-import Invoice, { IInvoice } from "@/models/Invoice";
+import Project from "@/models/Project";
+import Invoice from "@/models/Invoice";
+import GeneralInfo from "@/models/GeneralInfo";
 import AuditLog from "@/models/AuditLog";
 import { authOptions } from "@/lib/auth";
-import { generateProjectId } from "@/lib/generateProjectId";
-import { generateInvoiceId } from "@/lib/generateInvoiceId";
 import { handleError } from "@/lib/errorHandler";
-import { sanitizeInput } from "@/lib/security";
+import { isValidAccessToken, sanitizeInput } from "@/lib/security";
 import { updateQuotationSchema } from "@/lib/validators";
 import { sendNotification } from "@/lib/notifications";
 import mongoose from "mongoose";
 import cloudinary from "@/lib/cloudinary";
-import { randomBytes } from "crypto";
 import { NotificationAction } from "@/lib/notifications";
+import { computeTaxBreakdown, hasTaxChanged, TaxInput } from "@/lib/gst";
+import { isSameMeasurementRef } from "@/lib/measurements";
+import {
+  buildRevisionSnapshot,
+  QuotationRevisionSnapshot,
+  REVISIONED_FIELDS,
+} from "@/lib/quotation-revisions";
+import {
+  generateQuotationAccessToken,
+  getQuotationPortalUrl,
+  syncProjectWithAcceptedQuotation,
+} from "@/lib/quotation-acceptance";
+import { getQuotationExpiry } from "@/lib/quotation-expiry";
+import { resolveClient } from "@/lib/client-records";
 
 interface CloudinaryUploadResult {
   secure_url: string;
   public_id: string;
 }
 
-interface UpdateQuotationData extends Partial<IQuotation> {
+interface UpdateQuotationData extends Omit<Partial<IQuotation>, "tax" | "clientId"> {
   existingImages?: { url: string; publicId: string; description?: string }[];
+  tax?: TaxInput;
+  clientId?: string;
 }
 
 export async function PUT(
@@ -44,7 +58,20 @@ export async function PUT(
       return typeof sanitized === "string" ? sanitized : undefined;
     };
 
-    // Extract isAccepted to check if this is a status-only update
+    // Clients respond through the signed portal link (see ./respond); only admins
+    // may edit a quotation or override its status here.
+    const authSession = await getServerSession(authOptions);
+    if (!authSession || authSession.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!authSession.user.id) {
+      return NextResponse.json(
+        { error: "User ID not found in session" },
+        { status: 401 }
+      );
+    }
+    const userId = authSession.user.id;
+
     const isAcceptedValue = sanitizeToString(formData.get("isAccepted")) as
       | "pending"
       | "accepted"
@@ -56,25 +83,6 @@ export async function PUT(
       Array.from(formData.keys()).filter((key) => key !== "isAccepted")
         .length === 0;
 
-    // If it's not a status-only update, perform authentication check
-    let userId: string;
-    if (!isStatusOnlyUpdate) {
-      const authSession = await getServerSession(authOptions);
-      if (!authSession || authSession.user.role !== "admin") {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-      }
-      if (!authSession.user.id) {
-        return NextResponse.json(
-          { error: "User ID not found in session" },
-          { status: 401 }
-        );
-      }
-      userId = authSession.user.id;
-    } else {
-      // For status-only updates, we'll get the owner ID from the quotation later
-      userId = "temporary-placeholder"; // Will be replaced with actual creator ID
-    }
-
     // Only build clientMobile object if data is actually provided
     const mobileNumber = sanitizeToString(formData.get("clientMobile[number]"));
     const mobileCountryCode = sanitizeToString(formData.get("clientMobile[countryCode]"));
@@ -93,7 +101,7 @@ export async function PUT(
       date: sanitizeToString(formData.get("date"))
         ? new Date(sanitizeToString(formData.get("date"))!)
         : undefined,
-      discount: formData.get("formData")
+      discount: formData.get("discount")
         ? Number(formData.get("discount")) || 0
         : undefined,
       note: sanitizeToString(formData.get("note")),
@@ -103,7 +111,11 @@ export async function PUT(
       grandTotal: formData.get("grandTotal")
         ? Number(formData.get("grandTotal")) || 0
         : undefined,
+      validityDays: formData.get("validityDays")
+        ? Number(formData.get("validityDays"))
+        : undefined,
       isAccepted: isAcceptedValue,
+      clientId: sanitizeToString(formData.get("clientId")) || undefined,
     };
 
     try {
@@ -113,9 +125,15 @@ export async function PUT(
       data.existingImages = formData.get("existingImages")
         ? JSON.parse(sanitizeToString(formData.get("existingImages")) ?? "[]")
         : [];
+      data.tax = formData.get("tax")
+        ? JSON.parse(sanitizeToString(formData.get("tax")) ?? "{}")
+        : undefined;
+      data.measurements = formData.get("measurements")
+        ? JSON.parse(sanitizeToString(formData.get("measurements")) ?? "[]")
+        : undefined;
     } catch {
       return NextResponse.json(
-        { error: "Invalid JSON in items or existingImages" },
+        { error: "Invalid JSON in items, existingImages, tax or measurements" },
         { status: 400 }
       );
     }
@@ -139,7 +157,7 @@ export async function PUT(
       description?: string;
     }[] = data.existingImages || [];
 
-    // Only process image uploads for admin users
+    // Status-only updates carry no images
     if (!isStatusOnlyUpdate) {
       for (const [key, value] of formData.entries()) {
         if (key.startsWith("siteImages[") && !key.includes(".description")) {
@@ -202,18 +220,10 @@ export async function PUT(
       );
     }
 
-    // For status-only updates, set userId to the creator's ID
-    if (isStatusOnlyUpdate) {
-      // Ensure userId is always a string, not undefined
-      userId = existingQuotation.createdBy;
-    }
-
-    // Safeguard against undefined userId
-    if (!userId) {
-      return NextResponse.json({ error: "User ID not found" }, { status: 401 });
-    }
-
     const updateData: Partial<IQuotation> = {};
+    if (!existingQuotation.accessToken) {
+      updateData.accessToken = generateQuotationAccessToken();
+    }
 
     if (parsed.data) {
       // Only process non-status fields if this is not a status-only update
@@ -259,7 +269,9 @@ export async function PUT(
                   (oldItem.area ?? null) === (newItem.area ?? null) &&
                   oldItem.rate === newItem.rate &&
                   (oldItem.total ?? null) === (newItem.total ?? null) &&
-                  (oldItem.note ?? "") === (newItem.note ?? "")
+                  (oldItem.note ?? "") === (newItem.note ?? "") &&
+                  (oldItem.hsnSac ?? "") === (newItem.hsnSac ?? "") &&
+                  isSameMeasurementRef(oldItem.measurement, newItem.measurement)
               )
           );
           const removedItems = oldItems.filter(
@@ -270,13 +282,28 @@ export async function PUT(
                   (newItem.area ?? null) === (oldItem.area ?? null) &&
                   newItem.rate === oldItem.rate &&
                   (newItem.total ?? null) === (newItem.total ?? null) &&
-                  (newItem.note ?? "") === (newItem.note ?? "")
+                  (newItem.note ?? "") === (newItem.note ?? "") &&
+                  (newItem.hsnSac ?? "") === (oldItem.hsnSac ?? "") &&
+                  isSameMeasurementRef(newItem.measurement, oldItem.measurement)
               )
           );
           if (addedItems.length > 0 || removedItems.length > 0) {
             updateData.items = newItems;
           }
         }
+        if (
+          parsed.data.validityDays !== undefined &&
+          parsed.data.validityDays !== existingQuotation.validityDays
+        ) {
+          updateData.validityDays = parsed.data.validityDays;
+        }
+        if (
+          parsed.data.measurements !== undefined &&
+          JSON.stringify(parsed.data.measurements) !==
+          JSON.stringify(existingQuotation.toObject().measurements || [])
+        ) {
+          updateData.measurements = parsed.data.measurements;
+        }
         if (
           parsed.data.subtotal !== undefined &&
           parsed.data.subtotal !== existingQuotation.subtotal
@@ -290,10 +317,25 @@ export async function PUT(
           updateData.discount = parsed.data.discount;
         }
         if (
-          parsed.data.grandTotal !== undefined &&
-          parsed.data.grandTotal !== existingQuotation.grandTotal
+          parsed.data.tax !== undefined ||
+          updateData.subtotal !== undefined ||
+          updateData.discount !== undefined
         ) {
-          updateData.grandTotal = parsed.data.grandTotal;
+          // Recompute GST against the latest amounts; the client-sent grandTotal is ignored
+          const generalInfo = await GeneralInfo.findOne();
+          const { tax, grandTotal } = computeTaxBreakdown({
+            subtotal: updateData.subtotal ?? existingQuotation.subtotal ?? 0,
+            discount: updateData.discount ?? existingQuotation.discount ?? 0,
+            tax: parsed.data.tax ?? existingQuotation.tax,
+            supplierGstNumber: generalInfo?.gstNumber,
+            defaultGstPercent: generalInfo?.gstPercent,
+          });
+          if (hasTaxChanged(existingQuotation.tax, tax)) {
+            updateData.tax = tax;
+          }
+          if (grandTotal !== existingQuotation.grandTotal) {
+            updateData.grandTotal = grandTotal;
+          }
         }
         if (parsed.data.terms !== undefined) {
           const oldTerms: string[] = existingQuotation.terms || [];
@@ -347,25 +389,84 @@ export async function PUT(
         }
       }
 
-      // Process status update for both admin and client
+      // Manual status override by an admin
       if (
         parsed.data.isAccepted !== undefined &&
         parsed.data.isAccepted !== existingQuotation.isAccepted
       ) {
         updateData.isAccepted = parsed.data.isAccepted;
       } else if (
-        !isStatusOnlyUpdate && // Only reset pending status for admin updates
+        !isStatusOnlyUpdate &&
         existingQuotation.isAccepted !== "pending" &&
-        Object.keys(updateData).length > 0
+        Object.keys(updateData).some((key) => key !== "accessToken")
       ) {
         updateData.isAccepted = "pending";
       }
+
+      const validityDays = updateData.validityDays ?? existingQuotation.validityDays;
+      if (updateData.date !== undefined || updateData.validityDays !== undefined) {
+        updateData.expiresAt =
+          getQuotationExpiry(updateData.date ?? existingQuotation.date, validityDays) ?? undefined;
+      }
+      // Re-opening an expired quotation starts a fresh validity window from today
+      if (existingQuotation.isAccepted === "expired" && updateData.isAccepted === "pending") {
+        const expiresAt = updateData.expiresAt ?? existingQuotation.expiresAt;
+        if (!expiresAt || expiresAt <= new Date()) {
+          updateData.expiresAt = getQuotationExpiry(new Date(), validityDays) ?? undefined;
+        }
+      }
+
+      // Linked after the status check above: attaching a legacy quotation to its client is not an edit
+      const existingClientId = existingQuotation.clientId?.toString();
+      if (
+        !isStatusOnlyUpdate &&
+        (!existingClientId ||
+          (parsed.data.clientId !== undefined && parsed.data.clientId !== existingClientId) ||
+          updateData.clientName !== undefined ||
+          updateData.clientNumber !== undefined ||
+          updateData.clientAddress !== undefined)
+      ) {
+        const client = await resolveClient(
+          {
+            clientId: parsed.data.clientId ?? existingClientId,
+            clientName: updateData.clientName ?? existingQuotation.clientName,
+            clientNumber: updateData.clientNumber ?? existingQuotation.clientNumber,
+            clientAddress: updateData.clientAddress ?? existingQuotation.clientAddress,
+            createdBy: userId,
+          },
+          session
+        );
+        if (client._id.toString() !== existingClientId) {
+          updateData.clientId = client._id;
+        }
+      }
     }
     updateData.lastUpdated = new Date();
 
+    // Any change to the priced content is kept as a new immutable revision
+    const newRevisions: QuotationRevisionSnapshot[] = [];
+    if (REVISIONED_FIELDS.some((field) => updateData[field] !== undefined)) {
+      const current = existingQuotation.toObject();
+      const previousRevisions: QuotationRevisionSnapshot[] = current.revisions || [];
+      if (previousRevisions.length === 0) {
+        // Quotations created before revisions existed get their current content as Rev A
+        newRevisions.push(buildRevisionSnapshot(current, 0, current.createdBy));
+      }
+      newRevisions.push(
+        buildRevisionSnapshot(
+          { ...current, ...updateData },
+          previousRevisions.length + newRevisions.length,
+          userId
+        )
+      );
+      updateData.currentRevision = newRevisions[newRevisions.length - 1].label;
+    }
+
     const updatedQuotation = await Quotation.findOneAndUpdate(
       { quotationNumber },
-      { $set: updateData },
+      newRevisions.length > 0
+        ? { $set: updateData, $push: { revisions: { $each: newRevisions } } }
+        : { $set: updateData },
       { new: true, session }
     );
 
@@ -377,138 +478,7 @@ export async function PUT(
     }
 
     if (parsed.data?.isAccepted === "accepted") {
-      const existingProject = await Project.findOne({
-        quotationNumber,
-      }).session(session);
-      if (existingProject) {
-        const projectUpdate: Partial<IProject> = {
-          clientName: updatedQuotation.clientName,
-          clientAddress: updatedQuotation.clientAddress,
-          clientNumber: updatedQuotation.clientNumber,
-          date: updatedQuotation.date,
-          items: updatedQuotation.items,
-          subtotal: updatedQuotation.subtotal,
-          discount: updatedQuotation.discount,
-          grandTotal: updatedQuotation.grandTotal,
-          amountDue: updatedQuotation.grandTotal || 0,
-          terms: updatedQuotation.terms,
-          note: updatedQuotation.note,
-          lastUpdated: new Date(),
-          status: "ongoing",
-        };
-        const updatedProject = await Project.findOneAndUpdate(
-          { quotationNumber },
-          { $set: projectUpdate },
-          { new: true, session }
-        );
-        if (!updatedProject) {
-          throw new Error(
-            `Failed to update project for quotation ${quotationNumber}`
-          );
-        }
-        console.log(`Project updated for quotation ${quotationNumber}`);
-
-        const invoice = await Invoice.findOne({
-          quotationNumber,
-          projectId: existingProject.projectId,
-        }).session(session);
-        if (invoice) {
-          const totalPayments =
-            existingProject.paymentHistory?.reduce(
-              (sum: number, payment: { amount: number }) =>
-                sum + payment.amount,
-              0
-            ) || 0;
-          const invoiceUpdate: Partial<IInvoice> = {
-            clientName: updatedQuotation.clientName,
-            clientAddress: updatedQuotation.clientAddress,
-            clientNumber: updatedQuotation.clientNumber,
-            date: updatedQuotation.date,
-            items: updatedQuotation.items,
-            subtotal: updatedQuotation.subtotal || 0,
-            discount: updatedQuotation.discount || 0,
-            grandTotal: updatedQuotation.grandTotal || 0,
-            amountDue: (updatedQuotation.grandTotal || 0) - totalPayments,
-            lastUpdated: new Date(),
-            terms: updatedQuotation.terms,
-            note: updatedQuotation.note,
-          };
-          const updatedInvoice = await Invoice.findOneAndUpdate(
-            { quotationNumber, projectId: existingProject.projectId },
-            { $set: invoiceUpdate },
-            { new: true, session }
-          );
-          if (!updatedInvoice) {
-            throw new Error(
-              `Failed to update invoice for quotation ${quotationNumber}`
-            );
-          }
-          console.log(`Invoice updated for quotation ${quotationNumber}`);
-        }
-      } else {
-        const projectId = await generateProjectId();
-        const projectData: Partial<IProject> = {
-          projectId,
-          quotationNumber,
-          clientName: updatedQuotation.clientName,
-          clientAddress: updatedQuotation.clientAddress,
-          clientNumber: updatedQuotation.clientNumber,
-          date: updatedQuotation.date,
-          items: updatedQuotation.items,
-          extraWork: [],
-          subtotal: updatedQuotation.subtotal,
-          discount: updatedQuotation.discount,
-          grandTotal: updatedQuotation.grandTotal,
-          amountDue: updatedQuotation.grandTotal || 0,
-          paymentHistory: [],
-          siteImages: [],
-          terms: updatedQuotation.terms,
-          note: updatedQuotation.note,
-          createdAt: new Date(),
-          createdBy: userId,
-          status: "ongoing",
-        };
-        const newProject = await Project.create([projectData], { session });
-        if (!newProject || newProject.length === 0) {
-          throw new Error(
-            `Failed to create project for quotation ${quotationNumber}`
-          );
-        }
-        console.log(
-          `Project ${projectId} created for quotation ${quotationNumber}`
-        );
-
-        const invoiceId = await generateInvoiceId();
-        const invoiceData: Partial<IInvoice> = {
-          invoiceId,
-          projectId,
-          quotationNumber,
-          clientName: updatedQuotation.clientName,
-          clientAddress: updatedQuotation.clientAddress,
-          clientNumber: updatedQuotation.clientNumber,
-          date: updatedQuotation.date,
-          items: updatedQuotation.items,
-          extraWork: [],
-          subtotal: updatedQuotation.subtotal || 0,
-          discount: updatedQuotation.discount || 0,
-          grandTotal: updatedQuotation.grandTotal || 0,
-          amountDue: updatedQuotation.grandTotal || 0,
-          paymentHistory: [],
-          accessToken: randomBytes(16).toString("hex"),
-          createdAt: new Date(),
-          terms: updatedQuotation.terms,
-          note: updatedQuotation.note,
-        };
-        const newInvoice = await Invoice.create([invoiceData], { session });
-        if (!newInvoice || newInvoice.length === 0) {
-          throw new Error(
-            `Failed to create invoice for quotation ${quotationNumber}`
-          );
-        }
-        console.log(
-          `Invoice ${invoiceId} created for quotation ${quotationNumber}`
-        );
-      }
+      await syncProjectWithAcceptedQuotation(updatedQuotation, userId, session);
     }
 
     // Add to audit log
@@ -530,7 +500,7 @@ export async function PUT(
 
     await session.commitTransaction();
 
-    const quotationUrl = `${process.env.NEXT_PUBLIC_FRONTEND_URL}/quotations/${quotationNumber}`;
+    const quotationUrl = getQuotationPortalUrl(quotationNumber, updatedQuotation.accessToken);
     let whatsappMessage: string;
     let templateVariables: Record<string, string>;
     let action: NotificationAction;
@@ -600,6 +570,7 @@ export async function GET(
 ) {
   try {
     const { quotationNumber } = await context.params;
+    const token = new URL(request.url).searchParams.get("token") || "";
     await dbConnect();
 
     const quotation = await Quotation.findOne({
@@ -612,6 +583,19 @@ export async function GET(
       );
     }
 
+    const authSession = await getServerSession(authOptions);
+    if (authSession?.user.role === "admin") {
+      if (!quotation.accessToken) {
+        quotation.accessToken = generateQuotationAccessToken();
+        await quotation.save();
+      }
+      return NextResponse.json(quotation);
+    }
+
+    if (!isValidAccessToken(quotation.accessToken, token)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     return NextResponse.json(quotation);
   } catch (error: unknown) {
     return handleError(error, "Failed to fetch quotation");
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import Quotation, { IQuotation } from "@/models/Quotation";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET - Pending quotations whose validity ends within the next `days` days, soonest first
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(90, Math.max(1, parseInt(searchParams.get("days") || "7", 10) || 7));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get("limit") || "10", 10) || 10));
+    const now = new Date();
+
+    await dbConnect();
+    const quotations = await Quotation.find({
+      isAccepted: "pending",
+      expiresAt: { $gt: now, $lte: new Date(now.getTime() + days * DAY_MS) },
+    })
+      .select("quotationNumber clientName clientNumber date grandTotal validityDays expiresAt followUps isAccepted")
+      .sort({ expiresAt: 1 })
+      .limit(limit)
+      .lean<IQuotation[]>();
+
+    return NextResponse.json({ quotations });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch expiring quotations");
+  }
+}
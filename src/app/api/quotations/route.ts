@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import dbConnect from "@/lib/mongodb";
 import Quotation, { IQuotation } from "@/models/Quotation";
+import GeneralInfo from "@/models/GeneralInfo";
 import AuditLog from "@/models/AuditLog";
 import { authOptions } from "@/lib/auth";
 import { handleError } from "@/lib/errorHandler";
@@ -11,14 +12,21 @@ import { sendNotification } from "@/lib/notifications";
 import { generateQuotationNumber } from "@/lib/generateQuotationNumber";
 import cloudinary from "@/lib/cloudinary";
 import { apiRateLimiter } from "@/lib/rateLimiter";
+import { computeTaxBreakdown, TaxInput } from "@/lib/gst";
+import { generateQuotationAccessToken, getQuotationPortalUrl } from "@/lib/quotation-acceptance";
+import { buildRevisionSnapshot } from "@/lib/quotation-revisions";
+import { getQuotationExpiry } from "@/lib/quotation-expiry";
+import { resolveClient } from "@/lib/client-records";
 
 interface CloudinaryUploadResult {
   secure_url: string;
   public_id: string;
 }
 
-interface UpdateQuotationData extends Partial<IQuotation> {
+interface UpdateQuotationData extends Omit<Partial<IQuotation>, "tax" | "clientId"> {
   existingImages?: { url: string; publicId: string; description?: string }[];
+  tax?: TaxInput;
+  clientId?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -57,6 +65,8 @@ export async function POST(request: NextRequest) {
       note: sanitizeToString(formData.get("note")),
       subtotal: formData.get("subtotal") ? Number(formData.get("subtotal")) || 0 : undefined,
       grandTotal: formData.get("grandTotal") ? Number(formData.get("grandTotal")) || 0 : undefined,
+      validityDays: formData.get("validityDays") ? Number(formData.get("validityDays")) : undefined,
+      clientId: sanitizeToString(formData.get("clientId")) || undefined,
     };
 
     console.log("Parsed data (before items and existingImages):", data);
@@ -66,12 +76,16 @@ export async function POST(request: NextRequest) {
       data.existingImages = formData.get("existingImages")
         ? JSON.parse(sanitizeToString(formData.get("existingImages")) ?? "[]")
         : [];
+      data.tax = formData.get("tax") ? JSON.parse(sanitizeToString(formData.get("tax")) ?? "{}") : undefined;
+      data.measurements = formData.get("measurements")
+        ? JSON.parse(sanitizeToString(formData.get("measurements")) ?? "[]")
+        : undefined;
       console.log("Parsed items:", data.items);
       console.log("Parsed existingImages:", data.existingImages);
     } catch (error: unknown) {
       console.error("JSON parsing error:", error);
       return NextResponse.json(
-        { error: "Invalid JSON in items or existingImages" },
+        { error: "Invalid JSON in items, existingImages, tax or measurements" },
         { status: 400 }
       );
     }
@@ -155,23 +169,49 @@ export async function POST(request: NextRequest) {
     const quotationNumber = await generateQuotationNumber();
     console.log("Generated quotation number:", quotationNumber);
 
+    // Tax amounts and the grand total are always derived server-side from GeneralInfo
+    const generalInfo = await GeneralInfo.findOne();
+    const { tax, grandTotal } = computeTaxBreakdown({
+      subtotal: parsed.data.subtotal,
+      discount: parsed.data.discount,
+      tax: parsed.data.tax,
+      supplierGstNumber: generalInfo?.gstNumber,
+      defaultGstPercent: generalInfo?.gstPercent,
+    });
+
+    const client = await resolveClient({
+      clientId: parsed.data.clientId,
+      clientName: parsed.data.clientName,
+      clientNumber: parsed.data.clientNumber!,
+      clientAddress: parsed.data.clientAddress,
+      createdBy: session.user.id,
+    });
+
     const quotationData: Partial<IQuotation> = {
       quotationNumber,
       clientName: parsed.data.clientName,
       clientAddress: parsed.data.clientAddress,
       clientNumber: parsed.data.clientNumber!, // Ensured by validation or manual construct if needed, but schema makes it optional? No, previous step made it optional. But we populate it in FormData.
       clientMobile: parsed.data.clientMobile,
+      clientId: client._id,
       date: parsed.data.date,
       items: parsed.data.items,
+      measurements: parsed.data.measurements || [],
       subtotal: parsed.data.subtotal,
       discount: parsed.data.discount,
-      grandTotal: parsed.data.grandTotal,
+      grandTotal,
+      tax,
       terms: parsed.data.terms || [],
       note: parsed.data.note,
+      validityDays: parsed.data.validityDays,
+      expiresAt: getQuotationExpiry(parsed.data.date, parsed.data.validityDays) ?? undefined,
       createdBy: session.user.id,
       isAccepted: "pending",
+      accessToken: generateQuotationAccessToken(),
       siteImages: parsed.data.siteImages || [],
     };
+    quotationData.revisions = [buildRevisionSnapshot(quotationData as IQuotation, 0, session.user.id)];
+    quotationData.currentRevision = quotationData.revisions[0].label;
 
     const quotation = await Quotation.create(quotationData);
     console.log("Created quotation:", quotation);
@@ -192,11 +232,11 @@ export async function POST(request: NextRequest) {
       "1": quotation.clientName, // Dear {{1}}
       "2": quotationNumber, // Quotation #{{2}}
       "3": (quotation.grandTotal?.toFixed(2) || "0.00"), // Grand Total: ₹{{3}}
-      "4": `${process.env.NEXT_PUBLIC_FRONTEND_URL}/quotations/${quotationNumber}`, // View details: {{4}}
+      "4": getQuotationPortalUrl(quotationNumber, quotation.accessToken), // View details: {{4}}
     };
 
     // Fallback freeform message (for session window)
-    const whatsappMessage = `Dear ${quotation.clientName}, your Quotation #${quotationNumber} has been created. Grand Total: ₹${quotation.grandTotal?.toFixed(2) || "0.00"}. View details: ${process.env.NEXT_PUBLIC_FRONTEND_URL}/quotations/${quotationNumber}`;
+    const whatsappMessage = `Dear ${quotation.clientName}, your Quotation #${quotationNumber} has been created. Grand Total: ₹${quotation.grandTotal?.toFixed(2) || "0.00"}. View details: ${getQuotationPortalUrl(quotationNumber, quotation.accessToken)}`;
 
     try {
       await sendNotification({
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import QuotationTemplate from "@/models/QuotationTemplate";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { updateQuotationTemplateSchema } from "@/lib/validators";
+
+type Params = { params: Promise<{ templateId: string }> };
+
+// GET - Single template
+export async function GET(_request: Request, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { templateId } = await params;
+
+    await dbConnect();
+    const template = await QuotationTemplate.findById(templateId).lean();
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch quotation template");
+  }
+}
+
+// PUT - Update a template
+export async function PUT(request: Request, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { templateId } = await params;
+    const data = updateQuotationTemplateSchema.parse(await request.json());
+
+    await dbConnect();
+
+    const template = await QuotationTemplate.findById(templateId);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    const name = data.name ?? template.name;
+    const serviceCategory = data.serviceCategory ?? template.serviceCategory;
+    if (name !== template.name || serviceCategory !== template.serviceCategory) {
+      const duplicate = await QuotationTemplate.exists({ _id: { $ne: template._id }, name, serviceCategory });
+      if (duplicate) {
+        return NextResponse.json(
+          { error: "A template with this name already exists for the service" },
+          { status: 409 }
+        );
+      }
+    }
+
+    template.set(data);
+    await template.save();
+
+    return NextResponse.json({ template });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data", details: error.message }, { status: 400 });
+    }
+    return handleError(error, "Failed to update quotation template");
+  }
+}
+
+// DELETE - Remove a template; quotations started from it are unaffected
+export async function DELETE(_request: Request, { params }: Params) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { templateId } = await params;
+
+    await dbConnect();
+    const template = await QuotationTemplate.findByIdAndDelete(templateId);
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Template deleted" });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to delete quotation template");
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import dbConnect from "@/lib/mongodb";
+import QuotationTemplate from "@/models/QuotationTemplate";
+import { authOptions } from "@/lib/auth";
+import { handleError } from "@/lib/errorHandler";
+import { quotationTemplateSchema } from "@/lib/validators";
+
+// GET - Quotation templates, optionally for one service
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const service = (searchParams.get("service") || "").trim();
+    const query: Record<string, unknown> = {};
+
+    if (service && service !== "all") {
+      query.serviceCategory = service;
+    }
+
+    await dbConnect();
+    const templates = await QuotationTemplate.find(query).sort({ serviceCategory: 1, name: 1 }).lean();
+
+    return NextResponse.json({ templates });
+  } catch (error: unknown) {
+    return handleError(error, "Failed to fetch quotation templates");
+  }
+}
+
+// POST - Save a quotation template
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "admin") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const data = quotationTemplateSchema.parse(await request.json());
+
+    await dbConnect();
+
+    const duplicate = await QuotationTemplate.exists({ name: data.name, serviceCategory: data.serviceCategory });
+    if (duplicate) {
+      return NextResponse.json(
+        { error: "A template with this name already exists for the service" },
+        { status: 409 }
+      );
+    }
+
+    const template = await QuotationTemplate.create({ ...data, createdBy: session.user.id });
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json({ error: "Invalid input data", details: error.message }, { status: 400 });
+    }
+    return handleError(error, "Failed to save quotation template");
+  }
+}
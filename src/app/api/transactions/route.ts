@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/mongodb";
 import Transaction from "@/models/Transaction";
+import Project from "@/models/Project";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import mongoose from "mongoose";
 
 // GET - List transactions with filters
 export async function GET(request: NextRequest) {
@@ -18,6 +20,7 @@ export async function GET(request: NextRequest) {
         const startDate = searchParams.get("startDate");
         const endDate = searchParams.get("endDate");
         const type = searchParams.get("type"); // credit, debit, or null for all
+        const projectId = searchParams.get("projectId");
         const page = parseInt(searchParams.get("page") || "1");
         const limit = parseInt(searchParams.get("limit") || "20");
 
@@ -40,12 +43,17 @@ export async function GET(request: NextRequest) {
             query.type = type;
         }
 
+        if (projectId && mongoose.Types.ObjectId.isValid(projectId)) {
+            query.projectId = new mongoose.Types.ObjectId(projectId);
+        }
+
         // Get transactions with pagination
         const skip = (page - 1) * limit;
         const transactions = await Transaction.find(query)
             .sort({ date: -1, createdAt: -1 })
             .skip(skip)
             .limit(limit)
+            .populate("projectId", "projectId clientName")
             .lean();
 
         const total = await Transaction.countDocuments(query);
@@ -103,7 +111,7 @@ export async function POST(request: NextRequest) {
         }
 
         const body = await request.json();
-        const { type, amount, date, note, category } = body;
+        const { type, amount, date, note, category, projectId } = body;
 
         // Validation
         if (!type || !["credit", "debit"].includes(type)) {
@@ -134,12 +142,25 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (projectId) {
+            const project = mongoose.Types.ObjectId.isValid(projectId)
+                ? await Project.findById(projectId).select("_id").lean()
+                : null;
+            if (!project) {
+                return NextResponse.json(
+                    { error: "Project not found" },
+                    { status: 404 }
+                );
+            }
+        }
+
         const transaction = await Transaction.create({
             type,
             amount,
             date: new Date(date),
             note: note.trim(),
             category: category?.trim() || undefined,
+            projectId: projectId || undefined,
             createdBy: session.user?.email || "admin",
         });
 
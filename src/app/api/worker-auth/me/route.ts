@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import dbConnect from "@/lib/mongodb";
 import Worker from "@/models/Worker";
 import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import { resolveDailyWage } from "@/lib/wage-payroll";
 
 export async function GET() {
   try {
@@ -23,7 +24,7 @@ export async function GET() {
         workerCode: worker.workerCode,
         name: worker.name,
         mobile: worker.mobile,
-        dailyWage: worker.dailyWage,
+        dailyWage: resolveDailyWage(worker, new Date()),
         defaultShiftUnits: worker.defaultShiftUnits,
         isProfileCompleted: worker.isProfileCompleted,
         address: worker.address || "",
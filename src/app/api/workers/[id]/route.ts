@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/mongodb";
-import Worker from "@/models/Worker";
+import Worker, { type IWorker } from "@/models/Worker";
 import { getAdminSession } from "@/lib/admin-auth";
 import { normalizeMobile } from "@/lib/twilio-verify";
+import { addWageRate, getSettledRateConflict, resolveDailyWage } from "@/lib/wage-payroll";
 
 type Params = { params: Promise<{ id: string }> };
 
@@ -14,10 +15,10 @@ export async function GET(_: NextRequest, { params }: Params) {
     const { id } = await params;
     await dbConnect();
 
-    const worker = await Worker.findById(id).lean();
+    const worker = await Worker.findById(id).lean<IWorker>();
     if (!worker) return NextResponse.json({ error: "Worker not found" }, { status: 404 });
 
-    return NextResponse.json({ worker });
+    return NextResponse.json({ worker: { ...worker, dailyWage: resolveDailyWage(worker, new Date()) } });
   } catch (error) {
     console.error("Error fetching worker:", error);
     return NextResponse.json({ error: "Failed to fetch worker" }, { status: 500 });
@@ -42,12 +43,18 @@ export async function PUT(req: NextRequest, { params }: Params) {
       updateData.status = body.status;
     }
 
+    // Wage changes are recorded as a new effective-dated rate rather than overwriting dailyWage
+    let dailyWage: number | undefined;
+    const wageEffectiveFrom = new Date(body?.wageEffectiveFrom || Date.now());
     if (body?.dailyWage !== undefined) {
-      const dailyWage = Number(body.dailyWage);
+      dailyWage = Number(body.dailyWage);
       if (Number.isNaN(dailyWage) || dailyWage < 0) {
         return NextResponse.json({ error: "Invalid daily wage" }, { status: 400 });
       }
-      updateData.dailyWage = dailyWage;
+      if (Number.isNaN(wageEffectiveFrom.getTime())) {
+        return NextResponse.json({ error: "Invalid wage effective date" }, { status: 400 });
+      }
+      wageEffectiveFrom.setHours(0, 0, 0, 0);
     }
 
     if (body?.defaultShiftUnits !== undefined) {
@@ -66,10 +73,25 @@ export async function PUT(req: NextRequest, { params }: Params) {
 
     await dbConnect();
 
-    const worker = await Worker.findByIdAndUpdate(id, updateData, { new: true }).lean();
+    const worker = await Worker.findById(id);
     if (!worker) return NextResponse.json({ error: "Worker not found" }, { status: 404 });
 
-    return NextResponse.json({ worker });
+    worker.set(updateData);
+
+    if (dailyWage !== undefined && dailyWage !== resolveDailyWage(worker, wageEffectiveFrom)) {
+      const conflict = await getSettledRateConflict(worker._id, wageEffectiveFrom);
+      if (conflict) return NextResponse.json({ error: conflict }, { status: 409 });
+
+      addWageRate(worker, {
+        dailyWage,
+        effectiveFrom: wageEffectiveFrom,
+        createdBy: session.user.id,
+      });
+    }
+
+    await worker.save();
+
+    return NextResponse.json({ worker: { ...worker.toObject(), dailyWage: resolveDailyWage(worker, new Date()) } });
   } catch (error) {
     console.error("Error updating worker:", error);
     return NextResponse.json({ error: "Failed to update worker" }, { status: 500 });
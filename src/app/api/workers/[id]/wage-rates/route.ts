@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import Worker, { type IWorkerWageRate } from "@/models/Worker";
+import Project from "@/models/Project";
+import { getAdminSession } from "@/lib/admin-auth";
+import { addWageRate, getSettledRateConflict, resolveDailyWage } from "@/lib/wage-payroll";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const body = await req.json();
+
+    const dailyWage = Number(body?.dailyWage);
+    const effectiveFrom = new Date(body?.effectiveFrom || Date.now());
+    const projectId =
+      typeof body?.projectId === "string" && body.projectId.trim() ? body.projectId.trim() : null;
+    const note = typeof body?.note === "string" ? body.note.trim() : "";
+
+    if (Number.isNaN(dailyWage) || dailyWage < 0) {
+      return NextResponse.json({ error: "Invalid daily wage" }, { status: 400 });
+    }
+
+    if (Number.isNaN(effectiveFrom.getTime())) {
+      return NextResponse.json({ error: "Invalid effectiveFrom date" }, { status: 400 });
+    }
+    effectiveFrom.setHours(0, 0, 0, 0);
+
+    await dbConnect();
+
+    const worker = await Worker.findById(id);
+    if (!worker) return NextResponse.json({ error: "Worker not found" }, { status: 404 });
+
+    if (projectId) {
+      const project = await Project.findById(projectId).select("_id").lean();
+      if (!project) return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const conflict = await getSettledRateConflict(id, effectiveFrom);
+    if (conflict) return NextResponse.json({ error: conflict }, { status: 409 });
+
+    addWageRate(worker, { dailyWage, effectiveFrom, projectId, note, createdBy: session.user.id });
+    await worker.save();
+
+    return NextResponse.json(
+      { worker: { ...worker.toObject(), dailyWage: resolveDailyWage(worker, new Date()) } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error adding wage rate:", error);
+    return NextResponse.json({ error: "Failed to add wage rate" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const rateId = req.nextUrl.searchParams.get("rateId") || "";
+    if (!rateId) return NextResponse.json({ error: "rateId is required" }, { status: 400 });
+
+    await dbConnect();
+
+    const worker = await Worker.findById(id);
+    if (!worker) return NextResponse.json({ error: "Worker not found" }, { status: 404 });
+
+    const rate = worker.wageRates.find((item: IWorkerWageRate) => String(item._id) === rateId);
+    if (!rate) return NextResponse.json({ error: "Wage rate not found" }, { status: 404 });
+
+    const generalRates = worker.wageRates.filter((item: IWorkerWageRate) => !item.projectId);
+    if (!rate.projectId && generalRates.length <= 1) {
+      return NextResponse.json(
+        { error: "A worker must keep at least one general wage rate" },
+        { status: 400 }
+      );
+    }
+
+    const conflict = await getSettledRateConflict(id, new Date(rate.effectiveFrom));
+    if (conflict) return NextResponse.json({ error: conflict }, { status: 409 });
+
+    worker.wageRates = worker.wageRates.filter((item: IWorkerWageRate) => String(item._id) !== rateId);
+    await worker.save();
+
+    return NextResponse.json({ worker: { ...worker.toObject(), dailyWage: resolveDailyWage(worker, new Date()) } });
+  } catch (error) {
+    console.error("Error deleting wage rate:", error);
+    return NextResponse.json({ error: "Failed to delete wage rate" }, { status: 500 });
+  }
+}
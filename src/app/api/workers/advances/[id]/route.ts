@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/mongodb";
 import WorkerAdvance from "@/models/WorkerAdvance";
 import { getAdminSession } from "@/lib/admin-auth";
+import { isWageMonthSettled } from "@/lib/wage-payroll";
 
 type Params = { params: Promise<{ id: string }> };
 
@@ -22,11 +23,23 @@ export async function PUT(req: NextRequest, { params }: Params) {
 
     await dbConnect();
 
+    const existingAdvance = await WorkerAdvance.findById(id);
+    if (!existingAdvance) {
+      return NextResponse.json({ error: "Advance entry not found" }, { status: 404 });
+    }
+
+    if (await isWageMonthSettled(existingAdvance.workerId, existingAdvance.date)) {
+      return NextResponse.json(
+        { error: "Wages for this month are already settled. Reopen the month to make changes." },
+        { status: 409 }
+      );
+    }
+
     const advance = await WorkerAdvance.findByIdAndUpdate(
       id,
       { amount, note },
       { new: true }
-    ).populate("workerId", "workerCode name mobile dailyWage status");
+    ).populate("workerId", "workerCode name mobile status");
 
     if (!advance) {
       return NextResponse.json({ error: "Advance entry not found" }, { status: 404 });
@@ -47,11 +60,20 @@ export async function DELETE(_: NextRequest, { params }: Params) {
     const { id } = await params;
     await dbConnect();
 
-    const advance = await WorkerAdvance.findByIdAndDelete(id);
+    const advance = await WorkerAdvance.findById(id);
     if (!advance) {
       return NextResponse.json({ error: "Advance entry not found" }, { status: 404 });
     }
 
+    if (await isWageMonthSettled(advance.workerId, advance.date)) {
+      return NextResponse.json(
+        { error: "Wages for this month are already settled. Reopen the month to make changes." },
+        { status: 409 }
+      );
+    }
+
+    await advance.deleteOne();
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting advance:", error);
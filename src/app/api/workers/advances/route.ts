@@ -4,6 +4,7 @@ import Worker from "@/models/Worker";
 import WorkerAdvance from "@/models/WorkerAdvance";
 import { getAdminSession } from "@/lib/admin-auth";
 import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import { isWageMonthSettled } from "@/lib/wage-payroll";
 
 function toDayRange(dateInput: string) {
   const date = new Date(dateInput);
@@ -66,7 +67,7 @@ export async function GET(req: NextRequest) {
     }
 
     const advances = await WorkerAdvance.find(query)
-      .populate("workerId", "workerCode name mobile dailyWage status")
+      .populate("workerId", "workerCode name mobile status")
       .sort({ date: -1, createdAt: -1 })
       .lean();
 
@@ -111,6 +112,13 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Worker not found or inactive" }, { status: 404 });
     }
 
+    if (await isWageMonthSettled(worker._id, range.start)) {
+      return NextResponse.json(
+        { error: "Wages for this month are already settled. Reopen the month to make changes." },
+        { status: 409 }
+      );
+    }
+
     const advance = await WorkerAdvance.create({
       workerId,
       date: range.start,
@@ -119,7 +127,7 @@ export async function POST(req: NextRequest) {
       paidBy: session.user.id,
     });
 
-    await advance.populate("workerId", "workerCode name mobile dailyWage status");
+    await advance.populate("workerId", "workerCode name mobile status");
 
     return NextResponse.json({ advance }, { status: 201 });
   } catch (error) {
@@ -2,24 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/mongodb";
 import WorkerAttendance from "@/models/WorkerAttendance";
 import Worker from "@/models/Worker";
-import Project from "@/models/Project";
 import { getAdminSession } from "@/lib/admin-auth";
+import { isWageMonthSettled, resolveDailyWage } from "@/lib/wage-payroll";
+import { findAttendanceConflict, isValidUnits } from "@/lib/worker-attendance";
 
 type Params = { params: Promise<{ id: string }> };
 
-function toDayRange(dateInput: Date | string) {
-  const date = new Date(dateInput);
-  const start = new Date(date);
-  start.setHours(0, 0, 0, 0);
-  const end = new Date(date);
-  end.setHours(23, 59, 59, 999);
-  return { start, end };
-}
-
-function isValidUnits(value: number) {
-  return [0.5, 1, 1.5, 2].includes(value);
-}
-
 export async function PUT(req: NextRequest, { params }: Params) {
   try {
     const session = await getAdminSession();
@@ -48,67 +36,30 @@ export async function PUT(req: NextRequest, { params }: Params) {
       return NextResponse.json({ error: "Worker not found or inactive" }, { status: 404 });
     }
 
-    if (projectId) {
-      const project = await Project.findOne({ _id: projectId, status: "ongoing" }).select("_id").lean();
-      if (!project) {
-        return NextResponse.json({ error: "Selected project not found or inactive" }, { status: 404 });
-      }
-    }
-
-    const day = toDayRange(existingEntry.date);
-    const totals = await WorkerAttendance.aggregate([
-      {
-        $match: {
-          _id: { $ne: existingEntry._id },
-          workerId: existingEntry.workerId,
-          date: { $gte: day.start, $lte: day.end },
-        },
-      },
-      {
-        $group: {
-          _id: null,
-          totalUnits: { $sum: "$units" },
-        },
-      },
-    ]);
-
-    const existingUnitsExcludingCurrent = totals[0]?.totalUnits || 0;
-
-    const duplicateQuery: Record<string, unknown> = {
-      _id: { $ne: existingEntry._id },
+    const conflict = await findAttendanceConflict({
       workerId: existingEntry.workerId,
-      date: { $gte: day.start, $lte: day.end },
-    };
-
-    if (projectId) {
-      duplicateQuery.projectId = projectId;
-    } else {
-      duplicateQuery.$or = [{ projectId: { $exists: false } }, { projectId: null }];
-    }
-
-    const duplicateEntry = await WorkerAttendance.findOne(duplicateQuery).lean();
-    if (duplicateEntry) {
-      return NextResponse.json(
-        { error: projectId ? "Attendance is already linked to this project for that date" : "Attendance without a project already exists for that date" },
-        { status: 409 }
-      );
-    }
-
-    if (existingUnitsExcludingCurrent + units > 2) {
-      return NextResponse.json(
-        { error: "Total units for this worker on this date cannot exceed 2" },
-        { status: 400 }
-      );
+      projectId,
+      date: existingEntry.date,
+      units,
+      excludeId: existingEntry._id,
+    });
+    if (conflict) {
+      return NextResponse.json({ error: conflict.error }, { status: conflict.status });
     }
 
     existingEntry.units = units;
     existingEntry.note = note;
     existingEntry.projectId = projectId || null;
     await existingEntry.save();
-    await existingEntry.populate("workerId", "workerCode name mobile dailyWage status");
+    await existingEntry.populate("workerId", "workerCode name mobile status");
     await existingEntry.populate("projectId", "projectId clientName clientAddress status");
 
-    return NextResponse.json({ attendance: existingEntry });
+    return NextResponse.json({
+      attendance: {
+        ...existingEntry.toObject(),
+        dailyWage: resolveDailyWage(worker, existingEntry.date, existingEntry.projectId),
+      },
+    });
   } catch (error) {
     console.error("Error updating attendance:", error);
     return NextResponse.json({ error: "Failed to update attendance" }, { status: 500 });
@@ -123,11 +74,20 @@ export async function DELETE(_: NextRequest, { params }: Params) {
     const { id } = await params;
     await dbConnect();
 
-    const attendance = await WorkerAttendance.findByIdAndDelete(id);
+    const attendance = await WorkerAttendance.findById(id);
     if (!attendance) {
       return NextResponse.json({ error: "Attendance entry not found" }, { status: 404 });
     }
 
+    if (await isWageMonthSettled(attendance.workerId, attendance.date)) {
+      return NextResponse.json(
+        { error: "Wages for this month are already settled. Reopen the month to make changes." },
+        { status: 409 }
+      );
+    }
+
+    await attendance.deleteOne();
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting attendance:", error);
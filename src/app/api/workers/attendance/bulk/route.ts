@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Worker from "@/models/Worker";
+import WorkerAttendance from "@/models/WorkerAttendance";
+import { getAdminSession } from "@/lib/admin-auth";
+import { findAttendanceConflict, isValidUnits, toDayRange } from "@/lib/worker-attendance";
+
+// Enough for the largest crew on one site
+const MAX_BULK_ENTRIES = 100;
+
+type BulkEntry = { workerId: string; units: number; note: string };
+
+// POST - Mark attendance for a whole crew on one day and project. Every worker is
+// checked the same way as a single entry, and nothing is saved unless all pass.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json();
+
+    const projectId = typeof body?.projectId === "string" && body.projectId.trim() ? body.projectId.trim() : undefined;
+    const dateInput = body?.date;
+    const sharedNote = typeof body?.note === "string" ? body.note : "";
+    const rawEntries: unknown[] = Array.isArray(body?.entries) ? body.entries : [];
+
+    if (!dateInput || typeof dateInput !== "string") {
+      return NextResponse.json({ error: "date is required" }, { status: 400 });
+    }
+
+    const range = toDayRange(dateInput);
+    if (!range) return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+
+    if (projectId && !mongoose.isValidObjectId(projectId)) {
+      return NextResponse.json({ error: "Invalid projectId" }, { status: 400 });
+    }
+
+    if (rawEntries.length === 0) {
+      return NextResponse.json({ error: "Add at least one worker" }, { status: 400 });
+    }
+    if (rawEntries.length > MAX_BULK_ENTRIES) {
+      return NextResponse.json({ error: `At most ${MAX_BULK_ENTRIES} workers at a time` }, { status: 400 });
+    }
+
+    const entries: BulkEntry[] = [];
+    for (const raw of rawEntries) {
+      const entry = raw as { workerId?: unknown; units?: unknown; note?: unknown };
+      const units = Number(entry?.units);
+      if (typeof entry?.workerId !== "string" || !mongoose.isValidObjectId(entry.workerId)) {
+        return NextResponse.json({ error: "Each entry needs a workerId" }, { status: 400 });
+      }
+      if (!isValidUnits(units)) {
+        return NextResponse.json({ error: "units must be one of 0.5, 1, 1.5, 2" }, { status: 400 });
+      }
+      entries.push({
+        workerId: entry.workerId,
+        units,
+        note: typeof entry.note === "string" && entry.note ? entry.note : sharedNote,
+      });
+    }
+
+    if (new Set(entries.map((entry) => entry.workerId)).size !== entries.length) {
+      return NextResponse.json({ error: "A worker is listed more than once" }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const workers = await Worker.find({ _id: { $in: entries.map((entry) => entry.workerId) } })
+      .select("workerCode name status")
+      .lean<{ _id: mongoose.Types.ObjectId; workerCode: string; name?: string; status: string }[]>();
+    const workersById = new Map(workers.map((worker) => [String(worker._id), worker]));
+    const inactive = entries.filter((entry) => workersById.get(entry.workerId)?.status !== "active");
+    if (inactive.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Worker not found or inactive",
+          failures: inactive.map((entry) => ({ workerId: entry.workerId, error: "Worker not found or inactive" })),
+        },
+        { status: 404 }
+      );
+    }
+
+    const dbSession = await mongoose.startSession();
+    dbSession.startTransaction();
+    try {
+      const failures: { workerId: string; workerName: string; error: string }[] = [];
+      for (const entry of entries) {
+        const conflict = await findAttendanceConflict({
+          workerId: entry.workerId,
+          projectId,
+          date: range.start,
+          units: entry.units,
+          session: dbSession,
+        });
+        if (conflict) {
+          const worker = workersById.get(entry.workerId)!;
+          failures.push({ workerId: entry.workerId, workerName: worker.name || worker.workerCode, error: conflict.error });
+        }
+      }
+
+      if (failures.length > 0) {
+        await dbSession.abortTransaction();
+        return NextResponse.json(
+          {
+            error: `${failures.length} worker${failures.length === 1 ? "" : "s"} could not be marked; nothing was saved`,
+            failures,
+          },
+          { status: 409 }
+        );
+      }
+
+      await WorkerAttendance.insertMany(
+        entries.map((entry) => ({
+          workerId: entry.workerId,
+          projectId,
+          date: range.start,
+          units: entry.units,
+          note: entry.note,
+          markedBy: session.user.id,
+        })),
+        { session: dbSession }
+      );
+
+      await dbSession.commitTransaction();
+    } catch (error) {
+      if (dbSession.inTransaction()) await dbSession.abortTransaction();
+      throw error;
+    } finally {
+      dbSession.endSession();
+    }
+
+    return NextResponse.json({ marked: entries.length }, { status: 201 });
+  } catch (error) {
+    console.error("Error marking crew attendance:", error);
+    return NextResponse.json({ error: "Failed to mark crew attendance" }, { status: 500 });
+  }
+}
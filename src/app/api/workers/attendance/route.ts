@@ -2,25 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/mongodb";
 import Worker from "@/models/Worker";
 import WorkerAttendance from "@/models/WorkerAttendance";
-import Project from "@/models/Project";
 import { getAdminSession } from "@/lib/admin-auth";
 import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
-
-function toDayRange(dateInput: string) {
-  const date = new Date(dateInput);
-  if (Number.isNaN(date.getTime())) return null;
-
-  const start = new Date(date);
-  start.setHours(0, 0, 0, 0);
-  const end = new Date(date);
-  end.setHours(23, 59, 59, 999);
-
-  return { start, end };
-}
-
-function isValidUnits(value: number) {
-  return [0.5, 1, 1.5, 2].includes(value);
-}
+import { resolveDailyWage } from "@/lib/wage-payroll";
+import { findAttendanceConflict, isValidUnits, toDayRange } from "@/lib/worker-attendance";
 
 export async function GET(req: NextRequest) {
   try {
@@ -72,12 +57,22 @@ export async function GET(req: NextRequest) {
       query.date = dateQuery;
     }
 
-    const attendance = await WorkerAttendance.find(query)
-      .populate("workerId", "workerCode name mobile dailyWage status")
+    const entries = await WorkerAttendance.find(query)
+      .populate("workerId", "workerCode name mobile dailyWage wageRates status")
       .populate("projectId", "projectId clientName clientAddress status")
       .sort({ date: -1, createdAt: -1 })
       .lean();
 
+    // Each entry carries the wage rate in effect on its date (and project)
+    const attendance = entries.map((entry) => {
+      const { wageRates, ...worker } = entry.workerId || {};
+      return {
+        ...entry,
+        workerId: entry.workerId ? worker : entry.workerId,
+        dailyWage: entry.workerId ? resolveDailyWage({ ...worker, wageRates }, entry.date, entry.projectId) : 0,
+      };
+    });
+
     return NextResponse.json({ attendance });
   } catch (error) {
     console.error("Error fetching attendance:", error);
@@ -120,54 +115,9 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Worker not found or inactive" }, { status: 404 });
     }
 
-    if (projectId) {
-      const project = await Project.findOne({ _id: projectId, status: "ongoing" }).select("_id").lean();
-      if (!project) {
-        return NextResponse.json({ error: "Selected project not found or inactive" }, { status: 404 });
-      }
-    }
-
-    const totals = await WorkerAttendance.aggregate([
-      {
-        $match: {
-          workerId: worker._id,
-          date: { $gte: range.start, $lte: range.end },
-        },
-      },
-      {
-        $group: {
-          _id: null,
-          totalUnits: { $sum: "$units" },
-        },
-      },
-    ]);
-
-    const existingUnits = totals[0]?.totalUnits || 0;
-
-    const duplicateQuery: Record<string, unknown> = {
-      workerId: worker._id,
-      date: { $gte: range.start, $lte: range.end },
-    };
-
-    if (projectId) {
-      duplicateQuery.projectId = projectId;
-    } else {
-      duplicateQuery.$or = [{ projectId: { $exists: false } }, { projectId: null }];
-    }
-
-    const existingEntry = await WorkerAttendance.findOne(duplicateQuery).lean();
-    if (existingEntry) {
-      return NextResponse.json(
-        { error: projectId ? "Attendance is already linked to this project for that date" : "Attendance without a project already exists for that date" },
-        { status: 409 }
-      );
-    }
-
-    if (existingUnits + units > 2) {
-      return NextResponse.json(
-        { error: "Total units for this worker on this date cannot exceed 2" },
-        { status: 400 }
-      );
+    const conflict = await findAttendanceConflict({ workerId: worker._id, projectId, date: range.start, units });
+    if (conflict) {
+      return NextResponse.json({ error: conflict.error }, { status: conflict.status });
     }
 
     const attendance = await WorkerAttendance.create({
@@ -179,10 +129,18 @@ export async function POST(req: NextRequest) {
       markedBy: session.user.id,
     });
 
-    await attendance.populate("workerId", "workerCode name mobile dailyWage status");
+    await attendance.populate("workerId", "workerCode name mobile status");
     await attendance.populate("projectId", "projectId clientName clientAddress status");
 
-    return NextResponse.json({ attendance }, { status: 201 });
+    return NextResponse.json(
+      {
+        attendance: {
+          ...attendance.toObject(),
+          dailyWage: resolveDailyWage(worker, attendance.date, attendance.projectId),
+        },
+      },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Error marking attendance:", error);
     return NextResponse.json({ error: "Failed to mark attendance" }, { status: 500 });
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Worker from "@/models/Worker";
+import WorkerAttendance from "@/models/WorkerAttendance";
+import SiteCheckIn, { ISiteCheckIn } from "@/models/SiteCheckIn";
+import { getAdminSession } from "@/lib/admin-auth";
+import { findAttendanceConflict, isValidUnits } from "@/lib/worker-attendance";
+
+type Params = { params: Promise<{ id: string }> };
+
+// PUT - Admin approves a check-in with the units to pay for, which records the
+// attendance, or rejects it. A worker who never checked out can still be approved.
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    const body = await req.json();
+
+    const action = body?.action;
+    const units = Number(body?.units);
+    const note = typeof body?.note === "string" ? body.note.trim() : "";
+
+    if (action !== "approve" && action !== "reject") {
+      return NextResponse.json({ error: "action must be approve or reject" }, { status: 400 });
+    }
+
+    if (action === "approve" && !isValidUnits(units)) {
+      return NextResponse.json({ error: "units must be one of 0.5, 1, 1.5, 2" }, { status: 400 });
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: "Check-in not found" }, { status: 404 });
+    }
+
+    await dbConnect();
+
+    const checkIn: ISiteCheckIn | null = await SiteCheckIn.findById(id);
+    if (!checkIn) {
+      return NextResponse.json({ error: "Check-in not found" }, { status: 404 });
+    }
+
+    if (checkIn.status === "approved" || checkIn.status === "rejected") {
+      return NextResponse.json({ error: "This check-in has already been reviewed" }, { status: 409 });
+    }
+
+    if (action === "approve") {
+      const worker = await Worker.findById(checkIn.workerId).select("status").lean<{ status: string }>();
+      if (!worker || worker.status !== "active") {
+        return NextResponse.json({ error: "Worker not found or inactive" }, { status: 404 });
+      }
+    }
+
+    // The review is claimed atomically so two admins can't both approve the same
+    // check-in, and the attendance entry is only kept if the claim commits
+    let reviewed: ISiteCheckIn | null = null;
+    const dbSession = await mongoose.startSession();
+    dbSession.startTransaction();
+    try {
+      reviewed = await SiteCheckIn.findOneAndUpdate(
+        { _id: id, status: { $in: ["checked_in", "pending"] } },
+        {
+          $set: {
+            status: action === "approve" ? "approved" : "rejected",
+            reviewedBy: session.user.id,
+            reviewedAt: new Date(),
+            ...(note ? { reviewNote: note } : {}),
+            ...(action === "approve" ? { units } : {}),
+          },
+        },
+        { new: true, session: dbSession }
+      );
+      if (!reviewed) {
+        await dbSession.abortTransaction();
+        return NextResponse.json({ error: "This check-in has already been reviewed" }, { status: 409 });
+      }
+
+      if (action === "approve") {
+        const conflict = await findAttendanceConflict({
+          workerId: String(reviewed.workerId),
+          projectId: String(reviewed.projectId),
+          date: reviewed.date,
+          units,
+          session: dbSession,
+        });
+        if (conflict) {
+          await dbSession.abortTransaction();
+          return NextResponse.json({ error: conflict.error }, { status: conflict.status });
+        }
+
+        const [attendance] = await WorkerAttendance.create(
+          [
+            {
+              workerId: reviewed.workerId,
+              projectId: reviewed.projectId,
+              date: reviewed.date,
+              units,
+              note: note || "Site check-in",
+              markedBy: session.user.id,
+            },
+          ],
+          { session: dbSession }
+        );
+
+        reviewed.attendanceId = attendance._id;
+        await reviewed.save({ session: dbSession });
+      }
+
+      await dbSession.commitTransaction();
+    } catch (error) {
+      if (dbSession.inTransaction()) await dbSession.abortTransaction();
+      throw error;
+    } finally {
+      dbSession.endSession();
+    }
+
+    await reviewed.populate("workerId", "workerCode name mobile");
+    await reviewed.populate("projectId", "projectId clientName clientAddress siteLocation");
+
+    return NextResponse.json({ checkIn: reviewed });
+  } catch (error) {
+    console.error("Error reviewing check-in:", error);
+    return NextResponse.json({ error: "Failed to review check-in" }, { status: 500 });
+  }
+}
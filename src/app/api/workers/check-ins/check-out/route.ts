@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import SiteCheckIn, { ISiteCheckIn } from "@/models/SiteCheckIn";
+import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import { getDistanceMeters, isValidGeoPoint, suggestAttendanceUnits } from "@/lib/site-check-in";
+
+type CheckInProject = { siteLocation?: { latitude: number; longitude: number } };
+
+// POST - Worker checks out of their open check-in. Leaving the geofence does not
+// stop a check-out; the distance is kept for the admin reviewing it.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getWorkerSessionFromCookie();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const point = { latitude: Number(body?.latitude), longitude: Number(body?.longitude) };
+    const accuracy = Number.isFinite(Number(body?.accuracy)) ? Number(body.accuracy) : undefined;
+
+    if (!isValidGeoPoint(point)) {
+      return NextResponse.json({ error: "Your location is required to check out" }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const checkIn: ISiteCheckIn | null = await SiteCheckIn.findOne({
+      workerId: session.workerId,
+      status: "checked_in",
+    }).populate("projectId", "siteLocation");
+    if (!checkIn) {
+      return NextResponse.json({ error: "You are not checked in anywhere" }, { status: 404 });
+    }
+
+    const project = checkIn.projectId as unknown as CheckInProject | null;
+    const checkOutAt = new Date();
+
+    checkIn.checkOutAt = checkOutAt;
+    checkIn.checkOutLocation = {
+      ...point,
+      accuracy,
+      distanceMeters: project?.siteLocation ? getDistanceMeters(project.siteLocation, point) : 0,
+    };
+    checkIn.suggestedUnits = suggestAttendanceUnits(checkIn.checkInAt, checkOutAt);
+    checkIn.status = "pending";
+    await checkIn.save();
+
+    return NextResponse.json({ checkIn });
+  } catch (error) {
+    console.error("Error checking out:", error);
+    return NextResponse.json({ error: "Failed to check out" }, { status: 500 });
+  }
+}
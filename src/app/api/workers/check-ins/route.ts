@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import cloudinary from "@/lib/cloudinary";
+import Worker from "@/models/Worker";
+import Project, { IProject } from "@/models/Project";
+import CrewAssignment from "@/models/CrewAssignment";
+import SiteCheckIn from "@/models/SiteCheckIn";
+import { getAdminSession } from "@/lib/admin-auth";
+import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import { ACTIVE_PROJECT_STATUSES } from "@/lib/project-status";
+import { CHECK_IN_STATUSES, getDistanceMeters, getGeofenceRadius, isValidGeoPoint } from "@/lib/site-check-in";
+import { toDayRange } from "@/lib/worker-attendance";
+
+// Workers see their own check-ins for the past week
+const WORKER_HISTORY_DAYS = 7;
+const MAX_SELFIE_BYTES = 5 * 1024 * 1024;
+
+function readNumber(value: FormDataEntryValue | null) {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const adminSession = await getAdminSession();
+    const workerSession = adminSession ? null : await getWorkerSessionFromCookie();
+
+    if (!adminSession && !workerSession) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const query: Record<string, unknown> = {};
+
+    if (workerSession) {
+      const since = new Date();
+      since.setDate(since.getDate() - WORKER_HISTORY_DAYS);
+      since.setHours(0, 0, 0, 0);
+      query.workerId = workerSession.workerId;
+      query.$or = [{ date: { $gte: since } }, { status: "checked_in" }];
+    } else {
+      const status = searchParams.get("status");
+      const date = searchParams.get("date");
+      if (status) {
+        const statuses = status.split(",");
+        if (statuses.some((item) => !(CHECK_IN_STATUSES as readonly string[]).includes(item))) {
+          return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+        }
+        query.status = { $in: statuses };
+      }
+      if (date) {
+        const range = toDayRange(date);
+        if (!range) return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+        query.date = { $gte: range.start, $lte: range.end };
+      }
+    }
+
+    const checkIns = await SiteCheckIn.find(query)
+      .populate("workerId", "workerCode name mobile")
+      .populate("projectId", "projectId clientName clientAddress siteLocation")
+      .sort({ date: -1, checkInAt: -1 })
+      .limit(200)
+      .lean();
+
+    return NextResponse.json({ checkIns });
+  } catch (error) {
+    console.error("Error fetching check-ins:", error);
+    return NextResponse.json({ error: "Failed to fetch check-ins" }, { status: 500 });
+  }
+}
+
+// POST - Worker checks in at a site they are assigned to today, from within its geofence.
+// Sent as form data so a selfie can come with it.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getWorkerSessionFromCookie();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const formData = await req.formData();
+    const projectId = formData.get("projectId");
+    const point = { latitude: readNumber(formData.get("latitude")), longitude: readNumber(formData.get("longitude")) };
+    const accuracy = readNumber(formData.get("accuracy"));
+    const selfie = formData.get("selfie");
+
+    if (typeof projectId !== "string" || !mongoose.isValidObjectId(projectId)) {
+      return NextResponse.json({ error: "projectId is required" }, { status: 400 });
+    }
+
+    if (!isValidGeoPoint(point)) {
+      return NextResponse.json({ error: "Your location is required to check in" }, { status: 400 });
+    }
+
+    if (selfie instanceof File && selfie.size > 0) {
+      if (!selfie.type.startsWith("image/")) {
+        return NextResponse.json({ error: "Selfie must be an image" }, { status: 400 });
+      }
+      if (selfie.size > MAX_SELFIE_BYTES) {
+        return NextResponse.json({ error: "Selfie must be smaller than 5 MB" }, { status: 400 });
+      }
+    }
+
+    await dbConnect();
+
+    const worker = await Worker.findById(session.workerId).select("status").lean<{ status: string }>();
+    if (!worker || worker.status !== "active") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const today = toDayRange(new Date())!;
+
+    const project: IProject | null = await Project.findOne({
+      _id: projectId,
+      status: { $in: ACTIVE_PROJECT_STATUSES },
+    }).select("projectId clientName siteLocation");
+    if (!project) {
+      return NextResponse.json({ error: "Selected project not found or inactive" }, { status: 404 });
+    }
+
+    const assigned = await CrewAssignment.exists({
+      workerId: session.workerId,
+      projectId,
+      date: { $gte: today.start, $lte: today.end },
+    });
+    if (!assigned) {
+      return NextResponse.json({ error: "You are not assigned to this site today" }, { status: 403 });
+    }
+
+    if (!project.siteLocation) {
+      return NextResponse.json(
+        { error: "This site's location has not been set yet. Ask the office to pin it." },
+        { status: 409 }
+      );
+    }
+
+    const distanceMeters = getDistanceMeters(project.siteLocation, point);
+    const radius = getGeofenceRadius(project.siteLocation);
+    if (distanceMeters > radius) {
+      return NextResponse.json(
+        { error: `You are ${distanceMeters} m from the site. Check in within ${radius} m.`, distanceMeters },
+        { status: 403 }
+      );
+    }
+
+    const openCheckIn = await SiteCheckIn.exists({ workerId: session.workerId, status: "checked_in" });
+    if (openCheckIn) {
+      return NextResponse.json({ error: "Check out of your current site first" }, { status: 409 });
+    }
+
+    const existing = await SiteCheckIn.exists({
+      workerId: session.workerId,
+      projectId,
+      date: today.start,
+    });
+    if (existing) {
+      return NextResponse.json({ error: "You have already checked in at this site today" }, { status: 409 });
+    }
+
+    let selfieImage: { url: string; publicId: string } | undefined;
+    if (selfie instanceof File && selfie.size > 0) {
+      const buffer = Buffer.from(await selfie.arrayBuffer());
+      const uploadResult = await new Promise<{ secure_url: string; public_id: string }>((resolve, reject) => {
+        cloudinary.uploader
+          .upload_stream({ folder: "attendance/selfies" }, (error, result) => {
+            if (error || !result) reject(error);
+            else resolve(result);
+          })
+          .end(buffer);
+      });
+      selfieImage = { url: uploadResult.secure_url, publicId: uploadResult.public_id };
+    }
+
+    const checkIn = await SiteCheckIn.create({
+      workerId: session.workerId,
+      projectId,
+      date: today.start,
+      checkInAt: new Date(),
+      checkInLocation: { ...point, accuracy, distanceMeters },
+      selfie: selfieImage,
+    });
+
+    return NextResponse.json({ checkIn }, { status: 201 });
+  } catch (error) {
+    console.error("Error checking in:", error);
+    return NextResponse.json({ error: "Failed to check in" }, { status: 500 });
+  }
+}
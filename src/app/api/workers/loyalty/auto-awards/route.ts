@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import { getAdminSession } from "@/lib/admin-auth";
+import { runLoyaltyAwards } from "@/lib/loyalty-awards";
+
+// POST - Run the automatic awards now instead of waiting for the daily job
+export async function POST() {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    await dbConnect();
+    const summary = await runLoyaltyAwards();
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Error running loyalty awards:", error);
+    return NextResponse.json({ error: "Failed to run loyalty awards" }, { status: 500 });
+  }
+}
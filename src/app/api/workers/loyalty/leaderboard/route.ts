@@ -4,6 +4,8 @@ import WorkerLoyaltyEntry from "@/models/WorkerLoyaltyEntry";
 import Worker from "@/models/Worker";
 import { getAdminSession } from "@/lib/admin-auth";
 import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import { getLoyaltyPolicy } from "@/lib/worker-loyalty";
+import { resolvePointValue } from "@/lib/loyalty-policy";
 
 /** Return the ISO week number (1-53) and ISO week year for a given date. */
 function getISOWeekAndYear(date: Date): { isoWeek: number; isoWeekYear: number } {
@@ -104,6 +106,9 @@ export async function GET(req: NextRequest) {
       },
     ]);
 
+    const policy = await getLoyaltyPolicy();
+    const pointValueInRupees = resolvePointValue(policy.pointRates, range.start);
+
     const leaderboard = pointsAgg
       .map((row) => {
         const worker = workerMap.get(String(row._id));
@@ -114,7 +119,7 @@ export async function GET(req: NextRequest) {
           name: worker.name,
           mobile: worker.mobile,
           totalPoints: row.totalPoints || 0,
-          totalRupees: row.totalPoints || 0,
+          totalRupees: (row.totalPoints || 0) * pointValueInRupees,
           totalDebits: Math.abs(row.debits || 0),
         };
       })
@@ -129,7 +134,7 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
       period,
-      pointValueInRupees: 1,
+      pointValueInRupees,
       range,
       isoWeek,
       isoWeekYear,
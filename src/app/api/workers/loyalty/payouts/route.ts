@@ -4,6 +4,8 @@ import Worker from "@/models/Worker";
 import WorkerLoyaltyEntry from "@/models/WorkerLoyaltyEntry";
 import WorkerLoyaltyWeeklyPayout from "@/models/WorkerLoyaltyWeeklyPayout";
 import { getAdminSession } from "@/lib/admin-auth";
+import { getLoyaltyPolicy } from "@/lib/worker-loyalty";
+import { getWeeklyPayoutRupees } from "@/lib/loyalty-policy";
 
 export async function POST(req: NextRequest) {
   try {
@@ -61,12 +63,17 @@ export async function POST(req: NextRequest) {
         $group: {
           _id: null,
           netPoints: { $sum: "$points" },
+          firstDate: { $min: "$date" },
         },
       },
     ]);
 
     const netPoints = weeklyAgg[0]?.netPoints || 0;
-    const payoutRupees = Math.max(0, netPoints);
+    const weekStart = new Date(weeklyAgg[0]?.firstDate || Date.now());
+    weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
+    weekStart.setHours(0, 0, 0, 0);
+    const policy = await getLoyaltyPolicy();
+    const payoutRupees = getWeeklyPayoutRupees(netPoints, policy.pointRates, weekStart);
 
     const payoutRecord = await WorkerLoyaltyWeeklyPayout.findOneAndUpdate(
       { workerId, isoWeekYear, isoWeek },
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import LoyaltyPolicy from "@/models/LoyaltyPolicy";
+import WorkerLoyaltyEntry from "@/models/WorkerLoyaltyEntry";
+import AuditLog from "@/models/AuditLog";
+import { getAdminSession } from "@/lib/admin-auth";
+import { getLoyaltyPolicy } from "@/lib/worker-loyalty";
+import { loyaltyPolicySchema } from "@/lib/validators";
+import { normalizeAutoAwards } from "@/lib/loyalty-policy";
+
+export async function GET() {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    await dbConnect();
+
+    const [policy, saved] = await Promise.all([getLoyaltyPolicy(), LoyaltyPolicy.exists({})]);
+
+    return NextResponse.json({ policy, isDefault: !saved });
+  } catch (error) {
+    console.error("Error fetching loyalty policy:", error);
+    return NextResponse.json({ error: "Failed to fetch loyalty policy" }, { status: 500 });
+  }
+}
+
+// PUT - Replace the whole policy. Categories already used by entries can be retired but not removed.
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const parsed = loyaltyPolicySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const before = await getLoyaltyPolicy();
+    const keptKeys = new Set(parsed.data.categories.map((category) => category.key));
+    const removedKeys = before.categories.map((category) => category.key).filter((key) => !keptKeys.has(key));
+    if (removedKeys.length > 0) {
+      const usedKeys: string[] = await WorkerLoyaltyEntry.distinct("category", { category: { $in: removedKeys } });
+      if (usedKeys.length > 0) {
+        return NextResponse.json(
+          { error: `Retire these categories instead of removing them, entries already use them: ${usedKeys.join(", ")}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const policy = {
+      ...parsed.data,
+      pointRates: parsed.data.pointRates
+        .map((rate) => {
+          const effectiveFrom = new Date(rate.effectiveFrom);
+          effectiveFrom.setHours(0, 0, 0, 0);
+          return { rupeesPerPoint: rate.rupeesPerPoint, effectiveFrom };
+        })
+        .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime()),
+      autoAwards: normalizeAutoAwards(parsed.data.autoAwards ?? before.autoAwards),
+      updatedBy: session.user.id,
+    };
+
+    await LoyaltyPolicy.findOneAndUpdate({}, policy, { upsert: true, new: true, runValidators: true });
+
+    await AuditLog.create({
+      action: "update_loyalty_policy",
+      userId: session.user.id,
+      details: {
+        before: { dailyEarnCap: before.dailyEarnCap, weeklyEarnCap: before.weeklyEarnCap, pointRates: before.pointRates },
+        after: { dailyEarnCap: policy.dailyEarnCap, weeklyEarnCap: policy.weeklyEarnCap, pointRates: policy.pointRates },
+        autoAwards: policy.autoAwards,
+        categories: policy.categories.length,
+        removedCategories: removedKeys,
+      },
+    });
+
+    return NextResponse.json({ policy: await getLoyaltyPolicy(), isDefault: false });
+  } catch (error) {
+    console.error("Error updating loyalty policy:", error);
+    return NextResponse.json({ error: "Failed to update loyalty policy" }, { status: 500 });
+  }
+}
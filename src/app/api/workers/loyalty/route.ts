@@ -4,20 +4,16 @@ import Worker from "@/models/Worker";
 import WorkerLoyaltyEntry from "@/models/WorkerLoyaltyEntry";
 import { getAdminSession } from "@/lib/admin-auth";
 import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
-
-const DAILY_MAX_EARN_POINTS = 100;
-
-function toDayRange(dateInput: string) {
-  const date = new Date(dateInput);
-  if (Number.isNaN(date.getTime())) return null;
-
-  const start = new Date(date);
-  start.setHours(0, 0, 0, 0);
-
-  const end = new Date(date);
-  end.setHours(23, 59, 59, 999);
-
-  return { start, end };
+import { toDayRange } from "@/lib/worker-attendance";
+import { findEarnCapConflict, getLoyaltyPolicy } from "@/lib/worker-loyalty";
+import { findLoyaltyCategory, resolvePointValue, type LoyaltyPolicyRules } from "@/lib/loyalty-policy";
+
+function toRules(policy: LoyaltyPolicyRules) {
+  return {
+    dailyMaxEarnPoints: policy.dailyEarnCap,
+    weeklyMaxEarnPoints: policy.weeklyEarnCap ?? null,
+    pointValueInRupees: resolvePointValue(policy.pointRates, new Date()),
+  };
 }
 
 export async function GET(req: NextRequest) {
@@ -68,17 +64,17 @@ export async function GET(req: NextRequest) {
       query.date = dateQuery;
     }
 
-    const entries = await WorkerLoyaltyEntry.find(query)
-      .populate("workerId", "workerCode name mobile")
-      .sort({ date: -1, createdAt: -1 })
-      .limit(200)
-      .lean();
+    const [entries, policy] = await Promise.all([
+      WorkerLoyaltyEntry.find(query)
+        .populate("workerId", "workerCode name mobile")
+        .sort({ date: -1, createdAt: -1 })
+        .limit(200)
+        .lean(),
+      getLoyaltyPolicy(),
+    ]);
 
     return NextResponse.json({
-      rules: {
-        dailyMaxEarnPoints: DAILY_MAX_EARN_POINTS,
-        pointValueInRupees: 1,
-      },
+      rules: toRules(policy),
       entries,
     });
   } catch (error) {
@@ -96,7 +92,9 @@ export async function POST(req: NextRequest) {
 
     const workerId = body?.workerId;
     const entryType = body?.entryType;
-    const pointsInput = Number(body?.points);
+    // Points may be left out to use the category's default
+    const hasPoints = body?.points !== undefined && body?.points !== null && body?.points !== "";
+    const pointsInput = hasPoints ? Number(body.points) : undefined;
     const dateInput = body?.date;
     const category = typeof body?.category === "string" ? body.category.trim() : "";
     const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
@@ -111,7 +109,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "entryType must be credit or debit" }, { status: 400 });
     }
 
-    if (Number.isNaN(pointsInput) || pointsInput <= 0 || !Number.isInteger(pointsInput)) {
+    if (pointsInput !== undefined && (Number.isNaN(pointsInput) || pointsInput <= 0 || !Number.isInteger(pointsInput))) {
       return NextResponse.json({ error: "points must be a positive whole number" }, { status: 400 });
     }
 
@@ -147,33 +145,24 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Worker not found or inactive" }, { status: 404 });
     }
 
+    const policy = await getLoyaltyPolicy();
+    const policyCategory = findLoyaltyCategory(policy, category);
+    if (!policyCategory || !policyCategory.active) {
+      return NextResponse.json({ error: `Unknown loyalty category: ${category}` }, { status: 400 });
+    }
+    if (policyCategory.entryType !== entryType) {
+      return NextResponse.json(
+        { error: `${policyCategory.label} is a ${policyCategory.entryType} category` },
+        { status: 400 }
+      );
+    }
+
+    const points = pointsInput ?? policyCategory.defaultPoints;
+
     if (entryType === "credit") {
-      const dailyEarn = await WorkerLoyaltyEntry.aggregate([
-        {
-          $match: {
-            workerId: worker._id,
-            date: { $gte: dayRange.start, $lte: dayRange.end },
-            entryType: "credit",
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            totalEarned: { $sum: "$points" },
-          },
-        },
-      ]);
-
-      const alreadyEarned = dailyEarn[0]?.totalEarned || 0;
-      if (alreadyEarned + pointsInput > DAILY_MAX_EARN_POINTS) {
-        return NextResponse.json(
-          {
-            error: `Daily earn limit exceeded. Max earn is ${DAILY_MAX_EARN_POINTS} points/day`,
-            alreadyEarned,
-            requested: pointsInput,
-          },
-          { status: 400 }
-        );
+      const capConflict = await findEarnCapConflict({ workerId: worker._id, date: dayRange.start, points, policy });
+      if (capConflict) {
+        return NextResponse.json(capConflict, { status: 400 });
       }
     }
 
@@ -182,7 +171,7 @@ export async function POST(req: NextRequest) {
     const existingDuplicate = await WorkerLoyaltyEntry.findOne({
       workerId,
       entryType,
-      points: entryType === "credit" ? pointsInput : -pointsInput,
+      points: entryType === "credit" ? points : -points,
       category,
       reason,
       date: dayRange.start,
@@ -195,7 +184,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const signedPoints = entryType === "credit" ? pointsInput : -pointsInput;
+    const signedPoints = entryType === "credit" ? points : -points;
 
     const entry = await WorkerLoyaltyEntry.create({
       workerId,
@@ -212,10 +201,7 @@ export async function POST(req: NextRequest) {
     await entry.populate("workerId", "workerCode name mobile");
 
     return NextResponse.json({
-      rules: {
-        dailyMaxEarnPoints: DAILY_MAX_EARN_POINTS,
-        pointValueInRupees: 1,
-      },
+      rules: toRules(policy),
       entry,
     }, { status: 201 });
   } catch (error) {
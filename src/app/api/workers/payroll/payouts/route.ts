@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import Worker from "@/models/Worker";
+import WorkerWagePayout, { WAGE_PAYMENT_METHODS } from "@/models/WorkerWagePayout";
+import { getAdminSession } from "@/lib/admin-auth";
+import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import {
+  computeMonthlyWage,
+  findUnsettledGap,
+  formatWagePeriod,
+  getPreviousSettlement,
+  hasLaterSettlement,
+  parseWagePeriod,
+} from "@/lib/wage-payroll";
+
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const adminSession = await getAdminSession();
+    const workerSession = adminSession ? null : await getWorkerSessionFromCookie();
+
+    if (!adminSession && !workerSession) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const workerIdFromQuery = req.nextUrl.searchParams.get("workerId") || "";
+    const workerId = workerSession ? workerSession.workerId : workerIdFromQuery;
+    if (!workerId) {
+      return NextResponse.json({ error: "workerId is required" }, { status: 400 });
+    }
+
+    const payouts = await WorkerWagePayout.find({ workerId })
+      .sort({ year: -1, month: -1 })
+      .lean();
+
+    return NextResponse.json({ payouts });
+  } catch (error) {
+    console.error("Error fetching wage payouts:", error);
+    return NextResponse.json({ error: "Failed to fetch wage payouts" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json();
+    const workerId = typeof body?.workerId === "string" ? body.workerId : "";
+    const period = typeof body?.month === "string" ? parseWagePeriod(body.month) : null;
+    const status = body?.status === "paid" ? "paid" : "pending";
+    const note = typeof body?.note === "string" ? body.note.trim() : "";
+    const paymentMethod = WAGE_PAYMENT_METHODS.find((method) => method === body?.paymentMethod);
+    const amountPaidInput =
+      body?.amountPaid === undefined || body?.amountPaid === "" ? undefined : Number(body.amountPaid);
+
+    if (!workerId) {
+      return NextResponse.json({ error: "workerId is required" }, { status: 400 });
+    }
+
+    if (!period) {
+      return NextResponse.json({ error: "month must be in YYYY-MM format" }, { status: 400 });
+    }
+
+    if (amountPaidInput !== undefined && (Number.isNaN(amountPaidInput) || amountPaidInput < 0)) {
+      return NextResponse.json({ error: "amountPaid must be 0 or more" }, { status: 400 });
+    }
+
+    if (status === "paid" && !paymentMethod) {
+      return NextResponse.json({ error: "paymentMethod is required" }, { status: 400 });
+    }
+
+    await dbConnect();
+
+    const worker = await Worker.findById(workerId);
+    if (!worker) {
+      return NextResponse.json({ error: "Worker not found" }, { status: 404 });
+    }
+
+    // Changing a month that a later settlement already carried forward from would
+    // silently invalidate that later month's opening balance.
+    if (await hasLaterSettlement(worker._id, period)) {
+      return NextResponse.json(
+        { error: "A later month is already settled. Reopen it first." },
+        { status: 409 }
+      );
+    }
+
+    const previous = await getPreviousSettlement(worker._id, period);
+
+    if (status === "paid") {
+      const gap = await findUnsettledGap(
+        worker._id,
+        period,
+        previous ? { year: previous.year, month: previous.month } : null
+      );
+      if (gap) {
+        return NextResponse.json(
+          { error: `Settle ${formatWagePeriod(gap)} before ${formatWagePeriod(period)}` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const wage = await computeMonthlyWage(worker, period);
+    const openingBalance = previous?.closingBalance || 0;
+    const totalPayable = wage.netPayable + openingBalance;
+    const amountPaid = status === "paid" ? amountPaidInput ?? Math.max(0, totalPayable) : 0;
+
+    const payoutRecord = await WorkerWagePayout.findOneAndUpdate(
+      { workerId: worker._id, year: period.year, month: period.month },
+      {
+        workerId: worker._id,
+        year: period.year,
+        month: period.month,
+        totalUnits: wage.totalUnits,
+        dailyWage: wage.dailyWage,
+        grossWage: wage.grossWage,
+        totalAdvance: wage.totalAdvance,
+        openingBalance,
+        totalPayable,
+        amountPaid,
+        closingBalance: totalPayable - amountPaid,
+        paymentMethod: status === "paid" ? paymentMethod : null,
+        status,
+        paidAt: status === "paid" ? new Date() : null,
+        markedBy: session.user.id,
+        note,
+      },
+      { upsert: true, new: true }
+    ).lean();
+
+    return NextResponse.json({ payoutRecord });
+  } catch (error) {
+    console.error("Error updating wage payout:", error);
+    return NextResponse.json({ error: "Failed to update wage payout" }, { status: 500 });
+  }
+}
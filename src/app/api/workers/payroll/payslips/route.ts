@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Worker, { type IWorker } from "@/models/Worker";
+import { getAdminSession } from "@/lib/admin-auth";
+import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import { parseWagePeriod } from "@/lib/wage-payroll";
+import { getLoyaltyPolicy } from "@/lib/worker-loyalty";
+import { buildPayslip, findPayslipWorkerIds, getCompanyDetails } from "@/lib/worker-payslip";
+
+// GET - Payslip figures for one month. Workers get their own; admins get one worker's
+// or, without workerId, every worker with activity in the month.
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const adminSession = await getAdminSession();
+    const workerSession = adminSession ? null : await getWorkerSessionFromCookie();
+
+    if (!adminSession && !workerSession) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const period = parseWagePeriod(req.nextUrl.searchParams.get("month") || "");
+    if (!period) {
+      return NextResponse.json({ error: "month must be in YYYY-MM format" }, { status: 400 });
+    }
+
+    const workerIdFromQuery = req.nextUrl.searchParams.get("workerId") || "";
+    if (workerIdFromQuery && !mongoose.isValidObjectId(workerIdFromQuery)) {
+      return NextResponse.json({ error: "Invalid workerId" }, { status: 400 });
+    }
+
+    const workerIds = workerSession
+      ? [workerSession.workerId]
+      : workerIdFromQuery
+        ? [workerIdFromQuery]
+        : await findPayslipWorkerIds(period);
+
+    const workers = await Worker.find({ _id: { $in: workerIds } }).sort({ name: 1 });
+    if ((workerSession || workerIdFromQuery) && workers.length === 0) {
+      return NextResponse.json({ error: "Worker not found" }, { status: 404 });
+    }
+
+    const [company, policy] = await Promise.all([getCompanyDetails(), getLoyaltyPolicy()]);
+    const payslips = [];
+    for (const worker of workers as IWorker[]) {
+      payslips.push(await buildPayslip(worker, period, policy));
+    }
+
+    return NextResponse.json({ company, payslips });
+  } catch (error) {
+    console.error("Error generating payslips:", error);
+    return NextResponse.json({ error: "Failed to generate payslips" }, { status: 500 });
+  }
+}
@@ -4,9 +4,12 @@ import Worker from "@/models/Worker";
 import WorkerAttendance from "@/models/WorkerAttendance";
 import WorkerAdvance from "@/models/WorkerAdvance";
 import WorkerLoyaltyEntry from "@/models/WorkerLoyaltyEntry";
-import WorkerLoyaltyWeeklyPayout from "@/models/WorkerLoyaltyWeeklyPayout";
+import WorkerWagePayout, { type IWorkerWagePayout } from "@/models/WorkerWagePayout";
 import { getAdminSession } from "@/lib/admin-auth";
 import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import { calculateGrossWage, getPreviousSettlement, resolveDailyWage } from "@/lib/wage-payroll";
+import { getLoyaltyPolicy, getLoyaltyWeekSpan, getLoyaltyWeeks } from "@/lib/worker-loyalty";
+import { resolvePointValue } from "@/lib/loyalty-policy";
 
 function getMonthRange(month: string) {
   const [yearStr, monthStr] = month.split("-");
@@ -32,20 +35,6 @@ function getMonthRange(month: string) {
   return { start, end };
 }
 
-function getWeekRange(date: Date) {
-  const day = date.getDay();
-  const diffToMonday = (day + 6) % 7;
-  const weekStart = new Date(date);
-  weekStart.setDate(date.getDate() - diffToMonday);
-  weekStart.setHours(0, 0, 0, 0);
-
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6);
-  weekEnd.setHours(23, 59, 59, 999);
-
-  return { weekStart, weekEnd };
-}
-
 export async function GET(req: NextRequest) {
   try {
     await dbConnect();
@@ -79,7 +68,8 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: "Worker not found" }, { status: 404 });
     }
 
-    const [attendanceAgg, advancesAgg, loyaltyAgg, weeklyLoyaltyAgg, attendanceEntries, advances, loyaltyEntries] = await Promise.all([
+    const loyaltySpan = getLoyaltyWeekSpan(monthRange.start, monthRange.end);
+    const [attendanceAgg, advancesAgg, attendanceEntries, advances, loyaltyEntries] = await Promise.all([
       WorkerAttendance.aggregate([
         {
           $match: {
@@ -113,60 +103,6 @@ export async function GET(req: NextRequest) {
           },
         },
       ]),
-      WorkerLoyaltyEntry.aggregate([
-        {
-          $match: {
-            workerId: worker._id,
-            date: { $gte: monthRange.start, $lte: monthRange.end },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            totalPoints: { $sum: "$points" },
-            earnedPoints: {
-              $sum: {
-                $cond: [{ $gt: ["$points", 0] }, "$points", 0],
-              },
-            },
-            deductedPoints: {
-              $sum: {
-                $cond: [{ $lt: ["$points", 0] }, "$points", 0],
-              },
-            },
-          },
-        },
-      ]),
-      WorkerLoyaltyEntry.aggregate([
-        {
-          $match: {
-            workerId: worker._id,
-            date: { $gte: monthRange.start, $lte: monthRange.end },
-          },
-        },
-        {
-          $group: {
-            _id: {
-              isoWeekYear: { $isoWeekYear: "$date" },
-              isoWeek: { $isoWeek: "$date" },
-            },
-            totalPoints: { $sum: "$points" },
-            earnedPoints: {
-              $sum: {
-                $cond: [{ $gt: ["$points", 0] }, "$points", 0],
-              },
-            },
-            deductedPoints: {
-              $sum: {
-                $cond: [{ $lt: ["$points", 0] }, "$points", 0],
-              },
-            },
-            firstDate: { $min: "$date" },
-            lastDate: { $max: "$date" },
-          },
-        },
-        { $sort: { "_id.isoWeekYear": 1, "_id.isoWeek": 1 } },
-      ]),
       WorkerAttendance.find({
         workerId: worker._id,
         date: { $gte: monthRange.start, $lte: monthRange.end },
@@ -180,9 +116,10 @@ export async function GET(req: NextRequest) {
       })
         .sort({ date: -1, createdAt: -1 })
         .lean(),
+      // Loyalty is counted by whole weeks, each in the month it ends in
       WorkerLoyaltyEntry.find({
         workerId: worker._id,
-        date: { $gte: monthRange.start, $lte: monthRange.end },
+        date: { $gte: loyaltySpan.start, $lte: loyaltySpan.end },
       })
         .sort({ date: -1, createdAt: -1 })
         .lean(),
@@ -190,47 +127,42 @@ export async function GET(req: NextRequest) {
 
     const totalUnits = attendanceAgg[0]?.totalUnits || 0;
     const attendanceDays = attendanceAgg[0]?.dayKeys?.length || 0;
-    const grossWage = totalUnits * (worker.dailyWage || 0);
+    // Each attendance unit is priced at the rate in effect on its own date
+    const { grossWage, rateBreakdown } = calculateGrossWage(
+      worker,
+      attendanceEntries.map((entry) => ({
+        date: entry.date,
+        units: entry.units,
+        projectId: entry.projectId,
+      }))
+    );
     const totalAdvance = advancesAgg[0]?.totalAdvance || 0;
     const netPayable = grossWage - totalAdvance;
-    const totalPoints = loyaltyAgg[0]?.totalPoints || 0;
-    const earnedPoints = loyaltyAgg[0]?.earnedPoints || 0;
-    const deductedPoints = Math.abs(loyaltyAgg[0]?.deductedPoints || 0);
-    const pointsRupees = totalPoints;
+    const loyaltyPolicy = await getLoyaltyPolicy();
+
+    // Paid months are frozen at settlement time; open months carry in the
+    // closing balance of the last settled month.
+    const period = {
+      year: monthRange.start.getFullYear(),
+      month: monthRange.start.getMonth() + 1,
+    };
+    const [wagePayout, previousSettlement] = await Promise.all([
+      WorkerWagePayout.findOne({ workerId: worker._id, ...period }).lean<IWorkerWagePayout>(),
+      getPreviousSettlement(worker._id, period),
+    ]);
+    const isSettled = wagePayout?.status === "paid";
+    const openingBalance = isSettled
+      ? wagePayout.openingBalance
+      : previousSettlement?.closingBalance || 0;
+    const totalPayable = isSettled ? wagePayout.totalPayable : netPayable + openingBalance;
+    const amountPaid = isSettled ? wagePayout.amountPaid : 0;
 
-    const weekKeys = weeklyLoyaltyAgg.map((week) => ({
-      isoWeekYear: week._id.isoWeekYear,
-      isoWeek: week._id.isoWeek,
-    }));
-    const payoutRecords = weekKeys.length
-      ? await WorkerLoyaltyWeeklyPayout.find({
-          workerId: worker._id,
-          $or: weekKeys,
-        }).lean()
-      : [];
-    const payoutMap = new Map(
-      payoutRecords.map((payout) => [`${payout.isoWeekYear}-${payout.isoWeek}`, payout])
-    );
+    const weeklyPayouts = await getLoyaltyWeeks(worker._id, monthRange.start, monthRange.end, loyaltyPolicy);
 
-    const weeklyPayouts = weeklyLoyaltyAgg.map((week) => {
-      const { weekStart, weekEnd } = getWeekRange(new Date(week.firstDate));
-      const netPoints = week.totalPoints || 0;
-      const key = `${week._id.isoWeekYear}-${week._id.isoWeek}`;
-      const payoutRecord = payoutMap.get(key);
-      return {
-        isoWeekYear: week._id.isoWeekYear,
-        isoWeek: week._id.isoWeek,
-        weekStart,
-        weekEnd,
-        earnedPoints: week.earnedPoints || 0,
-        deductedPoints: Math.abs(week.deductedPoints || 0),
-        netPoints,
-        weeklyPayoutRupees: Math.max(0, netPoints),
-        payoutStatus: payoutRecord?.status || "pending",
-        paidAt: payoutRecord?.paidAt || null,
-        payoutRecordId: payoutRecord?._id || null,
-      };
-    });
+    const totalPoints = weeklyPayouts.reduce((sum, week) => sum + week.netPoints, 0);
+    const earnedPoints = weeklyPayouts.reduce((sum, week) => sum + week.earnedPoints, 0);
+    const deductedPoints = weeklyPayouts.reduce((sum, week) => sum + week.deductedPoints, 0);
+    const pointsRupees = weeklyPayouts.reduce((sum, week) => sum + week.weeklyPayoutRupees, 0);
 
     return NextResponse.json({
       worker: {
@@ -238,7 +170,7 @@ export async function GET(req: NextRequest) {
         workerCode: worker.workerCode,
         name: worker.name,
         mobile: worker.mobile,
-        dailyWage: worker.dailyWage,
+        dailyWage: resolveDailyWage(worker, monthRange.end),
       },
       period: {
         month: month || `${monthRange.start.getFullYear()}-${String(monthRange.start.getMonth() + 1).padStart(2, "0")}`,
@@ -251,11 +183,24 @@ export async function GET(req: NextRequest) {
         grossWage,
         totalAdvance,
         netPayable,
+        rateBreakdown,
+      },
+      settlement: {
+        status: isSettled ? "paid" : "pending",
+        openingBalance,
+        totalPayable,
+        amountPaid,
+        closingBalance: totalPayable - amountPaid,
+        paymentMethod: isSettled ? wagePayout.paymentMethod || null : null,
+        paidAt: isSettled ? wagePayout.paidAt || null : null,
+        note: isSettled ? wagePayout.note || "" : "",
+        payoutRecordId: wagePayout?._id || null,
       },
       loyalty: {
         rules: {
-          dailyMaxEarnPoints: 100,
-          pointValueInRupees: 1,
+          dailyMaxEarnPoints: loyaltyPolicy.dailyEarnCap,
+          weeklyMaxEarnPoints: loyaltyPolicy.weeklyEarnCap ?? null,
+          pointValueInRupees: resolvePointValue(loyaltyPolicy.pointRates, monthRange.end),
           weeklyPayoutSeparateFromWages: true,
         },
         totalPoints,
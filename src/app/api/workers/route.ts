@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import dbConnect from "@/lib/mongodb";
-import Worker from "@/models/Worker";
+import Worker, { type IWorker } from "@/models/Worker";
 import { getAdminSession } from "@/lib/admin-auth";
 import { generateWorkerCode } from "@/lib/generateWorkerCode";
 import { normalizeMobile } from "@/lib/twilio-verify";
+import { resolveDailyWage } from "@/lib/wage-payroll";
 
 export async function GET(req: NextRequest) {
   try {
@@ -28,7 +29,11 @@ export async function GET(req: NextRequest) {
       ];
     }
 
-    const workers = await Worker.find(query).sort({ createdAt: -1 }).lean();
+    const now = new Date();
+    const workers = (await Worker.find(query).sort({ createdAt: -1 }).lean<IWorker[]>()).map((worker) => ({
+      ...worker,
+      dailyWage: resolveDailyWage(worker, now),
+    }));
 
     return NextResponse.json({ workers });
   } catch (error) {
@@ -70,17 +75,21 @@ export async function POST(req: NextRequest) {
     }
 
     const workerCode = await generateWorkerCode();
+    const joinedOn = body?.joinedOn ? new Date(body.joinedOn) : undefined;
+    const rateEffectiveFrom = joinedOn ? new Date(joinedOn) : new Date();
+    rateEffectiveFrom.setHours(0, 0, 0, 0);
 
     const worker = await Worker.create({
       workerCode,
       mobile,
       name,
       dailyWage,
+      wageRates: [{ dailyWage, effectiveFrom: rateEffectiveFrom, projectId: null, createdBy: session.user.id }],
       defaultShiftUnits,
       status: "active",
       isProfileCompleted: Boolean(name),
       notes: typeof body?.notes === "string" ? body.notes : "",
-      joinedOn: body?.joinedOn ? new Date(body.joinedOn) : undefined,
+      joinedOn,
       createdBy: session.user.id,
     });
 
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import dbConnect from "@/lib/mongodb";
+import CrewAssignment from "@/models/CrewAssignment";
+import { getAdminSession } from "@/lib/admin-auth";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(_: NextRequest, { params }: Params) {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const { id } = await params;
+    await dbConnect();
+
+    const assignment = await CrewAssignment.findByIdAndDelete(id);
+    if (!assignment) {
+      return NextResponse.json({ error: "Assignment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting crew assignment:", error);
+    return NextResponse.json({ error: "Failed to delete crew assignment" }, { status: 500 });
+  }
+}
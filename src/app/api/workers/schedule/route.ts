@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Worker from "@/models/Worker";
+import Project from "@/models/Project";
+import CrewAssignment from "@/models/CrewAssignment";
+import { getAdminSession } from "@/lib/admin-auth";
+import { getWorkerSessionFromCookie } from "@/lib/worker-auth";
+import { ACTIVE_PROJECT_STATUSES } from "@/lib/project-status";
+import { MAX_ASSIGNMENT_DAYS, findDoubleBookings, getScheduleDays } from "@/lib/crew-schedule";
+
+// Workers see their own plan for the coming fortnight unless they ask for a range
+const WORKER_LOOKAHEAD_DAYS = 14;
+
+function parseDate(value: string | null) {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    await dbConnect();
+
+    const adminSession = await getAdminSession();
+    const workerSession = adminSession ? null : await getWorkerSessionFromCookie();
+
+    if (!adminSession && !workerSession) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const startInput = searchParams.get("startDate");
+    const endInput = searchParams.get("endDate");
+    const start = startInput ? parseDate(startInput) : new Date();
+    if (!start) return NextResponse.json({ error: "Invalid startDate" }, { status: 400 });
+    start.setHours(0, 0, 0, 0);
+
+    let end = endInput ? parseDate(endInput) : null;
+    if (endInput && !end) return NextResponse.json({ error: "Invalid endDate" }, { status: 400 });
+    if (!end) {
+      end = new Date(start);
+      end.setDate(end.getDate() + WORKER_LOOKAHEAD_DAYS - 1);
+    }
+    end.setHours(23, 59, 59, 999);
+
+    const query: Record<string, unknown> = { date: { $gte: start, $lte: end } };
+    if (workerSession) {
+      query.workerId = workerSession.workerId;
+    } else {
+      const workerId = searchParams.get("workerId");
+      const projectId = searchParams.get("projectId");
+      if (workerId) query.workerId = workerId;
+      if (projectId) query.projectId = projectId;
+    }
+
+    const assignments = await CrewAssignment.find(query)
+      .populate("workerId", "workerCode name mobile status")
+      .populate("projectId", "projectId clientName clientAddress status plannedStartDate plannedEndDate")
+      .sort({ date: 1, createdAt: 1 })
+      .lean();
+
+    return NextResponse.json({ assignments });
+  } catch (error) {
+    console.error("Error fetching crew schedule:", error);
+    return NextResponse.json({ error: "Failed to fetch crew schedule" }, { status: 500 });
+  }
+}
+
+// POST - Assign a crew to a project for every day in a date range. Existing
+// assignments are left as they are, and double bookings are reported, not refused.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getAdminSession();
+    if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json();
+
+    const projectId = body?.projectId;
+    const workerIds: unknown[] = Array.isArray(body?.workerIds) ? body.workerIds : [];
+    const start = parseDate(typeof body?.startDate === "string" ? body.startDate : null);
+    const end = parseDate(typeof body?.endDate === "string" ? body.endDate : body?.startDate ?? null);
+    const note = typeof body?.note === "string" ? body.note.trim() : "";
+
+    if (!projectId || typeof projectId !== "string" || !mongoose.isValidObjectId(projectId)) {
+      return NextResponse.json({ error: "projectId is required" }, { status: 400 });
+    }
+
+    if (workerIds.length === 0 || workerIds.some((id) => typeof id !== "string" || !mongoose.isValidObjectId(id))) {
+      return NextResponse.json({ error: "Select at least one worker" }, { status: 400 });
+    }
+
+    if (!start || !end) {
+      return NextResponse.json({ error: "Valid startDate and endDate are required" }, { status: 400 });
+    }
+
+    const days = getScheduleDays(start, end);
+    if (days.length === 0) {
+      return NextResponse.json({ error: "endDate must be on or after startDate" }, { status: 400 });
+    }
+    if (days.length > MAX_ASSIGNMENT_DAYS) {
+      return NextResponse.json(
+        { error: `A crew can be assigned for at most ${MAX_ASSIGNMENT_DAYS} days at a time` },
+        { status: 400 }
+      );
+    }
+
+    await dbConnect();
+
+    const project = await Project.findOne({ _id: projectId, status: { $in: ACTIVE_PROJECT_STATUSES } })
+      .select("_id")
+      .lean();
+    if (!project) {
+      return NextResponse.json({ error: "Selected project not found or inactive" }, { status: 404 });
+    }
+
+    const uniqueWorkerIds = [...new Set(workerIds as string[])];
+    const activeWorkers = await Worker.countDocuments({ _id: { $in: uniqueWorkerIds }, status: "active" });
+    if (activeWorkers !== uniqueWorkerIds.length) {
+      return NextResponse.json({ error: "Worker not found or inactive" }, { status: 404 });
+    }
+
+    const result = await CrewAssignment.bulkWrite(
+      uniqueWorkerIds.flatMap((workerId) =>
+        days.map((date) => ({
+          updateOne: {
+            filter: { workerId, projectId, date },
+            update: { $setOnInsert: { workerId, projectId, date, note, assignedBy: session.user.id } },
+            upsert: true,
+          },
+        }))
+      )
+    );
+
+    // Other sites the same workers are planned onto over the range
+    const rangeEnd = new Date(days[days.length - 1]);
+    rangeEnd.setHours(23, 59, 59, 999);
+    const overlapping = await CrewAssignment.find({
+      workerId: { $in: uniqueWorkerIds },
+      date: { $gte: days[0], $lte: rangeEnd },
+    })
+      .select("workerId projectId date")
+      .lean<{ workerId: mongoose.Types.ObjectId; projectId: mongoose.Types.ObjectId; date: Date }[]>();
+    const doubleBooked = [
+      ...findDoubleBookings(
+        overlapping.map((entry) => ({
+          workerId: String(entry.workerId),
+          projectId: String(entry.projectId),
+          date: entry.date,
+        }))
+      ),
+    ].map((key) => {
+      const [workerId, date] = key.split(":");
+      return { workerId, date };
+    });
+
+    return NextResponse.json(
+      {
+        assigned: result.upsertedCount,
+        skipped: uniqueWorkerIds.length * days.length - result.upsertedCount,
+        doubleBooked,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error assigning crew:", error);
+    return NextResponse.json({ error: "Failed to assign crew" }, { status: 500 });
+  }
+}
@@ -0,0 +1,6 @@
+import ClientDetail from "@/components/clients/ClientDetail";
+
+export default async function ClientDetailPage({ params }: { params: Promise<{ clientId: string }> }) {
+  const { clientId } = await params;
+  return <ClientDetail clientId={clientId} />;
+}
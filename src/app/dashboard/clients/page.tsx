@@ -0,0 +1,5 @@
+import ClientList from "@/components/clients/ClientList";
+
+export default function ClientsPage() {
+  return <ClientList />;
+}
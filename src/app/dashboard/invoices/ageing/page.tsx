@@ -0,0 +1,5 @@
+import AgeingReport from "@/components/invoice/AgeingReport";
+
+export default function AgeingReportPage() {
+  return <AgeingReport />;
+}
@@ -0,0 +1,5 @@
+import RateCardManager from "@/components/catalog/RateCardManager";
+
+export default function RateCardPage() {
+  return <RateCardManager />;
+}
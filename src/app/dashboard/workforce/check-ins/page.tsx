@@ -0,0 +1,328 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { AlertTriangle, ArrowLeft, Camera, Check, Loader2, MapPin, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CHECK_IN_STATUS_LABELS,
+  getGeofenceRadius,
+  getHoursOnSite,
+  type CheckInStatus,
+  type SiteLocation,
+} from "@/lib/site-check-in";
+
+type CheckInLocation = {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  distanceMeters: number;
+};
+
+type CheckIn = {
+  _id: string;
+  date: string;
+  checkInAt: string;
+  checkInLocation: CheckInLocation;
+  checkOutAt?: string;
+  checkOutLocation?: CheckInLocation;
+  selfie?: { url: string };
+  status: CheckInStatus;
+  suggestedUnits?: number;
+  units?: number;
+  reviewNote?: string;
+  workerId: { _id: string; workerCode: string; name: string } | null;
+  projectId: { _id: string; projectId: string; clientName: string; siteLocation?: SiteLocation } | null;
+};
+
+type ReviewFilter = "review" | "approved" | "rejected";
+
+const FILTER_STATUSES: Record<ReviewFilter, CheckInStatus[]> = {
+  review: ["pending", "checked_in"],
+  approved: ["approved"],
+  rejected: ["rejected"],
+};
+
+const UNIT_OPTIONS = [
+  { value: "0.5", label: "Half day (0.5)" },
+  { value: "1", label: "Full day (1)" },
+  { value: "1.5", label: "Overtime (1.5)" },
+  { value: "2", label: "Double (2)" },
+];
+
+const STATUS_STYLES: Record<CheckInStatus, string> = {
+  checked_in: "bg-blue-100 text-blue-700",
+  pending: "bg-amber-100 text-amber-700",
+  approved: "bg-emerald-100 text-emerald-700",
+  rejected: "bg-red-100 text-red-700",
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-IN", { hour: "numeric", minute: "2-digit" });
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" });
+
+function isOutsideSite(checkIn: CheckIn, location?: CheckInLocation) {
+  if (!location || !checkIn.projectId?.siteLocation) return false;
+  return location.distanceMeters > getGeofenceRadius(checkIn.projectId.siteLocation);
+}
+
+export default function SiteCheckInsPage() {
+  const router = useRouter();
+  const [filter, setFilter] = useState<ReviewFilter>("review");
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const [reviewTarget, setReviewTarget] = useState<CheckIn | null>(null);
+  const [reviewAction, setReviewAction] = useState<"approve" | "reject">("approve");
+  const [reviewForm, setReviewForm] = useState({ units: "1", note: "" });
+
+  const loadCheckIns = useCallback(async () => {
+    const response = await fetch(`/api/workers/check-ins?status=${FILTER_STATUSES[filter].join(",")}`);
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || "Failed to load check-ins");
+    setCheckIns(json.checkIns || []);
+  }, [filter]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadCheckIns()
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load check-ins"))
+      .finally(() => setLoading(false));
+  }, [loadCheckIns]);
+
+  const submitReview = async (checkIn: CheckIn, action: "approve" | "reject", units?: number, note?: string) => {
+    try {
+      setSavingId(checkIn._id);
+      const response = await fetch(`/api/workers/check-ins/${checkIn._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, units, note }),
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to review check-in");
+      toast.success(action === "approve" ? "Attendance recorded" : "Check-in rejected");
+      setReviewTarget(null);
+      await loadCheckIns();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to review check-in");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const openReview = (checkIn: CheckIn, action: "approve" | "reject") => {
+    setReviewTarget(checkIn);
+    setReviewAction(action);
+    setReviewForm({ units: String(checkIn.suggestedUnits ?? 1), note: "" });
+  };
+
+  const handleSubmitReview = () => {
+    if (!reviewTarget) return;
+    submitReview(
+      reviewTarget,
+      reviewAction,
+      reviewAction === "approve" ? Number(reviewForm.units) : undefined,
+      reviewForm.note.trim() || undefined
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100">
+      <div className="mx-auto w-full max-w-3xl px-4 py-4 sm:px-6 lg:px-8">
+        <div className="sticky top-0 z-30 -mx-4 px-4 sm:-mx-6 sm:px-6 lg:-mx-8 lg:px-8 pt-2 pb-4 bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100 backdrop-blur-sm">
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => router.push("/dashboard/workforce")}
+              className="flex h-9 w-9 items-center justify-center rounded-full hover:bg-slate-200 transition-colors"
+              aria-label="Back to workforce"
+            >
+              <ArrowLeft className="h-5 w-5 text-slate-700" />
+            </button>
+            <h1 className="text-lg font-semibold text-slate-900">Site Check-ins</h1>
+            <span className="h-9 w-9" />
+          </div>
+
+          <div className="flex gap-2">
+            {[
+              { id: "review", label: "To Review" },
+              { id: "approved", label: "Approved" },
+              { id: "rejected", label: "Rejected" },
+            ].map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setFilter(tab.id as ReviewFilter)}
+                className={`whitespace-nowrap rounded-full px-5 py-2 text-sm font-medium transition-all ${
+                  filter === tab.id
+                    ? "bg-slate-900 text-white shadow-sm"
+                    : "bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 hover:text-slate-900"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-10 text-slate-500">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : checkIns.length === 0 ? (
+          <p className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">
+            {filter === "review" ? "Nothing waiting for review." : "No check-ins."}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {checkIns.map((checkIn) => {
+              const outsideOnCheckOut = isOutsideSite(checkIn, checkIn.checkOutLocation);
+              return (
+                <div key={checkIn._id} className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="flex min-w-0 gap-3">
+                      {checkIn.selfie ? (
+                        <a
+                          href={checkIn.selfie.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="relative h-12 w-12 shrink-0 overflow-hidden rounded-full"
+                        >
+                          <Image src={checkIn.selfie.url} alt="Check-in selfie" fill className="object-cover" unoptimized />
+                        </a>
+                      ) : (
+                        <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-full bg-slate-100">
+                          <Camera className="h-5 w-5 text-slate-400" />
+                        </div>
+                      )}
+                      <div className="min-w-0">
+                        <p className="font-medium text-slate-900">
+                          {checkIn.workerId?.name || checkIn.workerId?.workerCode || "Worker"}
+                        </p>
+                        <p className="truncate text-xs text-slate-500">
+                          {checkIn.projectId ? `#${checkIn.projectId.projectId} · ${checkIn.projectId.clientName}` : "Project"}
+                        </p>
+                        <p className="mt-1 text-sm text-slate-700">
+                          {formatDay(checkIn.date)} · {formatTime(checkIn.checkInAt)}
+                          {checkIn.checkOutAt
+                            ? ` – ${formatTime(checkIn.checkOutAt)} (${getHoursOnSite(checkIn.checkInAt, checkIn.checkOutAt).toFixed(1)} h)`
+                            : " – not checked out"}
+                        </p>
+                        <p className="flex items-center gap-1 text-xs text-slate-500">
+                          <MapPin className="h-3 w-3" /> In {checkIn.checkInLocation.distanceMeters} m from site
+                          {checkIn.checkOutLocation && `, out ${checkIn.checkOutLocation.distanceMeters} m`}
+                        </p>
+                        {outsideOnCheckOut && (
+                          <p className="flex items-center gap-1 text-xs font-medium text-amber-700">
+                            <AlertTriangle className="h-3 w-3" /> Checked out away from the site
+                          </p>
+                        )}
+                        {checkIn.reviewNote && <p className="text-xs text-slate-500">Note: {checkIn.reviewNote}</p>}
+                      </div>
+                    </div>
+                    <span className={`shrink-0 rounded-full px-2.5 py-1 text-xs font-medium ${STATUS_STYLES[checkIn.status]}`}>
+                      {CHECK_IN_STATUS_LABELS[checkIn.status]}
+                      {checkIn.status === "approved" && checkIn.units ? ` · ${checkIn.units}` : ""}
+                    </span>
+                  </div>
+
+                  {(checkIn.status === "pending" || checkIn.status === "checked_in") && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      {checkIn.suggestedUnits !== undefined && (
+                        <Button
+                          size="sm"
+                          className="h-8 gap-1"
+                          disabled={savingId === checkIn._id}
+                          onClick={() => submitReview(checkIn, "approve", checkIn.suggestedUnits)}
+                        >
+                          <Check className="h-4 w-4" /> Approve {checkIn.suggestedUnits}
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" className="h-8" onClick={() => openReview(checkIn, "approve")}>
+                        {checkIn.suggestedUnits !== undefined ? "Adjust" : "Approve"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8 gap-1 text-red-600"
+                        onClick={() => openReview(checkIn, "reject")}
+                      >
+                        <X className="h-4 w-4" /> Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!reviewTarget} onOpenChange={(open) => !open && setReviewTarget(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{reviewAction === "approve" ? "Approve Check-in" : "Reject Check-in"}</DialogTitle>
+            <DialogDescription>
+              {reviewTarget?.workerId?.name || ""} · {reviewTarget ? formatDay(reviewTarget.date) : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {reviewAction === "approve" && (
+              <div className="space-y-2">
+                <Label htmlFor="reviewUnits">Units</Label>
+                <Select value={reviewForm.units} onValueChange={(units) => setReviewForm({ ...reviewForm, units })}>
+                  <SelectTrigger id="reviewUnits">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNIT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="reviewNote">Note (Optional)</Label>
+              <Input
+                id="reviewNote"
+                value={reviewForm.note}
+                onChange={(e) => setReviewForm({ ...reviewForm, note: e.target.value })}
+                placeholder={reviewAction === "reject" ? "e.g. Was not on site" : ""}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewAction === "reject" ? "destructive" : "default"}
+              onClick={handleSubmitReview}
+              disabled={savingId === reviewTarget?._id}
+            >
+              {reviewAction === "approve" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
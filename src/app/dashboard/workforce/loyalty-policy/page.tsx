@@ -0,0 +1,415 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Loader2, Plus, Sparkles, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toDateKey } from "@/lib/crew-schedule";
+import {
+  AUTO_AWARD_RULE_DESCRIPTIONS,
+  AUTO_AWARD_RULE_LABELS,
+  resolvePointValue,
+  toCategoryKey,
+  type AutoAwardSetting,
+  type LoyaltyCategory,
+  type LoyaltyEntryType,
+  type LoyaltyPolicyRules,
+} from "@/lib/loyalty-policy";
+
+// Form rows keep numbers as strings while they are being typed
+type CategoryRow = Omit<LoyaltyCategory, "defaultPoints"> & { defaultPoints: string; isNew: boolean };
+type RateRow = { rupeesPerPoint: string; effectiveFrom: string };
+type AutoAwardRow = Omit<AutoAwardSetting, "points"> & { points: string };
+
+const ENTRY_TYPE_TITLES: Record<LoyaltyEntryType, string> = {
+  credit: "Credit Categories (+)",
+  debit: "Debit Categories (-)",
+};
+
+function toForm(policy: LoyaltyPolicyRules) {
+  return {
+    dailyEarnCap: String(policy.dailyEarnCap),
+    weeklyEarnCap: policy.weeklyEarnCap ? String(policy.weeklyEarnCap) : "",
+    categories: policy.categories.map((category) => ({
+      ...category,
+      defaultPoints: String(category.defaultPoints),
+      isNew: false,
+    })),
+    pointRates: policy.pointRates.map((rate) => ({
+      rupeesPerPoint: String(rate.rupeesPerPoint),
+      effectiveFrom: toDateKey(rate.effectiveFrom),
+    })),
+    autoAwards: policy.autoAwards.map((setting) => ({ ...setting, points: String(setting.points) })),
+  };
+}
+
+export default function LoyaltyPolicyPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDefault, setIsDefault] = useState(false);
+  const [dailyEarnCap, setDailyEarnCap] = useState("");
+  const [weeklyEarnCap, setWeeklyEarnCap] = useState("");
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  const [pointRates, setPointRates] = useState<RateRow[]>([]);
+  const [autoAwards, setAutoAwards] = useState<AutoAwardRow[]>([]);
+  const [isRunningAwards, setIsRunningAwards] = useState(false);
+
+  const applyPolicy = (policy: LoyaltyPolicyRules, usingDefaults: boolean) => {
+    const form = toForm(policy);
+    setDailyEarnCap(form.dailyEarnCap);
+    setWeeklyEarnCap(form.weeklyEarnCap);
+    setCategories(form.categories);
+    setPointRates(form.pointRates);
+    setAutoAwards(form.autoAwards);
+    setIsDefault(usingDefaults);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch("/api/workers/loyalty/policy");
+        const json = await response.json();
+        if (!response.ok) throw new Error(json.error || "Failed to load loyalty rules");
+        applyPolicy(json.policy, json.isDefault);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to load loyalty rules");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const validRates = pointRates.filter((rate) => rate.effectiveFrom && rate.rupeesPerPoint !== "");
+  const currentPointValue = validRates.length
+    ? resolvePointValue(
+        validRates.map((rate) => ({ rupeesPerPoint: Number(rate.rupeesPerPoint), effectiveFrom: rate.effectiveFrom })),
+        new Date()
+      )
+    : null;
+
+  const updateCategory = (index: number, update: Partial<CategoryRow>) => {
+    setCategories((rows) =>
+      rows.map((row, rowIndex) => {
+        if (rowIndex !== index) return row;
+        const next = { ...row, ...update };
+        // New categories take their key from the label; saved keys never change
+        if (row.isNew && update.label !== undefined) next.key = toCategoryKey(update.label);
+        return next;
+      })
+    );
+  };
+
+  const addCategory = (entryType: LoyaltyEntryType) => {
+    setCategories((rows) => [
+      ...rows,
+      { key: "", label: "", entryType, defaultPoints: "5", active: true, isNew: true },
+    ]);
+  };
+
+  const updateRate = (index: number, update: Partial<RateRow>) => {
+    setPointRates((rows) => rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...update } : row)));
+  };
+
+  const updateAutoAward = (index: number, update: Partial<AutoAwardRow>) => {
+    setAutoAwards((rows) => rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...update } : row)));
+  };
+
+  const handleRunAwards = async () => {
+    try {
+      setIsRunningAwards(true);
+      const response = await fetch("/api/workers/loyalty/auto-awards", { method: "POST" });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to run automatic awards");
+      toast.success(`${json.awarded.length} automatic entr${json.awarded.length === 1 ? "y" : "ies"} added`);
+      if (json.skipped.length) {
+        toast.warning(`${json.skipped.length} skipped: ${json.skipped[0].reason}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run automatic awards");
+    } finally {
+      setIsRunningAwards(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/workers/loyalty/policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dailyEarnCap: Number(dailyEarnCap),
+          weeklyEarnCap: weeklyEarnCap ? Number(weeklyEarnCap) : null,
+          categories: categories.map((category) => ({
+            key: category.key,
+            label: category.label,
+            entryType: category.entryType,
+            defaultPoints: Number(category.defaultPoints),
+            active: category.active,
+          })),
+          pointRates: pointRates.map((rate) => ({
+            rupeesPerPoint: Number(rate.rupeesPerPoint),
+            effectiveFrom: rate.effectiveFrom,
+          })),
+          autoAwards: autoAwards.map((setting) => ({ ...setting, points: Number(setting.points) })),
+        }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        throw new Error(Array.isArray(json.error) ? json.error[0]?.message : json.error || "Failed to save loyalty rules");
+      }
+      applyPolicy(json.policy, json.isDefault);
+      toast.success("Loyalty rules saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save loyalty rules");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100">
+      <div className="mx-auto w-full max-w-3xl px-4 py-4 sm:px-6 lg:px-8">
+        <div className="sticky top-0 z-30 -mx-4 px-4 sm:-mx-6 sm:px-6 lg:-mx-8 lg:px-8 pt-2 pb-4 bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100 backdrop-blur-sm">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => router.push("/dashboard/workforce")}
+              className="flex h-9 w-9 items-center justify-center rounded-full hover:bg-slate-200 transition-colors"
+              aria-label="Back to workforce"
+            >
+              <ArrowLeft className="h-5 w-5 text-slate-700" />
+            </button>
+            <h1 className="text-lg font-semibold text-slate-900">Loyalty Rules</h1>
+            <Button size="sm" onClick={handleSave} disabled={loading || isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-10 text-slate-500">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {isDefault && (
+              <p className="rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                These are the standard rules from the loyalty program. Save to start editing them.
+              </p>
+            )}
+
+            <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+              <h2 className="mb-1 text-base font-semibold text-slate-900">Earn Caps</h2>
+              <p className="mb-3 text-xs text-slate-500">Limits on credits per worker. Debits are never capped.</p>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="dailyEarnCap">Points per day</Label>
+                  <Input
+                    id="dailyEarnCap"
+                    type="number"
+                    min="1"
+                    value={dailyEarnCap}
+                    onChange={(e) => setDailyEarnCap(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="weeklyEarnCap">Points per week</Label>
+                  <Input
+                    id="weeklyEarnCap"
+                    type="number"
+                    min="1"
+                    placeholder="No weekly cap"
+                    value={weeklyEarnCap}
+                    onChange={(e) => setWeeklyEarnCap(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+              <div className="mb-3 flex items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-base font-semibold text-slate-900">Point Value</h2>
+                  <p className="text-xs text-slate-500">
+                    Weekly payouts use the value in effect when the week starts.
+                    {currentPointValue !== null ? ` Today 1 point = Rs. ${currentPointValue}.` : ""}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 shrink-0 gap-1"
+                  onClick={() => setPointRates((rows) => [...rows, { rupeesPerPoint: "", effectiveFrom: toDateKey(new Date()) }])}
+                >
+                  <Plus className="h-4 w-4" /> Add
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {pointRates.map((rate, index) => (
+                  <div key={index} className="flex items-end gap-2">
+                    <div className="flex-1 space-y-1">
+                      <Label className="text-xs text-slate-600">Rs. per point</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={rate.rupeesPerPoint}
+                        onChange={(e) => updateRate(index, { rupeesPerPoint: e.target.value })}
+                      />
+                    </div>
+                    <div className="flex-1 space-y-1">
+                      <Label className="text-xs text-slate-600">From</Label>
+                      <Input
+                        type="date"
+                        value={rate.effectiveFrom}
+                        onChange={(e) => updateRate(index, { effectiveFrom: e.target.value })}
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9 text-slate-500"
+                      onClick={() => setPointRates((rows) => rows.filter((_, rowIndex) => rowIndex !== index))}
+                      disabled={pointRates.length === 1}
+                      aria-label="Remove point value"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+              <div className="mb-3 flex items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-base font-semibold text-slate-900">Automatic Awards</h2>
+                  <p className="text-xs text-slate-500">
+                    Checked once a day. Each worker gets an award once per event, and automatic entries can be reversed
+                    like any other.
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 shrink-0 gap-1"
+                  onClick={handleRunAwards}
+                  disabled={isRunningAwards}
+                >
+                  <Sparkles className="h-4 w-4" /> {isRunningAwards ? "Running..." : "Run now"}
+                </Button>
+              </div>
+              <div className="divide-y divide-slate-100">
+                {autoAwards.map((setting, index) => (
+                  <div key={setting.rule} className="space-y-2 py-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="text-sm font-medium text-slate-900">{AUTO_AWARD_RULE_LABELS[setting.rule]}</p>
+                        <p className="text-xs text-slate-500">{AUTO_AWARD_RULE_DESCRIPTIONS[setting.rule]}</p>
+                      </div>
+                      <Switch
+                        checked={setting.enabled}
+                        onCheckedChange={(enabled) => updateAutoAward(index, { enabled })}
+                        aria-label={`Enable ${AUTO_AWARD_RULE_LABELS[setting.rule]}`}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Select value={setting.category} onValueChange={(category) => updateAutoAward(index, { category })}>
+                        <SelectTrigger className="h-8 flex-1">
+                          <SelectValue placeholder="Category" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories
+                            .filter((category) => category.active && category.key)
+                            .map((category) => (
+                              <SelectItem key={category.key} value={category.key}>
+                                {category.label} ({category.entryType === "credit" ? "+" : "-"})
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={setting.points}
+                        onChange={(e) => updateAutoAward(index, { points: e.target.value })}
+                        className="h-8 w-20"
+                        aria-label="Points"
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {(["credit", "debit"] as const).map((entryType) => (
+              <div key={entryType} className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                <div className="mb-3 flex items-center justify-between gap-3">
+                  <h2 className="text-base font-semibold text-slate-900">{ENTRY_TYPE_TITLES[entryType]}</h2>
+                  <Button variant="outline" size="sm" className="h-8 gap-1" onClick={() => addCategory(entryType)}>
+                    <Plus className="h-4 w-4" /> Add
+                  </Button>
+                </div>
+                <div className="divide-y divide-slate-100">
+                  {categories.map((category, index) =>
+                    category.entryType !== entryType ? null : (
+                      <div key={index} className="flex items-center gap-2 py-2">
+                        <div className="min-w-0 flex-1">
+                          <Input
+                            value={category.label}
+                            onChange={(e) => updateCategory(index, { label: e.target.value })}
+                            placeholder="Category name"
+                            className={`h-8 ${category.active ? "" : "text-slate-400"}`}
+                          />
+                          <p className="mt-0.5 truncate text-[11px] text-slate-400">{category.key || "key"}</p>
+                        </div>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={category.defaultPoints}
+                          onChange={(e) => updateCategory(index, { defaultPoints: e.target.value })}
+                          className="h-8 w-16"
+                          aria-label="Default points"
+                        />
+                        <Switch
+                          checked={category.active}
+                          onCheckedChange={(active) => updateCategory(index, { active })}
+                          aria-label="Active"
+                        />
+                        {category.isNew ? (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-slate-500"
+                            onClick={() => setCategories((rows) => rows.filter((_, rowIndex) => rowIndex !== index))}
+                            aria-label="Remove category"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <span className="w-8" />
+                        )}
+                      </div>
+                    )
+                  )}
+                </div>
+                <p className="mt-2 text-xs text-slate-500">
+                  Switch a category off to retire it. Its past entries keep their label.
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,629 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, FileArchive, FileText, Loader2, Users } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { generateMusterRollPDF, generatePayslipsZip } from "@/app/lib/generate-pdf";
+import { toDateKey } from "@/lib/crew-schedule";
+import { buildMusterRoll, formatMusterCell, getMonthDays, sumUnits, toMonthKey } from "@/lib/muster-roll";
+
+type Worker = {
+  _id: string;
+  workerCode: string;
+  name: string;
+  status: "active" | "inactive";
+  defaultShiftUnits: number;
+};
+
+type RollProject = {
+  _id: string;
+  projectId: string;
+  clientName: string;
+};
+
+type AttendanceEntry = {
+  _id: string;
+  workerId: { _id: string } | null;
+  projectId: RollProject | null;
+  date: string;
+  units: number;
+  note?: string;
+};
+
+type RollEntry = {
+  _id: string;
+  workerId: string;
+  date: string;
+  units: number;
+  entry: AttendanceEntry;
+};
+
+type CrewRow = { selected: boolean; units: string };
+
+type BulkFailure = { workerId: string; workerName: string; error: string };
+
+const UNIT_OPTIONS = ["0.5", "1", "1.5", "2"];
+// Select items cannot have an empty value, so a cleared cell uses this instead
+const ABSENT = "absent";
+
+const workerLabel = (worker: Worker) => worker.name || worker.workerCode;
+
+function shiftMonth(month: string, offset: number) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return toMonthKey(new Date(year, monthIndex - 1 + offset, 1));
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export default function MusterRollPage() {
+  const router = useRouter();
+  const [month, setMonth] = useState(() => toMonthKey(new Date()));
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [projects, setProjects] = useState<RollProject[]>([]);
+  const [attendance, setAttendance] = useState<AttendanceEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Site that cells marked inline are recorded against
+  const [cellProjectId, setCellProjectId] = useState("");
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+  const [isDownloadingPayslips, setIsDownloadingPayslips] = useState(false);
+
+  const [crewOpen, setCrewOpen] = useState(false);
+  const [crewForm, setCrewForm] = useState({ date: "", projectId: "", note: "" });
+  const [crewRows, setCrewRows] = useState<Record<string, CrewRow>>({});
+  const [crewFailures, setCrewFailures] = useState<BulkFailure[]>([]);
+  const [isMarkingCrew, setIsMarkingCrew] = useState(false);
+
+  const days = useMemo(() => getMonthDays(month), [month]);
+  const todayKey = toDateKey(new Date());
+
+  const loadAttendance = useCallback(async () => {
+    const monthDays = getMonthDays(month);
+    const startDate = toDateKey(monthDays[0]);
+    const endDate = toDateKey(monthDays[monthDays.length - 1]);
+    const response = await fetch(`/api/workers/attendance?startDate=${startDate}&endDate=${endDate}`);
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || "Failed to load attendance");
+    setAttendance(json.attendance || []);
+  }, [month]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [workersRes, projectsRes] = await Promise.all([
+          fetch("/api/workers?status=all"),
+          fetch("/api/projects/ongoing"),
+        ]);
+        const workersJson = await workersRes.json();
+        if (!workersRes.ok) throw new Error(workersJson.error || "Failed to load workers");
+        const projectsJson = await projectsRes.json();
+        if (!projectsRes.ok) throw new Error(projectsJson.error || "Failed to load projects");
+        setWorkers(workersJson.workers || []);
+        setProjects(projectsJson.projects || []);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to load muster roll");
+      }
+    };
+
+    load();
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    loadAttendance()
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load attendance"))
+      .finally(() => setLoading(false));
+  }, [loadAttendance]);
+
+  const entries = useMemo<RollEntry[]>(
+    () =>
+      attendance
+        .filter((entry) => entry.workerId)
+        .map((entry) => ({
+          _id: entry._id,
+          workerId: entry.workerId!._id,
+          date: entry.date,
+          units: entry.units,
+          entry,
+        })),
+    [attendance]
+  );
+
+  // Inactive workers stay on the register for any month they worked in
+  const rollWorkers = useMemo(() => {
+    const workedIds = new Set(entries.map((entry) => entry.workerId));
+    return workers
+      .filter((worker) => worker.status === "active" || workedIds.has(worker._id))
+      .sort((a, b) => a.workerCode.localeCompare(b.workerCode));
+  }, [entries, workers]);
+
+  const roll = useMemo(() => buildMusterRoll(rollWorkers, entries, days), [rollWorkers, entries, days]);
+
+  const handleCellChange = async (worker: Worker, day: Date, cellEntries: RollEntry[], value: string) => {
+    const dayKey = toDateKey(day);
+    const existing = cellEntries[0]?.entry;
+    try {
+      setSavingCell(`${worker._id}:${dayKey}`);
+      let response: Response;
+      if (!existing) {
+        response = await fetch("/api/workers/attendance", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            workerId: worker._id,
+            projectId: cellProjectId || undefined,
+            date: dayKey,
+            units: Number(value),
+          }),
+        });
+      } else if (value === ABSENT) {
+        response = await fetch(`/api/workers/attendance/${existing._id}`, { method: "DELETE" });
+      } else {
+        response = await fetch(`/api/workers/attendance/${existing._id}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            units: Number(value),
+            projectId: existing.projectId?._id,
+            note: existing.note || "",
+          }),
+        });
+      }
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to save attendance");
+      await loadAttendance();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save attendance");
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  const openCrewDialog = () => {
+    const date = toMonthKey(new Date()) === month ? todayKey : toDateKey(days[0]);
+    setCrewForm({ date, projectId: cellProjectId, note: "" });
+    setCrewRows(
+      Object.fromEntries(
+        workers
+          .filter((worker) => worker.status === "active")
+          .map((worker) => [worker._id, { selected: false, units: String(worker.defaultShiftUnits || 1) }])
+      )
+    );
+    setCrewFailures([]);
+    setCrewOpen(true);
+  };
+
+  const updateCrewRow = (workerId: string, update: Partial<CrewRow>) => {
+    setCrewRows((rows) => ({ ...rows, [workerId]: { ...rows[workerId], ...update } }));
+  };
+
+  // Ticks everyone planned onto the selected site for the day on the crew schedule
+  const selectScheduledCrew = async () => {
+    if (!crewForm.date || !crewForm.projectId) {
+      toast.error("Pick a date and project first");
+      return;
+    }
+    try {
+      const response = await fetch(`/api/workers/schedule?startDate=${crewForm.date}&endDate=${crewForm.date}`);
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to load schedule");
+      const scheduledIds = new Set<string>(
+        (json.assignments || [])
+          .filter(
+            (assignment: { projectId: { _id: string } | null }) => assignment.projectId?._id === crewForm.projectId
+          )
+          .map((assignment: { workerId: { _id: string } | null }) => assignment.workerId?._id)
+      );
+      if (scheduledIds.size === 0) {
+        toast.info("Nobody is scheduled on this site for that day");
+        return;
+      }
+      setCrewRows((rows) =>
+        Object.fromEntries(
+          Object.entries(rows).map(([workerId, row]) => [workerId, { ...row, selected: scheduledIds.has(workerId) }])
+        )
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load schedule");
+    }
+  };
+
+  const handleMarkCrew = async () => {
+    const selected = Object.entries(crewRows).filter(([, row]) => row.selected);
+    if (!crewForm.date) {
+      toast.error("Pick a date");
+      return;
+    }
+    if (selected.length === 0) {
+      toast.error("Select at least one worker");
+      return;
+    }
+    try {
+      setIsMarkingCrew(true);
+      setCrewFailures([]);
+      const response = await fetch("/api/workers/attendance/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date: crewForm.date,
+          projectId: crewForm.projectId || undefined,
+          note: crewForm.note,
+          entries: selected.map(([workerId, row]) => ({ workerId, units: Number(row.units) })),
+        }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        if (Array.isArray(json.failures)) setCrewFailures(json.failures);
+        throw new Error(json.error || "Failed to mark crew attendance");
+      }
+      toast.success(`Attendance marked for ${json.marked} worker${json.marked === 1 ? "" : "s"}`);
+      setCrewOpen(false);
+      await loadAttendance();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to mark crew attendance");
+    } finally {
+      setIsMarkingCrew(false);
+    }
+  };
+
+  const downloadCsv = () => {
+    const header = ["Worker Code", "Name", ...days.map((day) => toDateKey(day)), "Days Present", "Total Units"];
+    const rows = roll.rows.map((row) => [
+      row.worker.workerCode,
+      row.worker.name,
+      ...days.map((day) => formatMusterCell(sumUnits(row.cells.get(toDateKey(day)) || []))),
+      row.daysPresent,
+      row.totalUnits,
+    ]);
+    const totals = ["Total", "", ...days.map((day) => roll.dayTotals.get(toDateKey(day)) || 0), "", roll.totalUnits];
+    const csv = [header, ...rows, totals].map((row) => row.map(csvCell).join(",")).join("\n");
+
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `muster-roll-${month}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadPdf = () => {
+    try {
+      generateMusterRollPDF({ month, days, ...roll });
+    } catch (error) {
+      console.error("Muster roll PDF error:", error);
+      toast.error("Failed to generate PDF");
+    }
+  };
+
+  const downloadPayslips = async () => {
+    try {
+      setIsDownloadingPayslips(true);
+      const response = await fetch(`/api/workers/payroll/payslips?month=${month}`);
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to load payslips");
+      if (json.payslips.length === 0) {
+        toast.error("No payslips for this month");
+        return;
+      }
+      generatePayslipsZip(month, json.payslips, json.company);
+    } catch (error) {
+      console.error("Payslip download error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to download payslips");
+    } finally {
+      setIsDownloadingPayslips(false);
+    }
+  };
+
+  const failureFor = (workerId: string) => crewFailures.find((failure) => failure.workerId === workerId);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100">
+      <div className="mx-auto w-full max-w-7xl px-4 py-4 sm:px-6 lg:px-8">
+        <div className="sticky top-0 z-30 -mx-4 px-4 sm:-mx-6 sm:px-6 lg:-mx-8 lg:px-8 pt-2 pb-4 bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100 backdrop-blur-sm">
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => router.push("/dashboard/workforce")}
+              className="flex h-9 w-9 items-center justify-center rounded-full hover:bg-slate-200 transition-colors"
+              aria-label="Back to workforce"
+            >
+              <ArrowLeft className="h-5 w-5 text-slate-700" />
+            </button>
+            <h1 className="text-lg font-semibold text-slate-900">Muster Roll</h1>
+            <button
+              onClick={openCrewDialog}
+              className="flex h-9 w-9 items-center justify-center rounded-full bg-slate-900 text-white hover:bg-slate-800 transition-colors shadow-sm"
+              aria-label="Mark crew attendance"
+            >
+              <Users className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setMonth(shiftMonth(month, -1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Input
+                type="month"
+                value={month}
+                onChange={(e) => e.target.value && setMonth(e.target.value)}
+                className="h-8 w-40"
+              />
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setMonth(shiftMonth(month, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" className="h-8 gap-1.5" onClick={downloadCsv} disabled={loading}>
+                <Download className="h-4 w-4" /> CSV
+              </Button>
+              <Button variant="outline" size="sm" className="h-8 gap-1.5" onClick={downloadPdf} disabled={loading}>
+                <FileText className="h-4 w-4" /> PDF
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 gap-1.5"
+                onClick={downloadPayslips}
+                disabled={loading || isDownloadingPayslips}
+              >
+                <FileArchive className="h-4 w-4" /> Payslips
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+          <Label htmlFor="cellProject" className="text-slate-600">
+            New entries go to
+          </Label>
+          <Select value={cellProjectId || "none"} onValueChange={(value) => setCellProjectId(value === "none" ? "" : value)}>
+            <SelectTrigger id="cellProject" className="h-8 w-64 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No project</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project._id} value={project._id}>
+                  #{project.projectId} · {project.clientName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+          {loading ? (
+            <div className="flex items-center justify-center p-10 text-slate-500">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : roll.rows.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500">No workers to show for this month.</p>
+          ) : (
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="border-b border-slate-200 bg-slate-50">
+                  <th className="sticky left-0 z-10 bg-slate-50 px-3 py-2 text-left font-medium text-slate-600">Worker</th>
+                  {days.map((day) => (
+                    <th
+                      key={toDateKey(day)}
+                      className={`px-0.5 py-2 text-center font-medium ${
+                        toDateKey(day) === todayKey ? "text-blue-700" : day.getDay() === 0 ? "text-red-500" : "text-slate-600"
+                      }`}
+                    >
+                      <span className="block text-[10px] uppercase">
+                        {day.toLocaleDateString("en-IN", { weekday: "narrow" })}
+                      </span>
+                      {day.getDate()}
+                    </th>
+                  ))}
+                  <th className="px-2 py-2 text-right font-medium text-slate-600">Days</th>
+                  <th className="px-2 py-2 text-right font-medium text-slate-600">Units</th>
+                </tr>
+              </thead>
+              <tbody>
+                {roll.rows.map((row) => (
+                  <tr key={row.worker._id} className="border-b border-slate-100 last:border-0">
+                    <td className="sticky left-0 z-10 bg-white px-3 py-1.5">
+                      <p className="whitespace-nowrap font-medium text-slate-900">{workerLabel(row.worker)}</p>
+                      <p className="text-[11px] text-slate-500">
+                        {row.worker.workerCode}
+                        {row.worker.status === "inactive" ? " · inactive" : ""}
+                      </p>
+                    </td>
+                    {days.map((day) => {
+                      const dayKey = toDateKey(day);
+                      const cellEntries = row.cells.get(dayKey) || [];
+                      const units = sumUnits(cellEntries);
+                      // A day split across sites is edited from the attendance list instead
+                      if (cellEntries.length > 1 || row.worker.status === "inactive") {
+                        return (
+                          <td
+                            key={dayKey}
+                            className="px-0.5 py-1 text-center font-medium text-slate-700"
+                            title={cellEntries
+                              .map(({ entry }) => `${entry.units} · ${entry.projectId ? `#${entry.projectId.projectId}` : "No project"}`)
+                              .join("\n")}
+                          >
+                            {units || ""}
+                          </td>
+                        );
+                      }
+                      return (
+                        <td key={dayKey} className="px-0.5 py-1 text-center">
+                          <Select
+                            value={units ? String(units) : ABSENT}
+                            onValueChange={(value) => handleCellChange(row.worker, day, cellEntries, value)}
+                            disabled={savingCell === `${row.worker._id}:${dayKey}`}
+                          >
+                            <SelectTrigger
+                              className={`h-7 w-9 justify-center px-0 text-xs [&>svg]:hidden ${
+                                units ? "border-emerald-200 bg-emerald-50 text-emerald-800" : "border-slate-200 text-slate-300"
+                              }`}
+                              title={cellEntries[0]?.entry.projectId ? `#${cellEntries[0].entry.projectId.projectId}` : undefined}
+                            >
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={ABSENT}>–</SelectItem>
+                              {UNIT_OPTIONS.map((option) => (
+                                <SelectItem key={option} value={option}>
+                                  {option}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                      );
+                    })}
+                    <td className="px-2 py-1.5 text-right font-medium text-slate-900">{row.daysPresent}</td>
+                    <td className="px-2 py-1.5 text-right font-medium text-slate-900">{row.totalUnits}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-slate-200 bg-slate-50 font-medium text-slate-700">
+                  <td className="sticky left-0 z-10 bg-slate-50 px-3 py-2">Total</td>
+                  {days.map((day) => (
+                    <td key={toDateKey(day)} className="px-0.5 py-2 text-center">
+                      {roll.dayTotals.get(toDateKey(day)) || ""}
+                    </td>
+                  ))}
+                  <td className="px-2 py-2" />
+                  <td className="px-2 py-2 text-right">{roll.totalUnits}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={crewOpen} onOpenChange={setCrewOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Mark Crew Attendance</DialogTitle>
+            <DialogDescription>
+              Records everyone ticked for the day. If any worker can&apos;t be marked, nothing is saved.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="crewDate">Date</Label>
+                <Input
+                  id="crewDate"
+                  type="date"
+                  value={crewForm.date}
+                  onChange={(e) => setCrewForm({ ...crewForm, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crewProject">Project</Label>
+                <Select
+                  value={crewForm.projectId || "none"}
+                  onValueChange={(value) => setCrewForm({ ...crewForm, projectId: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger id="crewProject">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No project</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project._id} value={project._id}>
+                        #{project.projectId} · {project.clientName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Crew</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={selectScheduledCrew}
+                  disabled={!crewForm.projectId}
+                >
+                  Select scheduled crew
+                </Button>
+              </div>
+              <div className="max-h-64 space-y-1 overflow-y-auto rounded-lg border border-slate-200 p-2">
+                {workers
+                  .filter((worker) => crewRows[worker._id])
+                  .map((worker) => {
+                    const row = crewRows[worker._id];
+                    const failure = failureFor(worker._id);
+                    return (
+                      <div key={worker._id} className="rounded-md px-2 py-1.5 hover:bg-slate-50">
+                        <div className="flex items-center gap-2">
+                          <label className="flex flex-1 cursor-pointer items-center gap-2">
+                            <Checkbox
+                              checked={row.selected}
+                              onCheckedChange={(checked) => updateCrewRow(worker._id, { selected: checked === true })}
+                            />
+                            <span className="text-sm">{workerLabel(worker)}</span>
+                            <span className="text-xs text-slate-500">{worker.workerCode}</span>
+                          </label>
+                          <Select value={row.units} onValueChange={(units) => updateCrewRow(worker._id, { units })}>
+                            <SelectTrigger className="h-7 w-16 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {UNIT_OPTIONS.map((option) => (
+                                <SelectItem key={option} value={option}>
+                                  {option}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {failure && <p className="mt-1 pl-6 text-xs text-red-600">{failure.error}</p>}
+                      </div>
+                    );
+                  })}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="crewNote">Note (Optional)</Label>
+              <Input
+                id="crewNote"
+                value={crewForm.note}
+                onChange={(e) => setCrewForm({ ...crewForm, note: e.target.value })}
+                placeholder="e.g. Sunday work"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCrewOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMarkCrew} disabled={isMarkingCrew}>
+              {isMarkingCrew ? "Marking..." : "Mark Attendance"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -43,6 +43,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import type { ProjectStatus } from "@/lib/project-status";
+import { DEFAULT_LOYALTY_CATEGORIES, getLoyaltyCategoryLabel, type LoyaltyCategory } from "@/lib/loyalty-policy";
+import { generatePayslipPDF } from "@/app/lib/generate-pdf";
+
+type WageRate = {
+  _id: string;
+  dailyWage: number;
+  effectiveFrom: string;
+  projectId?: string | null;
+  note?: string;
+};
 
 type Worker = {
   _id: string;
@@ -50,6 +61,7 @@ type Worker = {
   name: string;
   mobile: string;
   dailyWage: number;
+  wageRates?: WageRate[];
   defaultShiftUnits: number;
   status: "active" | "inactive";
   isProfileCompleted: boolean;
@@ -60,7 +72,7 @@ type AttendanceProject = {
   projectId: string;
   clientName: string;
   clientAddress: string;
-  status?: "ongoing" | "completed";
+  status?: ProjectStatus;
 };
 
 type AttendanceEntry = {
@@ -68,6 +80,7 @@ type AttendanceEntry = {
   date: string;
   units: number;
   note?: string;
+  dailyWage?: number;
   workerId: Worker;
   projectId?: AttendanceProject | null;
 };
@@ -92,6 +105,7 @@ type LoyaltyHistoryEntry = {
   imageUrl?: string;
   workerId: { workerCode: string; name: string; mobile: string };
   isReversal?: boolean;
+  isAutomatic?: boolean;
 };
 
 type LoyaltyLeaderboardEntry = {
@@ -111,42 +125,6 @@ const COUNTRY_CODES = [
   { code: "+971", label: "UAE (+971)", localLength: 9 },
 ];
 
-const LOYALTY_CREDIT_CATEGORIES = [
-  { value: "on_time", label: "On Time" },
-  { value: "attendance_consistency", label: "Attendance Consistency" },
-  { value: "quality_work", label: "Quality Work" },
-  { value: "zero_rework_day", label: "Zero Rework Day" },
-  { value: "productivity_target_met", label: "Productivity Target Met" },
-  { value: "ahead_of_schedule", label: "Ahead Of Schedule" },
-  { value: "customer_praise", label: "Customer Praise" },
-  { value: "site_cleanliness", label: "Site Cleanliness" },
-  { value: "material_saving", label: "Material Saving" },
-  { value: "tool_care", label: "Tool Care" },
-  { value: "safety_followed", label: "Safety Followed" },
-  { value: "team_support", label: "Team Support" },
-  { value: "issue_reporting", label: "Issue Reporting" },
-  { value: "professional_behavior", label: "Professional Behavior" },
-  { value: "documentation_support", label: "Documentation Support" },
-];
-
-const LOYALTY_DEBIT_CATEGORIES = [
-  { value: "late_arrival", label: "Late Arrival" },
-  { value: "unauthorized_absence", label: "Unauthorized Absence" },
-  { value: "early_leave_without_approval", label: "Early Leave Without Approval" },
-  { value: "customer_complaint", label: "Customer Complaint" },
-  { value: "rework_needed", label: "Rework Needed" },
-  { value: "damage_to_work", label: "Damage To Work" },
-  { value: "material_wastage", label: "Material Wastage" },
-  { value: "unsafe_practice", label: "Unsafe Practice" },
-  { value: "site_mess", label: "Site Mess" },
-  { value: "tool_damage_or_loss", label: "Tool Damage Or Loss" },
-  { value: "instruction_non_compliance", label: "Instruction Non Compliance" },
-  { value: "misconduct", label: "Misconduct" },
-  { value: "mobile_misuse", label: "Mobile Misuse" },
-  { value: "false_update", label: "False Update" },
-  { value: "delay_caused_to_team", label: "Delay Caused To Team" },
-];
-
 export default function WorkforcePage() {
   return (
     <Suspense fallback={<div className="p-6">Loading...</div>}>
@@ -255,6 +233,15 @@ function WorkforcePageContent() {
     note: "",
   });
 
+  const [wageRatesWorkerId, setWageRatesWorkerId] = useState<string | null>(null);
+  const [savingWageRate, setSavingWageRate] = useState(false);
+  const [wageRateForm, setWageRateForm] = useState({
+    dailyWage: "",
+    effectiveFrom: TODAY,
+    projectId: "",
+    note: "",
+  });
+
   const [selectedWorkerForPayroll, setSelectedWorkerForPayroll] = useState("");
   const [payrollMonth, setPayrollMonth] = useState(new Date().toISOString().slice(0, 7));
   const [payrollSummary, setPayrollSummary] = useState<null | {
@@ -265,6 +252,14 @@ function WorkforcePageContent() {
       grossWage: number;
       totalAdvance: number;
       netPayable: number;
+      rateBreakdown: Array<{ dailyWage: number; units: number; amount: number }>;
+    };
+    settlement: {
+      status: "pending" | "paid";
+      openingBalance: number;
+      totalPayable: number;
+      amountPaid: number;
+      closingBalance: number;
     };
     loyalty: {
       rules: {
@@ -307,12 +302,13 @@ function WorkforcePageContent() {
     date: TODAY,
     entryType: "credit" as LoyaltyEntryType,
     points: "",
-    category: LOYALTY_CREDIT_CATEGORIES[0].value,
+    category: DEFAULT_LOYALTY_CATEGORIES[0].key,
     reason: "",
     note: "",
     imageUrl: "",
   });
   const [uploadingLoyaltyImage, setUploadingLoyaltyImage] = useState(false);
+  const [loyaltyCategories, setLoyaltyCategories] = useState<LoyaltyCategory[]>(DEFAULT_LOYALTY_CATEGORIES);
   const [editingAttendance, setEditingAttendance] = useState<AttendanceEntry | null>(null);
   const [editingAttendanceUnits, setEditingAttendanceUnits] = useState("1");
   const [editingAttendanceProjectId, setEditingAttendanceProjectId] = useState("");
@@ -332,8 +328,10 @@ function WorkforcePageContent() {
     COUNTRY_CODES.find((item) => item.code === newWorker.countryCode) || COUNTRY_CODES[0];
   const newWorkerExpectedLength = selectedWorkerCountry.localLength;
   const isValidNewWorkerMobileLength = newWorker.mobileLocal.length === newWorkerExpectedLength;
-  const loyaltyCategoryOptions =
-    loyaltyForm.entryType === "credit" ? LOYALTY_CREDIT_CATEGORIES : LOYALTY_DEBIT_CATEGORIES;
+  const loyaltyCategoryOptions = useMemo(
+    () => loyaltyCategories.filter((category) => category.active && category.entryType === loyaltyForm.entryType),
+    [loyaltyCategories, loyaltyForm.entryType]
+  );
   const payrollMonthLabel = useMemo(() => {
     const [year, month] = payrollMonth.split("-");
     if (!year || !month) return "Current month";
@@ -465,10 +463,24 @@ function WorkforcePageContent() {
     setPayrollSummary({
       worker: data.worker,
       summary: data.summary,
+      settlement: data.settlement,
       loyalty: data.loyalty,
     });
   };
 
+  const downloadPayslip = async () => {
+    try {
+      const response = await fetch(
+        `/api/workers/payroll/payslips?workerId=${selectedWorkerForPayroll}&month=${payrollMonth}`
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load payslip");
+      generatePayslipPDF(data.payslips[0], data.company);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download payslip");
+    }
+  };
+
   const getMonthDateRange = (monthValue: string) => {
     const [yearStr, monthStr] = monthValue.split("-");
     const year = Number(yearStr);
@@ -494,6 +506,13 @@ function WorkforcePageContent() {
     setLoyaltyHistory(data.entries || []);
   };
 
+  const fetchLoyaltyPolicy = async () => {
+    const response = await fetch("/api/workers/loyalty/policy");
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to fetch loyalty rules");
+    setLoyaltyCategories(data.policy.categories);
+  };
+
   const fetchLoyaltyLeaderboard = async (week?: number, year?: number) => {
     let url = "/api/workers/loyalty/leaderboard?period=weekly";
     if (week !== undefined && year !== undefined) {
@@ -652,7 +671,13 @@ function WorkforcePageContent() {
     const load = async () => {
       try {
         setLoading(true);
-        await Promise.all([fetchWorkers(), fetchActiveProjects(), fetchAttendance(TODAY), fetchAdvances(TODAY)]);
+        await Promise.all([
+          fetchWorkers(),
+          fetchActiveProjects(),
+          fetchAttendance(TODAY),
+          fetchAdvances(TODAY),
+          fetchLoyaltyPolicy(),
+        ]);
       } catch (error) {
         console.error(error);
         toast.error(error instanceof Error ? error.message : "Failed to load workforce data");
@@ -695,13 +720,16 @@ function WorkforcePageContent() {
   }, [selectedWorkerForPayroll, payrollMonth]);
 
   useEffect(() => {
-    const categories = loyaltyForm.entryType === "credit" ? LOYALTY_CREDIT_CATEGORIES : LOYALTY_DEBIT_CATEGORIES;
     setLoyaltyForm((prev) => {
-      const exists = categories.some((item) => item.value === prev.category);
-      if (exists) return prev;
-      return { ...prev, category: categories[0].value };
+      const exists = loyaltyCategoryOptions.some((item) => item.key === prev.category);
+      if (exists || loyaltyCategoryOptions.length === 0) return prev;
+      return {
+        ...prev,
+        category: loyaltyCategoryOptions[0].key,
+        points: String(loyaltyCategoryOptions[0].defaultPoints),
+      };
     });
-  }, [loyaltyForm.entryType]);
+  }, [loyaltyCategoryOptions]);
 
   const addWorker = async () => {
     try {
@@ -868,6 +896,64 @@ function WorkforcePageContent() {
     }
   };
 
+  const wageRatesWorker = workers.find((worker) => worker._id === wageRatesWorkerId) || null;
+
+  const getProjectLabel = (projectId?: string | null) => {
+    if (!projectId) return "All work";
+    const project = activeProjects.find((item) => item._id === projectId);
+    return project ? `${project.projectId} · ${project.clientName}` : "Project rate";
+  };
+
+  const openWageRatesDialog = (worker: Worker) => {
+    setWageRatesWorkerId(worker._id);
+    setWageRateForm({ dailyWage: String(worker.dailyWage), effectiveFrom: TODAY, projectId: "", note: "" });
+  };
+
+  const addWageRate = async () => {
+    if (!wageRatesWorkerId) return;
+    const dailyWage = Number(wageRateForm.dailyWage);
+    if (Number.isNaN(dailyWage) || dailyWage < 0) {
+      toast.error("Enter a valid daily wage");
+      return;
+    }
+    setSavingWageRate(true);
+    try {
+      const response = await fetch(`/api/workers/${wageRatesWorkerId}/wage-rates`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...wageRateForm, dailyWage }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to add wage rate");
+
+      toast.success("Wage rate saved");
+      setWageRateForm((prev) => ({ ...prev, note: "" }));
+      await fetchWorkers();
+      await fetchPayrollSummary();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add wage rate");
+    } finally {
+      setSavingWageRate(false);
+    }
+  };
+
+  const deleteWageRate = async (rateId: string) => {
+    if (!wageRatesWorkerId) return;
+    try {
+      const response = await fetch(`/api/workers/${wageRatesWorkerId}/wage-rates?rateId=${rateId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to delete wage rate");
+
+      toast.success("Wage rate removed");
+      await fetchWorkers();
+      await fetchPayrollSummary();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete wage rate");
+    }
+  };
+
   const openEditAdvanceDialog = (entry: AdvanceEntry) => {
     setEditingAdvance(entry);
     setEditingAdvanceAmount(String(entry.amount));
@@ -987,6 +1073,30 @@ function WorkforcePageContent() {
                 {tab.label}
               </button>
             ))}
+            <Link
+              href="/dashboard/workforce/schedule"
+              className="whitespace-nowrap rounded-full px-5 py-2 text-sm font-medium transition-all bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 hover:text-slate-900"
+            >
+              Schedule
+            </Link>
+            <Link
+              href="/dashboard/workforce/check-ins"
+              className="whitespace-nowrap rounded-full px-5 py-2 text-sm font-medium transition-all bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 hover:text-slate-900"
+            >
+              Check-ins
+            </Link>
+            <Link
+              href="/dashboard/workforce/muster-roll"
+              className="whitespace-nowrap rounded-full px-5 py-2 text-sm font-medium transition-all bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 hover:text-slate-900"
+            >
+              Muster Roll
+            </Link>
+            <Link
+              href="/dashboard/workforce/loyalty-policy"
+              className="whitespace-nowrap rounded-full px-5 py-2 text-sm font-medium transition-all bg-white text-slate-600 border border-slate-200 hover:bg-slate-50 hover:text-slate-900"
+            >
+              Loyalty Rules
+            </Link>
           </div>
           {canScrollRight && (
             <button
@@ -1062,6 +1172,9 @@ function WorkforcePageContent() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openWageRatesDialog(worker)}>
+                            Wage Rates
+                          </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => toggleWorkerStatus(worker)}>
                             {worker.status === "active" ? "Deactivate Worker" : "Activate Worker"}
                           </DropdownMenuItem>
@@ -1132,7 +1245,7 @@ function WorkforcePageContent() {
                                   {entry.units} {entry.units > 1 ? 'Units' : 'Unit'}
                                 </span>
                                 <span className="bg-green-50 text-green-700 px-2.5 py-1 rounded-md font-medium border border-green-100">
-                                  Est. Wage: ₹{Math.round((entry.workerId?.dailyWage || 0) * entry.units)}
+                                  Est. Wage: ₹{Math.round((entry.dailyWage ?? 0) * entry.units)}
                                 </span>
                                 {entry.projectId ? (
                                   <span className="bg-violet-50 text-violet-700 px-2.5 py-1 rounded-md font-medium border border-violet-100">
@@ -1334,6 +1447,13 @@ function WorkforcePageContent() {
                         <Banknote className="h-4 w-4 text-blue-700" />
                       </div>
                       <p className="text-xl font-bold text-blue-950">₹{payrollSummary.worker.dailyWage}</p>
+                      {payrollSummary.summary.rateBreakdown.length > 1 && (
+                        <p className="mt-1 text-xs text-blue-700">
+                          {payrollSummary.summary.rateBreakdown
+                            .map((rate) => `₹${rate.dailyWage} × ${rate.units}`)
+                            .join(" + ")}
+                        </p>
+                      )}
                     </div>
                     <div className="rounded-2xl border border-emerald-200 bg-emerald-50 p-4">
                       <div className="mb-3 flex items-center justify-between">
@@ -1386,6 +1506,62 @@ function WorkforcePageContent() {
                     </div>
                 </div>
 
+                <div className="bg-white rounded-xl border border-slate-200 overflow-hidden shadow-sm">
+                  <div className="flex items-center justify-between gap-3 bg-slate-900 px-4 py-3 sm:px-6 sm:py-4">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-white">Wage Settlement</h3>
+                      <span
+                        className={`rounded-full px-2.5 py-1 text-[11px] font-semibold uppercase tracking-wide ${
+                          payrollSummary.settlement.status === "paid"
+                            ? "bg-green-100 text-green-700"
+                            : "bg-yellow-100 text-yellow-700"
+                        }`}
+                      >
+                        {payrollSummary.settlement.status === "paid" ? "Settled" : "Open"}
+                      </span>
+                    </div>
+                    {selectedWorkerForPayroll ? (
+                      <div className="flex items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={downloadPayslip}
+                          className="text-xs font-medium text-slate-200 transition-colors hover:text-white"
+                        >
+                          Payslip
+                        </button>
+                        <Link
+                          href={`/dashboard/workforce/payroll/history?workerId=${selectedWorkerForPayroll}&month=${payrollMonth}`}
+                          className="text-xs font-medium text-slate-200 transition-colors hover:text-white"
+                        >
+                          Manage
+                        </Link>
+                      </div>
+                    ) : null}
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-3 p-4 sm:grid-cols-4 sm:p-6">
+                    <div>
+                      <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Carried In</p>
+                      <p className={`mt-1 text-sm font-bold ${payrollSummary.settlement.openingBalance < 0 ? "text-rose-700" : "text-slate-900"}`}>
+                        ₹{Math.round(payrollSummary.settlement.openingBalance)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Total Payable</p>
+                      <p className="mt-1 text-sm font-bold text-slate-900">₹{Math.round(payrollSummary.settlement.totalPayable)}</p>
+                    </div>
+                    <div>
+                      <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Paid</p>
+                      <p className="mt-1 text-sm font-bold text-emerald-700">₹{Math.round(payrollSummary.settlement.amountPaid)}</p>
+                    </div>
+                    <div>
+                      <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Carry Forward</p>
+                      <p className={`mt-1 text-sm font-bold ${payrollSummary.settlement.closingBalance < 0 ? "text-rose-700" : "text-slate-900"}`}>
+                        ₹{Math.round(payrollSummary.settlement.closingBalance)}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
                 <div className="bg-white rounded-xl border border-slate-200 overflow-hidden shadow-sm">
                   <div className="flex items-center justify-between gap-3 bg-slate-900 px-4 py-3 sm:px-6 sm:py-4">
                     <h3 className="text-lg font-semibold text-white">Weekly Loyalty Payouts</h3>
@@ -1521,7 +1697,12 @@ function WorkforcePageContent() {
                                   }`}>
                                     {entry.entryType === "credit" ? "+" : "-"}{entry.points}
                                   </span>
-                                  <span className="text-xs font-medium text-slate-600">{entry.category}</span>
+                                  <span className="text-xs font-medium text-slate-600">
+                                    {getLoyaltyCategoryLabel({ categories: loyaltyCategories }, entry.category)}
+                                  </span>
+                                  {entry.isAutomatic ? (
+                                    <span className="rounded-full bg-indigo-100 px-2 py-0.5 text-[11px] font-semibold text-indigo-700">Auto</span>
+                                  ) : null}
                                 </div>
                                 <div className="space-y-3">
                                   <div>
@@ -1840,7 +2021,9 @@ function WorkforcePageContent() {
                     min="1"
                     value={loyaltyForm.points}
                     onChange={(e) => setLoyaltyForm((prev) => ({ ...prev, points: e.target.value }))}
-                    placeholder="10"
+                    placeholder={String(
+                      loyaltyCategoryOptions.find((category) => category.key === loyaltyForm.category)?.defaultPoints ?? 10
+                    )}
                     className="border-slate-200"
                   />
                 </div>
@@ -1849,14 +2032,22 @@ function WorkforcePageContent() {
                 <Label className="text-slate-700 font-medium mb-1.5 block">Category</Label>
                 <Select
                   value={loyaltyForm.category}
-                  onValueChange={(value) => setLoyaltyForm((prev) => ({ ...prev, category: value }))}
+                  onValueChange={(value) =>
+                    setLoyaltyForm((prev) => ({
+                      ...prev,
+                      category: value,
+                      points: String(
+                        loyaltyCategoryOptions.find((category) => category.key === value)?.defaultPoints ?? prev.points
+                      ),
+                    }))
+                  }
                 >
                   <SelectTrigger className="border-slate-200">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     {loyaltyCategoryOptions.map((category) => (
-                      <SelectItem key={category.value} value={category.value}>
+                      <SelectItem key={category.key} value={category.key}>
                         {category.label}
                       </SelectItem>
                     ))}
@@ -2185,6 +2376,101 @@ function WorkforcePageContent() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={!!wageRatesWorkerId} onOpenChange={(open) => !open && setWageRatesWorkerId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Wage Rates</DialogTitle>
+            <DialogDescription>
+              Attendance is paid at the rate in effect on its date. Project rates override the general rate for work on that project.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-56 space-y-2 overflow-y-auto">
+            {(wageRatesWorker?.wageRates || [])
+              .slice()
+              .sort((a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime())
+              .map((rate) => (
+                <div key={rate._id} className="flex items-center justify-between rounded-xl border border-slate-200 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-slate-900">
+                      ₹{rate.dailyWage}
+                      <span className="ml-2 text-xs font-normal text-slate-500">{getProjectLabel(rate.projectId)}</span>
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      From {new Date(rate.effectiveFrom).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" })}
+                      {rate.note ? ` · ${rate.note}` : ""}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-red-600 hover:text-red-700"
+                    onClick={() => deleteWageRate(rate._id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            {!wageRatesWorker?.wageRates?.length && (
+              <p className="text-sm text-slate-500">No rate history yet. Current wage: ₹{wageRatesWorker?.dailyWage}</p>
+            )}
+          </div>
+          <div className="grid gap-3 border-t border-slate-100 pt-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Daily Wage</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={wageRateForm.dailyWage}
+                  onChange={(e) => setWageRateForm((prev) => ({ ...prev, dailyWage: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label>Effective From</Label>
+                <Input
+                  type="date"
+                  value={wageRateForm.effectiveFrom}
+                  onChange={(e) => setWageRateForm((prev) => ({ ...prev, effectiveFrom: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Applies To</Label>
+              <Select
+                value={wageRateForm.projectId || "all"}
+                onValueChange={(value) => setWageRateForm((prev) => ({ ...prev, projectId: value === "all" ? "" : value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All work" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All work</SelectItem>
+                  {activeProjects.map((project) => (
+                    <SelectItem key={project._id} value={project._id}>
+                      {project.projectId} · {project.clientName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Note</Label>
+              <Input
+                value={wageRateForm.note}
+                onChange={(e) => setWageRateForm((prev) => ({ ...prev, note: e.target.value }))}
+                placeholder="Optional note"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWageRatesWorkerId(null)}>Close</Button>
+            <Button onClick={addWageRate} disabled={savingWageRate || !wageRateForm.dailyWage}>
+              {savingWageRate ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add Rate"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={!!editingAdvance} onOpenChange={(open) => !open && setEditingAdvance(null)}>
         <DialogContent>
           <DialogHeader>
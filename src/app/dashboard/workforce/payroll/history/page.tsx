@@ -29,6 +29,7 @@ type LoyaltyHistoryEntry = {
   note?: string;
   imageUrl?: string;
   isReversal?: boolean;
+  isAutomatic?: boolean;
 };
 
 type WeeklyPayout = {
@@ -37,6 +38,55 @@ type WeeklyPayout = {
   payoutStatus: "pending" | "paid";
 };
 
+type MonthSummary = {
+  totalUnits: number;
+  grossWage: number;
+  totalAdvance: number;
+  netPayable: number;
+};
+
+type WageSettlement = {
+  status: "pending" | "paid";
+  openingBalance: number;
+  totalPayable: number;
+  amountPaid: number;
+  closingBalance: number;
+  paymentMethod: string | null;
+  paidAt: string | null;
+  note: string;
+};
+
+type WagePayout = {
+  _id: string;
+  year: number;
+  month: number;
+  totalUnits: number;
+  grossWage: number;
+  totalAdvance: number;
+  openingBalance: number;
+  totalPayable: number;
+  amountPaid: number;
+  closingBalance: number;
+  paymentMethod?: string;
+  status: "pending" | "paid";
+  paidAt?: string;
+  note?: string;
+};
+
+const WAGE_PAYMENT_METHODS = [
+  { value: "cash", label: "Cash" },
+  { value: "upi", label: "UPI" },
+  { value: "bank_transfer", label: "Bank Transfer" },
+  { value: "cheque", label: "Cheque" },
+];
+
+const getPaymentMethodLabel = (method?: string | null) =>
+  WAGE_PAYMENT_METHODS.find((item) => item.value === method)?.label || "-";
+
+// Positive balances are wages owed to the worker, negative ones are advances still to recover
+const formatBalance = (amount: number) =>
+  amount < 0 ? `-₹${Math.abs(Math.round(amount))}` : `₹${Math.round(amount)}`;
+
 function PayrollHistoryContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -51,6 +101,12 @@ function PayrollHistoryContent() {
   const [reverseDialogOpen, setReverseDialogOpen] = useState(false);
   const [reverseTargetEntry, setReverseTargetEntry] = useState<LoyaltyHistoryEntry | null>(null);
   const [reverseReason, setReverseReason] = useState("");
+  const [monthSummary, setMonthSummary] = useState<MonthSummary | null>(null);
+  const [settlement, setSettlement] = useState<WageSettlement | null>(null);
+  const [wagePayouts, setWagePayouts] = useState<WagePayout[]>([]);
+  const [settleDialogOpen, setSettleDialogOpen] = useState(false);
+  const [settleForm, setSettleForm] = useState({ amountPaid: "", paymentMethod: "cash", note: "" });
+  const [savingSettlement, setSavingSettlement] = useState(false);
   const worker = useMemo(
     () => workers.find((item) => item._id === workerId) || null,
     [workerId, workers]
@@ -102,7 +158,7 @@ function PayrollHistoryContent() {
       }
 
       try {
-        const [workersRes, historyRes, summaryRes] = await Promise.all([
+        const [workersRes, historyRes, summaryRes, wagePayoutsRes] = await Promise.all([
           fetch("/api/workers?status=all"),
           (async () => {
             const [year, monthValue] = month.split("-").map(Number);
@@ -111,19 +167,25 @@ function PayrollHistoryContent() {
             return fetch(`/api/workers/loyalty?workerId=${workerId}&startDate=${startDate}&endDate=${endDate}`);
           })(),
           fetch(`/api/workers/payroll/summary?workerId=${workerId}&month=${month}`),
+          fetch(`/api/workers/payroll/payouts?workerId=${workerId}`),
         ]);
 
         const workersJson = await workersRes.json();
         const historyJson = await historyRes.json();
         const summaryJson = await summaryRes.json();
+        const wagePayoutsJson = await wagePayoutsRes.json();
 
         if (!workersRes.ok) throw new Error(workersJson.error || "Failed to load workers");
         if (!historyRes.ok) throw new Error(historyJson.error || "Failed to load loyalty history");
         if (!summaryRes.ok) throw new Error(summaryJson.error || "Failed to load payroll summary");
+        if (!wagePayoutsRes.ok) throw new Error(wagePayoutsJson.error || "Failed to load wage settlements");
 
         setWorkers(workersJson.workers || []);
         setEntries(historyJson.entries || []);
         setWeeklyPayouts(summaryJson.loyalty?.weeklyPayouts || []);
+        setMonthSummary(summaryJson.summary || null);
+        setSettlement(summaryJson.settlement || null);
+        setWagePayouts(wagePayoutsJson.payouts || []);
       } catch (error) {
         toast.error(error instanceof Error ? error.message : "Failed to load loyalty history");
       } finally {
@@ -138,16 +200,64 @@ function PayrollHistoryContent() {
     const [year, monthValue] = month.split("-").map(Number);
     const startDate = new Date(year, monthValue - 1, 1).toISOString().slice(0, 10);
     const endDate = new Date(year, monthValue, 0).toISOString().slice(0, 10);
-    const [historyRes, summaryRes] = await Promise.all([
+    const [historyRes, summaryRes, wagePayoutsRes] = await Promise.all([
       fetch(`/api/workers/loyalty?workerId=${workerId}&startDate=${startDate}&endDate=${endDate}`),
       fetch(`/api/workers/payroll/summary?workerId=${workerId}&month=${month}`),
+      fetch(`/api/workers/payroll/payouts?workerId=${workerId}`),
     ]);
     const historyJson = await historyRes.json();
     const summaryJson = await summaryRes.json();
+    const wagePayoutsJson = await wagePayoutsRes.json();
     if (!historyRes.ok) throw new Error(historyJson.error || "Failed to load loyalty history");
     if (!summaryRes.ok) throw new Error(summaryJson.error || "Failed to load payroll summary");
+    if (!wagePayoutsRes.ok) throw new Error(wagePayoutsJson.error || "Failed to load wage settlements");
     setEntries(historyJson.entries || []);
     setWeeklyPayouts(summaryJson.loyalty?.weeklyPayouts || []);
+    setMonthSummary(summaryJson.summary || null);
+    setSettlement(summaryJson.settlement || null);
+    setWagePayouts(wagePayoutsJson.payouts || []);
+  };
+
+  const openSettleDialog = () => {
+    if (!settlement) return;
+    setSettleForm({
+      amountPaid: String(Math.max(0, Math.round(settlement.totalPayable))),
+      paymentMethod: "cash",
+      note: "",
+    });
+    setSettleDialogOpen(true);
+  };
+
+  const updateWageSettlement = async (status: "pending" | "paid") => {
+    if (!workerId) return;
+    try {
+      setSavingSettlement(true);
+      const response = await fetch("/api/workers/payroll/payouts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          workerId,
+          month,
+          status,
+          ...(status === "paid"
+            ? {
+                amountPaid: Number(settleForm.amountPaid),
+                paymentMethod: settleForm.paymentMethod,
+                note: settleForm.note,
+              }
+            : {}),
+        }),
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to update wage settlement");
+      toast.success(status === "paid" ? `${monthLabel} wages settled` : `${monthLabel} reopened`);
+      setSettleDialogOpen(false);
+      await reloadData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update wage settlement");
+    } finally {
+      setSavingSettlement(false);
+    }
   };
 
   const openReverseDialog = (entry: LoyaltyHistoryEntry) => {
@@ -192,7 +302,7 @@ function PayrollHistoryContent() {
             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => router.back()}>
               <ArrowLeft className="h-5 w-5" />
             </Button>
-            <h1 className="text-lg font-semibold">Loyalty History</h1>
+            <h1 className="text-lg font-semibold">Payroll History</h1>
             <div className="w-8" />
           </div>
         </div>
@@ -267,9 +377,110 @@ function PayrollHistoryContent() {
           </span>
         </div>
 
+        {!loading && monthSummary && settlement ? (
+          <div className="rounded-xl border border-slate-200 bg-white shadow-sm">
+            <div className="flex items-center justify-between gap-3 bg-slate-900 px-4 py-3 sm:px-6 sm:py-4">
+              <h3 className="text-lg font-semibold text-white">Wage Settlement</h3>
+              <span className={`rounded-full px-2.5 py-1 text-[11px] font-semibold uppercase tracking-wide ${
+                settlement.status === "paid" ? "bg-green-100 text-green-700" : "bg-yellow-100 text-yellow-700"
+              }`}>
+                {settlement.status === "paid" ? "Settled" : "Open"}
+              </span>
+            </div>
+            <div className="space-y-4 p-4 sm:p-6">
+              <div className="grid grid-cols-2 gap-x-4 gap-y-3 sm:grid-cols-4">
+                <div>
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Carried In</p>
+                  <p className={`mt-1 text-sm font-bold ${settlement.openingBalance < 0 ? "text-rose-700" : "text-slate-900"}`}>
+                    {formatBalance(settlement.openingBalance)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">This Month</p>
+                  <p className="mt-1 text-sm font-bold text-slate-900">{formatBalance(monthSummary.netPayable)}</p>
+                </div>
+                <div>
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Total Payable</p>
+                  <p className="mt-1 text-sm font-bold text-slate-900">{formatBalance(settlement.totalPayable)}</p>
+                </div>
+                <div>
+                  <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+                    {settlement.status === "paid" ? "Carried Forward" : "Paid"}
+                  </p>
+                  <p className={`mt-1 text-sm font-bold ${settlement.closingBalance < 0 ? "text-rose-700" : "text-emerald-700"}`}>
+                    {settlement.status === "paid" ? formatBalance(settlement.closingBalance) : "₹0"}
+                  </p>
+                </div>
+              </div>
+              {settlement.status === "paid" ? (
+                <p className="text-xs text-slate-500">
+                  Paid ₹{Math.round(settlement.amountPaid)} via {getPaymentMethodLabel(settlement.paymentMethod)}
+                  {settlement.paidAt
+                    ? ` on ${new Date(settlement.paidAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}`
+                    : ""}
+                  {settlement.note ? ` · ${settlement.note}` : ""}
+                </p>
+              ) : null}
+              <div className="flex justify-end">
+                {settlement.status === "paid" ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={savingSettlement}
+                    onClick={() => updateWageSettlement("pending")}
+                    className="rounded-full border-yellow-300 bg-yellow-50 text-xs font-semibold text-yellow-700 hover:bg-yellow-100"
+                  >
+                    Reopen Month
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={savingSettlement}
+                    onClick={openSettleDialog}
+                    className="rounded-full border-green-300 bg-green-50 text-xs font-semibold text-green-700 hover:bg-green-100"
+                  >
+                    Settle Month
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        {!loading && wagePayouts.length > 0 ? (
+          <div className="rounded-xl border border-slate-200 bg-white shadow-sm">
+            <div className="bg-slate-900 px-4 py-3 sm:px-6 sm:py-4">
+              <h3 className="text-lg font-semibold text-white">Settlement History</h3>
+            </div>
+            <div className="divide-y divide-slate-200 p-4 sm:p-6">
+              {wagePayouts.map((payout) => (
+                <div key={payout._id} className="flex flex-wrap items-center justify-between gap-3 py-3 first:pt-0 last:pb-0">
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900">
+                      {new Date(payout.year, payout.month - 1, 1).toLocaleDateString("en-IN", { month: "long", year: "numeric" })}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {payout.status === "paid"
+                        ? `Paid ₹${Math.round(payout.amountPaid)} via ${getPaymentMethodLabel(payout.paymentMethod)}`
+                        : "Reopened"}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Carried Forward</p>
+                    <p className={`text-sm font-bold ${payout.closingBalance < 0 ? "text-rose-700" : "text-slate-900"}`}>
+                      {payout.status === "paid" ? formatBalance(payout.closingBalance) : "-"}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
         <div className="rounded-xl border border-slate-200 bg-white shadow-sm">
           <div className="bg-slate-900 px-4 py-3 sm:px-6 sm:py-4">
-            <h3 className="text-lg font-semibold text-white">All Entries</h3>
+            <h3 className="text-lg font-semibold text-white">Loyalty Entries</h3>
           </div>
           <div className="p-4 sm:p-6">
             {loading ? (
@@ -291,6 +502,9 @@ function PayrollHistoryContent() {
                           {entry.entryType === "credit" ? "+" : "-"}{entry.points}
                         </span>
                         <span className="text-xs font-medium text-slate-600">{entry.category}</span>
+                        {entry.isAutomatic ? (
+                          <span className="rounded-full bg-indigo-100 px-2 py-0.5 text-[11px] font-semibold text-indigo-700">Auto</span>
+                        ) : null}
                       </div>
                       <div>
                         <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Reason</p>
@@ -332,6 +546,67 @@ function PayrollHistoryContent() {
         </div>
       </div>
 
+      <Dialog open={settleDialogOpen} onOpenChange={setSettleDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Settle {monthLabel} Wages</DialogTitle>
+            <DialogDescription>
+              {settlement
+                ? `Total payable is ${formatBalance(settlement.totalPayable)}. Any difference from the amount paid is carried into next month.`
+                : "Record the wage payment for this month."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <div>
+              <Label>Amount Paid</Label>
+              <Input
+                type="number"
+                min="0"
+                value={settleForm.amountPaid}
+                onChange={(e) => setSettleForm((prev) => ({ ...prev, amountPaid: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Payment Method</Label>
+              <Select
+                value={settleForm.paymentMethod}
+                onValueChange={(value) => setSettleForm((prev) => ({ ...prev, paymentMethod: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WAGE_PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Note</Label>
+              <Input
+                value={settleForm.note}
+                onChange={(e) => setSettleForm((prev) => ({ ...prev, note: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSettleDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateWageSettlement("paid")}
+              disabled={savingSettlement || settleForm.amountPaid === "" || Number(settleForm.amountPaid) < 0}
+            >
+              {savingSettlement ? "Saving..." : "Confirm Settlement"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={reverseDialogOpen} onOpenChange={setReverseDialogOpen}>
         <DialogContent>
           <DialogHeader>
@@ -0,0 +1,614 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, ArrowLeft, CalendarRange, ChevronLeft, ChevronRight, Loader2, MapPin, Plus } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { PROJECT_STATUS_LABELS, type ProjectStatus } from "@/lib/project-status";
+import {
+  findDoubleBookings,
+  findIdleWorkers,
+  getScheduleDays,
+  isDoubleBooked,
+  toDateKey,
+} from "@/lib/crew-schedule";
+
+type Worker = {
+  _id: string;
+  workerCode: string;
+  name: string;
+};
+
+type ScheduleProject = {
+  _id: string;
+  projectId: string;
+  clientName: string;
+  clientAddress: string;
+  status?: ProjectStatus;
+  plannedStartDate?: string;
+  plannedEndDate?: string;
+};
+
+type Assignment = {
+  _id: string;
+  workerId: Worker | null;
+  projectId: ScheduleProject | null;
+  date: string;
+  note?: string;
+};
+
+// Chip colours cycle through the week's projects so each site is easy to follow across the grid
+const PROJECT_COLORS = [
+  "bg-blue-100 text-blue-800",
+  "bg-emerald-100 text-emerald-800",
+  "bg-violet-100 text-violet-800",
+  "bg-orange-100 text-orange-800",
+  "bg-cyan-100 text-cyan-800",
+  "bg-pink-100 text-pink-800",
+];
+
+function getWeekStart(date: Date) {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  // Weeks run Monday to Sunday
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+const formatDay = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "short" });
+
+const workerLabel = (worker: Worker) => worker.name || worker.workerCode;
+
+export default function CrewSchedulePage() {
+  const router = useRouter();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [projects, setProjects] = useState<ScheduleProject[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [assignOpen, setAssignOpen] = useState(false);
+  const [assignForm, setAssignForm] = useState({ projectId: "", startDate: "", endDate: "", note: "" });
+  const [selectedWorkerIds, setSelectedWorkerIds] = useState<string[]>([]);
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const [planProject, setPlanProject] = useState<ScheduleProject | null>(null);
+  const [planForm, setPlanForm] = useState({ plannedStartDate: "", plannedEndDate: "" });
+  const [isSavingPlan, setIsSavingPlan] = useState(false);
+
+  const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const days = useMemo(() => getScheduleDays(weekStart, addDays(weekStart, 6)), [weekStart]);
+  const todayKey = toDateKey(new Date());
+
+  const loadSchedule = useCallback(async () => {
+    const startDate = toDateKey(weekStart);
+    const endDate = toDateKey(addDays(weekStart, 6));
+    const response = await fetch(`/api/workers/schedule?startDate=${startDate}&endDate=${endDate}`);
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || "Failed to load schedule");
+    setAssignments(json.assignments || []);
+  }, [weekStart]);
+
+  const loadProjects = useCallback(async () => {
+    const response = await fetch("/api/projects/ongoing");
+    const json = await response.json();
+    if (!response.ok) throw new Error(json.error || "Failed to load projects");
+    setProjects(json.projects || []);
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const workersRes = await fetch("/api/workers?status=active");
+        const workersJson = await workersRes.json();
+        if (!workersRes.ok) throw new Error(workersJson.error || "Failed to load workers");
+        setWorkers(workersJson.workers || []);
+        await loadProjects();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Failed to load schedule");
+      }
+    };
+
+    load();
+  }, [loadProjects]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadSchedule()
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load schedule"))
+      .finally(() => setLoading(false));
+  }, [loadSchedule]);
+
+  const entries = useMemo(
+    () =>
+      assignments
+        .filter((assignment) => assignment.workerId && assignment.projectId)
+        .map((assignment) => ({
+          assignment,
+          workerId: assignment.workerId!._id,
+          projectId: assignment.projectId!._id,
+          date: assignment.date,
+        })),
+    [assignments]
+  );
+
+  const doubleBookings = useMemo(() => findDoubleBookings(entries), [entries]);
+
+  const idleByDay = useMemo(() => {
+    const workerIds = workers.map((worker) => worker._id);
+    return new Map(days.map((day) => [toDateKey(day), findIdleWorkers(workerIds, entries, day)]));
+  }, [days, entries, workers]);
+
+  const idleWorkerDays = [...idleByDay.values()].reduce((sum, idle) => sum + idle.length, 0);
+
+  const projectColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    for (const entry of entries) {
+      if (!colors.has(entry.projectId)) {
+        colors.set(entry.projectId, PROJECT_COLORS[colors.size % PROJECT_COLORS.length]);
+      }
+    }
+    return colors;
+  }, [entries]);
+
+  const openAssignDialog = (workerId?: string, day?: Date) => {
+    const start = day ? toDateKey(day) : toDateKey(weekStart);
+    setAssignForm({ projectId: "", startDate: start, endDate: start, note: "" });
+    setSelectedWorkerIds(workerId ? [workerId] : []);
+    setAssignOpen(true);
+  };
+
+  const selectAssignProject = (projectId: string) => {
+    const project = projects.find((item) => item._id === projectId);
+    setAssignForm((form) => ({
+      ...form,
+      projectId,
+      // Default to the project's planned dates when it has them
+      startDate: project?.plannedStartDate ? toDateKey(project.plannedStartDate) : form.startDate,
+      endDate: project?.plannedEndDate ? toDateKey(project.plannedEndDate) : form.endDate,
+    }));
+  };
+
+  const toggleWorker = (workerId: string, checked: boolean) => {
+    setSelectedWorkerIds((ids) => (checked ? [...ids, workerId] : ids.filter((id) => id !== workerId)));
+  };
+
+  const handleAssign = async () => {
+    if (!assignForm.projectId) {
+      toast.error("Select a project");
+      return;
+    }
+    if (selectedWorkerIds.length === 0) {
+      toast.error("Select at least one worker");
+      return;
+    }
+    try {
+      setIsAssigning(true);
+      const response = await fetch("/api/workers/schedule", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...assignForm, workerIds: selectedWorkerIds }),
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to assign crew");
+
+      toast.success(`${json.assigned} day assignment${json.assigned === 1 ? "" : "s"} added`);
+      if (json.doubleBooked?.length) {
+        const names = [
+          ...new Set(
+            json.doubleBooked.map(({ workerId }: { workerId: string }) => {
+              const worker = workers.find((item) => item._id === workerId);
+              return worker ? workerLabel(worker) : workerId;
+            })
+          ),
+        ];
+        toast.warning(`Double-booked on ${json.doubleBooked.length} day(s): ${names.join(", ")}`);
+      }
+      setAssignOpen(false);
+      await loadSchedule();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to assign crew");
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const openPlanDialog = (project: ScheduleProject) => {
+    setPlanProject(project);
+    setPlanForm({
+      plannedStartDate: project.plannedStartDate ? toDateKey(project.plannedStartDate) : "",
+      plannedEndDate: project.plannedEndDate ? toDateKey(project.plannedEndDate) : "",
+    });
+  };
+
+  const handleSavePlan = async () => {
+    if (!planProject) return;
+    try {
+      setIsSavingPlan(true);
+      const response = await fetch(`/api/projects/${planProject.projectId}/plan`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          plannedStartDate: planForm.plannedStartDate || null,
+          plannedEndDate: planForm.plannedEndDate || null,
+        }),
+      });
+      const json = await response.json();
+      if (!response.ok) {
+        throw new Error(
+          Array.isArray(json.error) ? json.error[0]?.message : json.error || "Failed to save planned dates"
+        );
+      }
+      toast.success("Planned dates saved");
+      setPlanProject(null);
+      await loadProjects();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save planned dates");
+    } finally {
+      setIsSavingPlan(false);
+    }
+  };
+
+  const handleRemoveAssignment = async () => {
+    if (!selectedAssignment) return;
+    try {
+      setIsRemoving(true);
+      const response = await fetch(`/api/workers/schedule/${selectedAssignment._id}`, { method: "DELETE" });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to remove assignment");
+      toast.success("Assignment removed");
+      setSelectedAssignment(null);
+      await loadSchedule();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove assignment");
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100">
+      <div className="mx-auto w-full max-w-6xl px-4 py-4 sm:px-6 lg:px-8">
+        <div className="sticky top-0 z-30 -mx-4 px-4 sm:-mx-6 sm:px-6 lg:-mx-8 lg:px-8 pt-2 pb-4 bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100 backdrop-blur-sm">
+          <div className="flex items-center justify-between mb-3">
+            <button
+              onClick={() => router.push("/dashboard/workforce")}
+              className="flex h-9 w-9 items-center justify-center rounded-full hover:bg-slate-200 transition-colors"
+              aria-label="Back to workforce"
+            >
+              <ArrowLeft className="h-5 w-5 text-slate-700" />
+            </button>
+            <h1 className="text-lg font-semibold text-slate-900">Crew Schedule</h1>
+            <button
+              onClick={() => openAssignDialog()}
+              className="flex h-9 w-9 items-center justify-center rounded-full bg-slate-900 text-white hover:bg-slate-800 transition-colors shadow-sm"
+              aria-label="Assign crew"
+            >
+              <Plus className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" className="h-8" onClick={() => setWeekStart(getWeekStart(new Date()))}>
+                This week
+              </Button>
+              <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm font-medium text-slate-700">
+              {formatDay(days[0])} – {formatDay(days[days.length - 1])} {days[days.length - 1].getFullYear()}
+            </p>
+          </div>
+        </div>
+
+        <div className="mb-4 flex flex-wrap gap-2 text-xs">
+          <span
+            className={`rounded-full px-3 py-1 font-medium ${
+              doubleBookings.size ? "bg-red-100 text-red-700" : "bg-white text-slate-500 border border-slate-200"
+            }`}
+          >
+            {doubleBookings.size} double-booked
+          </span>
+          <span
+            className={`rounded-full px-3 py-1 font-medium ${
+              idleWorkerDays ? "bg-amber-100 text-amber-700" : "bg-white text-slate-500 border border-slate-200"
+            }`}
+          >
+            {idleWorkerDays} idle worker-day{idleWorkerDays === 1 ? "" : "s"}
+          </span>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white shadow-sm">
+          {loading ? (
+            <div className="flex items-center justify-center p-10 text-slate-500">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : workers.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500">No active workers.</p>
+          ) : (
+            <table className="w-full min-w-[760px] border-collapse text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 bg-slate-50">
+                  <th className="sticky left-0 z-10 bg-slate-50 px-3 py-2 text-left font-medium text-slate-600">Worker</th>
+                  {days.map((day) => (
+                    <th
+                      key={toDateKey(day)}
+                      className={`px-2 py-2 text-left font-medium ${
+                        toDateKey(day) === todayKey ? "text-blue-700" : "text-slate-600"
+                      }`}
+                    >
+                      <span className="block text-[11px] uppercase">
+                        {day.toLocaleDateString("en-IN", { weekday: "short" })}
+                      </span>
+                      {formatDay(day)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {workers.map((worker) => (
+                  <tr key={worker._id} className="border-b border-slate-100 last:border-0">
+                    <td className="sticky left-0 z-10 bg-white px-3 py-2 align-top">
+                      <p className="font-medium text-slate-900">{workerLabel(worker)}</p>
+                      <p className="text-xs text-slate-500">{worker.workerCode}</p>
+                    </td>
+                    {days.map((day) => {
+                      const dayKey = toDateKey(day);
+                      const dayEntries = entries.filter(
+                        (entry) => entry.workerId === worker._id && toDateKey(entry.date) === dayKey
+                      );
+                      const conflict = isDoubleBooked(doubleBookings, worker._id, day);
+                      return (
+                        <td
+                          key={dayKey}
+                          className={`px-1.5 py-1.5 align-top ${conflict ? "bg-red-50 ring-1 ring-inset ring-red-300" : ""}`}
+                        >
+                          <div className="flex flex-col gap-1">
+                            {dayEntries.map(({ assignment, projectId }) => (
+                              <button
+                                key={assignment._id}
+                                onClick={() => setSelectedAssignment(assignment)}
+                                className={`truncate rounded-md px-1.5 py-1 text-left text-xs font-medium ${projectColors.get(projectId)}`}
+                                title={`${assignment.projectId!.clientName} · ${assignment.projectId!.clientAddress}`}
+                              >
+                                #{assignment.projectId!.projectId}
+                              </button>
+                            ))}
+                            {dayEntries.length === 0 && (
+                              <button
+                                onClick={() => openAssignDialog(worker._id, day)}
+                                className="rounded-md border border-dashed border-amber-300 px-1.5 py-1 text-left text-xs text-amber-700 hover:bg-amber-50"
+                              >
+                                Idle
+                              </button>
+                            )}
+                            {conflict && (
+                              <span className="flex items-center gap-1 text-[11px] font-medium text-red-600">
+                                <AlertTriangle className="h-3 w-3" /> Double-booked
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="mt-6">
+          <h2 className="mb-3 flex items-center gap-2 text-base font-semibold text-slate-900">
+            <CalendarRange className="h-4 w-4" /> Active Projects
+          </h2>
+          {projects.length === 0 ? (
+            <p className="text-sm text-slate-500">No scheduled or in-progress projects.</p>
+          ) : (
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {projects.map((project) => (
+                <div key={project._id} className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium text-slate-900">
+                        #{project.projectId} · {project.clientName}
+                      </p>
+                      <p className="flex items-center gap-1 truncate text-xs text-slate-500">
+                        <MapPin className="h-3 w-3 shrink-0" /> {project.clientAddress}
+                      </p>
+                      <p className="mt-1 text-xs text-slate-600">
+                        {project.status ? `${PROJECT_STATUS_LABELS[project.status]} · ` : ""}
+                        {project.plannedStartDate
+                          ? `Planned ${formatDay(project.plannedStartDate)} – ${
+                              project.plannedEndDate ? formatDay(project.plannedEndDate) : "?"
+                            }`
+                          : "No planned dates"}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" className="h-8 shrink-0" onClick={() => openPlanDialog(project)}>
+                      Plan
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={assignOpen} onOpenChange={setAssignOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Assign Crew</DialogTitle>
+            <DialogDescription>Plans each selected worker onto the site for every day in the range.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="assignProject">Project</Label>
+              <Select value={assignForm.projectId} onValueChange={selectAssignProject}>
+                <SelectTrigger id="assignProject">
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((project) => (
+                    <SelectItem key={project._id} value={project._id}>
+                      #{project.projectId} · {project.clientName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="assignStart">From</Label>
+                <Input
+                  id="assignStart"
+                  type="date"
+                  value={assignForm.startDate}
+                  onChange={(e) => setAssignForm({ ...assignForm, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignEnd">To</Label>
+                <Input
+                  id="assignEnd"
+                  type="date"
+                  value={assignForm.endDate}
+                  onChange={(e) => setAssignForm({ ...assignForm, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Crew</Label>
+              <div className="max-h-56 space-y-1 overflow-y-auto rounded-lg border border-slate-200 p-2">
+                {workers.map((worker) => (
+                  <label key={worker._id} className="flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 hover:bg-slate-50">
+                    <Checkbox
+                      checked={selectedWorkerIds.includes(worker._id)}
+                      onCheckedChange={(checked) => toggleWorker(worker._id, checked === true)}
+                    />
+                    <span className="text-sm">{workerLabel(worker)}</span>
+                    <span className="text-xs text-slate-500">{worker.workerCode}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assignNote">Note (Optional)</Label>
+              <Input
+                id="assignNote"
+                value={assignForm.note}
+                onChange={(e) => setAssignForm({ ...assignForm, note: e.target.value })}
+                placeholder="e.g. Putty work, bring ladders"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssignOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAssign} disabled={isAssigning}>
+              {isAssigning ? "Assigning..." : "Assign"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!planProject} onOpenChange={(open) => !open && setPlanProject(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Planned Dates</DialogTitle>
+            <DialogDescription>
+              {planProject ? `#${planProject.projectId} · ${planProject.clientName}` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="plannedStart">Start</Label>
+              <Input
+                id="plannedStart"
+                type="date"
+                value={planForm.plannedStartDate}
+                onChange={(e) => setPlanForm({ ...planForm, plannedStartDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plannedEnd">End</Label>
+              <Input
+                id="plannedEnd"
+                type="date"
+                value={planForm.plannedEndDate}
+                onChange={(e) => setPlanForm({ ...planForm, plannedEndDate: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlanProject(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePlan} disabled={isSavingPlan}>
+              {isSavingPlan ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedAssignment} onOpenChange={(open) => !open && setSelectedAssignment(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Site Assignment</DialogTitle>
+            <DialogDescription>
+              {selectedAssignment?.workerId ? workerLabel(selectedAssignment.workerId) : ""} ·{" "}
+              {selectedAssignment ? formatDay(selectedAssignment.date) : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedAssignment?.projectId && (
+            <div className="space-y-1 py-2 text-sm">
+              <p className="font-medium text-slate-900">
+                #{selectedAssignment.projectId.projectId} · {selectedAssignment.projectId.clientName}
+              </p>
+              <p className="text-slate-500">{selectedAssignment.projectId.clientAddress}</p>
+              {selectedAssignment.note && <p className="text-slate-600">Note: {selectedAssignment.note}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedAssignment(null)}>
+              Close
+            </Button>
+            <Button variant="destructive" onClick={handleRemoveAssignment} disabled={isRemoving}>
+              {isRemoving ? "Removing..." : "Remove"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,12 +3,17 @@ import InvoiceView from "@/components/invoice/InvoiceView";
 interface InvoiceViewPageProps {
   params: Promise<{
     invoiceId: string;
+  }>;
+  searchParams: Promise<{
     token?: string;
+    receipt?: string;
+    payment?: string;
   }>;
 }
 
-export default async function InvoiceViewPage({ params }: InvoiceViewPageProps) {
-  const { invoiceId, token } = await params;
+export default async function InvoiceViewPage({ params, searchParams }: InvoiceViewPageProps) {
+  const { invoiceId } = await params;
+  const { token, receipt, payment } = await searchParams;
 
-  return <InvoiceView invoiceId={invoiceId} token={token} />;
+  return <InvoiceView invoiceId={invoiceId} token={token} receiptNumber={receipt} paymentReference={payment} />;
 }
@@ -1,7 +1,30 @@
 // generate-pdf.ts - PDF generation utilities
 import { jsPDF } from "jspdf";
-import autoTable from "jspdf-autotable";
-import type { Quotation, Invoice, Project } from "@/app/types";
+import autoTable, { type UserOptions } from "jspdf-autotable";
+import { zipSync } from "fflate";
+import type {
+  Quotation,
+  Invoice,
+  Project,
+  AgeingReport,
+  Payment,
+  CreditNote,
+  Payslip,
+  CompanyDetails,
+} from "@/app/types";
+import { getStateName, getTaxSummaryLines, type TaxBreakdown } from "@/lib/gst";
+import {
+  MEASURED_SURFACE_LABELS,
+  computeRoomAreas,
+  computeSheetTotals,
+  type MeasurementRoom,
+} from "@/lib/measurements";
+import { AGEING_BUCKETS, AGEING_BUCKET_LABELS } from "@/lib/receivables";
+import { PAYMENT_METHOD_LABELS, findPaymentReversal, getPaymentMethodLabel } from "@/lib/payments";
+import { CREDIT_NOTE_TYPE_LABELS } from "@/lib/credit-notes";
+import { PROJECT_STATUS_LABELS } from "@/lib/project-status";
+import { formatMusterCell, sumUnits, type MusterRollRow } from "@/lib/muster-roll";
+import { toDateKey } from "@/lib/crew-schedule";
 
 // Extend jsPDF type to include lastAutoTable
 interface ExtendedJsPDF extends jsPDF {
@@ -22,8 +45,9 @@ const formatCurrency = (amount: number): string => {
   }
 };
 
-// Common function to add company header to PDF
-const addCompanyHeader = (doc: jsPDF) => {
+// Common function to add company header to PDF (right is the right margin, wider on landscape pages;
+// company overrides the built-in name, address and numbers with the Business Settings ones)
+const addCompanyHeader = (doc: jsPDF, right = 190, company?: CompanyDetails | null) => {
   try {
     doc.addImage("/logo.png", "PNG", 20, 15, 18, 18);
   } catch {
@@ -37,19 +61,158 @@ const addCompanyHeader = (doc: jsPDF) => {
   // Company name and details
   doc.setFontSize(18);
   doc.setFont("helvetica", "bold");
-  doc.text("Zycra Interior (formerly Soni Painting)", 50, 25);
+  doc.text(company?.siteName || "Zycra Interior (formerly Soni Painting)", 50, 25);
 
   doc.setFontSize(10);
   doc.setFont("helvetica", "normal");
   doc.text(
-    "Hiranandani Estate, Patlipada, Ghodbunder Road Thane West- 400607",
+    company?.address || "Hiranandani Estate, Patlipada, Ghodbunder Road Thane West- 400607",
     50,
     32
   );
 
   // Contact information
-  doc.text("9022846640", 190, 20, { align: "right" });
-  doc.text("8452085416", 190, 27, { align: "right" });
+  doc.text(company ? company.mobileNumber1 : "9022846640", right, 20, { align: "right" });
+  const secondNumber = company ? company.mobileNumber2 : "8452085416";
+  if (secondNumber) doc.text(secondNumber, right, 27, { align: "right" });
+};
+
+// Supplier GSTIN under the company header when GST applies
+const addSupplierGstin = (doc: jsPDF, tax?: TaxBreakdown) => {
+  if (!tax?.enabled || !tax.supplierGstNumber) return;
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "bold");
+  doc.text(`GSTIN: ${tax.supplierGstNumber}`, 50, 38);
+  doc.setFont("helvetica", "normal");
+};
+
+// Items table columns, with an HSN/SAC column when GST applies
+const getItemTableColumns = (showHsn: boolean) =>
+  showHsn
+    ? ["#", "Description", "HSN/SAC", "Area (sq.ft)", "Rate", "Total"]
+    : ["#", "Description", "Area (sq.ft)", "Rate", "Total"];
+
+const getItemColumnStyles = (showHsn: boolean): UserOptions["columnStyles"] =>
+  showHsn
+    ? {
+        0: { cellWidth: 12, halign: "center" },
+        1: { cellWidth: "auto" },
+        2: { cellWidth: 22, halign: "center" },
+        3: { cellWidth: 25, halign: "right" },
+        4: { cellWidth: 30, halign: "right" },
+        5: { cellWidth: 32, halign: "right" },
+      }
+    : {
+        0: { cellWidth: 15, halign: "center" },
+        1: { cellWidth: "auto" },
+        2: { cellWidth: 30, halign: "right" },
+        3: { cellWidth: 35, halign: "right" },
+        4: { cellWidth: 35, halign: "right" },
+      };
+
+// Taxable value and CGST/SGST or IGST rows inside the totals box
+const addTaxTotals = (
+  doc: jsPDF,
+  tax: TaxBreakdown | undefined,
+  labelX: number,
+  valueX: number,
+  y: number
+) => {
+  doc.setFont("helvetica", "normal");
+  for (const line of getTaxSummaryLines(tax)) {
+    doc.text(`${line.label}:`, labelX, y);
+    doc.text(formatCurrency(line.amount), valueX, y, { align: "right" });
+    y += 7;
+  }
+  return y;
+};
+
+// Client GSTIN and place of supply, printed left of the totals box
+const addTaxNotes = (doc: jsPDF, tax: TaxBreakdown | undefined, y: number) => {
+  if (!tax?.enabled) return;
+  const stateName = getStateName(tax.placeOfSupply);
+  const notes = [
+    tax.clientGstNumber ? `Client GSTIN: ${tax.clientGstNumber}` : null,
+    stateName ? `Place of Supply: ${stateName} (${tax.placeOfSupply})` : null,
+    tax.rateType === "inclusive" ? "Rates are inclusive of GST" : null,
+  ].filter((note): note is string => !!note);
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(100, 100, 100);
+  notes.forEach((note, index) => doc.text(note, 20, y + index * 6));
+  doc.setTextColor(0, 0, 0);
+  doc.setFontSize(10);
+};
+
+// Room-wise measurement sheet on its own page, with the items that take their area from it
+const addMeasurementAnnexure = (doc: ExtendedJsPDF, quotation: Quotation) => {
+  const rooms: MeasurementRoom[] = quotation.measurements || [];
+  if (rooms.length === 0) return;
+
+  doc.addPage();
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  doc.setTextColor(31, 41, 55);
+  doc.text("Annexure - Measurement Sheet", 20, 20);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Quotation #${quotation.quotationNumber} - all dimensions in feet, areas in sq.ft`, 20, 26);
+  doc.setTextColor(0, 0, 0);
+
+  const totals = computeSheetTotals(rooms);
+  autoTable(doc, {
+    head: [["Room", "L x W x H", "Wall Area", "Deductions", "Net Wall", "Ceiling"]],
+    body: rooms.map((room) => {
+      const areas = computeRoomAreas(room);
+      const deductions = room.deductions
+        .filter((deduction) => deduction.width > 0 && deduction.height > 0 && deduction.count > 0)
+        .map((deduction) => `${deduction.label || "Opening"} ${deduction.width}x${deduction.height} x${deduction.count}`);
+      return [
+        room.name,
+        `${room.length} x ${room.width} x ${room.height}`,
+        areas.grossWallArea,
+        deductions.length > 0 ? `${deductions.join("\n")}\n= ${areas.deductionArea}` : "-",
+        areas.netWallArea,
+        areas.ceilingArea,
+      ];
+    }),
+    foot: [["Total", "", "", totals.deductionArea, totals.netWallArea, totals.ceilingArea]],
+    startY: 32,
+    theme: "grid",
+    headStyles: { fillColor: [31, 41, 55], textColor: [255, 255, 255], fontStyle: "bold" },
+    footStyles: { fillColor: [248, 249, 250], textColor: [31, 41, 55], fontStyle: "bold" },
+    styles: { fontSize: 9, cellPadding: 3 },
+    columnStyles: {
+      2: { halign: "right" },
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+    },
+  });
+
+  const linkedItems = quotation.items.filter((item) => item.measurement);
+  if (linkedItems.length === 0) return;
+
+  autoTable(doc, {
+    head: [["Item", "Measured", "Rooms", "Area (sq.ft)"]],
+    body: linkedItems.map((item) => {
+      const ref = item.measurement!;
+      const roomNames = rooms.filter((room) => ref.roomIds.includes(room.id)).map((room) => room.name);
+      return [
+        item.description,
+        MEASURED_SURFACE_LABELS[ref.surface],
+        roomNames.length > 0 ? roomNames.join(", ") : "All rooms",
+        item.area ?? "-",
+      ];
+    }),
+    startY: doc.lastAutoTable.finalY + 10,
+    theme: "grid",
+    headStyles: { fillColor: [31, 41, 55], textColor: [255, 255, 255], fontStyle: "bold" },
+    styles: { fontSize: 9, cellPadding: 3 },
+    columnStyles: { 3: { halign: "right" } },
+  });
 };
 
 // Function to generate and download the quotation PDF
@@ -58,6 +221,7 @@ export const generateQuotationPDF = (quotation: Quotation) => {
 
   // Add company header
   addCompanyHeader(doc);
+  addSupplierGstin(doc, quotation.tax);
 
   // Quotation title with professional styling
   doc.setFontSize(16);
@@ -112,7 +276,8 @@ export const generateQuotationPDF = (quotation: Quotation) => {
   doc.line(20, 85, 190, 85);
 
   // Items table
-  const tableColumn = ["#", "Description", "Area (sq.ft)", "Rate", "Total"];
+  const showHsn = !!quotation.tax?.enabled;
+  const tableColumn = getItemTableColumns(showHsn);
   const tableRows =
     quotation.items?.map((item, index) => {
       const description = item.note
@@ -122,6 +287,7 @@ export const generateQuotationPDF = (quotation: Quotation) => {
       return [
         index + 1,
         description,
+        ...(showHsn ? [item.hsnSac || "-"] : []),
         item.area || "-",
         formatCurrency(item.rate || 0),
         formatCurrency(item.total ?? (item.rate || 0)),
@@ -142,13 +308,7 @@ export const generateQuotationPDF = (quotation: Quotation) => {
       fontSize: 10,
       cellPadding: 5,
     },
-    columnStyles: {
-      0: { cellWidth: 15, halign: "center" },
-      1: { cellWidth: "auto" },
-      2: { cellWidth: 30, halign: "right" },
-      3: { cellWidth: 35, halign: "right" },
-      4: { cellWidth: 35, halign: "right" },
-    },
+    columnStyles: getItemColumnStyles(showHsn),
     didParseCell: (data) => {
       if (data.column.index === 1 && typeof data.cell.raw === "string") {
         data.cell.text = [data.cell.raw]; // Assign as string array
@@ -160,7 +320,9 @@ export const generateQuotationPDF = (quotation: Quotation) => {
   let finalY = doc.lastAutoTable.finalY + 10;
 
   // Check if totals section will fit on current page
-  const totalsHeight = (quotation.discount ?? 0) > 0 ? 30 : 23;
+  const totalsHeight =
+    ((quotation.discount ?? 0) > 0 ? 30 : 23) +
+    getTaxSummaryLines(quotation.tax).length * 7;
   if (finalY + totalsHeight > 220) {
     doc.addPage();
     finalY = 20;
@@ -203,6 +365,9 @@ export const generateQuotationPDF = (quotation: Quotation) => {
     currentTotalY += 7;
   }
 
+  currentTotalY = addTaxTotals(doc, quotation.tax, totalLabelX, totalValueX, currentTotalY);
+  addTaxNotes(doc, quotation.tax, finalY);
+
   if (quotation.grandTotal) {
     doc.setDrawColor(31, 41, 55);
     doc.setLineWidth(0.5);
@@ -392,6 +557,8 @@ export const generateQuotationPDF = (quotation: Quotation) => {
       10;
   }
 
+  addMeasurementAnnexure(doc, quotation);
+
   // Add footer on all pages
   const pageCount = doc.getNumberOfPages();
   for (let i = 1; i <= pageCount; i++) {
@@ -419,12 +586,15 @@ export const generateInvoicePDF = (invoice: Invoice) => {
 
   // Add company header
   addCompanyHeader(doc);
+  addSupplierGstin(doc, invoice.tax);
 
   // Invoice title
   doc.setFontSize(16);
   doc.setTextColor(31, 41, 55); // Blue color for title
   doc.setFont("helvetica", "bold");
-  doc.text("INVOICE", 105, 50, { align: "center" });
+  doc.text(invoice.tax?.enabled ? "TAX INVOICE" : "INVOICE", 105, 50, {
+    align: "center",
+  });
 
   // Blue line below title
   doc.setDrawColor(31, 41, 55);
@@ -483,7 +653,8 @@ export const generateInvoicePDF = (invoice: Invoice) => {
   doc.line(20, 85, 190, 85);
 
   // Items table
-  const tableColumn = ["#", "Description", "Area (sq.ft)", "Rate", "Total"];
+  const showHsn = !!invoice.tax?.enabled;
+  const tableColumn = getItemTableColumns(showHsn);
   const tableRows =
     invoice.items.map((item, index) => {
       const description = item.note
@@ -493,6 +664,7 @@ export const generateInvoicePDF = (invoice: Invoice) => {
       return [
         index + 1,
         description,
+        ...(showHsn ? [item.hsnSac || "-"] : []),
         item.area || "-",
         formatCurrency(item.rate || 0),
         formatCurrency(
@@ -516,13 +688,7 @@ export const generateInvoicePDF = (invoice: Invoice) => {
       fontSize: 10,
       cellPadding: 5,
     },
-    columnStyles: {
-      0: { cellWidth: 15, halign: "center" },
-      1: { cellWidth: "auto" },
-      2: { cellWidth: 30, halign: "right" },
-      3: { cellWidth: 35, halign: "right" },
-      4: { cellWidth: 35, halign: "right" },
-    },
+    columnStyles: getItemColumnStyles(showHsn),
     didParseCell: (data) => {
       if (data.column.index === 1 && typeof data.cell.raw === "string") {
         data.cell.text = [data.cell.raw]; // Assign as string array
@@ -589,13 +755,15 @@ export const generateInvoicePDF = (invoice: Invoice) => {
 
   // Check if totals section will fit on current page
   const totalsHeight =
-    (invoice.discount ?? 0) > 0
+    ((invoice.discount ?? 0) > 0
       ? paymentStatus === "Paid"
         ? 37
         : 44
       : paymentStatus === "Paid"
       ? 30
-      : 37;
+      : 37) +
+    getTaxSummaryLines(invoice.tax).length * 7 +
+    ((invoice.creditedAmount ?? 0) > 0 ? 7 : 0);
   if (finalY + totalsHeight > 220) {
     doc.addPage();
     finalY = 20;
@@ -635,6 +803,9 @@ export const generateInvoicePDF = (invoice: Invoice) => {
     currentTotalY += 7;
   }
 
+  currentTotalY = addTaxTotals(doc, invoice.tax, totalLabelX, totalValueX, currentTotalY);
+  addTaxNotes(doc, invoice.tax, finalY);
+
   doc.setDrawColor(31, 41, 55);
   doc.setLineWidth(0.5);
   doc.line(
@@ -651,14 +822,23 @@ export const generateInvoicePDF = (invoice: Invoice) => {
     align: "right",
   });
 
-  // Calculate total advance for use in totals section or payment history
+  // Calculate total advance for use in totals section or payment history; refunds paid back don't count
   const totalAdvance =
-    invoice.paymentHistory?.reduce(
+    (invoice.paymentHistory?.reduce(
       (sum, payment) => sum + (payment.amount || 0),
       0
-    ) || 0;
+    ) || 0) - (invoice.refundedAmount ?? 0);
 
   currentTotalY += 11;
+  if ((invoice.creditedAmount ?? 0) > 0) {
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(0, 0, 0);
+    doc.text("Credit Notes:", totalLabelX, currentTotalY);
+    doc.text(`- ${formatCurrency(invoice.creditedAmount!)}`, totalValueX, currentTotalY, {
+      align: "right",
+    });
+    currentTotalY += 7;
+  }
   // Show Advance only if not Paid
   if (paymentStatus !== "Paid") {
     doc.setTextColor(0, 128, 0); // Green for advance
@@ -707,9 +887,11 @@ export const generateInvoicePDF = (invoice: Invoice) => {
     doc.text(statusText, 100, currentY);
     currentY += 5;
 
-    const paymentColumns = ["Date", "Amount", "Note"];
+    const paymentColumns = ["Date", "Receipt", "Method", "Amount", "Note"];
     const paymentRows = invoice.paymentHistory.map((payment) => [
       new Date(payment.date).toLocaleDateString(),
+      payment.receiptNumber || "-",
+      getPaymentMethodLabel(payment),
       formatCurrency(payment.amount),
       payment.note || "-",
     ]);
@@ -729,9 +911,11 @@ export const generateInvoicePDF = (invoice: Invoice) => {
         cellPadding: 5,
       },
       columnStyles: {
-        0: { cellWidth: 40 },
-        1: { cellWidth: 40, halign: "right" },
-        2: { cellWidth: "auto" },
+        0: { cellWidth: 28 },
+        1: { cellWidth: 26 },
+        2: { cellWidth: 32 },
+        3: { cellWidth: 34, halign: "right" },
+        4: { cellWidth: "auto" },
       },
     });
 
@@ -833,6 +1017,7 @@ export const generateProjectPDF = (project: Project) => {
 
   // Add company header
   addCompanyHeader(doc);
+  addSupplierGstin(doc, project.tax);
 
   // Project title
   doc.setFontSize(16);
@@ -883,7 +1068,7 @@ export const generateProjectPDF = (project: Project) => {
   doc.text(`${project.clientNumber}`, 140 + rightLabelWidth, 72);
   
   // Status with color
-  const status = project.status === "completed" ? "Completed" : "In Progress";
+  const status = PROJECT_STATUS_LABELS[project.status] || project.status;
   doc.text(status, 140 + rightLabelWidth, 79);
 
   // Horizontal line
@@ -892,7 +1077,8 @@ export const generateProjectPDF = (project: Project) => {
   doc.line(20, 85, 190, 85);
 
   // Items table
-  const tableColumn = ["#", "Description", "Area (sq.ft)", "Rate", "Total"];
+  const showHsn = !!project.tax?.enabled;
+  const tableColumn = getItemTableColumns(showHsn);
   const tableRows =
     project.items?.map((item, index) => {
       const description = item.note
@@ -902,6 +1088,7 @@ export const generateProjectPDF = (project: Project) => {
       return [
         index + 1,
         description,
+        ...(showHsn ? [item.hsnSac || "-"] : []),
         item.area || "-",
         formatCurrency(item.rate || 0),
         formatCurrency(
@@ -925,13 +1112,7 @@ export const generateProjectPDF = (project: Project) => {
       fontSize: 10,
       cellPadding: 5,
     },
-    columnStyles: {
-      0: { cellWidth: 15, halign: "center" },
-      1: { cellWidth: "auto" },
-      2: { cellWidth: 30, halign: "right" },
-      3: { cellWidth: 35, halign: "right" },
-      4: { cellWidth: 35, halign: "right" },
-    },
+    columnStyles: getItemColumnStyles(showHsn),
     didParseCell: (data) => {
       if (data.column.index === 1 && typeof data.cell.raw === "string") {
         data.cell.text = [data.cell.raw];
@@ -997,7 +1178,9 @@ export const generateProjectPDF = (project: Project) => {
   }
 
   // Check if totals section will fit on current page
-  const totalsHeight = (project.discount ?? 0) > 0 ? 37 : 30;
+  const totalsHeight =
+    ((project.discount ?? 0) > 0 ? 37 : 30) +
+    getTaxSummaryLines(project.tax).length * 7;
   if (finalY + totalsHeight > 220) {
     doc.addPage();
     finalY = 20;
@@ -1035,6 +1218,9 @@ export const generateProjectPDF = (project: Project) => {
     currentTotalY += 7;
   }
 
+  currentTotalY = addTaxTotals(doc, project.tax, totalLabelX, totalValueX, currentTotalY);
+  addTaxNotes(doc, project.tax, finalY);
+
   doc.setDrawColor(31, 41, 55);
   doc.setLineWidth(0.5);
   doc.line(
@@ -1097,10 +1283,11 @@ export const generateProjectPDF = (project: Project) => {
     doc.setTextColor(0, 0, 0);
     currentY += 5;
 
-    const paymentColumns = ["Date", "Method", "Note", "Amount"];
+    const paymentColumns = ["Date", "Receipt", "Method", "Note", "Amount"];
     const paymentRows = project.paymentHistory.map((payment) => [
       new Date(payment.date).toLocaleDateString(),
-      payment.method || "-",
+      payment.receiptNumber || "-",
+      getPaymentMethodLabel(payment),
       payment.note || "-",
       formatCurrency(Number(payment.amount)),
     ]);
@@ -1120,10 +1307,11 @@ export const generateProjectPDF = (project: Project) => {
         cellPadding: 5,
       },
       columnStyles: {
-        0: { cellWidth: 30 },
-        1: { cellWidth: 30 },
-        2: { cellWidth: "auto" },
-        3: { cellWidth: 30, halign: "right" },
+        0: { cellWidth: 28 },
+        1: { cellWidth: 26 },
+        2: { cellWidth: 32 },
+        3: { cellWidth: "auto" },
+        4: { cellWidth: 34, halign: "right" },
       },
     });
 
@@ -1249,3 +1437,487 @@ export const generateProjectPDF = (project: Project) => {
 
   doc.save(`Project_${project.projectId}.pdf`);
 };
+
+// Receivables ageing by client, with the overdue invoices under each client
+export const generateAgeingReportPDF = (report: AgeingReport) => {
+  const doc = new jsPDF() as ExtendedJsPDF;
+  const asOf = new Date(report.asOf).toLocaleDateString("en-IN");
+  const amount = (value: number) => (value ? value.toLocaleString("en-IN", { maximumFractionDigits: 2 }) : "-");
+
+  addCompanyHeader(doc);
+
+  doc.setFontSize(16);
+  doc.setTextColor(31, 41, 55);
+  doc.setFont("helvetica", "bold");
+  doc.text("RECEIVABLES AGEING", 105, 50, { align: "center" });
+  doc.setDrawColor(31, 41, 55);
+  doc.setLineWidth(0.5);
+  doc.line(20, 55, 190, 55);
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(0, 0, 0);
+  doc.text(`As of ${asOf} · Payment terms ${report.paymentTermsDays} days · Amounts in Rs.`, 20, 63);
+
+  autoTable(doc, {
+    head: [["Client", ...AGEING_BUCKETS.map((bucket) => AGEING_BUCKET_LABELS[bucket]), "Total"]],
+    body: report.clients.map((client) => [
+      `${client.clientName}\n${client.clientNumber}`,
+      ...AGEING_BUCKETS.map((bucket) => amount(client.buckets[bucket])),
+      amount(client.total),
+    ]),
+    foot: [["Total", ...AGEING_BUCKETS.map((bucket) => amount(report.totals[bucket])), amount(report.totals.total)]],
+    startY: 68,
+    theme: "grid",
+    headStyles: { fillColor: [31, 41, 55], textColor: [255, 255, 255], fontStyle: "bold", halign: "right" },
+    footStyles: { fillColor: [248, 249, 250], textColor: [31, 41, 55], fontStyle: "bold", halign: "right" },
+    styles: { fontSize: 8, cellPadding: 2.5, halign: "right" },
+    columnStyles: { 0: { halign: "left", cellWidth: 44 } },
+    margin: { left: 15, right: 15, bottom: 25 },
+  });
+
+  const overdue = report.clients.flatMap((client) =>
+    client.invoices
+      .filter((invoice) => invoice.daysOverdue >= 0)
+      .map((invoice) => [
+        client.clientName,
+        invoice.invoiceId,
+        new Date(invoice.dueDate).toLocaleDateString("en-IN"),
+        String(invoice.daysOverdue),
+        amount(invoice.amountDue),
+      ])
+  );
+  if (overdue.length > 0) {
+    autoTable(doc, {
+      head: [["Client", "Invoice", "Due Date", "Days Overdue", "Amount Due"]],
+      body: overdue,
+      startY: doc.lastAutoTable.finalY + 10,
+      theme: "grid",
+      headStyles: { fillColor: [31, 41, 55], textColor: [255, 255, 255], fontStyle: "bold" },
+      styles: { fontSize: 8, cellPadding: 2.5 },
+      columnStyles: { 3: { halign: "right" }, 4: { halign: "right" } },
+      margin: { left: 15, right: 15, bottom: 25 },
+    });
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`Page ${i} of ${pageCount}`, 105, 290, { align: "center" });
+  }
+
+  doc.save(`Receivables_Ageing_${new Date(report.asOf).toISOString().split("T")[0]}.pdf`);
+};
+
+// Monthly attendance register for labour records, one column per day of the month
+export const generateMusterRollPDF = ({
+  month,
+  days,
+  rows,
+  dayTotals,
+  totalUnits,
+}: {
+  month: string;
+  days: Date[];
+  rows: MusterRollRow[];
+  dayTotals: Map<string, number>;
+  totalUnits: number;
+}) => {
+  const doc = new jsPDF({ orientation: "landscape" }) as ExtendedJsPDF;
+  const monthLabel = days[0].toLocaleDateString("en-IN", { month: "long", year: "numeric" });
+  const dayColumns = Object.fromEntries(days.map((_, index) => [index + 1, { cellWidth: 6.5 }]));
+
+  addCompanyHeader(doc, 277);
+
+  doc.setFontSize(16);
+  doc.setTextColor(31, 41, 55);
+  doc.setFont("helvetica", "bold");
+  doc.text("MUSTER ROLL", 148.5, 50, { align: "center" });
+  doc.setDrawColor(31, 41, 55);
+  doc.setLineWidth(0.5);
+  doc.line(20, 55, 277, 55);
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(0, 0, 0);
+  doc.text(`${monthLabel} · Units per day (1 = full shift) · A = absent`, 20, 63);
+
+  autoTable(doc, {
+    head: [["Worker", ...days.map((day) => String(day.getDate())), "Days", "Units"]],
+    body: rows.map((row) => [
+      `${row.worker.name || row.worker.workerCode}\n${row.worker.workerCode}`,
+      ...days.map((day) => formatMusterCell(sumUnits(row.cells.get(toDateKey(day)) || []))),
+      String(row.daysPresent),
+      String(row.totalUnits),
+    ]),
+    foot: [["Total", ...days.map((day) => String(dayTotals.get(toDateKey(day)) || "")), "", String(totalUnits)]],
+    startY: 68,
+    theme: "grid",
+    headStyles: { fillColor: [31, 41, 55], textColor: [255, 255, 255], fontStyle: "bold", halign: "center" },
+    footStyles: { fillColor: [248, 249, 250], textColor: [31, 41, 55], fontStyle: "bold", halign: "center" },
+    styles: { fontSize: 6.5, cellPadding: 1, halign: "center" },
+    columnStyles: { 0: { halign: "left", cellWidth: 34 }, ...dayColumns },
+    margin: { left: 10, right: 10, bottom: 20 },
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`Page ${i} of ${pageCount}`, 148.5, 200, { align: "center" });
+  }
+
+  doc.save(`Muster_Roll_${month}.pdf`);
+};
+
+// Receipt for a single payment against an invoice (or a project that has no invoice yet)
+export const generatePaymentReceiptPDF = (source: Invoice | Project, payment: Payment) => {
+  const doc = new jsPDF() as ExtendedJsPDF;
+  const reference = source.invoiceId ? `Invoice #${source.invoiceId}` : `Project #${source.projectId}`;
+  const formatDate = (value: string | Date) =>
+    new Date(value).toLocaleDateString("en-US", { day: "2-digit", month: "long", year: "numeric" });
+
+  addCompanyHeader(doc);
+  addSupplierGstin(doc, source.tax);
+
+  doc.setFontSize(16);
+  doc.setTextColor(31, 41, 55);
+  doc.setFont("helvetica", "bold");
+  doc.text("PAYMENT RECEIPT", 105, 50, { align: "center" });
+  doc.setDrawColor(31, 41, 55);
+  doc.setLineWidth(0.5);
+  doc.line(20, 55, 190, 55);
+
+  doc.setFontSize(10);
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("helvetica", "bold");
+  doc.text("Receipt No:", 20, 65);
+  doc.text("Received From:", 20, 72);
+  doc.text("Address:", 20, 79);
+  doc.text("Date:", 140, 65);
+  doc.text("Client No:", 140, 72);
+  doc.text("Against:", 140, 79);
+
+  doc.setFont("helvetica", "normal");
+  doc.text(payment.receiptNumber ? `#${payment.receiptNumber}` : "-", 50, 65);
+  doc.text(source.clientName, 50, 72);
+  doc.text(doc.splitTextToSize(source.clientAddress, 85), 50, 79);
+  doc.text(formatDate(payment.date), 165, 65);
+  doc.text(source.clientNumber, 165, 72);
+  doc.text(reference, 165, 79);
+
+  const details: [string, string][] = [
+    ["Amount Received", formatCurrency(Number(payment.amount))],
+    ["Payment Method", getPaymentMethodLabel(payment)],
+  ];
+  if (payment.referenceId) details.push(["Reference ID", payment.referenceId]);
+  if (payment.receivedBy) details.push(["Received By", payment.receivedBy]);
+  if (payment.note) details.push(["Note", payment.note]);
+
+  autoTable(doc, {
+    body: details,
+    startY: 92,
+    theme: "grid",
+    styles: { fontSize: 10, cellPadding: 5 },
+    columnStyles: {
+      0: { cellWidth: 50, fontStyle: "bold", fillColor: [248, 249, 250] },
+      1: { cellWidth: "auto" },
+    },
+  });
+
+  // Balance as it stood once this payment was received
+  const index = source.paymentHistory.findIndex((entry) =>
+    payment.receiptNumber ? entry.receiptNumber === payment.receiptNumber : entry === payment
+  );
+  const paidToDate = source.paymentHistory
+    .slice(0, index === -1 ? source.paymentHistory.length : index + 1)
+    .reduce((sum, entry) => sum + (Number(entry.amount) || 0), 0);
+  const grandTotal = source.grandTotal || 0;
+
+  let currentY = doc.lastAutoTable.finalY + 12;
+  const labelX = 120;
+  const valueX = 190;
+  doc.setFont("helvetica", "normal");
+  doc.text("Total Amount:", labelX, currentY);
+  doc.text(formatCurrency(grandTotal), valueX, currentY, { align: "right" });
+  currentY += 7;
+  doc.setTextColor(0, 128, 0);
+  doc.text("Paid to Date:", labelX, currentY);
+  doc.text(formatCurrency(paidToDate), valueX, currentY, { align: "right" });
+  currentY += 7;
+  doc.setTextColor(220, 53, 69);
+  doc.setFont("helvetica", "bold");
+  doc.text("Balance Due:", labelX, currentY);
+  doc.text(formatCurrency(Math.max(0, grandTotal - paidToDate)), valueX, currentY, { align: "right" });
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("helvetica", "normal");
+
+  const reversal = findPaymentReversal(source.paymentHistory, payment);
+  if (reversal) {
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(220, 53, 69);
+    doc.text(
+      doc.splitTextToSize(
+        `This payment was reversed on ${formatDate(reversal.date)}${reversal.reason ? `: ${reversal.reason}` : ""}`,
+        170
+      ),
+      20,
+      currentY + 14
+    );
+    doc.setFont("helvetica", "normal");
+    currentY += 10;
+  }
+
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  doc.text("This is a computer generated receipt and does not require a signature.", 20, currentY + 20);
+
+  doc.setFillColor(248, 249, 250);
+  doc.rect(0, 280, 210, 20, "F");
+  doc.setFontSize(8);
+  doc.text("Zycra Interior (formerly Soni Painting) - Professional Painting Services", 105, 292, {
+    align: "center",
+  });
+
+  doc.save(`Receipt_${payment.receiptNumber || reference.replace(/\W+/g, "_")}.pdf`);
+};
+
+export const generateCreditNotePDF = (invoice: Invoice, creditNote: CreditNote) => {
+  const doc = new jsPDF() as ExtendedJsPDF;
+  const formatDate = (value: string | Date) =>
+    new Date(value).toLocaleDateString("en-US", { day: "2-digit", month: "long", year: "numeric" });
+
+  addCompanyHeader(doc);
+  addSupplierGstin(doc, creditNote.tax);
+
+  doc.setFontSize(16);
+  doc.setTextColor(31, 41, 55);
+  doc.setFont("helvetica", "bold");
+  doc.text("CREDIT NOTE", 105, 50, { align: "center" });
+  doc.setDrawColor(31, 41, 55);
+  doc.setLineWidth(0.5);
+  doc.line(20, 55, 190, 55);
+
+  doc.setFontSize(10);
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("helvetica", "bold");
+  doc.text("Credit Note No:", 20, 65);
+  doc.text("Client Name:", 20, 72);
+  doc.text("Address:", 20, 79);
+  doc.text("Date:", 140, 65);
+  doc.text("Against:", 140, 72);
+  doc.text("Invoice Date:", 140, 79);
+
+  doc.setFont("helvetica", "normal");
+  doc.text(`#${creditNote.creditNoteNumber}`, 50, 65);
+  doc.text(creditNote.clientName, 50, 72);
+  doc.text(doc.splitTextToSize(creditNote.clientAddress, 85), 50, 79);
+  doc.text(formatDate(creditNote.date), 165, 65);
+  doc.text(`Invoice #${creditNote.invoiceId}`, 165, 72);
+  doc.text(formatDate(invoice.date), 165, 79);
+
+  doc.setFont("helvetica", "bold");
+  doc.text(`${CREDIT_NOTE_TYPE_LABELS[creditNote.type]}:`, 20, 94);
+  doc.setFont("helvetica", "normal");
+  const reasonLines = doc.splitTextToSize(creditNote.reason, 135);
+  doc.text(reasonLines, 55, 94);
+
+  autoTable(doc, {
+    head: [["#", "Description", "Amount"]],
+    body: creditNote.items.map((item, index) => [
+      index + 1,
+      item.note ? `${item.description} (${item.note})` : item.description,
+      formatCurrency(item.amount),
+    ]),
+    startY: 100 + (reasonLines.length - 1) * 5,
+    theme: "grid",
+    headStyles: { fillColor: [31, 41, 55], textColor: [255, 255, 255], fontStyle: "bold" },
+    styles: { fontSize: 10, cellPadding: 5 },
+    columnStyles: {
+      0: { cellWidth: 15, halign: "center" },
+      1: { cellWidth: "auto" },
+      2: { cellWidth: 40, halign: "right" },
+    },
+  });
+
+  let currentY = doc.lastAutoTable.finalY + 12;
+  const labelX = 120;
+  const valueX = 190;
+  currentY = addTaxTotals(doc, creditNote.tax, labelX, valueX, currentY);
+  addTaxNotes(doc, creditNote.tax, doc.lastAutoTable.finalY + 12);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(31, 41, 55);
+  doc.text("Total Credit:", labelX, currentY);
+  doc.text(formatCurrency(creditNote.total), valueX, currentY, { align: "right" });
+  currentY += 7;
+
+  if (creditNote.refund) {
+    doc.setTextColor(220, 53, 69);
+    doc.text("Refunded:", labelX, currentY);
+    doc.text(formatCurrency(creditNote.refund.amount), valueX, currentY, { align: "right" });
+    currentY += 7;
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(100, 100, 100);
+    doc.setFontSize(9);
+    const refundDetails = [
+      `Refunded via ${PAYMENT_METHOD_LABELS[creditNote.refund.method] || creditNote.refund.method}`,
+      creditNote.refund.referenceId ? `Ref: ${creditNote.refund.referenceId}` : null,
+      `on ${formatDate(creditNote.refund.date)}`,
+    ].filter((part): part is string => !!part);
+    doc.text(refundDetails.join(" "), valueX, currentY, { align: "right" });
+    currentY += 7;
+    doc.setFontSize(10);
+  }
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("helvetica", "normal");
+
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  doc.text(
+    `Issued against Invoice #${creditNote.invoiceId} (total ${formatCurrency(invoice.grandTotal)}). This is a computer generated document and does not require a signature.`,
+    20,
+    currentY + 13,
+    { maxWidth: 170 }
+  );
+
+  doc.setFillColor(248, 249, 250);
+  doc.rect(0, 280, 210, 20, "F");
+  doc.setFontSize(8);
+  doc.text("Zycra Interior (formerly Soni Painting) - Professional Painting Services", 105, 292, {
+    align: "center",
+  });
+
+  doc.save(`CreditNote_${creditNote.creditNoteNumber}.pdf`);
+};
+
+// Monthly payslip for one worker: attendance, wages, advances, loyalty payout and what was paid
+const buildPayslipDoc = (payslip: Payslip, company: CompanyDetails | null) => {
+  const doc = new jsPDF() as ExtendedJsPDF;
+  const [year, month] = payslip.month.split("-").map(Number);
+  const monthLabel = new Date(year, month - 1, 1).toLocaleDateString("en-IN", { month: "long", year: "numeric" });
+  const formatDate = (value: string | Date) =>
+    new Date(value).toLocaleDateString("en-US", { day: "2-digit", month: "long", year: "numeric" });
+
+  addCompanyHeader(doc, 190, company);
+
+  doc.setFontSize(16);
+  doc.setTextColor(31, 41, 55);
+  doc.setFont("helvetica", "bold");
+  doc.text("PAYSLIP", 105, 50, { align: "center" });
+  doc.setDrawColor(31, 41, 55);
+  doc.setLineWidth(0.5);
+  doc.line(20, 55, 190, 55);
+
+  doc.setFontSize(10);
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("helvetica", "bold");
+  doc.text("Worker:", 20, 65);
+  doc.text("Worker Code:", 20, 72);
+  doc.text("Mobile:", 20, 79);
+  doc.text("Pay Period:", 120, 65);
+  doc.text("Days Worked:", 120, 72);
+  doc.text("Units (Hajiri):", 120, 79);
+
+  doc.setFont("helvetica", "normal");
+  doc.text(payslip.worker.name || "-", 50, 65);
+  doc.text(payslip.worker.workerCode, 50, 72);
+  doc.text(payslip.worker.mobile, 50, 79);
+  doc.text(monthLabel, 150, 65);
+  doc.text(String(payslip.attendanceDays), 150, 72);
+  doc.text(String(payslip.totalUnits), 150, 79);
+
+  autoTable(doc, {
+    head: [["Description", "Amount"]],
+    body: [
+      ...payslip.rateBreakdown.map((rate) => [
+        `Wages: ${formatCurrency(rate.dailyWage)} x ${rate.units} units`,
+        formatCurrency(rate.amount),
+      ]),
+      ["Gross Wage", formatCurrency(payslip.grossWage)],
+      ["Less: Advances", `- ${formatCurrency(payslip.totalAdvance)}`],
+      [`Loyalty Payout (${payslip.loyaltyPoints} net points)`, formatCurrency(payslip.loyaltyPayout)],
+    ],
+    foot: [["Net Pay", formatCurrency(payslip.netPay)]],
+    startY: 90,
+    theme: "grid",
+    headStyles: { fillColor: [31, 41, 55], textColor: [255, 255, 255], fontStyle: "bold" },
+    footStyles: { fillColor: [248, 249, 250], textColor: [31, 41, 55], fontStyle: "bold" },
+    styles: { fontSize: 10, cellPadding: 4 },
+    columnStyles: { 1: { halign: "right", cellWidth: 50 } },
+  });
+
+  const wagePaymentLine =
+    payslip.wageStatus === "paid"
+      ? [
+          payslip.paymentMethod ? getPaymentMethodLabel({ method: payslip.paymentMethod }) : null,
+          payslip.paidAt ? formatDate(payslip.paidAt) : null,
+        ]
+          .filter(Boolean)
+          .join(", ")
+      : "Pending";
+  const settlement: [string, string][] = [];
+  if (payslip.openingBalance !== 0) {
+    settlement.push([
+      payslip.openingBalance < 0 ? "Advance carried from last month" : "Balance carried from last month",
+      formatCurrency(payslip.openingBalance),
+    ]);
+  }
+  settlement.push(
+    [`Wages Paid${wagePaymentLine ? ` (${wagePaymentLine})` : ""}`, formatCurrency(payslip.wagePaid)],
+    ["Loyalty Paid", formatCurrency(payslip.loyaltyPaid)]
+  );
+  if (payslip.wageStatus === "paid" && payslip.closingBalance !== 0) {
+    settlement.push(["Balance carried to next month", formatCurrency(payslip.closingBalance)]);
+  }
+
+  autoTable(doc, {
+    head: [["Payment", "Amount"]],
+    body: settlement,
+    foot: [["Net Paid", formatCurrency(payslip.netPaid)]],
+    startY: doc.lastAutoTable.finalY + 8,
+    theme: "grid",
+    headStyles: { fillColor: [31, 41, 55], textColor: [255, 255, 255], fontStyle: "bold" },
+    footStyles: { fillColor: [248, 249, 250], textColor: [31, 41, 55], fontStyle: "bold" },
+    styles: { fontSize: 10, cellPadding: 4 },
+    columnStyles: { 1: { halign: "right", cellWidth: 50 } },
+  });
+
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  doc.text("This is a computer generated payslip and does not require a signature.", 20, doc.lastAutoTable.finalY + 12);
+
+  doc.setFillColor(248, 249, 250);
+  doc.rect(0, 280, 210, 20, "F");
+  doc.setFontSize(8);
+  doc.text(company?.siteName || "Zycra Interior (formerly Soni Painting) - Professional Painting Services", 105, 292, {
+    align: "center",
+  });
+
+  return doc;
+};
+
+const getPayslipFileName = (payslip: Payslip) => `Payslip_${payslip.worker.workerCode}_${payslip.month}.pdf`;
+
+export const generatePayslipPDF = (payslip: Payslip, company: CompanyDetails | null) => {
+  buildPayslipDoc(payslip, company).save(getPayslipFileName(payslip));
+};
+
+// Every payslip for the month as separate PDFs in one zip download
+export const generatePayslipsZip = (month: string, payslips: Payslip[], company: CompanyDetails | null) => {
+  const files = Object.fromEntries(
+    payslips.map((payslip) => [
+      getPayslipFileName(payslip),
+      new Uint8Array(buildPayslipDoc(payslip, company).output("arraybuffer")),
+    ])
+  );
+  const url = URL.createObjectURL(new Blob([zipSync(files)], { type: "application/zip" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `Payslips_${month}.zip`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -5,12 +5,17 @@ interface EditQuotationPageProps {
   params: Promise<{
     quotationNumber: string;
   }>;
+  searchParams: Promise<{
+    token?: string;
+    rev?: string;
+  }>;
 }
 
 
-export default async function EditQuotationPage({ params }: EditQuotationPageProps) {
+export default async function EditQuotationPage({ params, searchParams }: EditQuotationPageProps) {
   
   const { quotationNumber } = await params;
+  const { token, rev } = await searchParams;
 
-  return <QuotationView quotationNumber={quotationNumber} />;
-}
\ No newline at end of file
+  return <QuotationView quotationNumber={quotationNumber} token={token} revision={rev} />;
+}
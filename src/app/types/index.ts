@@ -1,10 +1,42 @@
 // types.ts
+import type { TaxBreakdown } from "@/lib/gst";
+import type { QuotationRevisionSnapshot } from "@/lib/quotation-revisions";
+import type { CatalogUnit } from "@/lib/catalog";
+import type { ItemMeasurementRef, MeasurementRoom } from "@/lib/measurements";
+import type { AgeingBucket } from "@/lib/receivables";
+import type { PaymentMethod } from "@/lib/payments";
+import type { CreditNoteType } from "@/lib/credit-notes";
+import type { ProjectStatus } from "@/lib/project-status";
+import type { SiteLocation } from "@/lib/site-check-in";
+
+export interface QuotationAcceptance {
+  decision: "accepted" | "rejected";
+  signerName: string;
+  signature?: { url: string; publicId: string };
+  reason?: string;
+  grandTotal?: number;
+  revision?: string;
+  ipAddress: string;
+  userAgent?: string;
+  respondedAt: string | Date;
+}
+
+export interface QuotationFollowUp {
+  kind: "reminder" | "expired";
+  daysBefore?: number;
+  expiresAt: string | Date;
+  delivered: boolean;
+  error?: string;
+  createdAt: string | Date;
+}
+
 export interface Quotation {
   _id?: string;
   quotationNumber: string;
   clientName: string;
   clientAddress: string;
   clientNumber: string;
+  clientId?: string;
   clientMobile?: {
     countryCode: string;
     number: string;
@@ -16,16 +48,24 @@ export interface Quotation {
     rate: number;
     total?: number | null;
     note?: string;
+    hsnSac?: string;
+    measurement?: ItemMeasurementRef | null;
   }[];
+  measurements?: MeasurementRoom[];
   subtotal?: number;
   discount?: number;
   grandTotal?: number;
+  tax?: TaxBreakdown;
   terms: string[];
   note?: string;
   createdBy: Date;
   createdAt: Date;
   lastUpdated?: Date;
-  isAccepted: "pending" | "accepted" | "rejected";
+  isAccepted: "pending" | "accepted" | "rejected" | "expired";
+  accessToken?: string;
+  acceptanceRecords?: QuotationAcceptance[];
+  revisions?: QuotationRevisionSnapshot[];
+  currentRevision?: string;
   updateHistory?: {
     updatedAt: string | Date;
     updatedBy: string;
@@ -36,7 +76,9 @@ export interface Quotation {
     publicId: string;
     description?: string;
   }[];
-  validity?: string;
+  validityDays?: number;
+  expiresAt?: string | Date;
+  followUps?: QuotationFollowUp[];
 }
 
 export interface Project {
@@ -46,6 +88,7 @@ export interface Project {
   clientName: string;
   clientAddress: string;
   clientNumber: string;
+  clientId?: string;
   date: string | Date;
   items: {
     description: string;
@@ -53,7 +96,10 @@ export interface Project {
     rate: number;
     total?: number | null;
     note?: string;
+    hsnSac?: string;
+    measurement?: ItemMeasurementRef | null;
   }[];
+  measurements?: MeasurementRoom[];
   extraWork: {
     description: string;
     total: number;
@@ -62,19 +108,23 @@ export interface Project {
   subtotal?: number;
   discount: number;
   grandTotal?: number;
+  tax?: TaxBreakdown;
   amountDue?: number;
-  paymentHistory: {
-    amount: number;
-    date: string | Date;
-    method?: string;
-    note?: string;
-  }[];
+  paymentHistory: Payment[];
+  creditedAmount?: number;
+  refundedAmount?: number;
+  paymentSchedule?: PaymentMilestone[];
   siteImages: { url: string; publicId: string; description?: string }[];
+  shareProgressWithClient?: boolean;
   terms: string[];
   note?: string;
   createdAt?: string | Date;
   lastUpdated?: string | Date;
-  status: "ongoing" | "completed" | "cancelled";
+  plannedStartDate?: string | Date;
+  plannedEndDate?: string | Date;
+  siteLocation?: SiteLocation;
+  status: ProjectStatus;
+  statusHistory?: ProjectStatusChange[];
   updateHistory?: {
     updatedAt: string | Date;
     updatedBy: string;
@@ -82,6 +132,15 @@ export interface Project {
   }[];
 }
 
+export interface InvoicePaymentReminder {
+  daysOverdue: number;
+  dueDate: string | Date;
+  amountDue: number;
+  delivered: boolean;
+  error?: string;
+  createdAt: string | Date;
+}
+
 export interface Invoice {
   invoiceId: string;
   projectId: string;
@@ -89,6 +148,7 @@ export interface Invoice {
   clientName: string;
   clientAddress: string;
   clientNumber: string;
+  clientId?: string;
   date: string | Date;
   items: {
     description: string;
@@ -96,6 +156,7 @@ export interface Invoice {
     rate: number;
     total?: number | null;
     note?: string;
+    hsnSac?: string;
   }[];
   extraWork: {
     description: string;
@@ -105,13 +166,15 @@ export interface Invoice {
   subtotal: number;
   discount: number;
   grandTotal: number;
-  paymentHistory: {
-    amount: number;
-    date: string | Date;
-    method?: string;
-    note?: string;
-  }[];
+  tax?: TaxBreakdown;
+  paymentHistory: Payment[];
   amountDue: number;
+  creditedAmount?: number;
+  refundedAmount?: number;
+  paymentSchedule?: PaymentMilestone[];
+  paymentTermsDays?: number;
+  dueDate?: string | Date;
+  paymentReminders?: InvoicePaymentReminder[];
   accessToken?: string;
   createdAt: string | Date;
   terms: string[];
@@ -146,6 +209,9 @@ export interface GeneralInfo {
   mobileNumber1: string;
   mobileNumber2?: string;
   address: string;
+  quotationReminderDays?: number[];
+  paymentTermsDays?: number;
+  paymentReminderDays?: number[];
   lastUpdated?: string;
 }
 
@@ -194,9 +260,225 @@ export interface ApiError {
   details?: { message: string }[];
   code?: string;
 }
+export interface PaymentCorrection {
+  reason: string;
+  changes: { field: string; from?: string; to?: string }[];
+  correctedBy: string;
+  correctedAt: string | Date;
+}
+
 export interface Payment {
+  _id?: string;
   amount: number;
   date: string | Date;
-  method?: string;
+  method?: PaymentMethod;
+  chequeNumber?: string;
+  chequeBank?: string;
+  referenceId?: string;
+  receivedBy?: string;
+  receiptNumber?: string;
   note?: string;
+  isReversal?: boolean;
+  reversalOf?: string;
+  reason?: string;
+  corrections?: PaymentCorrection[];
+}
+export interface PaymentMilestone {
+  _id?: string;
+  label: string;
+  percent?: number;
+  amount?: number;
+  dueDate?: string | Date;
+  condition?: string;
+  dueAt?: string | Date;
+  paidAt?: string | Date;
+  notifiedAt?: string | Date;
+}
+
+export interface ProjectStatusChange {
+  from?: ProjectStatus;
+  to: ProjectStatus;
+  reason?: string;
+  changedBy: string;
+  changedAt: string | Date;
+}
+
+export interface CreditNote {
+  _id: string;
+  creditNoteNumber: string;
+  invoiceId: string;
+  projectId: string;
+  quotationNumber: string;
+  clientName: string;
+  clientAddress: string;
+  clientNumber: string;
+  date: string | Date;
+  type: CreditNoteType;
+  reason: string;
+  items: { description: string; amount: number; note?: string }[];
+  total: number;
+  tax?: TaxBreakdown;
+  refund?: {
+    amount: number;
+    method: PaymentMethod;
+    referenceId?: string;
+    date: string | Date;
+    transactionId?: string;
+  };
+  createdBy: string;
+  createdAt: string | Date;
+}
+
+export interface ProjectCosting {
+  projectId: string;
+  clientName: string;
+  status: string;
+  contractValue: number;
+  revenue: number;
+  labourUnits: number;
+  labourCost: number;
+  materialCost: number;
+  otherCost: number;
+  totalCost: number;
+  paymentsReceived: number;
+  margin: number;
+  marginPercent: number;
+}
+
+export interface CatalogItem {
+  _id: string;
+  name: string;
+  unit: CatalogUnit;
+  defaultRate: number;
+  defaultNote?: string;
+  serviceCategory: string;
+  hsnSac?: string;
+  isActive: boolean;
+  rateHistory: { _id?: string; rate: number; changedAt: string; changedBy?: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QuotationTemplate {
+  _id: string;
+  name: string;
+  serviceCategory: string;
+  items: {
+    description: string;
+    area?: number | null;
+    rate: number;
+    note?: string;
+    hsnSac?: string;
+  }[];
+  terms: string[];
+  note?: string;
+  validityDays?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClientSite {
+  _id?: string;
+  label: string;
+  address: string;
+}
+
+export interface ClientContact {
+  _id?: string;
+  name: string;
+  phone: string;
+  role?: string;
+}
+
+export interface ClientSummary {
+  quotationCount: number;
+  projectCount: number;
+  billed: number;
+  outstanding: number;
+}
+
+export interface Client {
+  _id: string;
+  name: string;
+  // Normalised: 10 digits for Indian numbers, country code + number otherwise
+  phone: string;
+  email?: string;
+  gstNumber?: string;
+  sites: ClientSite[];
+  contacts: ClientContact[];
+  notes?: string;
+  summary?: ClientSummary;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ClientDetail {
+  client: Client;
+  summary: ClientSummary;
+  quotations: Pick<Quotation, "quotationNumber" | "clientAddress" | "date" | "grandTotal" | "isAccepted" | "expiresAt" | "currentRevision">[];
+  projects: Pick<Project, "projectId" | "quotationNumber" | "clientAddress" | "date" | "grandTotal" | "amountDue" | "status">[];
+  invoices: Pick<Invoice, "invoiceId" | "projectId" | "date" | "grandTotal" | "amountDue">[];
+  reviews: {
+    _id: string;
+    name: string;
+    rating: number;
+    comment: string;
+    serviceType: string;
+    status: "pending" | "approved" | "rejected";
+    createdAt: string;
+  }[];
+}
+
+export interface AgeingReportInvoice {
+  invoiceId: string;
+  projectId: string;
+  date: string;
+  dueDate: string;
+  grandTotal: number;
+  amountDue: number;
+  daysOverdue: number;
+  bucket: AgeingBucket;
+  lastReminderAt?: string;
+}
+
+export interface AgeingReportClient {
+  key: string;
+  clientId?: string;
+  clientName: string;
+  clientNumber: string;
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+  oldestDaysOverdue: number;
+  invoices: AgeingReportInvoice[];
+}
+
+export interface AgeingReport {
+  asOf: string;
+  paymentTermsDays: number;
+  totals: Record<AgeingBucket, number> & { total: number };
+  clients: AgeingReportClient[];
+}
+
+export type CompanyDetails = Pick<GeneralInfo, "siteName" | "address" | "mobileNumber1" | "mobileNumber2">;
+
+export interface Payslip {
+  month: string;
+  worker: { id: string; workerCode: string; name: string; mobile: string };
+  attendanceDays: number;
+  totalUnits: number;
+  rateBreakdown: { dailyWage: number; units: number; amount: number }[];
+  grossWage: number;
+  totalAdvance: number;
+  loyaltyPoints: number;
+  loyaltyPayout: number;
+  // Wages net of advances plus the month's loyalty payout
+  netPay: number;
+  openingBalance: number;
+  wageStatus: "pending" | "paid";
+  wagePaid: number;
+  paymentMethod?: string | null;
+  paidAt?: string | null;
+  closingBalance: number;
+  loyaltyPaid: number;
+  netPaid: number;
 }
@@ -10,6 +10,7 @@ import {
   Banknote,
   BarChart3,
   CalendarCheck2,
+  Camera,
   ChevronDown,
   ChevronRight,
   CircleDollarSign,
@@ -18,6 +19,10 @@ import {
   Home,
   Info,
   Lightbulb,
+  Loader2,
+  LogIn,
+  LogOut,
+  MapPin,
   Minus,
   Trophy,
   Wallet,
@@ -35,6 +40,9 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { generatePayslipPDF } from "@/app/lib/generate-pdf";
+import { toDateKey } from "@/lib/crew-schedule";
+import { CHECK_IN_STATUS_LABELS, type CheckInStatus } from "@/lib/site-check-in";
 
 type Worker = {
   _id: string;
@@ -55,6 +63,16 @@ type SummaryResponse = {
     grossWage: number;
     totalAdvance: number;
     netPayable: number;
+    rateBreakdown: Array<{ dailyWage: number; units: number; amount: number }>;
+  };
+  settlement: {
+    status: "pending" | "paid";
+    openingBalance: number;
+    totalPayable: number;
+    amountPaid: number;
+    closingBalance: number;
+    paymentMethod: string | null;
+    paidAt: string | null;
   };
   loyalty: {
     rules: {
@@ -105,6 +123,44 @@ type SummaryResponse = {
   }>;
 };
 
+type WagePayout = {
+  _id: string;
+  year: number;
+  month: number;
+  totalPayable: number;
+  amountPaid: number;
+  closingBalance: number;
+  paymentMethod?: string;
+  status: "pending" | "paid";
+  paidAt?: string;
+};
+
+const WAGE_PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  bank_transfer: "Bank Transfer",
+  cheque: "Cheque",
+};
+
+type SiteAssignment = {
+  _id: string;
+  date: string;
+  note?: string;
+  projectId: { _id: string; projectId: string; clientName: string; clientAddress: string } | null;
+};
+
+type SiteCheckIn = {
+  _id: string;
+  date: string;
+  checkInAt: string;
+  checkOutAt?: string;
+  status: CheckInStatus;
+  suggestedUnits?: number;
+  units?: number;
+  reviewNote?: string;
+  projectId: { _id: string; projectId: string; clientName: string } | null;
+};
+
 type LeaderboardEntry = {
   rank: number;
   workerCode: string;
@@ -115,6 +171,16 @@ type LeaderboardEntry = {
 
 type WorkerTab = "home" | "payout" | "attendance" | "leaderboard";
 const WORKER_TABS: WorkerTab[] = ["home", "payout", "attendance", "leaderboard"];
+
+function formatSiteDate(value: string) {
+  const date = new Date(value);
+  const today = new Date();
+  const tomorrow = new Date(today);
+  tomorrow.setDate(today.getDate() + 1);
+  if (date.toDateString() === today.toDateString()) return "Today";
+  if (date.toDateString() === tomorrow.toDateString()) return "Tomorrow";
+  return date.toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" });
+}
 type MonthlyMetrics = {
   netPayable: number;
   loyaltyValue: number;
@@ -122,6 +188,188 @@ type MonthlyMetrics = {
   advances: number;
 };
 
+function getCurrentPosition() {
+  return new Promise<GeolocationPosition>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location is not available on this phone"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, (error) => reject(new Error(error.message)), {
+      enableHighAccuracy: true,
+      timeout: 20000,
+    });
+  });
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString("en-IN", { hour: "numeric", minute: "2-digit" });
+
+// Check in and out of today's sites from the phone; the office approves the day afterwards
+function SiteCheckInCard({ sites }: { sites: SiteAssignment[] }) {
+  const [checkIns, setCheckIns] = useState<SiteCheckIn[]>([]);
+  const [checkInSite, setCheckInSite] = useState<SiteAssignment | null>(null);
+  const [selfie, setSelfie] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const todayKey = toDateKey(new Date());
+  const todaySites = sites.filter((site) => site.projectId && toDateKey(site.date) === todayKey);
+  const openCheckIn = checkIns.find((checkIn) => checkIn.status === "checked_in");
+
+  const loadCheckIns = async () => {
+    try {
+      const response = await fetch("/api/workers/check-ins");
+      const json = await response.json();
+      if (response.ok) setCheckIns(json.checkIns || []);
+    } catch {
+      setCheckIns([]);
+    }
+  };
+
+  useEffect(() => {
+    loadCheckIns();
+  }, []);
+
+  const findTodayCheckIn = (site: SiteAssignment) =>
+    checkIns.find(
+      (checkIn) => checkIn.projectId?._id === site.projectId?._id && toDateKey(checkIn.date) === todayKey
+    );
+
+  const handleCheckIn = async () => {
+    if (!checkInSite?.projectId) return;
+    try {
+      setIsSubmitting(true);
+      const position = await getCurrentPosition();
+      const formData = new FormData();
+      formData.append("projectId", checkInSite.projectId._id);
+      formData.append("latitude", String(position.coords.latitude));
+      formData.append("longitude", String(position.coords.longitude));
+      formData.append("accuracy", String(Math.round(position.coords.accuracy)));
+      if (selfie) formData.append("selfie", selfie);
+
+      const response = await fetch("/api/workers/check-ins", { method: "POST", body: formData });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to check in");
+
+      toast.success("Checked in");
+      setCheckInSite(null);
+      await loadCheckIns();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to check in");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCheckOut = async () => {
+    try {
+      setIsSubmitting(true);
+      const position = await getCurrentPosition();
+      const response = await fetch("/api/workers/check-ins/check-out", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: Math.round(position.coords.accuracy),
+        }),
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to check out");
+
+      toast.success("Checked out. The office will confirm your hajiri.");
+      await loadCheckIns();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to check out");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (todaySites.length === 0 && !openCheckIn) return null;
+
+  return (
+    <Card className="gap-3 overflow-hidden rounded-2xl border-slate-200 p-0 shadow-sm">
+      <div className="flex items-center gap-2 bg-black px-4 py-2.5 text-white">
+        <LogIn className="h-5 w-5" />
+        <h3 className="text-xl font-semibold tracking-tight">Site Check-in</h3>
+      </div>
+      <CardContent className="space-y-2 px-4 pb-4 pt-0">
+        {openCheckIn && !todaySites.some((site) => site.projectId?._id === openCheckIn.projectId?._id) && (
+          <div className="rounded-xl bg-amber-50 p-3">
+            <p className="text-sm font-semibold">{openCheckIn.projectId?.clientName || "Site"}</p>
+            <p className="text-xs text-slate-500">
+              Checked in {formatSiteDate(openCheckIn.date)} at {formatTime(openCheckIn.checkInAt)}
+            </p>
+            <Button size="sm" className="mt-2 w-full" onClick={handleCheckOut} disabled={isSubmitting}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />} Check Out
+            </Button>
+          </div>
+        )}
+        {todaySites.map((site) => {
+          const checkIn = findTodayCheckIn(site);
+          return (
+            <div key={site._id} className="rounded-xl bg-slate-50 p-3">
+              <p className="text-sm font-semibold">{site.projectId!.clientName}</p>
+              <p className="text-xs text-slate-500">{site.projectId!.clientAddress}</p>
+              {!checkIn ? (
+                <Button
+                  size="sm"
+                  className="mt-2 w-full"
+                  onClick={() => {
+                    setSelfie(null);
+                    setCheckInSite(site);
+                  }}
+                  disabled={isSubmitting || !!openCheckIn}
+                >
+                  <LogIn className="h-4 w-4" /> Check In
+                </Button>
+              ) : checkIn.status === "checked_in" ? (
+                <>
+                  <p className="mt-1 text-xs text-emerald-700">On site since {formatTime(checkIn.checkInAt)}</p>
+                  <Button size="sm" className="mt-2 w-full" onClick={handleCheckOut} disabled={isSubmitting}>
+                    {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}{" "}
+                    Check Out
+                  </Button>
+                </>
+              ) : (
+                <p className="mt-1 text-xs text-slate-600">
+                  {formatTime(checkIn.checkInAt)}
+                  {checkIn.checkOutAt ? ` – ${formatTime(checkIn.checkOutAt)}` : ""} · {CHECK_IN_STATUS_LABELS[checkIn.status]}
+                  {checkIn.status === "approved" && checkIn.units ? ` (${checkIn.units} hajiri)` : ""}
+                  {checkIn.status === "rejected" && checkIn.reviewNote ? `: ${checkIn.reviewNote}` : ""}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={!!checkInSite} onOpenChange={(open) => !open && setCheckInSite(null)}>
+        <DialogContent className="rounded-2xl sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Check in at {checkInSite?.projectId?.clientName}</DialogTitle>
+            <DialogDescription>Your location is checked against the site. A selfie is optional.</DialogDescription>
+          </DialogHeader>
+          <label className="flex cursor-pointer items-center justify-center gap-2 rounded-xl border border-dashed border-slate-300 p-3 text-sm text-slate-600">
+            <Camera className="h-4 w-4" />
+            {selfie ? selfie.name : "Add selfie"}
+            <input
+              type="file"
+              accept="image/*"
+              capture="user"
+              className="hidden"
+              onChange={(event) => setSelfie(event.target.files?.[0] || null)}
+            />
+          </label>
+          <Button onClick={handleCheckIn} disabled={isSubmitting} className="w-full">
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <MapPin className="h-4 w-4" />} Check In Here
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
 function WorkerSkeletonBox({
   className,
 }: {
@@ -218,9 +466,12 @@ function WorkerDashboardContent() {
 
   const [data, setData] = useState<SummaryResponse | null>(null);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [wagePayouts, setWagePayouts] = useState<WagePayout[]>([]);
+  const [upcomingSites, setUpcomingSites] = useState<SiteAssignment[]>([]);
   const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
   const [loading, setLoading] = useState(true);
   const [isMonthLoading, setIsMonthLoading] = useState(false);
+  const [isDownloadingPayslip, setIsDownloadingPayslip] = useState(false);
   const [previousMonthMetrics, setPreviousMonthMetrics] = useState<MonthlyMetrics | null>(null);
   const [activeTab, setActiveTab] = useState<WorkerTab>("home");
   const [isBottomNavVisible, setIsBottomNavVisible] = useState(true);
@@ -398,6 +649,14 @@ function WorkerDashboardContent() {
         setPreviousMonthMetrics(null);
       }
 
+      const wagePayoutsResponse = await fetch("/api/workers/payroll/payouts");
+      if (wagePayoutsResponse.ok) {
+        const wagePayoutsJson = await wagePayoutsResponse.json();
+        setWagePayouts(
+          (wagePayoutsJson.payouts || []).filter((payout: WagePayout) => payout.status === "paid")
+        );
+      }
+
       await fetchLeaderboard();
     } catch (error) {
       toast.error(error instanceof Error ? error.message : "Failed to load worker dashboard");
@@ -410,6 +669,20 @@ function WorkerDashboardContent() {
     }
   };
 
+  const downloadPayslip = async () => {
+    try {
+      setIsDownloadingPayslip(true);
+      const response = await fetch(`/api/workers/payroll/payslips?month=${month}`);
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error || "Failed to download payslip");
+      generatePayslipPDF(json.payslips[0], json.company);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download payslip");
+    } finally {
+      setIsDownloadingPayslip(false);
+    }
+  };
+
   useEffect(() => {
     const isInitialLoad = !hasLoadedOnceRef.current;
     load(isInitialLoad);
@@ -417,6 +690,14 @@ function WorkerDashboardContent() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [month]);
 
+  useEffect(() => {
+    // Defaults to the worker's own assignments for the next two weeks
+    fetch("/api/workers/schedule")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((json) => setUpcomingSites(json?.assignments || []))
+      .catch(() => setUpcomingSites([]));
+  }, []);
+
   useEffect(() => {
     const tabParam = searchParams?.get("tab");
     if (tabParam && WORKER_TABS.includes(tabParam as WorkerTab)) {
@@ -767,6 +1048,49 @@ function WorkerDashboardContent() {
 
         {!isMonthLoading && activeTab === "home" ? (
           <div className="space-y-4">
+            <SiteCheckInCard sites={upcomingSites} />
+
+            <Card className="gap-3 overflow-hidden rounded-2xl border-slate-200 p-0 shadow-sm">
+              <div className="flex items-center gap-2 bg-black px-4 py-2.5 text-white">
+                <MapPin className="h-5 w-5" />
+                <h3 className="text-xl font-semibold tracking-tight">Upcoming Sites</h3>
+              </div>
+              <CardContent className="px-4 pb-4 pt-0">
+                {upcomingSites.length === 0 ? (
+                  <p className="px-1 text-sm text-slate-500">No site planned for you in the next two weeks.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {upcomingSites.slice(0, 7).map((site) => (
+                      <div key={site._id} className="rounded-xl bg-slate-50 p-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-semibold">{formatSiteDate(site.date)}</p>
+                          {site.projectId && (
+                            <a
+                              href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(site.projectId.clientAddress)}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs font-medium text-blue-600"
+                            >
+                              Open Map
+                            </a>
+                          )}
+                        </div>
+                        {site.projectId && (
+                          <>
+                            <p className="text-sm text-slate-700">
+                              {site.projectId.clientName} · #{site.projectId.projectId}
+                            </p>
+                            <p className="text-xs text-slate-500">{site.projectId.clientAddress}</p>
+                          </>
+                        )}
+                        {site.note && <p className="mt-1 text-xs text-slate-500">Note: {site.note}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card className="gap-3 overflow-hidden rounded-2xl border-slate-200 p-0 shadow-sm">
               <div className="flex items-center gap-2 bg-black px-4 py-2.5 text-white">
                 <BarChart3 className="h-5 w-5" />
@@ -937,6 +1261,15 @@ function WorkerDashboardContent() {
               <div className="flex items-center gap-2 bg-black px-4 py-2.5 text-white">
                 <Wallet className="h-5 w-5" />
                 <h3 className="text-xl font-semibold tracking-tight">Payout Overview</h3>
+                <button
+                  type="button"
+                  onClick={downloadPayslip}
+                  disabled={isDownloadingPayslip}
+                  className="ml-auto inline-flex items-center gap-1 rounded-full bg-white/10 px-2.5 py-1 text-xs font-medium transition-colors hover:bg-white/20 disabled:opacity-60"
+                >
+                  {isDownloadingPayslip ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FileText className="h-3.5 w-3.5" />}
+                  Payslip
+                </button>
               </div>
               <CardContent className="px-4 pb-4 pt-0">
                 <div className="grid grid-cols-2 gap-3 px-1">
@@ -945,6 +1278,11 @@ function WorkerDashboardContent() {
                     <p className="text-lg font-semibold">
                       Rs. {data.worker.dailyWage} × <button type="button" onClick={() => setTabWithUrl("attendance")} className="text-indigo-600 underline underline-offset-2">{data.summary.totalUnits} hajiri</button>
                     </p>
+                    {data.summary.rateBreakdown.length > 1 && (
+                      <p className="text-xs text-slate-500">
+                        {data.summary.rateBreakdown.map((rate) => `Rs. ${rate.dailyWage} × ${rate.units}`).join(" + ")}
+                      </p>
+                    )}
                   </div>
                   <div className="rounded-xl bg-slate-50 p-3">
                     <p className="text-[11px] text-slate-500">Gross Wage</p>
@@ -959,6 +1297,80 @@ function WorkerDashboardContent() {
                   <p className="text-[11px] text-slate-500">Net Payable</p>
                   <p className="text-xl font-semibold">Rs. {Math.round(data.summary.netPayable)}</p>
                 </div>
+                {data.settlement.openingBalance !== 0 ? (
+                  <div className="mx-1 mt-3 flex items-center justify-between rounded-xl bg-slate-50 p-3">
+                    <p className="text-[11px] text-slate-500">
+                      {data.settlement.openingBalance < 0 ? "Advance carried from last month" : "Balance carried from last month"}
+                    </p>
+                    <p className={`text-sm font-semibold ${data.settlement.openingBalance < 0 ? "text-rose-700" : "text-slate-800"}`}>
+                      Rs. {Math.round(data.settlement.openingBalance)}
+                    </p>
+                  </div>
+                ) : null}
+                <div className="mx-1 mt-3 flex items-center justify-between rounded-xl bg-slate-50 p-3">
+                  <div>
+                    <p className="text-[11px] text-slate-500">Total Payable</p>
+                    <p className="text-lg font-semibold">Rs. {Math.round(data.settlement.totalPayable)}</p>
+                  </div>
+                  <span
+                    className={`rounded-full px-2.5 py-1 text-[10px] font-semibold uppercase tracking-wide ${
+                      data.settlement.status === "paid"
+                        ? "bg-green-100 text-green-700"
+                        : "bg-yellow-100 text-yellow-700"
+                    }`}
+                  >
+                    {data.settlement.status === "paid" ? "Paid" : "Pending"}
+                  </span>
+                </div>
+                {data.settlement.status === "paid" ? (
+                  <p className="mx-1 mt-2 text-[11px] text-slate-500">
+                    Paid Rs. {Math.round(data.settlement.amountPaid)}
+                    {data.settlement.paymentMethod
+                      ? ` via ${WAGE_PAYMENT_METHOD_LABELS[data.settlement.paymentMethod] || data.settlement.paymentMethod}`
+                      : ""}
+                    {data.settlement.closingBalance !== 0
+                      ? ` · Rs. ${Math.round(data.settlement.closingBalance)} carried to next month`
+                      : ""}
+                  </p>
+                ) : null}
+              </CardContent>
+            </Card>
+
+            <Card className="gap-3 overflow-hidden rounded-2xl border-slate-200 p-0 shadow-sm">
+              <div className="flex items-center gap-2 bg-black px-4 py-2.5 text-white">
+                <CircleDollarSign className="h-5 w-5" />
+                <h3 className="text-xl font-semibold tracking-tight">Wage Payments</h3>
+              </div>
+              <CardContent className="px-4 pb-4 pt-0">
+                {wagePayouts.length === 0 ? (
+                  <p className="py-4 text-center text-sm text-slate-500">No wage payments recorded yet.</p>
+                ) : (
+                  <div className="divide-y divide-slate-100">
+                    {wagePayouts.map((payout) => (
+                      <div key={payout._id} className="flex items-center justify-between px-1 py-3">
+                        <div>
+                          <p className="text-sm font-semibold text-slate-800">
+                            {new Date(payout.year, payout.month - 1, 1).toLocaleDateString("en-IN", { month: "long", year: "numeric" })}
+                          </p>
+                          <p className="text-[11px] text-slate-400">
+                            {payout.paymentMethod ? WAGE_PAYMENT_METHOD_LABELS[payout.paymentMethod] || payout.paymentMethod : ""}
+                            {payout.paidAt
+                              ? ` · ${new Date(payout.paidAt).toLocaleDateString("en-IN", { day: "numeric", month: "short" })}`
+                              : ""}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-bold text-slate-800">Rs. {Math.round(payout.amountPaid)}</p>
+                          {payout.closingBalance !== 0 ? (
+                            <p className={`text-[11px] ${payout.closingBalance < 0 ? "text-rose-600" : "text-slate-500"}`}>
+                              Carried: Rs. {Math.round(payout.closingBalance)}
+                            </p>
+                          ) : null}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -0,0 +1,279 @@
+"use client"
+
+import { Plus, Ruler, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent } from "@/components/ui/card"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  MEASURED_SURFACES,
+  MEASURED_SURFACE_LABELS,
+  computeRoomAreas,
+  computeSheetTotals,
+  createMeasurementRoom,
+  type ItemMeasurementRef,
+  type MeasuredSurface,
+  type MeasurementDeduction,
+  type MeasurementRoom,
+} from "@/lib/measurements"
+
+const numberInputClass =
+  "[appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+
+const toDimension = (value: string) => (value ? Math.max(0, Number(value)) || 0 : 0)
+
+interface MeasurementSheetEditorProps {
+  rooms: MeasurementRoom[]
+  onChange: (rooms: MeasurementRoom[]) => void
+}
+
+export function MeasurementSheetEditor({ rooms, onChange }: MeasurementSheetEditorProps) {
+  const totals = computeSheetTotals(rooms)
+
+  const updateRoom = (index: number, patch: Partial<MeasurementRoom>) => {
+    onChange(rooms.map((room, i) => (i === index ? { ...room, ...patch } : room)))
+  }
+
+  const updateDeduction = (roomIndex: number, deductionIndex: number, patch: Partial<MeasurementDeduction>) => {
+    const deductions = rooms[roomIndex].deductions.map((deduction, i) =>
+      i === deductionIndex ? { ...deduction, ...patch } : deduction,
+    )
+    updateRoom(roomIndex, { deductions })
+  }
+
+  return (
+    <Card className="overflow-hidden border-0 bg-card shadow-sm">
+      <div className="flex items-center justify-between border-b bg-muted/30 px-4 py-3 sm:px-6 sm:py-4">
+        <h3 className="flex items-center gap-2 font-semibold">
+          <div className="flex h-7 w-7 sm:h-8 sm:w-8 items-center justify-center rounded-lg bg-primary/10">
+            <Ruler className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-primary" />
+          </div>
+          Measurement Sheet
+        </h3>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => onChange([...rooms, createMeasurementRoom(`Room ${rooms.length + 1}`)])}
+          className="gap-1.5 rounded-full h-8 px-3 text-xs"
+        >
+          <Plus className="h-3 w-3" />
+          Add Room
+        </Button>
+      </div>
+      <CardContent className="p-0">
+        {rooms.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground sm:px-6">
+            Add rooms with their dimensions (in feet) to calculate wall and ceiling areas for the items below.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {rooms.map((room, roomIndex) => {
+              const areas = computeRoomAreas(room)
+              return (
+                <div key={room.id} className="space-y-3 p-4 sm:p-6">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={room.name}
+                      onChange={(e) => updateRoom(roomIndex, { name: e.target.value })}
+                      placeholder="Room name"
+                      className="h-9 rounded-lg font-medium"
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-9 w-9 shrink-0 text-destructive/70 hover:bg-destructive/10 hover:text-destructive"
+                      onClick={() => onChange(rooms.filter((_, i) => i !== roomIndex))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2">
+                    {(["length", "width", "height"] as const).map((dimension) => (
+                      <div key={dimension}>
+                        <Label className="text-[10px] uppercase text-muted-foreground mb-1 block">{dimension} (ft)</Label>
+                        <Input
+                          type="number"
+                          min="0"
+                          value={room[dimension] || ""}
+                          onChange={(e) => updateRoom(roomIndex, { [dimension]: toDimension(e.target.value) })}
+                          className={`h-9 rounded-lg bg-muted/30 text-right font-mono text-sm ${numberInputClass}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    {room.deductions.map((deduction, deductionIndex) => (
+                      <div key={deductionIndex} className="grid grid-cols-12 items-center gap-2">
+                        <Input
+                          value={deduction.label}
+                          onChange={(e) => updateDeduction(roomIndex, deductionIndex, { label: e.target.value })}
+                          placeholder="Door / window"
+                          className="col-span-4 h-8 rounded-lg text-xs"
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          value={deduction.width || ""}
+                          onChange={(e) =>
+                            updateDeduction(roomIndex, deductionIndex, { width: toDimension(e.target.value) })
+                          }
+                          placeholder="W"
+                          className={`col-span-2 h-8 rounded-lg text-right font-mono text-xs ${numberInputClass}`}
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          value={deduction.height || ""}
+                          onChange={(e) =>
+                            updateDeduction(roomIndex, deductionIndex, { height: toDimension(e.target.value) })
+                          }
+                          placeholder="H"
+                          className={`col-span-2 h-8 rounded-lg text-right font-mono text-xs ${numberInputClass}`}
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          value={deduction.count || ""}
+                          onChange={(e) =>
+                            updateDeduction(roomIndex, deductionIndex, {
+                              count: Math.floor(toDimension(e.target.value)),
+                            })
+                          }
+                          placeholder="Qty"
+                          className={`col-span-2 h-8 rounded-lg text-right font-mono text-xs ${numberInputClass}`}
+                        />
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          className="col-span-2 h-8 w-8 justify-self-end text-muted-foreground hover:text-destructive"
+                          onClick={() =>
+                            updateRoom(roomIndex, {
+                              deductions: room.deductions.filter((_, i) => i !== deductionIndex),
+                            })
+                          }
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1 px-2 text-xs"
+                      onClick={() =>
+                        updateRoom(roomIndex, {
+                          deductions: [...room.deductions, { label: "", width: 0, height: 0, count: 1 }],
+                        })
+                      }
+                    >
+                      <Plus className="h-3 w-3" />
+                      Deduction
+                    </Button>
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    <span>
+                      Walls <span className="font-mono text-foreground">{areas.netWallArea}</span> sq.ft
+                      {areas.deductionArea > 0 && <> (after −{areas.deductionArea})</>}
+                    </span>
+                    <span>
+                      Ceiling <span className="font-mono text-foreground">{areas.ceilingArea}</span> sq.ft
+                    </span>
+                  </div>
+                </div>
+              )
+            })}
+
+            <div className="flex flex-wrap justify-end gap-x-6 gap-y-1 bg-muted/20 px-4 py-3 text-sm sm:px-6">
+              <span className="text-muted-foreground">
+                Walls <span className="font-mono font-medium text-foreground">{totals.netWallArea}</span> sq.ft
+              </span>
+              <span className="text-muted-foreground">
+                Ceiling <span className="font-mono font-medium text-foreground">{totals.ceilingArea}</span> sq.ft
+              </span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+interface ItemMeasurementLinkProps {
+  rooms: MeasurementRoom[]
+  value?: ItemMeasurementRef | null
+  onChange: (value: ItemMeasurementRef | null) => void
+}
+
+/** Lets a line item take its area from the sheet instead of a typed value. */
+export function ItemMeasurementLink({ rooms, value, onChange }: ItemMeasurementLinkProps) {
+  const selectedRooms = value?.roomIds.filter((id) => rooms.some((room) => room.id === id)) || []
+  const label = value
+    ? `${MEASURED_SURFACE_LABELS[value.surface]} · ${selectedRooms.length > 0 ? `${selectedRooms.length} room${selectedRooms.length > 1 ? "s" : ""}` : "all rooms"}`
+    : "Manual area"
+
+  const toggleRoom = (roomId: string, checked: boolean) => {
+    if (!value) return
+    const roomIds = checked ? [...selectedRooms, roomId] : selectedRooms.filter((id) => id !== roomId)
+    onChange({ ...value, roomIds })
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" className="h-7 gap-1.5 px-2 text-xs text-muted-foreground">
+          <Ruler className="h-3 w-3" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel className="text-xs">Area from sheet</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={value?.surface || "manual"}
+          onValueChange={(surface) =>
+            onChange(surface === "manual" ? null : { surface: surface as MeasuredSurface, roomIds: selectedRooms })
+          }
+        >
+          <DropdownMenuRadioItem value="manual">Manual</DropdownMenuRadioItem>
+          {MEASURED_SURFACES.map((surface) => (
+            <DropdownMenuRadioItem key={surface} value={surface}>
+              {MEASURED_SURFACE_LABELS[surface]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {value && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs">Rooms (none ticked = all)</DropdownMenuLabel>
+            {rooms.map((room) => (
+              <DropdownMenuCheckboxItem
+                key={room.id}
+                checked={selectedRooms.includes(room.id)}
+                onCheckedChange={(checked) => toggleRoom(room.id, checked === true)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {room.name || "Unnamed room"}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -34,9 +34,19 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import Image from "next/image"
 import { apiFetch, getGeneralInfo } from "@/app/lib/api"
-import type { Quotation, ApiError, GeneralInfo } from "@/app/types"
+import type { Quotation, ApiError, GeneralInfo, CatalogItem, QuotationTemplate, Client, ClientSite } from "@/app/types"
+import { formatClientPhone } from "@/lib/clients"
 import { quotationFormSchema } from "@/lib/validators"
 import { zodResolver } from "@hookform/resolvers/zod"
+import { computeTaxBreakdown, type TaxInput } from "@/lib/gst"
+import { GstSettingsFields } from "@/components/tax/GstSettingsFields"
+import { TaxSummaryRows } from "@/components/tax/TaxSummaryRows"
+import { CatalogItemPicker } from "@/components/catalog/CatalogItemPicker"
+import { toLineItem } from "@/lib/catalog"
+import { computeMeasuredArea, type ItemMeasurementRef, type MeasurementRoom } from "@/lib/measurements"
+import { ItemMeasurementLink, MeasurementSheetEditor } from "@/components/Quotation/MeasurementSheet"
+import { SaveAsTemplateButton, StartFromTemplateButton } from "@/components/Quotation/QuotationTemplates"
+import { ClientPicker } from "@/components/clients/ClientPicker"
 
 // Country codes for phone numbers
 const COUNTRY_CODES = [
@@ -104,6 +114,7 @@ interface QuotationFormProps {
 }
 
 interface FormData {
+  clientId?: string
   clientName: string
   clientAddress: string
   clientNumber: string
@@ -115,9 +126,14 @@ interface FormData {
     rate: number
     total?: number | null
     note?: string
+    hsnSac?: string
+    measurement?: ItemMeasurementRef | null
   }[]
+  measurements: MeasurementRoom[]
   discount: number
+  tax: TaxInput
   note?: string
+  validityDays?: number
   terms: string[]
   subtotal: number
   grandTotal: number
@@ -133,6 +149,8 @@ interface FormData {
 const DRAFT_STORAGE_KEY = "quotation_form_draft"
 
 // Default terms (fallback)
+const DEFAULT_TAX: TaxInput = { enabled: false, rateType: "exclusive" }
+
 const DEFAULT_TERMS = [
   "50% advance payment required to start work, 30% due at 70% project completion, and 20% within 7 days of completion.",
   "The advance payment is non-refundable under any circumstances.",
@@ -149,6 +167,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
   const [failedImages, setFailedImages] = useState<number[]>([])
   const [savingDraft, setSavingDraft] = useState(false)
   const [draftSaved, setDraftSaved] = useState(false)
+  const [generalInfo, setGeneralInfo] = useState<GeneralInfo | null>(null)
 
   const {
     control,
@@ -163,6 +182,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     resolver: zodResolver(quotationFormSchema) as any,
     defaultValues: {
+      clientId: undefined,
       clientName: "",
       clientAddress: "",
       clientNumber: "",
@@ -177,7 +197,9 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
           note: "",
         },
       ],
+      measurements: [],
       discount: 0,
+      tax: DEFAULT_TAX,
       note: "",
       terms: [],
       subtotal: 0,
@@ -191,6 +213,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
     fields: itemFields,
     append: appendItem,
     remove: removeItem,
+    replace: replaceItems,
   } = useFieldArray({
     control,
     name: "items",
@@ -208,6 +231,8 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
   // Watch form fields for real-time updates
   const items = watch("items")
   const discount = watch("discount")
+  const tax = watch("tax")
+  const measurements = watch("measurements")
   const siteImages = watch("siteImages")
   const formValues = watch()
 
@@ -231,7 +256,11 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
       return sum
     }, 0)
 
-    const grandTotal = Math.max(0, subtotal - currentDiscount)
+    const { grandTotal } = computeTaxBreakdown({
+      subtotal,
+      discount: currentDiscount,
+      tax: getValues("tax"),
+    })
 
     setValue("subtotal", subtotal, { shouldValidate: true })
     setValue("grandTotal", grandTotal, { shouldValidate: true })
@@ -260,6 +289,68 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
     [getValues, setValue, calculateTotals],
   )
 
+  // Fill the first blank line from the rate card, or add a new one
+  const addCatalogItem = (catalogItem: CatalogItem) => {
+    const line = toLineItem(catalogItem)
+    const blankIndex = getValues("items").findIndex((item) => !item.description && !item.rate)
+    if (blankIndex >= 0) {
+      setValue(`items.${blankIndex}`, line, { shouldValidate: true, shouldDirty: true })
+    } else {
+      appendItem(line)
+    }
+    setTimeout(() => calculateTotals(), 0)
+  }
+
+  const applyTemplate = (template: QuotationTemplate) => {
+    replaceItems(
+      template.items.map((item) => ({
+        description: item.description,
+        area: item.area ?? undefined,
+        rate: item.rate,
+        total: undefined,
+        note: item.note ?? "",
+        hsnSac: item.hsnSac ?? "",
+      })),
+    )
+    if (template.terms.length > 0) setValue("terms", template.terms, { shouldDirty: true })
+    setValue("note", template.note ?? "", { shouldDirty: true })
+    setValue("validityDays", template.validityDays, { shouldDirty: true })
+    setTimeout(() => calculateTotals(), 0)
+    toast.success(`Applied template "${template.name}"`)
+  }
+
+  const applyClient = (client: Client, site?: ClientSite) => {
+    const fullNumber = formatClientPhone(client.phone)
+    const matchedCode = [...COUNTRY_CODES]
+      .sort((a, b) => b.code.length - a.code.length)
+      .find((c) => fullNumber.startsWith(c.code))
+    const countryCode = client.phone.length === 10 ? "+91" : matchedCode?.code || "+91"
+
+    setValue("clientId", client._id, { shouldDirty: true })
+    setValue("clientName", client.name, { shouldValidate: true, shouldDirty: true })
+    setValue("countryCode", countryCode, { shouldDirty: true })
+    setValue("clientNumber", fullNumber.slice(countryCode.length), { shouldValidate: true, shouldDirty: true })
+    if (site) setValue("clientAddress", site.address, { shouldValidate: true, shouldDirty: true })
+  }
+
+  // Items linked to the measurement sheet follow its areas. Links to rooms that were
+  // removed are dropped; an item whose rooms are all gone keeps its last area as manual.
+  useEffect(() => {
+    const rooms = measurements || []
+    items.forEach((item, index) => {
+      if (!item.measurement) return
+      const roomIds = item.measurement.roomIds.filter((id) => rooms.some((room) => room.id === id))
+      if (roomIds.length !== item.measurement.roomIds.length) {
+        setValue(`items.${index}.measurement`, roomIds.length > 0 ? { ...item.measurement, roomIds } : null)
+        return
+      }
+      const area = computeMeasuredArea(rooms, item.measurement)
+      if (item.area !== area) {
+        setValue(`items.${index}.area`, area, { shouldValidate: true, shouldDirty: true })
+      }
+    })
+  }, [items, measurements, setValue])
+
   // Calculate totals effect
   useEffect(() => {
     items.forEach((item, index) => {
@@ -271,7 +362,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
       }
     })
     calculateTotals()
-  }, [items, discount, setValue, calculateTotals])
+  }, [items, discount, tax, setValue, calculateTotals])
 
   // Save Draft
   const saveDraft = useCallback(() => {
@@ -320,14 +411,18 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
       const draft = JSON.parse(draftJson) as Partial<FormData>
 
       reset({
+        clientId: draft.clientId,
         clientName: draft.clientName || "",
         clientAddress: draft.clientAddress || "",
         clientNumber: draft.clientNumber || "",
         countryCode: draft.countryCode || "+91",
         date: draft.date || new Date().toISOString().split("T")[0],
         items: draft.items || [{ description: "", area: undefined, rate: 0, total: undefined, note: "" }],
+        measurements: draft.measurements || [],
         discount: draft.discount || 0,
+        tax: draft.tax || DEFAULT_TAX,
         note: draft.note || "",
+        validityDays: draft.validityDays,
         terms: draft.terms || DEFAULT_TERMS,
         subtotal: draft.subtotal || 0,
         grandTotal: draft.grandTotal || 0,
@@ -373,6 +468,9 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
   useEffect(() => {
     const initializeForm = async () => {
       try {
+        const generalInfoData = (await getGeneralInfo().catch(() => null)) as GeneralInfo | null
+        setGeneralInfo(generalInfoData)
+
         if (isEditMode && effectiveQuotationNumber) {
           const data = await apiFetch<Quotation>(`/quotations/${effectiveQuotationNumber}`)
 
@@ -414,6 +512,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
           }
 
           reset({
+            clientId: data.clientId,
             clientName: data.clientName,
             clientAddress: data.clientAddress,
             clientNumber: number,
@@ -425,9 +524,22 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
               rate: item.rate,
               total: item.total ?? undefined,
               note: item.note ?? "",
+              hsnSac: item.hsnSac ?? "",
+              measurement: item.measurement ?? null,
             })),
+            measurements: data.measurements ?? [],
             discount: data.discount ?? 0,
+            tax: data.tax
+              ? {
+                enabled: data.tax.enabled,
+                gstPercent: data.tax.gstPercent,
+                rateType: data.tax.rateType,
+                placeOfSupply: data.tax.placeOfSupply ?? "",
+                clientGstNumber: data.tax.clientGstNumber ?? "",
+              }
+              : DEFAULT_TAX,
             note: data.note ?? "",
+            validityDays: data.validityDays,
             terms: data.terms ?? DEFAULT_TERMS,
             subtotal: data.subtotal ?? 0,
             grandTotal: data.grandTotal ?? 0,
@@ -439,12 +551,10 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
               })) ?? [],
           })
         } else {
-          const generalInfoData = await getGeneralInfo()
-          const generalInfo = generalInfoData as GeneralInfo
           setValue(
             "terms",
-            generalInfo.termsAndConditions && generalInfo.termsAndConditions.length > 0
-              ? generalInfo.termsAndConditions
+            generalInfoData?.termsAndConditions && generalInfoData.termsAndConditions.length > 0
+              ? generalInfoData.termsAndConditions
               : DEFAULT_TERMS,
           )
         }
@@ -472,6 +582,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
 
       const formData = new FormData()
 
+      if (data.clientId) formData.append("clientId", data.clientId)
       formData.append("clientName", data.clientName)
       formData.append("clientAddress", data.clientAddress)
       // Send both legacy string and new object structure
@@ -481,8 +592,11 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
       formData.append("clientMobile[number]", data.clientNumber)
       formData.append("date", data.date instanceof Date ? data.date.toISOString() : data.date)
       formData.append("items", JSON.stringify(data.items))
+      formData.append("measurements", JSON.stringify(data.measurements || []))
       formData.append("discount", data.discount.toString())
+      formData.append("tax", JSON.stringify(data.tax))
       formData.append("note", data.note || "")
+      if (data.validityDays) formData.append("validityDays", String(data.validityDays))
 
       data.terms?.forEach((term, index) => {
         if (term.trim()) formData.append(`terms[${index}]`, term)
@@ -593,26 +707,30 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
               </div>
             </div>
 
-            {!isEditMode && (
-              <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={saveDraft}
-                  disabled={savingDraft || draftSaved}
-                  className="gap-2 rounded-full px-4 bg-transparent"
-                >
-                  {savingDraft ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : draftSaved ? (
-                    <CheckCircle className="h-4 w-4 text-green-500" />
-                  ) : (
-                    <Save className="h-4 w-4" />
-                  )}
-                  {savingDraft ? "Saving..." : draftSaved ? "Saved!" : "Save Draft"}
-                </Button>
-              </motion.div>
-            )}
+            <div className="flex flex-wrap items-center gap-2">
+              {!isEditMode && <StartFromTemplateButton onApply={applyTemplate} />}
+              <SaveAsTemplateButton getContent={() => getValues()} />
+              {!isEditMode && (
+                <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={saveDraft}
+                    disabled={savingDraft || draftSaved}
+                    className="gap-2 rounded-full px-4 bg-transparent"
+                  >
+                    {savingDraft ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : draftSaved ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <Save className="h-4 w-4" />
+                    )}
+                    {savingDraft ? "Saving..." : draftSaved ? "Saved!" : "Save Draft"}
+                  </Button>
+                </motion.div>
+              )}
+            </div>
           </div>
         </motion.header>
 
@@ -685,13 +803,14 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                 className="space-y-6"
               >
                 <Card className="overflow-hidden border-0 bg-card shadow-sm">
-                  <div className="border-b bg-muted/30 px-4 py-3 sm:px-6 sm:py-4">
+                  <div className="flex items-center justify-between border-b bg-muted/30 px-4 py-3 sm:px-6 sm:py-4">
                     <h3 className="flex items-center gap-2 font-semibold">
                       <div className="flex h-7 w-7 sm:h-8 sm:w-8 items-center justify-center rounded-lg bg-primary/10">
                         <User className="h-3.5 w-3.5 sm:h-4 sm:w-4 text-primary" />
                       </div>
                       Client Information
                     </h3>
+                    <ClientPicker onSelect={applyClient} className="gap-1.5 rounded-full h-8 px-3 text-xs" />
                   </div>
                   <CardContent className="space-y-4 p-4 sm:space-y-5 sm:p-6">
                     <div className="grid gap-4 sm:grid-cols-2 sm:gap-5">
@@ -748,6 +867,11 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                             render={({ field }) => (
                               <Input
                                 {...field}
+                                onChange={(e) => {
+                                  field.onChange(e)
+                                  // A different number is a different client; the server matches or creates one
+                                  setValue("clientId", undefined)
+                                }}
                                 placeholder="Phone number"
                                 className={`h-10 sm:h-11 flex-1 rounded-xl bg-muted/30 transition-all focus:bg-background ${errors.clientNumber ? "border-destructive focus-visible:ring-destructive" : ""
                                   }`}
@@ -831,6 +955,26 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                           )}
                         />
                       </div>
+                      <div className="space-y-1.5 sm:space-y-2">
+                        <Label className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                          Valid For (days)
+                        </Label>
+                        <Controller
+                          control={control}
+                          name="validityDays"
+                          render={({ field }) => (
+                            <Input
+                              type="number"
+                              min="1"
+                              placeholder="e.g. 30"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value ? Math.floor(Number(e.target.value)) : undefined)}
+                              className={`h-10 sm:h-11 rounded-xl bg-muted/30 ${numberInputClass}`}
+                            />
+                          )}
+                        />
+                        {errors.validityDays && <p className="text-xs text-destructive">{errors.validityDays.message}</p>}
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -1004,7 +1148,18 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
 
             {/* Items Tab */}
             <TabsContent value="items" className="mt-0">
-              <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.2 }}
+                className="space-y-6"
+              >
+                <Controller
+                  control={control}
+                  name="measurements"
+                  render={({ field }) => <MeasurementSheetEditor rooms={field.value || []} onChange={field.onChange} />}
+                />
+
                 <Card className="overflow-hidden border-0 bg-card shadow-sm">
                   <div className="border-b bg-muted/30 px-4 py-3 sm:px-6 sm:py-4">
                     <h3 className="flex items-center gap-2 font-semibold">
@@ -1086,6 +1241,32 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                                   />
                                 )}
                               />
+                              {tax?.enabled && (
+                                <Controller
+                                  control={control}
+                                  name={`items.${index}.hsnSac`}
+                                  render={({ field }) => (
+                                    <Input
+                                      {...field}
+                                      value={field.value ?? ""}
+                                      placeholder="HSN/SAC code"
+                                      className="h-8 w-40 rounded-lg border-transparent bg-transparent font-mono text-xs text-muted-foreground transition-all hover:border-input hover:bg-muted/30 focus:border-input focus:bg-background"
+                                    />
+                                  )}
+                                />
+                              )}
+                              {(measurements?.length ?? 0) > 0 && (
+                                <Controller
+                                  control={control}
+                                  name={`items.${index}.measurement`}
+                                  render={({ field }) => (
+                                    <ItemMeasurementLink rooms={measurements} value={field.value} onChange={field.onChange} />
+                                  )}
+                                />
+                              )}
+                              {errors.items?.[index]?.hsnSac && (
+                                <p className="text-xs text-destructive">{errors.items[index]?.hsnSac?.message}</p>
+                              )}
                               {errors.items?.[index]?.description && (
                                 <p className="text-xs text-destructive">{errors.items[index]?.description?.message}</p>
                               )}
@@ -1101,6 +1282,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                                     min="0"
                                     placeholder="—"
                                     value={field.value ?? ""}
+                                    readOnly={!!items[index]?.measurement}
                                     onChange={(e) => {
                                       const val = e.target.value ? Math.max(0, Number(e.target.value)) : undefined
                                       field.onChange(val)
@@ -1211,7 +1393,30 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                                 />
                               )}
                             />
+                            {tax?.enabled && (
+                              <Controller
+                                control={control}
+                                name={`items.${index}.hsnSac`}
+                                render={({ field }) => (
+                                  <Input
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    placeholder="HSN/SAC code"
+                                    className="h-9 rounded-xl bg-muted/30 font-mono text-sm mb-3"
+                                  />
+                                )}
+                              />
+                            )}
 
+                            {(measurements?.length ?? 0) > 0 && (
+                              <Controller
+                                control={control}
+                                name={`items.${index}.measurement`}
+                                render={({ field }) => (
+                                  <ItemMeasurementLink rooms={measurements} value={field.value} onChange={field.onChange} />
+                                )}
+                              />
+                            )}
                             <div className="grid grid-cols-3 gap-2">
                               <div>
                                 <Label className="text-[10px] uppercase text-muted-foreground mb-1 block">Area</Label>
@@ -1224,6 +1429,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                                       min="0"
                                       placeholder="—"
                                       value={field.value ?? ""}
+                                      readOnly={!!items[index]?.measurement}
                                       onChange={(e) => {
                                         const val = e.target.value ? Math.max(0, Number(e.target.value)) : undefined
                                         field.onChange(val)
@@ -1306,7 +1512,7 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                     )}
                   </div>
 
-                  <div className="border-t border-dashed px-4 py-4 sm:px-6">
+                  <div className="flex flex-col gap-2 border-t border-dashed px-4 py-4 sm:flex-row sm:px-6">
                     <Button
                       type="button"
                       variant="outline"
@@ -1314,11 +1520,12 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                         appendItem({ description: "", rate: 0, note: "" })
                         setTimeout(() => calculateTotals(), 0)
                       }}
-                      className="w-full gap-2 rounded-xl border-dashed h-11"
+                      className="flex-1 gap-2 rounded-xl border-dashed h-11"
                     >
                       <Plus className="h-4 w-4" />
                       Add Item
                     </Button>
+                    <CatalogItemPicker onSelect={addCatalogItem} className="flex-1 gap-2 rounded-xl border-dashed h-11" />
                   </div>
 
                   {/* Totals Section */}
@@ -1354,6 +1561,34 @@ export default function QuotationForm({ quotationNumber }: QuotationFormProps) {
                         />
                       </div>
 
+                      <Controller
+                        control={control}
+                        name="tax"
+                        render={({ field }) => (
+                          <GstSettingsFields
+                            value={field.value ?? DEFAULT_TAX}
+                            onChange={(value) => {
+                              field.onChange(value)
+                              setTimeout(() => calculateTotals(), 0)
+                            }}
+                            supplierGstNumber={generalInfo?.gstNumber}
+                            defaultGstPercent={generalInfo?.gstPercent}
+                            error={errors.tax?.clientGstNumber?.message}
+                          />
+                        )}
+                      />
+
+                      <TaxSummaryRows
+                        tax={
+                          computeTaxBreakdown({
+                            subtotal: watch("subtotal") ?? 0,
+                            discount: discount || 0,
+                            tax,
+                            supplierGstNumber: generalInfo?.gstNumber,
+                          }).tax
+                        }
+                      />
+
                       <Separator />
 
                       <div className="flex items-center justify-between pt-2">
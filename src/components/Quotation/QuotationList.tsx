@@ -20,6 +20,7 @@ import {
   Plus,
   MapPin,
   ArrowLeft,
+  Hourglass,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -50,7 +51,7 @@ export default function QuotationList() {
   const [loadingMore, setLoadingMore] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
-  const [statusFilter, setStatusFilter] = useState<"all" | "pending" | "accepted" | "rejected">("all")
+  const [statusFilter, setStatusFilter] = useState<"all" | "pending" | "accepted" | "rejected" | "expired">("all")
   const [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest")
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [quotationToDelete, setQuotationToDelete] = useState<string | null>(null)
@@ -237,6 +238,12 @@ export default function QuotationList() {
             <XCircle className="h-3 w-3" /> Rejected
           </Badge>
         )
+      case "expired":
+        return (
+          <Badge className="bg-slate-100 text-slate-600 border-slate-200 hover:bg-slate-100 gap-1 text-xs font-medium">
+            <Hourglass className="h-3 w-3" /> Expired
+          </Badge>
+        )
       default:
         return (
           <Badge className="bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-50 gap-1 text-xs font-medium">
@@ -252,6 +259,8 @@ export default function QuotationList() {
         return "border-l-emerald-500"
       case "rejected":
         return "border-l-red-500"
+      case "expired":
+        return "border-l-slate-400"
       default:
         return "border-l-amber-500"
     }
@@ -360,6 +369,7 @@ export default function QuotationList() {
                   <DropdownMenuItem onClick={() => setStatusFilter("pending")}>Pending</DropdownMenuItem>
                   <DropdownMenuItem onClick={() => setStatusFilter("accepted")}>Accepted</DropdownMenuItem>
                   <DropdownMenuItem onClick={() => setStatusFilter("rejected")}>Rejected</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter("expired")}>Expired</DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
 
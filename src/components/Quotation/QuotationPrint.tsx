@@ -1,5 +1,6 @@
 import { GeneralInfo, Quotation } from "@/app/types";
 import Image from "next/image"; // Import Next.js Image
+import { getTaxSummaryLines } from "@/lib/gst";
 
 interface QuotationPrintProps {
   quotation: Quotation;
@@ -75,6 +76,12 @@ export default function QuotationPrint({ quotation, generalInfo }: QuotationPrin
               <td colSpan={3} className="border border-gray-300 p-2 text-right font-semibold">Discount</td>
               <td className="border border-gray-300 p-2 text-right">₹{quotation.discount?.toFixed(2)}</td>
               </tr>
+            {getTaxSummaryLines(quotation.tax).map((line) => (
+              <tr key={line.label}>
+                <td colSpan={3} className="border border-gray-300 p-2 text-right font-semibold">{line.label}</td>
+                <td className="border border-gray-300 p-2 text-right">₹{line.amount.toFixed(2)}</td>
+              </tr>
+            ))}
             {quotation.grandTotal && (
               <tr>
                 <td colSpan={3} className="border border-gray-300 p-2 text-right font-bold">Grand Total</td>
@@ -0,0 +1,191 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { GitCompare, LinkIcon } from "lucide-react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  diffRevisions,
+  getItemAmount,
+  type ItemDiffStatus,
+  type QuotationRevisionSnapshot,
+} from "@/lib/quotation-revisions"
+
+interface QuotationRevisionsProps {
+  revisions: QuotationRevisionSnapshot[]
+  currentRevision?: string
+  clientLink?: (label: string) => string
+}
+
+const STATUS_STYLES: Record<ItemDiffStatus, { label: string; className: string }> = {
+  added: { label: "Added", className: "bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-50" },
+  removed: { label: "Removed", className: "bg-red-50 text-red-700 border-red-200 hover:bg-red-50" },
+  changed: { label: "Changed", className: "bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-50" },
+  unchanged: { label: "Same", className: "bg-muted text-muted-foreground border-border hover:bg-muted" },
+}
+
+const formatDelta = (value: number) => `${value > 0 ? "+" : value < 0 ? "-" : ""}₹${Math.abs(value).toFixed(2)}`
+
+const deltaClass = (value: number) =>
+  value > 0 ? "text-emerald-600" : value < 0 ? "text-destructive" : "text-muted-foreground"
+
+export function QuotationRevisions({ revisions, currentRevision, clientLink }: QuotationRevisionsProps) {
+  const [fromLabel, setFromLabel] = useState(revisions[revisions.length - 2]?.label || revisions[0]?.label)
+  const [toLabel, setToLabel] = useState(revisions[revisions.length - 1]?.label)
+
+  const from = revisions.find((revision) => revision.label === fromLabel)
+  const to = revisions.find((revision) => revision.label === toLabel)
+  const diff = useMemo(() => (from && to ? diffRevisions(from, to) : null), [from, to])
+
+  const handleCopyLink = (label: string) => {
+    if (!clientLink) return
+    navigator.clipboard.writeText(clientLink(label))
+    toast.success(`Client link for Rev ${label} copied`)
+  }
+
+  return (
+    <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6 print:hidden">
+      <div className="flex items-center gap-2 mb-5">
+        <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+          <GitCompare className="h-4 w-4 text-primary" />
+        </div>
+        <h2 className="font-semibold text-foreground">Revisions</h2>
+      </div>
+
+      <div className="divide-y divide-border/50 mb-5">
+        {[...revisions].reverse().map((revision) => (
+          <div key={revision.label} className="flex items-center justify-between gap-3 py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-foreground">Rev {revision.label}</span>
+              {revision.label === currentRevision && (
+                <Badge variant="outline" className="text-xs">
+                  Current
+                </Badge>
+              )}
+              <span className="text-muted-foreground">{new Date(revision.createdAt).toLocaleDateString()}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-mono">₹{(revision.grandTotal || 0).toFixed(2)}</span>
+              {clientLink && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleCopyLink(revision.label)}
+                  aria-label={`Copy client link for Rev ${revision.label}`}
+                >
+                  <LinkIcon className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mb-4">
+        <Select value={fromLabel} onValueChange={setFromLabel}>
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {revisions.map((revision) => (
+              <SelectItem key={revision.label} value={revision.label}>
+                Rev {revision.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">compared to</span>
+        <Select value={toLabel} onValueChange={setToLabel}>
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {revisions.map((revision) => (
+              <SelectItem key={revision.label} value={revision.label}>
+                Rev {revision.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {diff && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="text-left py-2 px-3 font-medium text-muted-foreground">Item</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Rev {fromLabel}</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Rev {toLabel}</th>
+                  <th className="text-right py-2 px-3 font-medium text-muted-foreground">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.items.map((item, index) => (
+                  <tr key={index} className="border-t border-border/50">
+                    <td className="py-2 px-3">
+                      <div className="flex items-center gap-2">
+                        <Badge className={`text-[10px] px-1.5 py-0 ${STATUS_STYLES[item.status].className}`}>
+                          {STATUS_STYLES[item.status].label}
+                        </Badge>
+                        <span className="text-foreground">{item.description}</span>
+                      </div>
+                      {item.status === "changed" && item.before && item.after && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {item.before.area ?? "-"} sq.ft @ ₹{item.before.rate} → {item.after.area ?? "-"} sq.ft @ ₹
+                          {item.after.rate}
+                        </p>
+                      )}
+                    </td>
+                    <td className="text-right py-2 px-3 font-mono">
+                      {item.before ? `₹${getItemAmount(item.before).toFixed(2)}` : "-"}
+                    </td>
+                    <td className="text-right py-2 px-3 font-mono">
+                      {item.after ? `₹${getItemAmount(item.after).toFixed(2)}` : "-"}
+                    </td>
+                    <td className={`text-right py-2 px-3 font-mono ${deltaClass(item.delta)}`}>
+                      {item.delta === 0 ? "-" : formatDelta(item.delta)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <Separator className="my-4" />
+
+          <div className="max-w-xs ml-auto space-y-1 text-sm">
+            {[
+              { label: "Subtotal", value: diff.subtotalDelta },
+              { label: "Discount", value: diff.discountDelta },
+              { label: "GST", value: diff.taxDelta },
+              { label: "Grand Total", value: diff.grandTotalDelta },
+            ].map((row) => (
+              <div key={row.label} className="flex justify-between">
+                <span className="text-muted-foreground">{row.label}</span>
+                <span className={`font-mono ${deltaClass(row.value)}`}>{formatDelta(row.value)}</span>
+              </div>
+            ))}
+          </div>
+
+          {(diff.termsAdded.length > 0 || diff.termsRemoved.length > 0 || diff.noteChanged) && (
+            <div className="mt-4 space-y-1 text-sm">
+              {diff.termsAdded.map((term) => (
+                <p key={`added-${term}`} className="text-emerald-700">+ {term}</p>
+              ))}
+              {diff.termsRemoved.map((term) => (
+                <p key={`removed-${term}`} className="text-red-700 line-through">{term}</p>
+              ))}
+              {diff.noteChanged && <p className="text-muted-foreground">Additional notes were changed.</p>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { BookmarkPlus, LayoutTemplate, Loader2, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { apiFetch } from "@/app/lib/api"
+import { services } from "@/app/lib/servicesData"
+import type { QuotationTemplate } from "@/app/types"
+
+type TemplateContent = Pick<QuotationTemplate, "items" | "terms" | "note" | "validityDays">
+
+const serviceTitle = (slug: string) => services.find((service) => service.slug === slug)?.title || slug
+
+interface StartFromTemplateProps {
+  onApply: (template: QuotationTemplate) => void
+}
+
+export function StartFromTemplateButton({ onApply }: StartFromTemplateProps) {
+  const [open, setOpen] = useState(false)
+  const [service, setService] = useState("all")
+  const [templates, setTemplates] = useState<QuotationTemplate[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setLoading(true)
+    apiFetch<{ templates: QuotationTemplate[] }>(`/quotations/templates?service=${service}`)
+      .then((data) => setTemplates(data.templates || []))
+      .catch(() => toast.error("Failed to load templates"))
+      .finally(() => setLoading(false))
+  }, [open, service])
+
+  const handleDelete = async (template: QuotationTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return
+    try {
+      await apiFetch(`/quotations/templates/${template._id}`, { method: "DELETE" })
+      setTemplates((prev) => prev.filter((item) => item._id !== template._id))
+      toast.success("Template deleted")
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete template")
+    }
+  }
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="gap-2 rounded-full px-4 bg-transparent"
+      >
+        <LayoutTemplate className="h-4 w-4" />
+        Start from Template
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Start from Template</DialogTitle>
+            <DialogDescription>Replaces the current items, terms, note and validity.</DialogDescription>
+          </DialogHeader>
+
+          <Select value={service} onValueChange={setService}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All services</SelectItem>
+              {services.map((item) => (
+                <SelectItem key={item.slug} value={item.slug}>
+                  {item.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="max-h-80 overflow-y-auto divide-y rounded-lg border">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">No templates saved yet</p>
+            ) : (
+              templates.map((template) => (
+                <div key={template._id} className="flex items-center justify-between gap-3 px-3 py-2.5">
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() => {
+                      onApply(template)
+                      setOpen(false)
+                    }}
+                  >
+                    <p className="text-sm font-medium">{template.name}</p>
+                    <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="secondary" className="text-[10px]">
+                        {serviceTitle(template.serviceCategory)}
+                      </Badge>
+                      <span>
+                        {template.items.length} item{template.items.length === 1 ? "" : "s"}
+                      </span>
+                      {template.validityDays && <span>· valid {template.validityDays} days</span>}
+                    </div>
+                  </button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(template)}
+                    aria-label={`Delete template ${template.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
+
+interface SaveAsTemplateProps {
+  getContent: () => TemplateContent
+}
+
+export function SaveAsTemplateButton({ getContent }: SaveAsTemplateProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [service, setService] = useState(services[0]?.slug || "")
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    const content = getContent()
+    const items = content.items.filter((item) => item.description.trim())
+    if (!name.trim()) {
+      toast.error("Template name is required")
+      return
+    }
+    if (items.length === 0) {
+      toast.error("Add at least one item before saving a template")
+      return
+    }
+
+    try {
+      setSaving(true)
+      await apiFetch("/quotations/templates", {
+        method: "POST",
+        body: JSON.stringify({
+          name: name.trim(),
+          serviceCategory: service,
+          items: items.map((item) => ({
+            description: item.description,
+            area: item.area ?? null,
+            rate: item.rate,
+            note: item.note || "",
+            hsnSac: item.hsnSac || "",
+          })),
+          terms: content.terms.filter((term) => term.trim()),
+          note: content.note || "",
+          validityDays: content.validityDays,
+        }),
+      })
+      toast.success("Template saved")
+      setOpen(false)
+      setName("")
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save template")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="gap-2 rounded-full px-4 bg-transparent"
+      >
+        <BookmarkPlus className="h-4 w-4" />
+        Save as Template
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save as Template</DialogTitle>
+            <DialogDescription>Items, terms, note and validity are saved. Client details are not.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Template Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. 2BHK repaint" />
+            </div>
+            <div className="space-y-2">
+              <Label>Service</Label>
+              <Select value={service} onValueChange={setService}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {services.map((item) => (
+                    <SelectItem key={item.slug} value={item.slug}>
+                      {item.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { Eraser } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void
+  disabled?: boolean
+}
+
+export function SignaturePad({ onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const hasInkRef = useRef(false)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    // Match the backing store to the rendered size so strokes are not blurred or offset
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = canvas.offsetWidth * ratio
+    canvas.height = canvas.offsetHeight * ratio
+    const context = canvas.getContext("2d")
+    if (!context) return
+    context.scale(ratio, ratio)
+    context.lineWidth = 2
+    context.lineCap = "round"
+    context.lineJoin = "round"
+    context.strokeStyle = "#0f172a"
+  }, [])
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+    const context = canvasRef.current?.getContext("2d")
+    if (!context) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    drawingRef.current = true
+    const { x, y } = getPoint(event)
+    context.beginPath()
+    context.moveTo(x, y)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+    const context = canvasRef.current?.getContext("2d")
+    if (!context) return
+    const { x, y } = getPoint(event)
+    context.lineTo(x, y)
+    context.stroke()
+    hasInkRef.current = true
+  }
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return
+    drawingRef.current = false
+    if (hasInkRef.current && canvasRef.current) {
+      onChange(canvasRef.current.toDataURL("image/png"))
+    }
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return
+    context.clearRect(0, 0, canvas.width, canvas.height)
+    hasInkRef.current = false
+    onChange(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="h-36 w-full touch-none rounded-lg border border-dashed border-border bg-white"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">Sign inside the box using your finger or mouse</p>
+        <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={disabled}>
+          <Eraser className="mr-1.5 h-4 w-4" /> Clear
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -22,6 +22,10 @@ import {
   ExternalLink,
   Building,
   Loader2,
+  PenLine,
+  ShieldCheck,
+  Hourglass,
+  BellRing,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { toast } from "sonner"
@@ -30,35 +34,74 @@ import Link from "next/link"
 import Image from "next/image"
 import { apiFetch, getGeneralInfo } from "@/app/lib/api"
 import type { Quotation, ApiError, GeneralInfo } from "@/app/types"
+import type { QuotationRevisionSnapshot } from "@/lib/quotation-revisions"
+import { TaxSummaryRows } from "@/components/tax/TaxSummaryRows"
 import { generateQuotationPDF } from "@/app/lib/generate-pdf"
 import { useSession } from "next-auth/react"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import { DEFAULT_SITE_NAME } from "@/lib/brand"
+import { SignaturePad } from "./SignaturePad"
+import { QuotationRevisions } from "./QuotationRevisions"
 
 interface QuotationViewProps {
   quotationNumber: string
+  token?: string
+  revision?: string
 }
 
-export default function QuotationView({ quotationNumber }: QuotationViewProps) {
+// What the respond route returns once the client's decision is saved
+type QuotationResponse = Pick<Quotation, "isAccepted" | "lastUpdated" | "acceptanceRecords">
+
+// Shows the priced content of an earlier revision in place of the current one
+function applyRevision(quotation: Quotation, snapshot?: QuotationRevisionSnapshot): Quotation {
+  if (!snapshot) return quotation
+  return {
+    ...quotation,
+    items: snapshot.items,
+    subtotal: snapshot.subtotal,
+    discount: snapshot.discount,
+    grandTotal: snapshot.grandTotal,
+    tax: snapshot.tax,
+    terms: snapshot.terms,
+    note: snapshot.note,
+  }
+}
+
+export default function QuotationView({ quotationNumber, token, revision }: QuotationViewProps) {
   const [quotation, setQuotation] = useState<Quotation | null>(null)
   const [generalInfo, setGeneralInfo] = useState<GeneralInfo | null>(null)
   const [loading, setLoading] = useState(true)
   const [isUpdating, setIsUpdating] = useState(false)
   const [failedImages, setFailedImages] = useState<number[]>([])
+  const [responseMode, setResponseMode] = useState<"accepted" | "rejected" | null>(null)
+  const [signerName, setSignerName] = useState("")
+  const [signature, setSignature] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState("")
 
   const { data: session, status } = useSession()
+  const isAdmin = session?.user?.role === "admin"
+  const viewedRevision = revision ? quotation?.revisions?.find((item) => item.label === revision) : undefined
+  const isSupersededRevision = !!viewedRevision && viewedRevision.label !== quotation?.currentRevision
+  // Expired either by the follow-up job or by date, before the job has run
+  const isExpired =
+    quotation?.isAccepted === "expired" ||
+    (quotation?.isAccepted === "pending" && !!quotation.expiresAt && new Date(quotation.expiresAt) <= new Date())
 
   const fetchQuotation = useCallback(async () => {
     try {
-      const data = await apiFetch<Quotation>(`/quotations/${quotationNumber}`)
+      const query = token ? `?token=${encodeURIComponent(token)}` : ""
+      const data = await apiFetch<Quotation>(`/quotations/${quotationNumber}${query}`)
       setQuotation(data)
     } catch (error: unknown) {
       const apiError = error as ApiError
       toast.error(apiError.error || "Failed to fetch quotation")
     }
-  }, [quotationNumber])
+  }, [quotationNumber, token])
 
   const fetchGeneralInfo = useCallback(async () => {
     try {
@@ -123,7 +166,7 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
         body: formData,
       })
       setQuotation((prev) => (prev ? { ...prev, ...data } : data))
-      toast.success("Quotation accepted!")
+      toast.success("Quotation marked as accepted")
     } catch (error: unknown) {
       toast.error(getErrorMessage(error))
     } finally {
@@ -142,7 +185,45 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
         body: formData,
       })
       setQuotation((prev) => (prev ? { ...prev, ...data } : data))
-      toast.success("Quotation rejected!")
+      toast.success("Quotation marked as rejected")
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setIsUpdating(false)
+    }
+  }
+
+  const handleSubmitResponse = async () => {
+    if (!quotation || !responseMode) return
+    if (!signerName.trim()) {
+      toast.error("Please enter your full name")
+      return
+    }
+    if (responseMode === "accepted" && !signature) {
+      toast.error("Please sign to accept the quotation")
+      return
+    }
+    if (responseMode === "rejected" && !rejectReason.trim()) {
+      toast.error("Please tell us why you are rejecting")
+      return
+    }
+
+    setIsUpdating(true)
+    try {
+      const data = await apiFetch<QuotationResponse>(`/quotations/${quotationNumber}/respond`, {
+        method: "POST",
+        body: JSON.stringify({
+          token,
+          decision: responseMode,
+          signerName: signerName.trim(),
+          signature: responseMode === "accepted" ? signature : undefined,
+          reason: responseMode === "rejected" ? rejectReason.trim() : undefined,
+          revision: quotation.currentRevision,
+        }),
+      })
+      setQuotation((prev) => (prev ? { ...prev, ...data } : prev))
+      setResponseMode(null)
+      toast.success(responseMode === "accepted" ? "Thank you! Quotation accepted." : "Your response has been recorded.")
     } catch (error: unknown) {
       toast.error(getErrorMessage(error))
     } finally {
@@ -165,6 +246,12 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
             <XCircle className="h-4 w-4" /> Rejected
           </Badge>
         )
+      case "expired":
+        return (
+          <Badge className="bg-slate-100 text-slate-600 border-slate-200 hover:bg-slate-100 gap-1.5 px-3 py-1 text-sm font-medium">
+            <Hourglass className="h-4 w-4" /> Expired
+          </Badge>
+        )
       default:
         return (
           <Badge className="bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-50 gap-1.5 px-3 py-1 text-sm font-medium">
@@ -175,7 +262,12 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
   }
 
   const handleCopyLink = () => {
-    navigator.clipboard.writeText(window.location.href)
+    // Admins share the client portal link; clients re-share the link they opened
+    const link =
+      isAdmin && quotation?.accessToken
+        ? `${window.location.origin}/quotations/${quotationNumber}?token=${quotation.accessToken}`
+        : window.location.href
+    navigator.clipboard.writeText(link)
     toast.success("Link copied to clipboard!")
   }
 
@@ -184,7 +276,7 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
     setIsUpdating(true)
     try {
       toast.info("Generating PDF...")
-      generateQuotationPDF(quotation)
+      generateQuotationPDF(applyRevision(quotation, viewedRevision))
       toast.success("PDF downloaded successfully!")
     } catch {
       toast.error("Failed to generate PDF. Please try again.")
@@ -221,20 +313,27 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
             </div>
             <h3 className="text-xl font-semibold text-foreground mb-2">Quotation Not Found</h3>
             <p className="text-muted-foreground text-sm max-w-sm mx-auto mb-6">
-              The quotation you are looking for does not exist or has been deleted.
+              {isAdmin
+                ? "The quotation you are looking for does not exist or has been deleted."
+                : "This link is invalid or has expired. Please use the link shared with you."}
             </p>
-            <Button asChild size="lg" className="rounded-full px-8">
-              <Link href="/dashboard/quotations">
-                <ArrowLeft className="h-4 w-4 mr-2" />
-                Back to Quotations
-              </Link>
-            </Button>
+            {isAdmin && (
+              <Button asChild size="lg" className="rounded-full px-8">
+                <Link href="/dashboard/quotations">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Back to Quotations
+                </Link>
+              </Button>
+            )}
           </div>
         </div>
       </div>
     )
   }
 
+  const shownQuotation = applyRevision(quotation, viewedRevision)
+  const latestRevisionHref = `/quotations/${quotationNumber}${token ? `?token=${encodeURIComponent(token)}` : ""}`
+
   return (
     <div className="min-h-screen bg-muted/30 print:bg-white">
       <div className="p-4 sm:p-6 lg:p-8 print:p-0">
@@ -242,22 +341,29 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
           {/* Header */}
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 print:hidden">
             <div className="flex items-center gap-4">
-              <Button
-                variant="outline"
-                size="icon"
-                asChild
-                className="rounded-full h-10 w-10 bg-background border-border/50"
-              >
-                <Link href="/dashboard/quotations">
-                  <ArrowLeft className="h-4 w-4" />
-                </Link>
-              </Button>
+              {isAdmin && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  asChild
+                  className="rounded-full h-10 w-10 bg-background border-border/50"
+                >
+                  <Link href="/dashboard/quotations">
+                    <ArrowLeft className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
               <div>
                 <div className="flex items-center gap-2 mb-1">
                   <h1 className="text-xl sm:text-2xl font-bold text-foreground tracking-tight">
                     Quotation #{quotation.quotationNumber}
                   </h1>
                   {getStatusBadge(quotation.isAccepted)}
+                  {(viewedRevision?.label || quotation.currentRevision) && (
+                    <Badge variant="outline" className="px-2 py-1 text-xs font-medium">
+                      Rev {viewedRevision?.label || quotation.currentRevision}
+                    </Badge>
+                  )}
                 </div>
                 <p className="text-sm text-muted-foreground">
                   Created on {new Date(quotation.createdAt).toLocaleDateString()}
@@ -279,7 +385,7 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
                     </Button>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>Copy Link</p>
+                    <p>{isAdmin ? "Copy Client Link" : "Copy Link"}</p>
                   </TooltipContent>
                 </Tooltip>
 
@@ -300,7 +406,7 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
                   </TooltipContent>
                 </Tooltip>
 
-                {session?.user?.role === "admin" && (
+                {isAdmin && (
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button variant="outline" size="icon" asChild className="h-9 w-9 rounded-lg bg-transparent">
@@ -318,8 +424,41 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
             </TooltipProvider>
           </div>
 
+          {isSupersededRevision && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 print:hidden">
+              <p className="text-sm text-amber-800">
+                You are viewing Rev {viewedRevision?.label}. This quotation has since been revised to Rev{" "}
+                {quotation.currentRevision}.
+              </p>
+              <Button asChild size="sm" variant="outline" className="rounded-lg bg-white">
+                <Link href={latestRevisionHref}>View Latest</Link>
+              </Button>
+            </div>
+          )}
+
           {/* Status Actions - Only show if pending */}
-          {quotation.isAccepted === "pending" && (
+          {isExpired && !isSupersededRevision && (
+            <div className="bg-background rounded-xl border border-border/50 p-4 sm:p-5 print:hidden">
+              <div className="flex items-center gap-3">
+                <div className="h-10 w-10 rounded-full bg-slate-100 flex items-center justify-center">
+                  <Hourglass className="h-5 w-5 text-slate-600" />
+                </div>
+                <div>
+                  <h3 className="font-medium text-foreground">
+                    Expired
+                    {quotation.expiresAt && ` on ${new Date(quotation.expiresAt).toLocaleDateString()}`}
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {isAdmin
+                      ? "Edit the quotation to re-open it; the validity starts again from today"
+                      : "This offer is no longer open. Please contact us for a revised quotation"}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {quotation.isAccepted === "pending" && !isExpired && !isSupersededRevision && (
             <div className="bg-background rounded-xl border border-border/50 p-4 sm:p-5 print:hidden">
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
                 <div className="flex items-center gap-3">
@@ -328,42 +467,218 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
                   </div>
                   <div>
                     <h3 className="font-medium text-foreground">Awaiting Response</h3>
-                    <p className="text-sm text-muted-foreground">This quotation is pending client approval</p>
+                    <p className="text-sm text-muted-foreground">
+                      {isAdmin
+                        ? "Share the client link so the client can review and sign"
+                        : "Please review the quotation below and let us know your decision"}
+                    </p>
                   </div>
                 </div>
-                <div className="flex gap-2">
-                  <Button
-                    onClick={handleAccept}
-                    disabled={isUpdating}
-                    size="sm"
-                    className="bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg"
-                  >
-                    {isUpdating ? (
-                      <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
-                    ) : (
-                      <CheckCheck className="mr-1.5 h-4 w-4" />
-                    )}
-                    Accept
-                  </Button>
-                  <Button
-                    onClick={handleReject}
-                    variant="destructive"
-                    disabled={isUpdating}
-                    size="sm"
-                    className="rounded-lg"
-                  >
-                    {isUpdating ? (
-                      <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
-                    ) : (
+                {isAdmin ? (
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={handleAccept}
+                      disabled={isUpdating}
+                      size="sm"
+                      className="bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg"
+                    >
+                      {isUpdating ? (
+                        <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                      ) : (
+                        <CheckCheck className="mr-1.5 h-4 w-4" />
+                      )}
+                      Accept
+                    </Button>
+                    <Button
+                      onClick={handleReject}
+                      variant="destructive"
+                      disabled={isUpdating}
+                      size="sm"
+                      className="rounded-lg"
+                    >
+                      {isUpdating ? (
+                        <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                      ) : (
+                        <XCircle className="mr-1.5 h-4 w-4" />
+                      )}
+                      Reject
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => setResponseMode("accepted")}
+                      disabled={isUpdating}
+                      size="sm"
+                      className="bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg"
+                    >
+                      <PenLine className="mr-1.5 h-4 w-4" />
+                      Accept & Sign
+                    </Button>
+                    <Button
+                      onClick={() => setResponseMode("rejected")}
+                      variant="destructive"
+                      disabled={isUpdating}
+                      size="sm"
+                      className="rounded-lg"
+                    >
                       <XCircle className="mr-1.5 h-4 w-4" />
-                    )}
-                    Reject
-                  </Button>
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {!isAdmin && responseMode && (
+                <div className="mt-5 space-y-4 border-t border-border/50 pt-5">
+                  <div className="space-y-2">
+                    <Label htmlFor="signerName">Full Name</Label>
+                    <Input
+                      id="signerName"
+                      value={signerName}
+                      onChange={(e) => setSignerName(e.target.value)}
+                      placeholder="Type your full name"
+                    />
+                  </div>
+                  {responseMode === "accepted" ? (
+                    <div className="space-y-2">
+                      <Label>Signature</Label>
+                      <SignaturePad onChange={setSignature} disabled={isUpdating} />
+                      <p className="text-xs text-muted-foreground">
+                        By signing you accept this quotation for ₹{quotation.grandTotal?.toFixed(2)} and its terms &
+                        conditions.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="rejectReason">Reason</Label>
+                      <Textarea
+                        id="rejectReason"
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        placeholder="Let us know why, so we can revise the quotation"
+                      />
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" className="rounded-lg" onClick={() => setResponseMode(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="rounded-lg"
+                      variant={responseMode === "accepted" ? "default" : "destructive"}
+                      disabled={isUpdating}
+                      onClick={handleSubmitResponse}
+                    >
+                      {isUpdating && <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />}
+                      {responseMode === "accepted" ? "Submit Acceptance" : "Submit Rejection"}
+                    </Button>
+                  </div>
                 </div>
+              )}
+            </div>
+          )}
+
+          {/* Follow-up History */}
+          {isAdmin && quotation.followUps && quotation.followUps.length > 0 && (
+            <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6 print:hidden">
+              <div className="flex items-center gap-2 mb-4">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <BellRing className="h-4 w-4 text-primary" />
+                </div>
+                <h2 className="font-semibold text-foreground">Follow-ups</h2>
+              </div>
+              <div className="divide-y divide-border/50">
+                {[...quotation.followUps].reverse().map((followUp, index) => (
+                  <div key={index} className="flex items-start justify-between gap-3 py-2.5 text-sm">
+                    <div>
+                      <p className="font-medium text-foreground">
+                        {followUp.kind === "expired"
+                          ? "Marked as expired"
+                          : `WhatsApp reminder · ${followUp.daysBefore} day${followUp.daysBefore === 1 ? "" : "s"} before expiry`}
+                      </p>
+                      {followUp.error && <p className="text-xs text-destructive">{followUp.error}</p>}
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-xs text-muted-foreground">{new Date(followUp.createdAt).toLocaleString()}</p>
+                      {followUp.kind === "reminder" && !followUp.delivered && (
+                        <p className="text-xs text-amber-600">Not delivered</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
           )}
 
+          {/* Client Response Record */}
+          {quotation.acceptanceRecords && quotation.acceptanceRecords.length > 0 && (
+            <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6">
+              <div className="flex items-center gap-2 mb-5">
+                <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                  <ShieldCheck className="h-4 w-4 text-primary" />
+                </div>
+                <h2 className="font-semibold text-foreground">Client Response</h2>
+              </div>
+              <div className="space-y-4">
+                {[...quotation.acceptanceRecords].reverse().map((record, index) => (
+                  <div key={index} className="rounded-lg border border-border/50 p-4">
+                    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                      <div className="space-y-1 text-sm">
+                        <div>{getStatusBadge(record.decision)}</div>
+                        <p className="text-foreground">
+                          <span className="text-muted-foreground">Signed by </span>
+                          <span className="font-medium">{record.signerName}</span>
+                        </p>
+                        <p className="text-muted-foreground">{new Date(record.respondedAt).toLocaleString()}</p>
+                        {typeof record.grandTotal === "number" && (
+                          <p className="text-muted-foreground">
+                            Quoted total: ₹{record.grandTotal.toFixed(2)}
+                            {record.revision && ` (Rev ${record.revision})`}
+                          </p>
+                        )}
+                        {isAdmin && (
+                          <p className="text-xs font-mono text-muted-foreground">IP: {record.ipAddress}</p>
+                        )}
+                        {record.reason && (
+                          <p className="text-foreground whitespace-pre-line">
+                            <span className="text-muted-foreground">Reason: </span>
+                            {record.reason}
+                          </p>
+                        )}
+                      </div>
+                      {record.signature?.url && (
+                        <div className="relative h-24 w-48 rounded-lg border border-border/50 bg-white">
+                          <Image
+                            src={record.signature.url}
+                            alt={`Signature of ${record.signerName}`}
+                            fill
+                            className="object-contain p-2"
+                            unoptimized
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Revisions (admin) */}
+          {isAdmin && quotation.revisions && quotation.revisions.length > 1 && (
+            <QuotationRevisions
+              revisions={quotation.revisions}
+              currentRevision={quotation.currentRevision}
+              clientLink={
+                quotation.accessToken
+                  ? (label) => `${window.location.origin}/quotations/${quotationNumber}?token=${quotation.accessToken}&rev=${label}`
+                  : undefined
+              }
+            />
+          )}
+
           {/* Client Information */}
           <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6">
             <div className="flex items-center gap-2 mb-5">
@@ -381,7 +696,16 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
                   </div>
                   <div>
                     <p className="text-xs text-muted-foreground mb-0.5">Client Name</p>
-                    <p className="font-medium text-foreground">{quotation.clientName}</p>
+                    {isAdmin && quotation.clientId ? (
+                      <Link
+                        href={`/dashboard/clients/${quotation.clientId}`}
+                        className="font-medium text-foreground hover:text-primary hover:underline"
+                      >
+                        {quotation.clientName}
+                      </Link>
+                    ) : (
+                      <p className="font-medium text-foreground">{quotation.clientName}</p>
+                    )}
                   </div>
                 </div>
 
@@ -402,6 +726,15 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
                   <div>
                     <p className="text-xs text-muted-foreground mb-0.5">Quotation Date</p>
                     <p className="font-medium text-foreground">{new Date(quotation.date).toLocaleDateString()}</p>
+                    {quotation.expiresAt ? (
+                      <p className="text-xs text-muted-foreground">
+                        Valid until {new Date(quotation.expiresAt).toLocaleDateString()}
+                      </p>
+                    ) : (
+                      quotation.validityDays && (
+                        <p className="text-xs text-muted-foreground">Valid for {quotation.validityDays} days</p>
+                      )
+                    )}
                   </div>
                 </div>
               </div>
@@ -419,7 +752,7 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
           </div>
 
           {/* Additional Notes */}
-          {quotation.note && (
+          {shownQuotation.note && (
             <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6">
               <div className="flex items-center gap-2 mb-4">
                 <div className="h-8 w-8 rounded-lg bg-blue-100 flex items-center justify-center">
@@ -428,7 +761,7 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
                 <h2 className="font-semibold text-foreground">Additional Notes</h2>
               </div>
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <p className="text-blue-800 text-sm whitespace-pre-line">{quotation.note}</p>
+                <p className="text-blue-800 text-sm whitespace-pre-line">{shownQuotation.note}</p>
               </div>
             </div>
           )}
@@ -456,11 +789,12 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
                   </tr>
                 </thead>
                 <tbody>
-                  {quotation.items?.map((item, index) => (
+                  {shownQuotation.items?.map((item, index) => (
                     <tr key={index} className="border-t border-border/50 hover:bg-muted/30 transition-colors">
                       <td className="py-4 px-5">
                         <p className="font-medium text-foreground">{item.description}</p>
                         {item.note && <p className="text-sm text-muted-foreground mt-1">{item.note}</p>}
+                        {item.hsnSac && <p className="text-xs font-mono text-muted-foreground mt-1">HSN/SAC: {item.hsnSac}</p>}
                       </td>
                       <td className="text-right py-4 px-5 font-mono text-sm">{item.area || "-"}</td>
                       <td className="text-right py-4 px-5 font-mono text-sm">₹{item.rate?.toFixed(2)}</td>
@@ -475,11 +809,12 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
 
             {/* Mobile Cards */}
             <div className="sm:hidden divide-y divide-border/50">
-              {quotation.items?.map((item, index) => (
+              {shownQuotation.items?.map((item, index) => (
                 <div key={index} className="p-4 space-y-3">
                   <div>
                     <p className="font-medium text-foreground">{item.description}</p>
                     {item.note && <p className="text-sm text-muted-foreground mt-1">{item.note}</p>}
+                    {item.hsnSac && <p className="text-xs font-mono text-muted-foreground mt-1">HSN/SAC: {item.hsnSac}</p>}
                   </div>
                   <div className="flex justify-between text-sm">
                     <div className="space-y-1">
@@ -498,22 +833,23 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
             {/* Totals */}
             <div className="bg-muted/30 border-t border-border/50 p-5 sm:p-6">
               <div className="max-w-xs ml-auto space-y-2">
-                {quotation.subtotal && (
+                {shownQuotation.subtotal && (
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Subtotal</span>
-                    <span className="font-mono">₹{quotation.subtotal?.toFixed(2)}</span>
+                    <span className="font-mono">₹{shownQuotation.subtotal?.toFixed(2)}</span>
                   </div>
                 )}
-                {typeof quotation.discount === "number" && quotation.discount > 0 && (
+                {typeof shownQuotation.discount === "number" && shownQuotation.discount > 0 && (
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Discount</span>
-                    <span className="font-mono text-emerald-600">-₹{quotation.discount.toFixed(2)}</span>
+                    <span className="font-mono text-emerald-600">-₹{shownQuotation.discount.toFixed(2)}</span>
                   </div>
                 )}
+                <TaxSummaryRows tax={shownQuotation.tax} />
                 <Separator />
                 <div className="flex justify-between items-center pt-2">
                   <span className="font-semibold text-foreground">Grand Total</span>
-                  <span className="text-xl font-bold text-primary">₹{quotation.grandTotal?.toFixed(2)}</span>
+                  <span className="text-xl font-bold text-primary">₹{shownQuotation.grandTotal?.toFixed(2)}</span>
                 </div>
               </div>
             </div>
@@ -566,7 +902,7 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
           )}
 
           {/* Terms & Conditions */}
-          {quotation.terms && quotation.terms.length > 0 && (
+          {shownQuotation.terms && shownQuotation.terms.length > 0 && (
             <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6">
               <div className="flex items-center gap-2 mb-4">
                 <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
@@ -575,7 +911,7 @@ export default function QuotationView({ quotationNumber }: QuotationViewProps) {
                 <h2 className="font-semibold text-foreground">Terms & Conditions</h2>
               </div>
               <ul className="space-y-2">
-                {quotation.terms.map((term, index) => (
+                {shownQuotation.terms.map((term, index) => (
                   <li key={index} className="flex items-start gap-2 text-sm text-muted-foreground">
                     <span className="text-primary font-medium">{index + 1}.</span>
                     <span>{term}</span>
@@ -9,6 +9,7 @@ import {
   LayoutDashboard,
   FileText,
   Briefcase,
+  Contact,
   Camera,
   Settings,
   LogOut,
@@ -18,6 +19,7 @@ import {
   MessageSquare,
   Star,
   BookOpen,
+  BookOpenCheck,
   User as UserIcon,
   UsersRound,
   Wallet,
@@ -82,7 +84,9 @@ export default function DashboardMobileNav({
 
   const moreItems = [
     { href: "/profile", label: "Profile", icon: <UserIcon className="h-5 w-5" /> },
+    { href: "/dashboard/clients", label: "Clients", icon: <Contact className="h-5 w-5" /> },
     { href: "/dashboard/invoices", label: "Invoices", icon: <DollarSign className="h-5 w-5" /> },
+    { href: "/dashboard/rate-card", label: "Rate Card", icon: <BookOpenCheck className="h-5 w-5" /> },
     { href: "/dashboard/expenses", label: "Expenses", icon: <Wallet className="h-5 w-5" /> },
     { href: "/dashboard/workforce", label: "Workforce", icon: <UsersRound className="h-5 w-5" /> },
     { href: "/dashboard/portfolio", label: "Portfolio", icon: <Camera className="h-5 w-5" /> },
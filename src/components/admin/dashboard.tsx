@@ -12,17 +12,21 @@ import {
   ChevronRight,
   Clock,
   FileText,
+  Hourglass,
   Loader2,
   Plus,
   Receipt,
+  TrendingUp,
 } from "lucide-react";
 
 import { apiFetch } from "@/app/lib/api";
-import type { ApiError, Invoice, Project, Quotation } from "@/app/types";
+import type { ApiError, Invoice, Project, ProjectCosting, Quotation } from "@/app/types";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { getDaysUntilExpiry } from "@/lib/quotation-expiry";
+import { PROJECT_STATUS_LABELS, type ProjectStatus } from "@/lib/project-status";
 
 type DashboardStats = {
   totalQuotations: number;
@@ -45,8 +49,10 @@ export default function Dashboard() {
     totalInvoices: 0,
   });
   const [recentQuotations, setRecentQuotations] = useState<Quotation[]>([]);
+  const [expiringQuotations, setExpiringQuotations] = useState<Quotation[]>([]);
   const [recentProjects, setRecentProjects] = useState<Project[]>([]);
   const [recentInvoices, setRecentInvoices] = useState<Invoice[]>([]);
+  const [projectCostings, setProjectCostings] = useState<ProjectCosting[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -56,15 +62,17 @@ export default function Dashboard() {
 
     const fetchData = async () => {
       try {
-        const [statsRes, quotationsRes, projectsRes, invoicesRes] = await Promise.all([
+        const [statsRes, quotationsRes, expiringRes, projectsRes, invoicesRes, profitabilityRes] = await Promise.all([
           apiFetch<{
             quotations: { total: number; pending: number; accepted: number; rejected: number };
             projects: { total: number };
             invoices: { total: number };
           }>("/dashboard/stats"),
           apiFetch<{ quotations: Quotation[] }>("/quotations?limit=3"),
+          apiFetch<{ quotations: Quotation[] }>("/quotations/expiring?days=7&limit=5"),
           apiFetch<{ projects: Project[] }>("/projects?limit=3"),
           apiFetch<{ invoices: Invoice[] }>("/invoices?limit=3"),
+          apiFetch<{ projects: ProjectCosting[] }>("/projects/profitability?limit=5"),
         ]);
 
         setStats({
@@ -76,8 +84,10 @@ export default function Dashboard() {
           totalInvoices: statsRes.invoices.total,
         });
         setRecentQuotations(quotationsRes.quotations || []);
+        setExpiringQuotations(expiringRes.quotations || []);
         setRecentProjects(projectsRes.projects || []);
         setRecentInvoices(invoicesRes.invoices || []);
+        setProjectCostings(profitabilityRes.projects || []);
       } catch (error: unknown) {
         const apiError = error as ApiError;
         console.error("Failed to fetch dashboard data:", apiError.error || "Unknown error");
@@ -144,6 +154,9 @@ export default function Dashboard() {
     if (badgeStatus === "rejected") {
       return <Badge className="border-red-200 bg-red-50 text-red-700 hover:bg-red-50">Rejected</Badge>;
     }
+    if (badgeStatus === "expired") {
+      return <Badge className="border-slate-200 bg-slate-100 text-slate-600 hover:bg-slate-100">Expired</Badge>;
+    }
     return <Badge className="border-amber-200 bg-amber-50 text-amber-700 hover:bg-amber-50">Pending</Badge>;
   };
 
@@ -158,8 +171,8 @@ export default function Dashboard() {
   };
 
   const formatProjectStatus = (statusValue: string | undefined) => {
-    if (!statusValue || statusValue === "ongoing") return "In Progress";
-    return statusValue.charAt(0).toUpperCase() + statusValue.slice(1);
+    if (!statusValue) return PROJECT_STATUS_LABELS.scheduled;
+    return PROJECT_STATUS_LABELS[statusValue as ProjectStatus] || statusValue;
   };
 
   const SectionCard = ({
@@ -277,6 +290,52 @@ export default function Dashboard() {
             )}
           </SectionCard>
 
+          <SectionCard title="Expiring Soon" icon={Hourglass} actionHref="/dashboard/quotations" actionColor="text-slate-200 hover:text-white">
+            {isLoading ? (
+              <div className="space-y-3 pt-3">
+                {[1, 2, 3].map((item) => (
+                  <div key={item} className="rounded-xl border border-slate-200 p-4">
+                    <Skeleton className="h-4 w-40" />
+                    <Skeleton className="mt-2 h-3 w-24" />
+                  </div>
+                ))}
+              </div>
+            ) : expiringQuotations.length > 0 ? (
+              <div className="divide-y divide-slate-100">
+                {expiringQuotations.map((quotation) => {
+                  const daysLeft = getDaysUntilExpiry(quotation.expiresAt!);
+                  const lastReminder = [...(quotation.followUps || [])]
+                    .reverse()
+                    .find((followUp) => followUp.kind === "reminder");
+
+                  return (
+                    <Link
+                      key={quotation.quotationNumber}
+                      href={`/dashboard/quotations/${quotation.quotationNumber}`}
+                      className="flex items-center justify-between gap-3 px-1 py-3 transition-colors hover:bg-slate-50"
+                    >
+                      <div>
+                        <p className="text-sm font-semibold text-slate-900">{quotation.clientName}</p>
+                        <p className="text-xs text-slate-500">
+                          #{quotation.quotationNumber} · ₹{(quotation.grandTotal || 0).toLocaleString("en-IN")}
+                          {lastReminder && ` · Reminded ${new Date(lastReminder.createdAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className={`text-sm font-semibold ${daysLeft <= 1 ? "text-red-600" : "text-amber-700"}`}>
+                          {daysLeft} day{daysLeft === 1 ? "" : "s"} left
+                        </p>
+                        <p className="text-xs text-slate-500">{new Date(quotation.expiresAt!).toLocaleDateString()}</p>
+                      </div>
+                    </Link>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="py-6 text-center text-sm text-slate-500">No quotations expiring this week.</p>
+            )}
+          </SectionCard>
+
           <SectionCard title="Active Projects" icon={Briefcase} actionHref="/dashboard/projects" actionColor="text-slate-200 hover:text-white">
             {isLoading ? (
               <div className="space-y-3 pt-3">
@@ -323,6 +382,45 @@ export default function Dashboard() {
             )}
           </SectionCard>
 
+          <SectionCard title="Project Margins" icon={TrendingUp} actionHref="/dashboard/projects" actionColor="text-slate-200 hover:text-white">
+            {isLoading ? (
+              <div className="space-y-3 pt-3">
+                {[1, 2, 3].map((item) => (
+                  <div key={item} className="rounded-xl border border-slate-200 p-4">
+                    <Skeleton className="h-4 w-40" />
+                    <Skeleton className="mt-2 h-3 w-24" />
+                  </div>
+                ))}
+              </div>
+            ) : projectCostings.length > 0 ? (
+              <div className="divide-y divide-slate-100">
+                {projectCostings.map((costing) => (
+                  <Link
+                    key={costing.projectId}
+                    href={`/dashboard/projects/${costing.projectId}`}
+                    className="flex items-center justify-between gap-3 px-1 py-3 transition-colors hover:bg-slate-50"
+                  >
+                    <div>
+                      <p className="text-sm font-semibold text-slate-900">{costing.clientName}</p>
+                      <p className="text-xs text-slate-500">
+                        #{costing.projectId} · Cost ₹{costing.totalCost.toLocaleString("en-IN")} of ₹
+                        {costing.revenue.toLocaleString("en-IN")}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`text-sm font-semibold ${costing.margin >= 0 ? "text-emerald-700" : "text-red-600"}`}>
+                        ₹{costing.margin.toLocaleString("en-IN")}
+                      </p>
+                      <p className="text-xs text-slate-500">{costing.marginPercent.toFixed(1)}% margin</p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <p className="py-6 text-center text-sm text-slate-500">No projects available.</p>
+            )}
+          </SectionCard>
+
           <SectionCard title="Recent Invoices" icon={Receipt} actionHref="/dashboard/invoices" actionColor="text-slate-200 hover:text-white">
             {isLoading ? (
               <div className="space-y-3 pt-3">
@@ -0,0 +1,127 @@
+"use client"
+
+import { useDeferredValue, useEffect, useState } from "react"
+import { BookOpenCheck, Loader2, Search } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { apiFetch } from "@/app/lib/api"
+import { services } from "@/app/lib/servicesData"
+import type { CatalogItem } from "@/app/types"
+import { formatCatalogRate } from "@/lib/catalog"
+
+interface CatalogItemPickerProps {
+  onSelect: (item: CatalogItem) => void
+  className?: string
+}
+
+export function CatalogItemPicker({ onSelect, className }: CatalogItemPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [category, setCategory] = useState("all")
+  const [items, setItems] = useState<CatalogItem[]>([])
+  const [loading, setLoading] = useState(false)
+  const deferredSearch = useDeferredValue(search.trim())
+
+  useEffect(() => {
+    if (!open) return
+    const controller = new AbortController()
+    const params = new URLSearchParams({ category })
+    if (deferredSearch) params.set("search", deferredSearch)
+
+    setLoading(true)
+    apiFetch<{ items: CatalogItem[] }>(`/catalog?${params.toString()}`, { signal: controller.signal })
+      .then((data) => setItems(data.items || []))
+      .catch(() => {
+        if (!controller.signal.aborted) toast.error("Failed to load rate card")
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [open, category, deferredSearch])
+
+  const serviceTitle = (slug: string) => services.find((service) => service.slug === slug)?.title || slug
+
+  const handleSelect = (item: CatalogItem) => {
+    onSelect(item)
+    setOpen(false)
+    toast.success(`Added "${item.name}"`)
+  }
+
+  return (
+    <>
+      <Button type="button" variant="outline" onClick={() => setOpen(true)} className={className}>
+        <BookOpenCheck className="h-4 w-4" />
+        From Rate Card
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Rate Card</DialogTitle>
+            <DialogDescription>Pick a work item to add it with its default rate and note.</DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search items..."
+                className="pl-9"
+                autoFocus
+              />
+            </div>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All services</SelectItem>
+                {services.map((service) => (
+                  <SelectItem key={service.slug} value={service.slug}>
+                    {service.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto divide-y rounded-lg border">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : items.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">No matching items</p>
+            ) : (
+              items.map((item) => (
+                <button
+                  key={item._id}
+                  type="button"
+                  onClick={() => handleSelect(item)}
+                  className="flex w-full items-start justify-between gap-3 px-3 py-2.5 text-left transition-colors hover:bg-muted/50"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{item.name}</p>
+                    {item.defaultNote && <p className="truncate text-xs text-muted-foreground">{item.defaultNote}</p>}
+                    <Badge variant="secondary" className="mt-1 text-[10px]">
+                      {serviceTitle(item.serviceCategory)}
+                    </Badge>
+                  </div>
+                  <span className="shrink-0 font-mono text-sm">{formatCatalogRate(item)}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,438 @@
+"use client"
+
+import { useCallback, useDeferredValue, useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, BookOpenCheck, History, Loader2, Pencil, Plus, Search, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { apiFetch } from "@/app/lib/api"
+import { services } from "@/app/lib/servicesData"
+import type { CatalogItem } from "@/app/types"
+import { CATALOG_UNITS, CATALOG_UNIT_LABELS, formatCatalogRate, type CatalogUnit } from "@/lib/catalog"
+
+interface ItemFormState {
+  name: string
+  unit: CatalogUnit
+  defaultRate: string
+  defaultNote: string
+  serviceCategory: string
+  hsnSac: string
+  isActive: boolean
+}
+
+const EMPTY_FORM: ItemFormState = {
+  name: "",
+  unit: "sqft",
+  defaultRate: "",
+  defaultNote: "",
+  serviceCategory: services[0]?.slug || "",
+  hsnSac: "",
+  isActive: true,
+}
+
+const serviceTitle = (slug: string) => services.find((service) => service.slug === slug)?.title || slug
+
+export default function RateCardManager() {
+  const [items, setItems] = useState<CatalogItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState("")
+  const [category, setCategory] = useState("all")
+  const [showInactive, setShowInactive] = useState(false)
+  const deferredSearch = useDeferredValue(search.trim())
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<CatalogItem | null>(null)
+  const [form, setForm] = useState<ItemFormState>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [historyItem, setHistoryItem] = useState<CatalogItem | null>(null)
+  const [deleteItem, setDeleteItem] = useState<CatalogItem | null>(null)
+
+  const fetchItems = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ category, limit: "200" })
+      if (deferredSearch) params.set("search", deferredSearch)
+      if (showInactive) params.set("includeInactive", "true")
+      const data = await apiFetch<{ items: CatalogItem[] }>(`/catalog?${params.toString()}`)
+      setItems(data.items || [])
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load rate card")
+    } finally {
+      setLoading(false)
+    }
+  }, [category, deferredSearch, showInactive])
+
+  useEffect(() => {
+    fetchItems()
+  }, [fetchItems])
+
+  const openCreate = () => {
+    setEditing(null)
+    setForm(EMPTY_FORM)
+    setFormOpen(true)
+  }
+
+  const openEdit = (item: CatalogItem) => {
+    setEditing(item)
+    setForm({
+      name: item.name,
+      unit: item.unit,
+      defaultRate: String(item.defaultRate),
+      defaultNote: item.defaultNote || "",
+      serviceCategory: item.serviceCategory,
+      hsnSac: item.hsnSac || "",
+      isActive: item.isActive,
+    })
+    setFormOpen(true)
+  }
+
+  const handleSave = async () => {
+    const defaultRate = Number(form.defaultRate)
+    if (!form.name.trim()) {
+      toast.error("Item name is required")
+      return
+    }
+    if (form.defaultRate === "" || Number.isNaN(defaultRate) || defaultRate < 0) {
+      toast.error("Enter a valid rate")
+      return
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      unit: form.unit,
+      defaultRate,
+      defaultNote: form.defaultNote.trim(),
+      serviceCategory: form.serviceCategory,
+      hsnSac: form.hsnSac.trim(),
+      isActive: form.isActive,
+    }
+
+    try {
+      setSaving(true)
+      if (editing) {
+        await apiFetch(`/catalog/${editing._id}`, { method: "PUT", body: JSON.stringify(payload) })
+        toast.success("Item updated")
+      } else {
+        await apiFetch("/catalog", { method: "POST", body: JSON.stringify(payload) })
+        toast.success("Item added to rate card")
+      }
+      setFormOpen(false)
+      fetchItems()
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save item")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteItem) return
+    try {
+      await apiFetch(`/catalog/${deleteItem._id}`, { method: "DELETE" })
+      toast.success("Item deleted")
+      setItems((prev) => prev.filter((item) => item._id !== deleteItem._id))
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete item")
+    } finally {
+      setDeleteItem(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="max-w-4xl mx-auto">
+        <div className="sticky top-0 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+          <div className="px-4 py-3 sm:px-6 sm:py-4 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                <Link href="/dashboard">
+                  <ArrowLeft className="h-4 w-4" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-lg sm:text-xl font-semibold text-foreground">Rate Card</h1>
+                <p className="text-xs text-muted-foreground">{items.length} items</p>
+              </div>
+            </div>
+            <Button size="sm" className="rounded-full gap-1.5" onClick={openCreate}>
+              <Plus className="h-4 w-4" />
+              Add Item
+            </Button>
+          </div>
+
+          <div className="px-4 pb-3 sm:px-6 flex flex-col gap-2 sm:flex-row sm:items-center">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search items..."
+                className="pl-9 rounded-full bg-muted/50"
+              />
+            </div>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="sm:w-44 rounded-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All services</SelectItem>
+                {services.map((service) => (
+                  <SelectItem key={service.slug} value={service.slug}>
+                    {service.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Switch checked={showInactive} onCheckedChange={setShowInactive} />
+              Show inactive
+            </label>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-3">
+          {loading ? (
+            [1, 2, 3].map((i) => (
+              <div key={i} className="bg-background rounded-xl p-5 border border-border/50 space-y-3">
+                <Skeleton className="h-4 w-48" />
+                <Skeleton className="h-3 w-32" />
+              </div>
+            ))
+          ) : items.length === 0 ? (
+            <div className="bg-background rounded-2xl border-2 border-dashed border-border/70 p-12 text-center">
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-5">
+                <BookOpenCheck className="h-8 w-8 text-primary" />
+              </div>
+              <h3 className="text-xl font-semibold text-foreground mb-2">No Items Found</h3>
+              <p className="text-muted-foreground text-sm max-w-sm mx-auto">
+                Add the work you quote regularly so it can be picked in quotations and projects.
+              </p>
+            </div>
+          ) : (
+            items.map((item) => (
+              <div
+                key={item._id}
+                className={`bg-background rounded-xl border border-border/50 p-4 sm:p-5 ${item.isActive ? "" : "opacity-60"}`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium text-foreground">{item.name}</p>
+                    {item.defaultNote && <p className="text-sm text-muted-foreground">{item.defaultNote}</p>}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="secondary" className="text-xs">
+                        {serviceTitle(item.serviceCategory)}
+                      </Badge>
+                      {item.hsnSac && (
+                        <Badge variant="outline" className="font-mono text-xs">
+                          HSN/SAC {item.hsnSac}
+                        </Badge>
+                      )}
+                      {!item.isActive && (
+                        <Badge variant="outline" className="text-xs">
+                          Inactive
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-end gap-2 shrink-0">
+                    <span className="font-mono text-sm font-semibold">{formatCatalogRate(item)}</span>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setHistoryItem(item)}
+                        aria-label="Rate history"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => openEdit(item)}
+                        aria-label="Edit item"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setDeleteItem(item)}
+                        aria-label="Delete item"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Item" : "Add Item"}</DialogTitle>
+            <DialogDescription>
+              {editing ? "Changing the rate records it in the item's rate history." : "Add a work item to the rate card."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2 sm:col-span-2">
+              <Label>Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Asian Paints Royale 2 coats"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Service</Label>
+              <Select value={form.serviceCategory} onValueChange={(value) => setForm({ ...form, serviceCategory: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {services.map((service) => (
+                    <SelectItem key={service.slug} value={service.slug}>
+                      {service.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={form.unit} onValueChange={(value) => setForm({ ...form, unit: value as CatalogUnit })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATALOG_UNITS.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {CATALOG_UNIT_LABELS[unit]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Default Rate (₹)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={form.defaultRate}
+                onChange={(e) => setForm({ ...form, defaultRate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>HSN/SAC</Label>
+              <Input
+                value={form.hsnSac}
+                onChange={(e) => setForm({ ...form, hsnSac: e.target.value })}
+                placeholder="e.g. 995473"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label>Default Note</Label>
+              <Input
+                value={form.defaultNote}
+                onChange={(e) => setForm({ ...form, defaultNote: e.target.value })}
+                placeholder="Shown under the line item"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm sm:col-span-2">
+              <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+              Available in the item editors
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyItem} onOpenChange={(open) => !open && setHistoryItem(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rate History</DialogTitle>
+            <DialogDescription>{historyItem?.name}</DialogDescription>
+          </DialogHeader>
+          <div className="divide-y divide-border/50 max-h-80 overflow-y-auto">
+            {[...(historyItem?.rateHistory || [])].reverse().map((change, index, history) => {
+              const previous = history[index + 1]
+              const delta = previous ? change.rate - previous.rate : 0
+              return (
+                <div key={change._id || index} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-muted-foreground">{new Date(change.changedAt).toLocaleDateString()}</span>
+                  <div className="flex items-center gap-3">
+                    {previous && (
+                      <span className={`text-xs ${delta > 0 ? "text-emerald-600" : "text-destructive"}`}>
+                        {delta > 0 ? "+" : "-"}₹{Math.abs(delta).toLocaleString("en-IN")}
+                      </span>
+                    )}
+                    <span className="font-mono">₹{change.rate.toLocaleString("en-IN")}</span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteItem} onOpenChange={(open) => !open && setDeleteItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this item?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deleteItem?.name}&quot; and its rate history will be removed. Quotations and projects that already
+              use it are not changed. Mark it inactive instead to keep the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  ArrowLeft,
+  Briefcase,
+  FileText,
+  Mail,
+  MapPin,
+  Pencil,
+  Phone,
+  Receipt,
+  Star,
+  Trash2,
+  User,
+} from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { apiFetch } from "@/app/lib/api"
+import type { ClientDetail as ClientDetailData } from "@/app/types"
+import { formatClientPhone } from "@/lib/clients"
+import { PROJECT_STATUS_LABELS } from "@/lib/project-status"
+import { ClientFormDialog } from "@/components/clients/ClientFormDialog"
+
+const formatAmount = (value?: number) => `₹${(value || 0).toLocaleString("en-IN")}`
+const formatDate = (value: string | Date) => new Date(value).toLocaleDateString("en-IN")
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  accepted: "default",
+  work_complete: "default",
+  handed_over: "default",
+  pending: "secondary",
+  scheduled: "secondary",
+  in_progress: "secondary",
+  rejected: "destructive",
+  cancelled: "destructive",
+  expired: "outline",
+  on_hold: "outline",
+}
+
+function Section({ title, icon, count, children }: { title: string; icon: React.ReactNode; count: number; children: React.ReactNode }) {
+  return (
+    <Card className="overflow-hidden border-0 bg-card shadow-sm">
+      <div className="flex items-center justify-between border-b bg-muted/30 px-4 py-3 sm:px-6">
+        <h3 className="flex items-center gap-2 font-semibold">
+          <div className="flex h-7 w-7 items-center justify-center rounded-lg bg-primary/10">{icon}</div>
+          {title}
+        </h3>
+        <Badge variant="secondary">{count}</Badge>
+      </div>
+      <CardContent className="p-0">
+        {count === 0 ? <p className="px-4 py-6 text-center text-sm text-muted-foreground sm:px-6">None yet</p> : children}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function ClientDetail({ clientId }: { clientId: string }) {
+  const router = useRouter()
+  const [data, setData] = useState<ClientDetailData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [editOpen, setEditOpen] = useState(false)
+
+  const fetchClient = useCallback(async () => {
+    try {
+      setData(await apiFetch<ClientDetailData>(`/clients/${clientId}`))
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to load client")
+    } finally {
+      setLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchClient()
+  }, [fetchClient])
+
+  const handleDelete = async () => {
+    if (!data || !confirm(`Delete the client "${data.client.name}"?`)) return
+    try {
+      await apiFetch(`/clients/${clientId}`, { method: "DELETE" })
+      toast.success("Client deleted")
+      router.push("/dashboard/clients")
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete client")
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-4xl mx-auto p-4 sm:p-6 space-y-4">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-32 w-full rounded-xl" />
+        <Skeleton className="h-48 w-full rounded-xl" />
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 text-center text-muted-foreground">
+        Client not found.{" "}
+        <Link href="/dashboard/clients" className="text-primary underline">
+          Back to clients
+        </Link>
+      </div>
+    )
+  }
+
+  const { client, summary, quotations, projects, invoices, reviews } = data
+  const hasRecords = quotations.length + projects.length + invoices.length > 0
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="max-w-4xl mx-auto">
+        <div className="sticky top-0 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+          <div className="px-4 py-3 sm:px-6 sm:py-4 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                <Link href="/dashboard/clients">
+                  <ArrowLeft className="h-4 w-4" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-lg sm:text-xl font-semibold text-foreground">{client.name}</h1>
+                <p className="text-xs text-muted-foreground">Client since {formatDate(client.createdAt)}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="sm" className="rounded-full gap-1.5" onClick={() => setEditOpen(true)}>
+                <Pencil className="h-4 w-4" />
+                Edit
+              </Button>
+              {!hasRecords && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={handleDelete}
+                  aria-label="Delete client"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {[
+              { label: "Quotations", value: String(summary.quotationCount) },
+              { label: "Projects", value: String(summary.projectCount) },
+              { label: "Billed", value: formatAmount(summary.billed) },
+              { label: "Outstanding", value: formatAmount(summary.outstanding) },
+            ].map((stat) => (
+              <div key={stat.label} className="bg-background rounded-xl border border-border/50 p-4">
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+                <p className="mt-1 font-mono text-lg font-semibold">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <Card className="overflow-hidden border-0 bg-card shadow-sm">
+            <div className="border-b bg-muted/30 px-4 py-3 sm:px-6">
+              <h3 className="flex items-center gap-2 font-semibold">
+                <div className="flex h-7 w-7 items-center justify-center rounded-lg bg-primary/10">
+                  <User className="h-3.5 w-3.5 text-primary" />
+                </div>
+                Details
+              </h3>
+            </div>
+            <CardContent className="space-y-3 p-4 sm:p-6 text-sm">
+              <p className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                {formatClientPhone(client.phone)}
+              </p>
+              {client.email && (
+                <p className="flex items-center gap-2">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                  {client.email}
+                </p>
+              )}
+              {client.gstNumber && <p className="font-mono text-xs text-muted-foreground">GSTIN {client.gstNumber}</p>}
+              {client.sites.map((site, index) => (
+                <div key={site._id || index} className="flex items-start gap-2">
+                  <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">{site.label}</p>
+                    <p className="text-muted-foreground whitespace-pre-line">{site.address}</p>
+                  </div>
+                </div>
+              ))}
+              {client.contacts.length > 0 && (
+                <div className="border-t pt-3 space-y-1">
+                  {client.contacts.map((contact, index) => (
+                    <p key={contact._id || index} className="text-muted-foreground">
+                      <span className="text-foreground">{contact.name}</span>
+                      {contact.role && ` (${contact.role})`} · {formatClientPhone(contact.phone)}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {client.notes && <p className="border-t pt-3 text-muted-foreground whitespace-pre-line">{client.notes}</p>}
+            </CardContent>
+          </Card>
+
+          <Section title="Quotations" icon={<FileText className="h-3.5 w-3.5 text-primary" />} count={quotations.length}>
+            <div className="divide-y">
+              {quotations.map((quotation) => (
+                <Link
+                  key={quotation.quotationNumber}
+                  href={`/dashboard/quotations/${quotation.quotationNumber}`}
+                  className="flex items-center justify-between gap-3 px-4 py-3 hover:bg-muted/30 sm:px-6"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">#{quotation.quotationNumber}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {formatDate(quotation.date)} · {quotation.clientAddress}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <span className="font-mono text-sm">{formatAmount(quotation.grandTotal)}</span>
+                    <Badge variant={STATUS_VARIANTS[quotation.isAccepted] || "outline"} className="capitalize">
+                      {quotation.isAccepted}
+                    </Badge>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </Section>
+
+          <Section title="Projects" icon={<Briefcase className="h-3.5 w-3.5 text-primary" />} count={projects.length}>
+            <div className="divide-y">
+              {projects.map((project) => (
+                <Link
+                  key={project.projectId}
+                  href={`/dashboard/projects/${project.projectId}`}
+                  className="flex items-center justify-between gap-3 px-4 py-3 hover:bg-muted/30 sm:px-6"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">#{project.projectId}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {formatDate(project.date)} · {project.clientAddress}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <span className="font-mono text-sm">{formatAmount(project.grandTotal)}</span>
+                    <Badge variant={STATUS_VARIANTS[project.status] || "outline"}>
+                      {PROJECT_STATUS_LABELS[project.status] || project.status}
+                    </Badge>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </Section>
+
+          <Section title="Invoices" icon={<Receipt className="h-3.5 w-3.5 text-primary" />} count={invoices.length}>
+            <div className="divide-y">
+              {invoices.map((invoice) => (
+                <Link
+                  key={invoice.invoiceId}
+                  href={`/dashboard/invoices/${invoice.invoiceId}`}
+                  className="flex items-center justify-between gap-3 px-4 py-3 hover:bg-muted/30 sm:px-6"
+                >
+                  <div>
+                    <p className="text-sm font-medium">#{invoice.invoiceId}</p>
+                    <p className="text-xs text-muted-foreground">{formatDate(invoice.date)}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-mono text-sm">{formatAmount(invoice.grandTotal)}</p>
+                    {(invoice.amountDue || 0) > 0 && (
+                      <p className="font-mono text-xs text-destructive">{formatAmount(invoice.amountDue)} due</p>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </Section>
+
+          <Section title="Reviews" icon={<Star className="h-3.5 w-3.5 text-primary" />} count={reviews.length}>
+            <div className="divide-y">
+              {reviews.map((review) => (
+                <div key={review._id} className="space-y-1 px-4 py-3 sm:px-6">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-sm font-medium">
+                      {"★".repeat(review.rating)}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground capitalize">
+                        {review.serviceType.replace(/-/g, " ")}
+                      </span>
+                    </p>
+                    <Badge variant={review.status === "approved" ? "default" : "outline"} className="capitalize">
+                      {review.status}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{review.comment}</p>
+                </div>
+              ))}
+            </div>
+          </Section>
+        </div>
+      </div>
+
+      <ClientFormDialog open={editOpen} onOpenChange={setEditOpen} client={client} onSaved={() => fetchClient()} />
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { apiFetch } from "@/app/lib/api"
+import type { Client, ClientContact, ClientSite } from "@/app/types"
+
+interface ClientFormState {
+  name: string
+  phone: string
+  email: string
+  gstNumber: string
+  notes: string
+  sites: ClientSite[]
+  contacts: ClientContact[]
+}
+
+const EMPTY_FORM: ClientFormState = {
+  name: "",
+  phone: "",
+  email: "",
+  gstNumber: "",
+  notes: "",
+  sites: [{ label: "Site 1", address: "" }],
+  contacts: [],
+}
+
+interface ClientFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  client?: Client | null
+  onSaved: (client: Client) => void
+}
+
+export function ClientFormDialog({ open, onOpenChange, client, onSaved }: ClientFormDialogProps) {
+  const [form, setForm] = useState<ClientFormState>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setForm(
+      client
+        ? {
+            name: client.name,
+            phone: client.phone,
+            email: client.email || "",
+            gstNumber: client.gstNumber || "",
+            notes: client.notes || "",
+            sites: client.sites.map(({ label, address }) => ({ label, address })),
+            contacts: client.contacts.map(({ name, phone, role }) => ({ name, phone, role: role || "" })),
+          }
+        : EMPTY_FORM,
+    )
+  }, [open, client])
+
+  const updateSite = (index: number, patch: Partial<ClientSite>) =>
+    setForm({ ...form, sites: form.sites.map((site, i) => (i === index ? { ...site, ...patch } : site)) })
+
+  const updateContact = (index: number, patch: Partial<ClientContact>) =>
+    setForm({
+      ...form,
+      contacts: form.contacts.map((contact, i) => (i === index ? { ...contact, ...patch } : contact)),
+    })
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Client name is required")
+      return
+    }
+    if (!form.phone.trim()) {
+      toast.error("Phone number is required")
+      return
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      email: form.email.trim(),
+      gstNumber: form.gstNumber.trim().toUpperCase(),
+      notes: form.notes.trim(),
+      sites: form.sites
+        .filter((site) => site.address.trim())
+        .map((site, index) => ({ label: site.label.trim() || `Site ${index + 1}`, address: site.address.trim() })),
+      contacts: form.contacts
+        .filter((contact) => contact.name.trim() && contact.phone.trim())
+        .map((contact) => ({ name: contact.name.trim(), phone: contact.phone.trim(), role: contact.role?.trim() })),
+    }
+
+    try {
+      setSaving(true)
+      const data = client
+        ? await apiFetch<{ client: Client }>(`/clients/${client._id}`, { method: "PUT", body: JSON.stringify(payload) })
+        : await apiFetch<{ client: Client }>("/clients", { method: "POST", body: JSON.stringify(payload) })
+      toast.success(client ? "Client updated" : "Client added")
+      onSaved(data.client)
+      onOpenChange(false)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save client")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{client ? "Edit Client" : "Add Client"}</DialogTitle>
+          <DialogDescription>
+            {client
+              ? "Quotations and projects keep the details they were issued with."
+              : "One record per phone number. Extra numbers go under contacts."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2 sm:col-span-2">
+            <Label>Name</Label>
+            <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Phone</Label>
+            <Input
+              value={form.phone}
+              onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              placeholder="+91 98765 43210"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Email</Label>
+            <Input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label>GSTIN</Label>
+            <Input
+              value={form.gstNumber}
+              onChange={(e) => setForm({ ...form, gstNumber: e.target.value })}
+              className="font-mono uppercase"
+            />
+          </div>
+
+          <div className="space-y-2 sm:col-span-2">
+            <div className="flex items-center justify-between">
+              <Label>Sites</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 px-2 text-xs"
+                onClick={() =>
+                  setForm({ ...form, sites: [...form.sites, { label: `Site ${form.sites.length + 1}`, address: "" }] })
+                }
+              >
+                <Plus className="h-3 w-3" />
+                Site
+              </Button>
+            </div>
+            {form.sites.map((site, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <Input
+                  value={site.label}
+                  onChange={(e) => updateSite(index, { label: e.target.value })}
+                  placeholder="Label"
+                  className="w-28 shrink-0"
+                />
+                <Textarea
+                  value={site.address}
+                  onChange={(e) => updateSite(index, { address: e.target.value })}
+                  placeholder="Address"
+                  className="min-h-[40px] resize-none"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 shrink-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => setForm({ ...form, sites: form.sites.filter((_, i) => i !== index) })}
+                  aria-label="Remove site"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 sm:col-span-2">
+            <div className="flex items-center justify-between">
+              <Label>Other Contacts</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 px-2 text-xs"
+                onClick={() => setForm({ ...form, contacts: [...form.contacts, { name: "", phone: "", role: "" }] })}
+              >
+                <Plus className="h-3 w-3" />
+                Contact
+              </Button>
+            </div>
+            {form.contacts.map((contact, index) => (
+              <div key={index} className="grid grid-cols-12 items-center gap-2">
+                <Input
+                  value={contact.name}
+                  onChange={(e) => updateContact(index, { name: e.target.value })}
+                  placeholder="Name"
+                  className="col-span-4"
+                />
+                <Input
+                  value={contact.phone}
+                  onChange={(e) => updateContact(index, { phone: e.target.value })}
+                  placeholder="Phone"
+                  className="col-span-4"
+                />
+                <Input
+                  value={contact.role || ""}
+                  onChange={(e) => updateContact(index, { role: e.target.value })}
+                  placeholder="Role"
+                  className="col-span-3"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="col-span-1 h-9 w-9 text-muted-foreground hover:text-destructive"
+                  onClick={() => setForm({ ...form, contacts: form.contacts.filter((_, i) => i !== index) })}
+                  aria-label="Remove contact"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2 sm:col-span-2">
+            <Label>Notes</Label>
+            <Textarea
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="min-h-[60px] resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {client ? "Save Changes" : "Add Client"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,177 @@
+"use client"
+
+import { useCallback, useDeferredValue, useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Contact, Loader2, MapPin, Phone, Plus, Search } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { apiFetch } from "@/app/lib/api"
+import type { Client } from "@/app/types"
+import { formatClientPhone } from "@/lib/clients"
+import { ClientFormDialog } from "@/components/clients/ClientFormDialog"
+
+interface ClientsResponse {
+  clients: Client[]
+  total: number
+  page: number
+  pages: number
+}
+
+export default function ClientList() {
+  const [clients, setClients] = useState<Client[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [search, setSearch] = useState("")
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [formOpen, setFormOpen] = useState(false)
+  const deferredSearch = useDeferredValue(search.trim())
+
+  const fetchClients = useCallback(
+    async (pageToLoad: number) => {
+      try {
+        const params = new URLSearchParams({ page: String(pageToLoad), limit: "20" })
+        if (deferredSearch) params.set("search", deferredSearch)
+        const data = await apiFetch<ClientsResponse>(`/clients?${params.toString()}`)
+        setClients((prev) => (pageToLoad === 1 ? data.clients : [...prev, ...data.clients]))
+        setPage(data.page)
+        setPages(data.pages)
+        setTotal(data.total)
+      } catch (error: unknown) {
+        toast.error(error instanceof Error ? error.message : "Failed to load clients")
+      } finally {
+        setLoading(false)
+        setLoadingMore(false)
+      }
+    },
+    [deferredSearch],
+  )
+
+  useEffect(() => {
+    fetchClients(1)
+  }, [fetchClients])
+
+  const loadMore = () => {
+    setLoadingMore(true)
+    fetchClients(page + 1)
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="max-w-4xl mx-auto">
+        <div className="sticky top-0 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+          <div className="px-4 py-3 sm:px-6 sm:py-4 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                <Link href="/dashboard">
+                  <ArrowLeft className="h-4 w-4" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-lg sm:text-xl font-semibold text-foreground">Clients</h1>
+                <p className="text-xs text-muted-foreground">{total} clients</p>
+              </div>
+            </div>
+            <Button size="sm" className="rounded-full gap-1.5" onClick={() => setFormOpen(true)}>
+              <Plus className="h-4 w-4" />
+              Add Client
+            </Button>
+          </div>
+
+          <div className="px-4 pb-3 sm:px-6">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name, phone or address..."
+                className="pl-9 rounded-full bg-muted/50"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-3">
+          {loading ? (
+            [1, 2, 3].map((i) => (
+              <div key={i} className="bg-background rounded-xl p-5 border border-border/50 space-y-3">
+                <Skeleton className="h-4 w-48" />
+                <Skeleton className="h-3 w-32" />
+              </div>
+            ))
+          ) : clients.length === 0 ? (
+            <div className="bg-background rounded-2xl border-2 border-dashed border-border/70 p-12 text-center">
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-5">
+                <Contact className="h-8 w-8 text-primary" />
+              </div>
+              <h3 className="text-xl font-semibold text-foreground mb-2">No Clients Found</h3>
+              <p className="text-muted-foreground text-sm max-w-sm mx-auto">
+                Clients are added automatically when you save a quotation, or you can add one here.
+              </p>
+            </div>
+          ) : (
+            <>
+              {clients.map((client) => (
+                <Link
+                  key={client._id}
+                  href={`/dashboard/clients/${client._id}`}
+                  className="block bg-background rounded-xl border border-border/50 p-4 sm:p-5 hover:border-primary/40 transition-colors"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <p className="font-medium text-foreground">{client.name}</p>
+                      <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                        <Phone className="h-3.5 w-3.5" />
+                        {formatClientPhone(client.phone)}
+                      </p>
+                      {client.sites[0] && (
+                        <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                          <MapPin className="h-3.5 w-3.5 shrink-0" />
+                          <span className="truncate">{client.sites[0].address}</span>
+                          {client.sites.length > 1 && (
+                            <Badge variant="secondary" className="text-[10px]">
+                              +{client.sites.length - 1}
+                            </Badge>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                    {client.summary && (
+                      <div className="shrink-0 text-right text-xs text-muted-foreground space-y-1">
+                        <p>
+                          {client.summary.quotationCount} quotations · {client.summary.projectCount} projects
+                        </p>
+                        <p className="font-mono text-sm text-foreground">
+                          ₹{client.summary.billed.toLocaleString("en-IN")}
+                        </p>
+                        {client.summary.outstanding > 0 && (
+                          <p className="font-mono text-destructive">
+                            ₹{client.summary.outstanding.toLocaleString("en-IN")} due
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </Link>
+              ))}
+              {page < pages && (
+                <div className="flex justify-center pt-2">
+                  <Button variant="outline" size="sm" className="rounded-full" onClick={loadMore} disabled={loadingMore}>
+                    {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <ClientFormDialog open={formOpen} onOpenChange={setFormOpen} onSaved={() => fetchClients(1)} />
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { useDeferredValue, useEffect, useState } from "react"
+import { ArrowLeft, Contact, Loader2, MapPin, Search } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { apiFetch } from "@/app/lib/api"
+import type { Client, ClientSite } from "@/app/types"
+import { formatClientPhone } from "@/lib/clients"
+
+interface ClientPickerProps {
+  onSelect: (client: Client, site?: ClientSite) => void
+  className?: string
+}
+
+export function ClientPicker({ onSelect, className }: ClientPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [clients, setClients] = useState<Client[]>([])
+  const [loading, setLoading] = useState(false)
+  const [picked, setPicked] = useState<Client | null>(null)
+  const deferredSearch = useDeferredValue(search.trim())
+
+  useEffect(() => {
+    if (!open) return
+    const controller = new AbortController()
+    const params = new URLSearchParams({ limit: "20" })
+    if (deferredSearch) params.set("search", deferredSearch)
+
+    setLoading(true)
+    apiFetch<{ clients: Client[] }>(`/clients?${params.toString()}`, { signal: controller.signal })
+      .then((data) => setClients(data.clients || []))
+      .catch(() => {
+        if (!controller.signal.aborted) toast.error("Failed to load clients")
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [open, deferredSearch])
+
+  const finish = (client: Client, site?: ClientSite) => {
+    onSelect(client, site)
+    setOpen(false)
+    setPicked(null)
+  }
+
+  const handleClient = (client: Client) => {
+    // Several sites: ask which one this job is for
+    if (client.sites.length > 1) {
+      setPicked(client)
+      return
+    }
+    finish(client, client.sites[0])
+  }
+
+  return (
+    <>
+      <Button type="button" variant="outline" size="sm" onClick={() => setOpen(true)} className={className}>
+        <Contact className="h-4 w-4" />
+        Existing Client
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          setOpen(value)
+          if (!value) setPicked(null)
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{picked ? picked.name : "Select Client"}</DialogTitle>
+            <DialogDescription>
+              {picked ? "Which site is this for?" : "Fills in the client's name, number and site address."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {picked ? (
+            <>
+              <div className="max-h-80 overflow-y-auto divide-y rounded-lg border">
+                {picked.sites.map((site, index) => (
+                  <button
+                    key={site._id || index}
+                    type="button"
+                    className="flex w-full items-start gap-3 px-3 py-2.5 text-left hover:bg-muted/50"
+                    onClick={() => finish(picked, site)}
+                  >
+                    <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{site.label}</p>
+                      <p className="text-xs text-muted-foreground">{site.address}</p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+              <Button type="button" variant="ghost" size="sm" className="w-fit gap-1.5" onClick={() => setPicked(null)}>
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+            </>
+          ) : (
+            <>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by name, phone or address..."
+                  className="pl-9"
+                  autoFocus
+                />
+              </div>
+
+              <div className="max-h-80 overflow-y-auto divide-y rounded-lg border">
+                {loading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : clients.length === 0 ? (
+                  <p className="py-8 text-center text-sm text-muted-foreground">No clients found</p>
+                ) : (
+                  clients.map((client) => (
+                    <button
+                      key={client._id}
+                      type="button"
+                      className="w-full px-3 py-2.5 text-left hover:bg-muted/50"
+                      onClick={() => handleClient(client)}
+                    >
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="text-sm font-medium">{client.name}</p>
+                        <span className="font-mono text-xs text-muted-foreground">{formatClientPhone(client.phone)}</span>
+                      </div>
+                      <p className="mt-0.5 truncate text-xs text-muted-foreground">
+                        {client.sites.length > 1
+                          ? `${client.sites.length} sites`
+                          : client.sites[0]?.address || "No site address"}
+                      </p>
+                    </button>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -4,7 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Settings, Save, Edit2, Loader2, Building2, FileText, Phone, MapPin, BadgePercent, Upload, ImageIcon } from "lucide-react";
+import { Settings, Save, Edit2, Loader2, Building2, FileText, Phone, MapPin, BadgePercent, Upload, ImageIcon, BellRing, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { z } from "zod";
 import { Input } from "@/components/ui/input";
@@ -15,6 +15,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import Image from "next/image";
 import { updateGeneralInfoSchema } from "@/lib/validators";
 import { apiFetch, getGeneralInfo } from "@/app/lib/api";
+import { DEFAULT_REMINDER_DAYS, normalizeReminderDays } from "@/lib/quotation-expiry";
+import { DEFAULT_PAYMENT_REMINDER_DAYS, DEFAULT_PAYMENT_TERMS_DAYS, normalizePaymentReminderDays } from "@/lib/receivables";
 import type { GeneralInfo, ApiError } from "@/app/types";
 import {
   Dialog,
@@ -26,6 +28,7 @@ import {
 } from "@/components/ui/dialog";
 
 type FormData = z.infer<typeof updateGeneralInfoSchema>;
+type SettingsSection = "identity" | "tax" | "contact" | "terms" | "followups" | "payments";
 
 // Helper component for read-only fields
 const ReadOnlyRow = ({
@@ -56,7 +59,7 @@ export default function GeneralInfoForm() {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [generalInfo, setGeneralInfo] = useState<GeneralInfo | null>(null);
-  const [activeDialog, setActiveDialog] = useState<"identity" | "tax" | "contact" | "terms" | null>(null);
+  const [activeDialog, setActiveDialog] = useState<SettingsSection | null>(null);
 
   // Form for editing
   const { control, handleSubmit, formState: { errors, isSubmitting }, reset } = useForm<FormData>({
@@ -85,7 +88,7 @@ export default function GeneralInfoForm() {
     fetchData();
   }, []);
 
-  const openEditDialog = (section: "identity" | "tax" | "contact" | "terms") => {
+  const openEditDialog = (section: SettingsSection) => {
     if (!generalInfo) return;
 
     // Reset form with current values so validation passes
@@ -97,6 +100,9 @@ export default function GeneralInfoForm() {
       mobileNumber1: generalInfo.mobileNumber1 || "",
       mobileNumber2: generalInfo.mobileNumber2 || "",
       address: generalInfo.address || "",
+      quotationReminderDays: generalInfo.quotationReminderDays ?? DEFAULT_REMINDER_DAYS,
+      paymentTermsDays: generalInfo.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS,
+      paymentReminderDays: generalInfo.paymentReminderDays ?? DEFAULT_PAYMENT_REMINDER_DAYS,
     });
 
     // Maintain logo preview state but clear file input
@@ -137,6 +143,9 @@ export default function GeneralInfoForm() {
         formData.append("mobileNumber2", data.mobileNumber2);
       }
       formData.append("address", data.address || "");
+      formData.append("quotationReminderDays", JSON.stringify(normalizeReminderDays(data.quotationReminderDays)));
+      formData.append("paymentTermsDays", String(data.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS));
+      formData.append("paymentReminderDays", JSON.stringify(normalizePaymentReminderDays(data.paymentReminderDays)));
 
       await apiFetch<GeneralInfo>("/general-info", {
         method: "PUT",
@@ -318,6 +327,61 @@ export default function GeneralInfoForm() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Quotation Follow-ups */}
+        <Card className="border-0 shadow-md sm:border sm:border-gray-100 bg-white overflow-hidden md:col-span-2">
+          <CardHeader className="bg-gray-50/40 pb-4 border-b flex flex-row items-center justify-between">
+            <CardTitle className="text-base font-semibold flex items-center gap-2">
+              <BellRing className="h-4 w-4 text-primary" /> Quotation Follow-ups
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={() => openEditDialog("followups")} className="h-8 text-xs text-primary hover:bg-primary/5">
+              <Edit2 className="h-3.5 w-3.5 mr-1.5" /> Edit
+            </Button>
+          </CardHeader>
+          <CardContent className="p-4">
+            <ReadOnlyRow
+              label="WhatsApp reminders before expiry"
+              value={
+                (generalInfo.quotationReminderDays ?? DEFAULT_REMINDER_DAYS).length > 0
+                  ? (generalInfo.quotationReminderDays ?? DEFAULT_REMINDER_DAYS)
+                    .map((day) => `${day} day${day === 1 ? "" : "s"}`)
+                    .join(", ")
+                  : "Off"
+              }
+              icon={BellRing}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Payment Terms */}
+        <Card className="border-0 shadow-md sm:border sm:border-gray-100 bg-white overflow-hidden md:col-span-2">
+          <CardHeader className="bg-gray-50/40 pb-4 border-b flex flex-row items-center justify-between">
+            <CardTitle className="text-base font-semibold flex items-center gap-2">
+              <CalendarClock className="h-4 w-4 text-primary" /> Payment Terms
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={() => openEditDialog("payments")} className="h-8 text-xs text-primary hover:bg-primary/5">
+              <Edit2 className="h-3.5 w-3.5 mr-1.5" /> Edit
+            </Button>
+          </CardHeader>
+          <CardContent className="p-4 grid gap-2 sm:grid-cols-2">
+            <ReadOnlyRow
+              label="Invoices due after"
+              value={`${generalInfo.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS} days`}
+              icon={CalendarClock}
+            />
+            <ReadOnlyRow
+              label="WhatsApp reminders after due date"
+              value={
+                (generalInfo.paymentReminderDays ?? DEFAULT_PAYMENT_REMINDER_DAYS).length > 0
+                  ? (generalInfo.paymentReminderDays ?? DEFAULT_PAYMENT_REMINDER_DAYS)
+                    .map((day) => `${day} day${day === 1 ? "" : "s"}`)
+                    .join(", ")
+                  : "Off"
+              }
+              icon={BellRing}
+            />
+          </CardContent>
+        </Card>
       </div>
 
       {/* Unified Edit Dialog */}
@@ -331,6 +395,8 @@ export default function GeneralInfoForm() {
               {activeDialog === "tax" && <><BadgePercent className="h-4 w-4 text-primary" /> Tax Information</>}
               {activeDialog === "contact" && <><Phone className="h-4 w-4 text-primary" /> Contact Details</>}
               {activeDialog === "terms" && <><FileText className="h-4 w-4 text-primary" /> Terms & Conditions</>}
+              {activeDialog === "followups" && <><BellRing className="h-4 w-4 text-primary" /> Quotation Follow-ups</>}
+              {activeDialog === "payments" && <><CalendarClock className="h-4 w-4 text-primary" /> Payment Terms</>}
             </DialogTitle>
             <DialogDescription className="text-xs">
               Make changes to your settings below.
@@ -472,6 +538,99 @@ export default function GeneralInfoForm() {
                   {errors.termsAndConditions && <p className="text-[11px] text-red-500 font-medium">{errors.termsAndConditions.message}</p>}
                 </div>
               )}
+
+              {activeDialog === "followups" && (
+                <div className="space-y-2">
+                  <Label htmlFor="quotationReminderDays" className="text-xs font-semibold text-muted-foreground uppercase">Reminder Days Before Expiry</Label>
+                  <Controller
+                    control={control}
+                    name="quotationReminderDays"
+                    render={({ field }) => (
+                      <Input
+                        id="quotationReminderDays"
+                        defaultValue={field.value?.join(", ") ?? ""}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.value
+                              .split(",")
+                              .map((day) => day.trim())
+                              .filter((day) => day)
+                              .map(Number)
+                          )
+                        }
+                        placeholder="e.g. 3, 1"
+                        className="h-9"
+                      />
+                    )}
+                  />
+                  <p className="text-[11px] text-muted-foreground">
+                    Comma-separated. Pending quotations with a validity get a WhatsApp reminder on each of these days; leave empty to turn reminders off.
+                  </p>
+                  {errors.quotationReminderDays && (
+                    <p className="text-[11px] text-red-500 font-medium">
+                      {errors.quotationReminderDays.message || errors.quotationReminderDays[0]?.message || "Enter whole days between 1 and 365"}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {activeDialog === "payments" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentTermsDays" className="text-xs font-semibold text-muted-foreground uppercase">Payment Due (days after invoice date)</Label>
+                    <Controller
+                      control={control}
+                      name="paymentTermsDays"
+                      render={({ field }) => (
+                        <Input
+                          id="paymentTermsDays"
+                          type="number"
+                          min={0}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+                          className="h-9"
+                        />
+                      )}
+                    />
+                    <p className="text-[11px] text-muted-foreground">
+                      Applies to new invoices. Existing invoices keep the terms they were issued with.
+                    </p>
+                    {errors.paymentTermsDays && <p className="text-[11px] text-red-500 font-medium">{errors.paymentTermsDays.message}</p>}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentReminderDays" className="text-xs font-semibold text-muted-foreground uppercase">Reminder Days After Due Date</Label>
+                    <Controller
+                      control={control}
+                      name="paymentReminderDays"
+                      render={({ field }) => (
+                        <Input
+                          id="paymentReminderDays"
+                          defaultValue={field.value?.join(", ") ?? ""}
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value
+                                .split(",")
+                                .map((day) => day.trim())
+                                .filter((day) => day)
+                                .map(Number)
+                            )
+                          }
+                          placeholder="e.g. 1, 7, 15, 30"
+                          className="h-9"
+                        />
+                      )}
+                    />
+                    <p className="text-[11px] text-muted-foreground">
+                      Comma-separated. Clients with an unpaid balance get a WhatsApp reminder on each of these days past the due date; leave empty to turn reminders off.
+                    </p>
+                    {errors.paymentReminderDays && (
+                      <p className="text-[11px] text-red-500 font-medium">
+                        {errors.paymentReminderDays.message || errors.paymentReminderDays[0]?.message || "Enter whole days between 1 and 365"}
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
             </form>
           </div>
 
@@ -0,0 +1,242 @@
+"use client"
+
+import { Fragment, useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, ChevronDown, ChevronRight, Download, FileSpreadsheet, Hourglass } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { apiFetch } from "@/app/lib/api"
+import { generateAgeingReportPDF } from "@/app/lib/generate-pdf"
+import type { AgeingReport as AgeingReportData } from "@/app/types"
+import { AGEING_BUCKETS, AGEING_BUCKET_LABELS, type AgeingBucket } from "@/lib/receivables"
+
+const formatAmount = (value: number) => `₹${value.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`
+const formatDate = (value: string) => new Date(value).toLocaleDateString("en-IN")
+
+const BUCKET_STYLES: Record<AgeingBucket, string> = {
+  current: "text-muted-foreground",
+  "0-30": "text-amber-600",
+  "31-60": "text-orange-600",
+  "61-90": "text-red-600",
+  "90+": "text-red-700 font-semibold",
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function downloadCsv(report: AgeingReportData) {
+  const header = ["Client", "Phone", ...AGEING_BUCKETS.map((bucket) => AGEING_BUCKET_LABELS[bucket]), "Total", "Oldest (days overdue)"]
+  const rows = report.clients.map((client) => [
+    client.clientName,
+    client.clientNumber,
+    ...AGEING_BUCKETS.map((bucket) => client.buckets[bucket].toFixed(2)),
+    client.total.toFixed(2),
+    Math.max(0, client.oldestDaysOverdue),
+  ])
+  const totals = ["Total", "", ...AGEING_BUCKETS.map((bucket) => report.totals[bucket].toFixed(2)), report.totals.total.toFixed(2), ""]
+  const csv = [header, ...rows, totals].map((row) => row.map(csvCell).join(",")).join("\n")
+
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `receivables-ageing-${report.asOf.split("T")[0]}.csv`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function AgeingReport() {
+  const [report, setReport] = useState<AgeingReportData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  useEffect(() => {
+    apiFetch<AgeingReportData>("/invoices/ageing")
+      .then(setReport)
+      .catch((error: unknown) => toast.error(error instanceof Error ? error.message : "Failed to load ageing report"))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handlePdf = () => {
+    if (!report) return
+    try {
+      generateAgeingReportPDF(report)
+    } catch (error) {
+      console.error("Error generating ageing PDF:", error)
+      toast.error("Failed to generate PDF")
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="max-w-4xl mx-auto">
+        <div className="sticky top-0 z-40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+          <div className="px-4 py-3 sm:px-6 sm:py-4 flex items-center justify-between gap-2">
+            <div className="flex items-center gap-3">
+              <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                <Link href="/dashboard/invoices">
+                  <ArrowLeft className="h-4 w-4" />
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-lg sm:text-xl font-semibold text-foreground">Receivables Ageing</h1>
+                {report && (
+                  <p className="text-xs text-muted-foreground">
+                    As of {formatDate(report.asOf)} · {report.paymentTermsDays}-day terms
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="rounded-full gap-1.5"
+                onClick={() => report && downloadCsv(report)}
+                disabled={!report || report.clients.length === 0}
+              >
+                <FileSpreadsheet className="h-4 w-4" />
+                CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="rounded-full gap-1.5"
+                onClick={handlePdf}
+                disabled={!report || report.clients.length === 0}
+              >
+                <Download className="h-4 w-4" />
+                PDF
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          {loading ? (
+            <>
+              <Skeleton className="h-20 w-full rounded-xl" />
+              <Skeleton className="h-48 w-full rounded-xl" />
+            </>
+          ) : !report || report.clients.length === 0 ? (
+            <div className="bg-background rounded-2xl border-2 border-dashed border-border/70 p-12 text-center">
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-5">
+                <Hourglass className="h-8 w-8 text-primary" />
+              </div>
+              <h3 className="text-xl font-semibold text-foreground mb-2">Nothing Outstanding</h3>
+              <p className="text-muted-foreground text-sm max-w-sm mx-auto">Every invoice has been paid in full.</p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+                {AGEING_BUCKETS.map((bucket) => (
+                  <div key={bucket} className="bg-background rounded-xl border border-border/50 p-3">
+                    <p className="text-xs text-muted-foreground">{AGEING_BUCKET_LABELS[bucket]}</p>
+                    <p className={`mt-1 font-mono text-sm ${BUCKET_STYLES[bucket]}`}>{formatAmount(report.totals[bucket])}</p>
+                  </div>
+                ))}
+                <div className="bg-background rounded-xl border border-primary/30 p-3">
+                  <p className="text-xs text-muted-foreground">Total</p>
+                  <p className="mt-1 font-mono text-sm font-semibold">{formatAmount(report.totals.total)}</p>
+                </div>
+              </div>
+
+              <div className="bg-background rounded-xl border border-border/50 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/40 text-xs text-muted-foreground">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium">Client</th>
+                      {AGEING_BUCKETS.map((bucket) => (
+                        <th key={bucket} className="px-3 py-3 text-right font-medium whitespace-nowrap">
+                          {AGEING_BUCKET_LABELS[bucket]}
+                        </th>
+                      ))}
+                      <th className="px-4 py-3 text-right font-medium">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {report.clients.map((client) => {
+                      const isOpen = expanded === client.key
+                      return (
+                        <Fragment key={client.key}>
+                          <tr
+                            className="cursor-pointer hover:bg-muted/30"
+                            onClick={() => setExpanded(isOpen ? null : client.key)}
+                          >
+                            <td className="px-4 py-3">
+                              <div className="flex items-center gap-2">
+                                {isOpen ? (
+                                  <ChevronDown className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                ) : (
+                                  <ChevronRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                )}
+                                <div className="min-w-0">
+                                  {client.clientId ? (
+                                    <Link
+                                      href={`/dashboard/clients/${client.clientId}`}
+                                      className="font-medium hover:text-primary hover:underline"
+                                      onClick={(e) => e.stopPropagation()}
+                                    >
+                                      {client.clientName}
+                                    </Link>
+                                  ) : (
+                                    <p className="font-medium">{client.clientName}</p>
+                                  )}
+                                  <p className="text-xs text-muted-foreground">{client.clientNumber}</p>
+                                </div>
+                              </div>
+                            </td>
+                            {AGEING_BUCKETS.map((bucket) => (
+                              <td key={bucket} className={`px-3 py-3 text-right font-mono ${BUCKET_STYLES[bucket]}`}>
+                                {client.buckets[bucket] ? formatAmount(client.buckets[bucket]) : "-"}
+                              </td>
+                            ))}
+                            <td className="px-4 py-3 text-right font-mono font-semibold">{formatAmount(client.total)}</td>
+                          </tr>
+                          {isOpen &&
+                            client.invoices.map((invoice) => (
+                              <tr key={`${client.key}-${invoice.invoiceId}`} className="bg-muted/20 text-xs">
+                                <td className="py-2 pl-10 pr-4">
+                                  <Link
+                                    href={`/dashboard/invoices/${invoice.invoiceId}`}
+                                    className="font-mono hover:text-primary hover:underline"
+                                  >
+                                    #{invoice.invoiceId}
+                                  </Link>
+                                  <span className="ml-2 text-muted-foreground">due {formatDate(invoice.dueDate)}</span>
+                                  {invoice.lastReminderAt && (
+                                    <span className="ml-2 text-muted-foreground">
+                                      · reminded {formatDate(invoice.lastReminderAt)}
+                                    </span>
+                                  )}
+                                </td>
+                                <td colSpan={AGEING_BUCKETS.length} className="px-3 py-2 text-right">
+                                  {invoice.daysOverdue >= 0 ? (
+                                    <Badge variant="outline" className={BUCKET_STYLES[invoice.bucket]}>
+                                      {invoice.daysOverdue} day{invoice.daysOverdue === 1 ? "" : "s"} overdue
+                                    </Badge>
+                                  ) : (
+                                    <span className="text-muted-foreground">
+                                      due in {-invoice.daysOverdue} day{invoice.daysOverdue === -1 ? "" : "s"}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="px-4 py-2 text-right font-mono">{formatAmount(invoice.amountDue)}</td>
+                              </tr>
+                            ))}
+                        </Fragment>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,330 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Download, FileMinus, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { apiFetch } from "@/app/lib/api"
+import { generateCreditNotePDF } from "@/app/lib/generate-pdf"
+import type { CreditNote, Invoice } from "@/app/types"
+import {
+  CREDIT_NOTE_TYPES,
+  CREDIT_NOTE_TYPE_LABELS,
+  getCreditNoteTotal,
+  type CreditNoteType,
+} from "@/lib/credit-notes"
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, type PaymentMethod } from "@/lib/payments"
+
+interface CreditNotesProps {
+  invoice: Invoice
+  isAdmin: boolean
+  // Called after a credit note is issued so the invoice balance can be reloaded
+  onIssued: () => void
+}
+
+const emptyForm = () => ({
+  type: "discount" as CreditNoteType,
+  reason: "",
+  date: new Date().toISOString().split("T")[0],
+  items: [{ description: "", amount: 0 }],
+  refund: false,
+  refundAmount: 0,
+  refundMethod: "bank_transfer" as PaymentMethod,
+  refundReferenceId: "",
+})
+
+/** Credit notes issued against the invoice, with the admin's issue dialog. */
+export function CreditNotes({ invoice, isAdmin, onIssued }: CreditNotesProps) {
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([])
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [form, setForm] = useState(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchCreditNotes = useCallback(async () => {
+    try {
+      setCreditNotes(await apiFetch<CreditNote[]>(`/invoices/${invoice.invoiceId}/credit-notes`))
+    } catch (error) {
+      console.error("Fetch credit notes error:", error)
+    }
+  }, [invoice.invoiceId])
+
+  useEffect(() => {
+    fetchCreditNotes()
+  }, [fetchCreditNotes])
+
+  const total = getCreditNoteTotal(form.items)
+
+  const updateItem = (index: number, changes: Partial<{ description: string; amount: number }>) =>
+    setForm({ ...form, items: form.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) })
+
+  const handleIssue = async () => {
+    if (!form.reason.trim()) {
+      toast.error("Please enter a reason")
+      return
+    }
+    if (form.items.some((item) => !item.description.trim() || item.amount <= 0)) {
+      toast.error("Each line needs a description and an amount")
+      return
+    }
+    const needsRefund = form.refund || form.type === "refund"
+    setIsSaving(true)
+    try {
+      await apiFetch<CreditNote>(`/invoices/${invoice.invoiceId}/credit-notes`, {
+        method: "POST",
+        body: JSON.stringify({
+          type: form.type,
+          reason: form.reason,
+          date: form.date,
+          items: form.items,
+          refund: needsRefund
+            ? {
+                amount: form.refundAmount || total,
+                method: form.refundMethod,
+                referenceId: form.refundReferenceId || undefined,
+              }
+            : undefined,
+        }),
+      })
+      toast.success("Credit note issued")
+      setDialogOpen(false)
+      setForm(emptyForm())
+      fetchCreditNotes()
+      onIssued()
+    } catch (error: unknown) {
+      console.error("Issue credit note error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to issue credit note")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDownload = (creditNote: CreditNote) => {
+    try {
+      generateCreditNotePDF(invoice, creditNote)
+    } catch (error) {
+      console.error("Error generating credit note:", error)
+      toast.error("Failed to generate credit note. Please try again.")
+    }
+  }
+
+  if (!isAdmin && creditNotes.length === 0) return null
+
+  return (
+    <div className="bg-background rounded-xl border border-border/50 overflow-hidden">
+      <div className="p-5 sm:p-6 border-b border-border/50 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-orange-100 flex items-center justify-center">
+            <FileMinus className="h-4 w-4 text-orange-600" />
+          </div>
+          <h2 className="font-semibold text-foreground">Credit Notes</h2>
+        </div>
+        {isAdmin && (
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" className="rounded-lg gap-1.5 print:hidden">
+                <Plus className="h-4 w-4" /> Issue Credit Note
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="rounded-xl sm:max-w-lg max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Issue Credit Note</DialogTitle>
+                <DialogDescription>
+                  Reduces the amount due on Invoice #{invoice.invoiceId}. Credit notes cannot be edited once issued.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-2">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="creditNoteType">Type</Label>
+                    <Select
+                      value={form.type}
+                      onValueChange={(type) => setForm({ ...form, type: type as CreditNoteType })}
+                    >
+                      <SelectTrigger id="creditNoteType">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CREDIT_NOTE_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {CREDIT_NOTE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="creditNoteDate">Date</Label>
+                    <Input
+                      id="creditNoteDate"
+                      type="date"
+                      value={form.date}
+                      onChange={(e) => setForm({ ...form, date: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="creditNoteReason">Reason</Label>
+                  <Textarea
+                    id="creditNoteReason"
+                    value={form.reason}
+                    onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                    placeholder="e.g. Balcony painting dropped from scope"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Line Items</Label>
+                  {form.items.map((item, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        value={item.description}
+                        onChange={(e) => updateItem(index, { description: e.target.value })}
+                        placeholder="Description"
+                      />
+                      <Input
+                        type="number"
+                        value={item.amount}
+                        onChange={(e) => updateItem(index, { amount: Number(e.target.value) })}
+                        className="w-32"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-9 w-9 shrink-0"
+                        disabled={form.items.length === 1}
+                        onClick={() => setForm({ ...form, items: form.items.filter((_, i) => i !== index) })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1.5"
+                      onClick={() => setForm({ ...form, items: [...form.items, { description: "", amount: 0 }] })}
+                    >
+                      <Plus className="h-4 w-4" /> Add Line
+                    </Button>
+                    <p className="text-sm font-medium">Total: ₹{total.toFixed(2)}</p>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between rounded-lg border border-border/50 p-3">
+                  <div>
+                    <p className="text-sm font-medium">Refund to client</p>
+                    <p className="text-xs text-muted-foreground">Records the refund as a debit in expenses</p>
+                  </div>
+                  <Switch
+                    checked={form.refund || form.type === "refund"}
+                    disabled={form.type === "refund"}
+                    onCheckedChange={(refund) => setForm({ ...form, refund })}
+                  />
+                </div>
+                {(form.refund || form.type === "refund") && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="refundAmount">Refund Amount (₹)</Label>
+                      <Input
+                        id="refundAmount"
+                        type="number"
+                        value={form.refundAmount || total}
+                        onChange={(e) => setForm({ ...form, refundAmount: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="refundMethod">Paid Back By</Label>
+                      <Select
+                        value={form.refundMethod}
+                        onValueChange={(method) => setForm({ ...form, refundMethod: method as PaymentMethod })}
+                      >
+                        <SelectTrigger id="refundMethod">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PAYMENT_METHODS.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {PAYMENT_METHOD_LABELS[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="refundReferenceId">Reference ID (Optional)</Label>
+                      <Input
+                        id="refundReferenceId"
+                        value={form.refundReferenceId}
+                        onChange={(e) => setForm({ ...form, refundReferenceId: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(false)} className="rounded-lg">
+                  Cancel
+                </Button>
+                <Button onClick={handleIssue} disabled={isSaving} className="rounded-lg">
+                  {isSaving ? "Issuing..." : "Issue Credit Note"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+
+      {creditNotes.length === 0 ? (
+        <p className="p-5 sm:p-6 text-sm text-muted-foreground">No credit notes issued against this invoice.</p>
+      ) : (
+        <div className="divide-y divide-border/50">
+          {creditNotes.map((creditNote) => (
+            <div key={creditNote._id} className="p-4 sm:px-6 flex items-start justify-between gap-4">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-mono text-sm font-medium">#{creditNote.creditNoteNumber}</p>
+                  <Badge variant="outline">{CREDIT_NOTE_TYPE_LABELS[creditNote.type]}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {new Date(creditNote.date).toLocaleDateString()}
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground">{creditNote.reason}</p>
+                {creditNote.refund && (
+                  <p className="text-xs text-muted-foreground">
+                    ₹{creditNote.refund.amount.toFixed(2)} refunded via {PAYMENT_METHOD_LABELS[creditNote.refund.method]}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <p className="font-mono font-medium text-orange-600">-₹{creditNote.total.toFixed(2)}</p>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 print:hidden"
+                  onClick={() => handleDownload(creditNote)}
+                  title="Download credit note"
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -18,6 +18,7 @@ import {
   MapPin,
   Receipt,
   ArrowLeft,
+  Hourglass,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -40,6 +41,7 @@ import type { Invoice } from "@/app/types"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { InfiniteListFooter } from "@/components/admin/InfiniteListFooter"
+import { getDaysOverdue } from "@/lib/receivables"
 
 export default function InvoiceList() {
   const router = useRouter()
@@ -256,6 +258,17 @@ export default function InvoiceList() {
     }
   }
 
+  const getOverdueBadge = (invoice: Invoice) => {
+    if (invoice.amountDue <= 0 || !invoice.dueDate) return null
+    const daysOverdue = getDaysOverdue(invoice.dueDate)
+    if (daysOverdue < 0) return null
+    return (
+      <Badge variant="outline" className="border-red-200 text-red-700 text-xs font-medium">
+        {daysOverdue === 0 ? "Due today" : `${daysOverdue}d overdue`}
+      </Badge>
+    )
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "paid":
@@ -333,13 +346,21 @@ export default function InvoiceList() {
               <ArrowLeft className="h-5 w-5" />
             </Button>
             <h1 className="text-lg font-semibold">Invoices</h1>
-            <Button
-              size="icon"
-              className="h-8 w-8 rounded-full bg-blue-600 text-white hover:bg-blue-700"
-              onClick={() => router.push('/dashboard/invoices/create')}
-            >
-              <Plus className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" className="h-8 rounded-full gap-1.5" asChild>
+                <Link href="/dashboard/invoices/ageing">
+                  <Hourglass className="h-4 w-4" />
+                  Ageing
+                </Link>
+              </Button>
+              <Button
+                size="icon"
+                className="h-8 w-8 rounded-full bg-blue-600 text-white hover:bg-blue-700"
+                onClick={() => router.push('/dashboard/invoices/create')}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
         <div className="sticky top-0 z-30 -mt-px border-b border-border/50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -444,6 +465,7 @@ export default function InvoiceList() {
                                 #{invoice.invoiceId}
                               </span>
                               {getStatusBadge(status)}
+                              {getOverdueBadge(invoice)}
                             </div>
                             <h3 className="font-semibold text-foreground">{invoice.clientName}</h3>
                           </div>
@@ -508,6 +530,7 @@ export default function InvoiceList() {
                           <div className="flex items-center gap-3 mb-2">
                             <span className="font-mono text-xs text-muted-foreground">#{invoice.invoiceId}</span>
                             {getStatusBadge(status)}
+                            {getOverdueBadge(invoice)}
                           </div>
                           <h3 className="font-semibold text-foreground truncate mb-2">{invoice.clientName}</h3>
                           <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
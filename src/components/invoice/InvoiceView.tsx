@@ -17,27 +17,48 @@ import {
   LinkIcon,
   Info,
   Tag,
+  Receipt,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { toast } from "sonner"
 import { Skeleton } from "@/components/ui/skeleton"
 import Link from "next/link"
 import { apiFetch } from "@/app/lib/api"
-import type { Invoice } from "@/app/types"
-import { generateInvoicePDF } from "@/app/lib/generate-pdf"
+import type { Invoice, Payment } from "@/app/types"
+import { TaxSummaryRows } from "@/components/tax/TaxSummaryRows"
+import { generateInvoicePDF, generatePaymentReceiptPDF } from "@/app/lib/generate-pdf"
+import { findPaymentReversal, getPaymentMethodLabel } from "@/lib/payments"
+import { getDaysOverdue } from "@/lib/receivables"
+import { describeMilestoneDue, getNextDueMilestone, resolvePaymentSchedule } from "@/lib/payment-schedule"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { PayInvoiceDialog } from "@/components/invoice/PayInvoiceDialog"
+import { CreditNotes } from "@/components/invoice/CreditNotes"
+import { ProgressFeed } from "@/components/invoice/ProgressFeed"
+import { useSession } from "next-auth/react"
 
 interface InvoiceViewProps {
   invoiceId: string
   token?: string
+  // Receipt number from a payment receipt link, shown above the invoice
+  receiptNumber?: string
+  // Online checkout reference the payment gateway returns the client with
+  paymentReference?: string
 }
 
-export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
+type OnlinePaymentState = "confirming" | "paid" | "unapplied"
+
+export default function InvoiceView({ invoiceId, token, receiptNumber, paymentReference }: InvoiceViewProps) {
+  const { data: session } = useSession()
+  const isAdmin = session?.user?.role === "admin"
   const [invoice, setInvoice] = useState<Invoice | null>(null)
   const [loading, setLoading] = useState(true)
   const [isGenerating, setIsGenerating] = useState(false)
+  const [onlinePayment, setOnlinePayment] = useState<OnlinePaymentState | null>(
+    paymentReference ? "confirming" : null
+  )
+  const [onlineReceiptNumber, setOnlineReceiptNumber] = useState<string>()
 
   const fetchInvoice = useCallback(async () => {
     try {
@@ -60,6 +81,36 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
     }
   }, [invoiceId, token, fetchInvoice])
 
+  // The gateway's webhook can land a few seconds after the client is sent back here
+  useEffect(() => {
+    if (!paymentReference) return
+    let attempts = 0
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const checkPayment = async () => {
+      try {
+        const data = await apiFetch<{ payment: { status: string; receiptNumber?: string } | null }>(
+          `/invoices/${invoiceId}/pay?reference=${encodeURIComponent(paymentReference)}`
+        )
+        if (data.payment?.status === "paid") {
+          setOnlinePayment("paid")
+          setOnlineReceiptNumber(data.payment.receiptNumber)
+          fetchInvoice()
+          return
+        }
+        if (data.payment?.status === "unapplied") {
+          setOnlinePayment("unapplied")
+          return
+        }
+      } catch (error) {
+        console.error("Check payment error:", error)
+      }
+      attempts += 1
+      if (attempts < 10) timer = setTimeout(checkPayment, 3000)
+    }
+    checkPayment()
+    return () => clearTimeout(timer)
+  }, [invoiceId, paymentReference, fetchInvoice])
+
   const handleCopyLink = () => {
     const url = window.location.href
     navigator.clipboard.writeText(url)
@@ -81,6 +132,16 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
     }
   }
 
+  const handleDownloadReceipt = (payment: Payment) => {
+    if (!invoice) return
+    try {
+      generatePaymentReceiptPDF(invoice, payment)
+    } catch (error) {
+      console.error("Error generating receipt:", error)
+      toast.error("Failed to generate receipt. Please try again.")
+    }
+  }
+
   const getPaymentStatus = () => {
     if (!invoice) return null
     const amountDue = invoice.amountDue
@@ -150,6 +211,22 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
     )
   }
 
+  // Reversal entries show as negative; the payments they cancel are struck through
+  const formatSignedAmount = (amount: number) =>
+    amount < 0 ? `-₹${Math.abs(amount).toFixed(2)}` : `+₹${Number(amount).toFixed(2)}`
+  const getAmountStyle = (payment: Payment) =>
+    payment.amount < 0
+      ? "text-red-600"
+      : findPaymentReversal(invoice.paymentHistory || [], payment)
+        ? "text-muted-foreground line-through"
+        : "text-emerald-600"
+
+  const linkedReceiptNumber = receiptNumber || onlineReceiptNumber
+  const linkedReceipt = linkedReceiptNumber
+    ? invoice.paymentHistory?.find((payment) => payment.receiptNumber === linkedReceiptNumber)
+    : undefined
+  const nextMilestone = getNextDueMilestone(resolvePaymentSchedule(invoice))
+
   return (
     <div className="min-h-screen bg-muted/30 print:bg-white">
       <div className="p-4 sm:p-6 lg:p-8 print:p-0">
@@ -214,6 +291,50 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
             </TooltipProvider>
           </div>
 
+          {/* Returning from the online payment page */}
+          {(onlinePayment === "confirming" || onlinePayment === "unapplied") && (
+            <div className="bg-background rounded-xl border border-blue-200 p-4 sm:p-5 print:hidden">
+              <div className="flex items-center gap-3">
+                <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center">
+                  <Clock className="h-5 w-5 text-blue-600" />
+                </div>
+                <div>
+                  <h3 className="font-medium text-foreground">
+                    {onlinePayment === "confirming" ? "Confirming your payment" : "Payment received"}
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {onlinePayment === "confirming"
+                      ? "Your receipt will appear here once the payment is confirmed. You will also get it on WhatsApp."
+                      : "We received your payment but could not apply it to this invoice automatically. Our team will contact you."}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Receipt from a payment confirmation link */}
+          {linkedReceipt && (
+            <div className="bg-background rounded-xl border border-emerald-200 p-4 sm:p-5 print:hidden">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <div className="h-10 w-10 rounded-full bg-emerald-100 flex items-center justify-center">
+                    <Receipt className="h-5 w-5 text-emerald-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-foreground">Receipt #{linkedReceipt.receiptNumber}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      ₹{Number(linkedReceipt.amount).toFixed(2)} received on{" "}
+                      {new Date(linkedReceipt.date).toLocaleDateString()} via {getPaymentMethodLabel(linkedReceipt)}
+                    </p>
+                  </div>
+                </div>
+                <Button onClick={() => handleDownloadReceipt(linkedReceipt)} className="rounded-lg gap-1.5">
+                  <Download className="h-4 w-4" /> Download Receipt
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Payment Summary - Show amount due prominently */}
           {invoice.amountDue > 0 && (
             <div className="bg-background rounded-xl border border-border/50 p-4 sm:p-5 print:hidden">
@@ -227,12 +348,21 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
                     <p className="text-sm text-muted-foreground">
                       ₹{Number(invoice.amountDue).toFixed(2)} remaining to be paid
                     </p>
+                    {nextMilestone && (
+                      <p className="text-sm text-amber-700">
+                        Next due: {nextMilestone.milestone.label} · ₹{nextMilestone.balance.toFixed(2)}{" "}
+                        {describeMilestoneDue(nextMilestone.milestone)}
+                      </p>
+                    )}
                   </div>
                 </div>
+                {token && <PayInvoiceDialog invoiceId={invoice.invoiceId} token={token} amountDue={invoice.amountDue} />}
               </div>
             </div>
           )}
 
+          {token && <ProgressFeed invoiceId={invoice.invoiceId} token={token} />}
+
           {/* Client Information */}
           <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6">
             <div className="flex items-center gap-2 mb-5">
@@ -270,6 +400,24 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
                     <p className="font-medium text-foreground">{new Date(invoice.date).toLocaleDateString()}</p>
                   </div>
                 </div>
+                {invoice.dueDate && (
+                  <div className="flex items-start gap-3">
+                    <div className="h-8 w-8 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                    <div>
+                      <p className="text-xs text-muted-foreground mb-0.5">Due Date</p>
+                      <p className="font-medium text-foreground">
+                        {new Date(invoice.dueDate).toLocaleDateString()}
+                        {invoice.amountDue > 0 && getDaysOverdue(invoice.dueDate) > 0 && (
+                          <span className="ml-2 text-xs font-medium text-destructive">
+                            {getDaysOverdue(invoice.dueDate)} days overdue
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                )}
               </div>
               <div className="flex items-start gap-3">
                 <div className="h-8 w-8 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
@@ -326,6 +474,7 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
                       <td className="py-4 px-5">
                         <p className="font-medium text-foreground">{item.description}</p>
                         {item.note && <p className="text-sm text-muted-foreground mt-1">{item.note}</p>}
+                        {item.hsnSac && <p className="text-xs font-mono text-muted-foreground mt-1">HSN/SAC: {item.hsnSac}</p>}
                       </td>
                       <td className="text-right py-4 px-5 font-mono text-sm">{item.area ?? "-"}</td>
                       <td className="text-right py-4 px-5 font-mono text-sm">₹{Number(item.rate).toFixed(2)}</td>
@@ -348,6 +497,7 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
                   <div>
                     <p className="font-medium text-foreground">{item.description}</p>
                     {item.note && <p className="text-sm text-muted-foreground mt-1">{item.note}</p>}
+                    {item.hsnSac && <p className="text-xs font-mono text-muted-foreground mt-1">HSN/SAC: {item.hsnSac}</p>}
                   </div>
                   <div className="flex justify-between text-sm">
                     <div className="space-y-1">
@@ -381,11 +531,18 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
                     <span className="font-mono text-emerald-600">-₹{Number(invoice.discount).toFixed(2)}</span>
                   </div>
                 )}
+                <TaxSummaryRows tax={invoice.tax} />
                 <Separator />
                 <div className="flex justify-between items-center pt-2">
                   <span className="font-semibold text-foreground">Grand Total</span>
                   <span className="text-xl font-bold text-primary">₹{Number(invoice.grandTotal).toFixed(2)}</span>
                 </div>
+                {(invoice.creditedAmount ?? 0) > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Credit Notes</span>
+                    <span className="font-mono text-orange-600">-₹{Number(invoice.creditedAmount).toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center">
                   <span className="font-medium text-muted-foreground">Amount Due</span>
                   <span className="text-lg font-bold text-destructive">₹{Number(invoice.amountDue).toFixed(2)}</span>
@@ -462,17 +619,40 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
                   <thead>
                     <tr className="bg-muted/50">
                       <th className="text-left py-3 px-5 font-medium text-muted-foreground text-sm">Date</th>
+                      <th className="text-left py-3 px-5 font-medium text-muted-foreground text-sm">Receipt</th>
+                      <th className="text-left py-3 px-5 font-medium text-muted-foreground text-sm">Method</th>
                       <th className="text-left py-3 px-5 font-medium text-muted-foreground text-sm">Note</th>
                       <th className="text-right py-3 px-5 font-medium text-muted-foreground text-sm">Amount (₹)</th>
+                      <th className="py-3 px-3" />
                     </tr>
                   </thead>
                   <tbody>
                     {invoice.paymentHistory.map((payment, index) => (
-                      <tr key={index} className="border-t border-border/50 hover:bg-muted/30 transition-colors">
+                      <tr
+                        key={index}
+                        className={`border-t border-border/50 hover:bg-muted/30 transition-colors ${
+                          payment === linkedReceipt ? "bg-emerald-50/60" : ""
+                        }`}
+                      >
                         <td className="py-4 px-5 font-mono text-sm">{new Date(payment.date).toLocaleDateString()}</td>
+                        <td className="py-4 px-5 font-mono text-sm">{payment.receiptNumber || "-"}</td>
+                        <td className="py-4 px-5 text-sm">{getPaymentMethodLabel(payment)}</td>
                         <td className="py-4 px-5 text-sm text-muted-foreground">{payment.note || "-"}</td>
-                        <td className="text-right py-4 px-5 font-mono font-medium text-emerald-600">
-                          +₹{Number(payment.amount).toFixed(2)}
+                        <td className={`text-right py-4 px-5 font-mono font-medium ${getAmountStyle(payment)}`}>
+                          {formatSignedAmount(payment.amount)}
+                        </td>
+                        <td className="py-4 px-3 text-right">
+                          {!payment.isReversal && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => handleDownloadReceipt(payment)}
+                              title="Download receipt"
+                            >
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -483,18 +663,36 @@ export default function InvoiceView({ invoiceId, token }: InvoiceViewProps) {
               {/* Mobile Cards */}
               <div className="sm:hidden divide-y divide-border/50">
                 {invoice.paymentHistory.map((payment, index) => (
-                  <div key={index} className="p-4 space-y-2">
+                  <div key={index} className={`p-4 space-y-2 ${payment === linkedReceipt ? "bg-emerald-50/60" : ""}`}>
                     <div className="flex justify-between items-center">
-                      <p className="text-sm text-muted-foreground">{new Date(payment.date).toLocaleDateString()}</p>
-                      <p className="font-bold text-emerald-600">+₹{Number(payment.amount).toFixed(2)}</p>
+                      <div>
+                        <p className="font-medium text-foreground">{getPaymentMethodLabel(payment)}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {new Date(payment.date).toLocaleDateString()}
+                          {payment.receiptNumber && ` · #${payment.receiptNumber}`}
+                        </p>
+                      </div>
+                      <p className={`font-bold ${getAmountStyle(payment)}`}>{formatSignedAmount(payment.amount)}</p>
                     </div>
                     {payment.note && <p className="text-sm text-muted-foreground">{payment.note}</p>}
+                    {!payment.isReversal && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="rounded-lg gap-1.5"
+                        onClick={() => handleDownloadReceipt(payment)}
+                      >
+                        <Download className="h-3.5 w-3.5" /> Receipt
+                      </Button>
+                    )}
                   </div>
                 ))}
               </div>
             </div>
           )}
 
+          <CreditNotes invoice={invoice} isAdmin={isAdmin} onIssued={fetchInvoice} />
+
           {/* Terms & Conditions */}
           {invoice.terms && invoice.terms.length > 0 && (
             <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6">
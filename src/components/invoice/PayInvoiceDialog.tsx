@@ -0,0 +1,156 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { CreditCard, Copy, Smartphone } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { apiFetch } from "@/app/lib/api"
+
+interface PaymentProviderInfo {
+  id: string
+  label: string
+}
+
+interface CheckoutResponse {
+  reference: string
+  redirectUrl?: string
+  upiUri?: string
+  upiId?: string
+}
+
+interface PayInvoiceDialogProps {
+  invoiceId: string
+  token: string
+  amountDue: number
+}
+
+/** Pay Now button for the client's invoice link; hidden when online payment isn't set up. */
+export function PayInvoiceDialog({ invoiceId, token, amountDue }: PayInvoiceDialogProps) {
+  const [provider, setProvider] = useState<PaymentProviderInfo | null>(null)
+  const [open, setOpen] = useState(false)
+  const [amount, setAmount] = useState(amountDue)
+  const [isStarting, setIsStarting] = useState(false)
+  const [upiCheckout, setUpiCheckout] = useState<CheckoutResponse | null>(null)
+
+  useEffect(() => {
+    apiFetch<{ provider: PaymentProviderInfo | null }>(`/invoices/${invoiceId}/pay`)
+      .then((data) => setProvider(data.provider))
+      .catch((error) => console.error("Fetch payment options error:", error))
+  }, [invoiceId])
+
+  useEffect(() => {
+    setAmount(amountDue)
+  }, [amountDue])
+
+  if (!provider) return null
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (!next) setUpiCheckout(null)
+  }
+
+  const handlePay = async () => {
+    if (!amount || amount <= 0 || amount > amountDue) {
+      toast.error(`Enter an amount up to ₹${amountDue.toFixed(2)}`)
+      return
+    }
+    setIsStarting(true)
+    try {
+      const checkout = await apiFetch<CheckoutResponse>(`/invoices/${invoiceId}/pay`, {
+        method: "POST",
+        body: JSON.stringify({ token, amount }),
+      })
+      if (checkout.redirectUrl) {
+        window.location.assign(checkout.redirectUrl)
+        return
+      }
+      setUpiCheckout(checkout)
+    } catch (error: unknown) {
+      console.error("Start payment error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to start payment")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const handleCopyUpiId = () => {
+    if (!upiCheckout?.upiId) return
+    navigator.clipboard.writeText(upiCheckout.upiId)
+    toast.success("UPI ID copied!")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button className="rounded-lg gap-1.5">
+          <CreditCard className="h-4 w-4" /> Pay Now
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="rounded-xl sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pay Invoice #{invoiceId}</DialogTitle>
+          <DialogDescription>
+            {upiCheckout
+              ? "Complete the payment in your UPI app. We'll send your receipt once it is confirmed."
+              : `Pay the full balance or any part of it via ${provider.label}.`}
+          </DialogDescription>
+        </DialogHeader>
+        {upiCheckout ? (
+          <div className="space-y-4 py-2">
+            <Button asChild className="w-full rounded-lg gap-1.5">
+              <a href={upiCheckout.upiUri}>
+                <Smartphone className="h-4 w-4" /> Open UPI App
+              </a>
+            </Button>
+            {upiCheckout.upiId && (
+              <div className="rounded-lg border border-border/50 bg-muted/30 p-3">
+                <p className="text-xs text-muted-foreground mb-1">Or pay ₹{amount.toFixed(2)} to UPI ID</p>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-mono font-medium text-foreground break-all">{upiCheckout.upiId}</p>
+                  <Button variant="outline" size="icon" onClick={handleCopyUpiId} className="h-8 w-8 rounded-lg shrink-0">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">Add reference {upiCheckout.reference} in the note.</p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2 py-2">
+            <Label htmlFor="payAmount">Amount (₹)</Label>
+            <Input
+              id="payAmount"
+              type="number"
+              min={1}
+              max={amountDue}
+              value={amount}
+              onChange={(e) => setAmount(Number(e.target.value))}
+            />
+            <p className="text-xs text-muted-foreground">Balance due: ₹{amountDue.toFixed(2)}</p>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} className="rounded-lg">
+            {upiCheckout ? "Done" : "Cancel"}
+          </Button>
+          {!upiCheckout && (
+            <Button onClick={handlePay} disabled={isStarting} className="rounded-lg">
+              {isStarting ? "Starting..." : `Pay ₹${(amount || 0).toFixed(2)}`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { ClipboardList, Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { apiFetch } from "@/app/lib/api"
+import { PROGRESS_STAGE_LABELS, type ClientProgressEntry } from "@/lib/site-progress"
+
+interface ProgressFeedProps {
+  invoiceId: string
+  token: string
+}
+
+/** Read-only site progress for the client. Renders nothing unless staff have shared the log. */
+export function ProgressFeed({ invoiceId, token }: ProgressFeedProps) {
+  const [entries, setEntries] = useState<ClientProgressEntry[]>([])
+
+  useEffect(() => {
+    apiFetch<{ entries: ClientProgressEntry[] }>(`/invoices/${invoiceId}/progress?token=${encodeURIComponent(token)}`)
+      .then((data) => setEntries(data.entries))
+      // Not shared with the client, or the link is not valid
+      .catch(() => setEntries([]))
+  }, [invoiceId, token])
+
+  if (entries.length === 0) return null
+
+  return (
+    <div className="bg-background rounded-xl border border-border/50 overflow-hidden print:hidden">
+      <div className="p-5 sm:p-6 border-b border-border/50 flex items-center gap-2">
+        <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+          <ClipboardList className="h-4 w-4 text-primary" />
+        </div>
+        <div>
+          <h2 className="font-semibold text-foreground">Work Progress</h2>
+          <p className="text-xs text-muted-foreground">Updates from our team on site</p>
+        </div>
+      </div>
+      <ol className="divide-y divide-border/50">
+        {entries.map((entry) => (
+          <li key={entry._id} className="p-5 sm:p-6 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="font-medium text-foreground">{new Date(entry.date).toLocaleDateString()}</p>
+              <Badge variant="secondary">{PROGRESS_STAGE_LABELS[entry.stage] || entry.stage}</Badge>
+              {entry.crewSize > 0 && (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Users className="h-3.5 w-3.5" /> {entry.crewSize} on site
+                </span>
+              )}
+            </div>
+            {entry.notes && <p className="text-sm text-muted-foreground whitespace-pre-line">{entry.notes}</p>}
+            {entry.photos.length > 0 && (
+              <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                {entry.photos.map((photo) => (
+                  <a
+                    key={photo.publicId}
+                    href={photo.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="relative aspect-square rounded-lg overflow-hidden border border-border/50 bg-muted"
+                  >
+                    <Image src={photo.url} alt={photo.caption || "Site progress photo"} fill className="object-cover" unoptimized />
+                  </a>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
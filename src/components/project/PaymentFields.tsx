@@ -0,0 +1,119 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Payment } from "@/app/types"
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, type PaymentMethod } from "@/lib/payments"
+
+interface PaymentFieldsProps {
+  value: Partial<Payment>
+  onChange: (value: Partial<Payment>) => void
+}
+
+/** Amount, date, method and reference inputs shared by the record and correct payment dialogs. */
+export function PaymentFields({ value, onChange }: PaymentFieldsProps) {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="amount">Amount (₹)</Label>
+        <Input
+          id="amount"
+          type="number"
+          value={value.amount}
+          onChange={(e) => onChange({ ...value, amount: Number(e.target.value) })}
+          placeholder="0.00"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="date">Date</Label>
+        <Input
+          id="date"
+          type="date"
+          value={value.date as string}
+          onChange={(e) => onChange({ ...value, date: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="method">Payment Method</Label>
+        <Select value={value.method} onValueChange={(method) => onChange({ ...value, method: method as PaymentMethod })}>
+          <SelectTrigger id="method">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAYMENT_METHODS.map((method) => (
+              <SelectItem key={method} value={method}>
+                {PAYMENT_METHOD_LABELS[method]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.method === "cheque" && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="chequeNumber">Cheque Number</Label>
+            <Input
+              id="chequeNumber"
+              value={value.chequeNumber || ""}
+              onChange={(e) => onChange({ ...value, chequeNumber: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="chequeBank">Bank</Label>
+            <Input
+              id="chequeBank"
+              value={value.chequeBank || ""}
+              onChange={(e) => onChange({ ...value, chequeBank: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+      {value.method !== "cash" && (
+        <div className="space-y-2">
+          <Label htmlFor="referenceId">Reference ID (Optional)</Label>
+          <Input
+            id="referenceId"
+            value={value.referenceId || ""}
+            onChange={(e) => onChange({ ...value, referenceId: e.target.value })}
+            placeholder={value.method === "upi" ? "UPI transaction ID" : "Bank reference"}
+          />
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="receivedBy">Received By (Optional)</Label>
+        <Input
+          id="receivedBy"
+          value={value.receivedBy || ""}
+          onChange={(e) => onChange({ ...value, receivedBy: e.target.value })}
+          placeholder="Defaults to you"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="note">Note (Optional)</Label>
+        <Textarea
+          id="note"
+          value={value.note || ""}
+          onChange={(e) => onChange({ ...value, note: e.target.value })}
+          placeholder="Additional details..."
+        />
+      </div>
+    </>
+  )
+}
+
+/** Drops the details that don't apply to the chosen method before the payment is sent. */
+export function getPaymentPayload(value: Partial<Payment>): Partial<Payment> {
+  const isCheque = value.method === "cheque"
+  return {
+    amount: value.amount,
+    date: value.date,
+    method: value.method,
+    chequeNumber: isCheque ? value.chequeNumber || "" : undefined,
+    chequeBank: isCheque ? value.chequeBank || "" : undefined,
+    referenceId: value.method === "cash" ? undefined : value.referenceId || "",
+    receivedBy: value.receivedBy || "",
+    note: value.note || "",
+  }
+}
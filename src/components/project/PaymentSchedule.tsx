@@ -0,0 +1,324 @@
+"use client"
+
+import { useState } from "react"
+import { BellRing, CalendarClock, Pencil, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { apiFetch } from "@/app/lib/api"
+import type { PaymentMilestone, Project } from "@/app/types"
+import {
+  MILESTONE_STATUS_LABELS,
+  describeMilestoneDue,
+  getMilestoneAmount,
+  getNextDueMilestone,
+  getScheduleValue,
+  resolvePaymentSchedule,
+  type MilestoneStatus,
+} from "@/lib/payment-schedule"
+
+interface PaymentScheduleProps {
+  project: Project
+  onUpdated: (project: Project) => void
+}
+
+interface MilestoneRow {
+  _id?: string
+  label: string
+  basis: "percent" | "amount"
+  value: number
+  dueOn: "date" | "condition"
+  dueDate: string
+  condition: string
+}
+
+const STATUS_STYLES: Record<MilestoneStatus, string> = {
+  upcoming: "bg-muted text-muted-foreground border-border",
+  due: "bg-red-50 text-red-700 border-red-200",
+  partially_paid: "bg-amber-50 text-amber-700 border-amber-200",
+  paid: "bg-emerald-50 text-emerald-700 border-emerald-200",
+}
+
+// 40% advance / 40% mid-way / 20% on completion
+const DEFAULT_ROWS: MilestoneRow[] = [
+  { label: "Advance", basis: "percent", value: 40, dueOn: "condition", dueDate: "", condition: "On booking" },
+  { label: "Mid-way", basis: "percent", value: 40, dueOn: "condition", dueDate: "", condition: "Halfway through the work" },
+  { label: "Completion", basis: "percent", value: 20, dueOn: "condition", dueDate: "", condition: "On completion" },
+]
+
+const toRow = (milestone: PaymentMilestone): MilestoneRow => ({
+  _id: milestone._id,
+  label: milestone.label,
+  basis: milestone.amount !== undefined && milestone.amount !== null ? "amount" : "percent",
+  value: milestone.amount ?? milestone.percent ?? 0,
+  dueOn: milestone.dueDate ? "date" : "condition",
+  dueDate: milestone.dueDate ? new Date(milestone.dueDate).toISOString().split("T")[0] : "",
+  condition: milestone.condition || "",
+})
+
+const toMilestone = (row: MilestoneRow) => ({
+  _id: row._id,
+  label: row.label,
+  ...(row.basis === "percent" ? { percent: row.value } : { amount: row.value }),
+  ...(row.dueOn === "date" ? { dueDate: row.dueDate } : { condition: row.condition }),
+})
+
+/** Milestone billing for a project: progress of each milestone, the next one due and the schedule editor. */
+export function PaymentSchedule({ project, onUpdated }: PaymentScheduleProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [rows, setRows] = useState<MilestoneRow[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [markingId, setMarkingId] = useState<string | null>(null)
+
+  const resolved = resolvePaymentSchedule(project)
+  const nextDue = getNextDueMilestone(resolved)
+  const scheduleValue = getScheduleValue(project)
+  const scheduledTotal = rows.reduce((sum, row) => sum + getMilestoneAmount(toMilestone(row), scheduleValue), 0)
+
+  const openEditor = () => {
+    setRows(project.paymentSchedule?.length ? project.paymentSchedule.map(toRow) : DEFAULT_ROWS)
+    setDialogOpen(true)
+  }
+
+  const updateRow = (index: number, changes: Partial<MilestoneRow>) =>
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+
+  const handleSave = async () => {
+    if (rows.some((row) => !row.label.trim() || row.value <= 0)) {
+      toast.error("Each milestone needs a name and an amount")
+      return
+    }
+    if (rows.some((row) => (row.dueOn === "date" ? !row.dueDate : !row.condition.trim()))) {
+      toast.error("Each milestone needs a due date or condition")
+      return
+    }
+    setIsSaving(true)
+    try {
+      const updatedProject = await apiFetch<Project>(`/projects/${project.projectId}/payment-schedule`, {
+        method: "PUT",
+        body: JSON.stringify({ milestones: rows.map(toMilestone) }),
+      })
+      onUpdated(updatedProject)
+      setDialogOpen(false)
+      toast.success("Payment schedule saved")
+    } catch (error: unknown) {
+      console.error("Save payment schedule error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save payment schedule")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleMarkDue = async (milestoneId: string) => {
+    setMarkingId(milestoneId)
+    try {
+      const updatedProject = await apiFetch<Project>(
+        `/projects/${project.projectId}/payment-schedule/${milestoneId}`,
+        { method: "POST" }
+      )
+      onUpdated(updatedProject)
+      toast.success("Milestone marked due and client notified")
+    } catch (error: unknown) {
+      console.error("Mark milestone due error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to mark milestone due")
+    } finally {
+      setMarkingId(null)
+    }
+  }
+
+  return (
+    <div className="bg-background rounded-xl border border-border/50 overflow-hidden print:hidden">
+      <div className="p-5 sm:p-6 border-b border-border/50 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+            <CalendarClock className="h-4 w-4 text-primary" />
+          </div>
+          <div>
+            <h2 className="font-semibold text-foreground">Payment Schedule</h2>
+            {nextDue && (
+              <p className="text-xs text-muted-foreground">
+                Next due: {nextDue.milestone.label} · ₹{nextDue.balance.toFixed(2)}{" "}
+                {describeMilestoneDue(nextDue.milestone)}
+              </p>
+            )}
+          </div>
+        </div>
+        <Button variant="outline" size="sm" className="rounded-lg gap-1.5" onClick={openEditor}>
+          {resolved.length ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          {resolved.length ? "Edit" : "Set Up"}
+        </Button>
+      </div>
+
+      {resolved.length === 0 ? (
+        <p className="p-5 sm:p-6 text-sm text-muted-foreground">
+          No milestones. Set up a schedule to bill this project in stages.
+        </p>
+      ) : (
+        <div className="divide-y divide-border/50">
+          {resolved.map(({ milestone, amount, paidAmount, status }) => {
+            const canMarkDue = !!milestone._id && !milestone.dueDate && !milestone.dueAt && status !== "paid"
+            return (
+              <div
+                key={milestone._id || milestone.label}
+                className={`p-4 sm:px-6 flex items-center justify-between gap-4 ${
+                  nextDue?.milestone === milestone ? "bg-amber-50/40" : ""
+                }`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium text-foreground">{milestone.label}</p>
+                    <Badge variant="outline" className={STATUS_STYLES[status]}>
+                      {MILESTONE_STATUS_LABELS[status]}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {milestone.percent ? `${milestone.percent}% · ` : ""}
+                    {describeMilestoneDue(milestone)}
+                    {milestone.dueAt && ` (met ${new Date(milestone.dueAt).toLocaleDateString()})`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <div className="text-right">
+                    <p className="font-mono font-medium">₹{amount.toFixed(2)}</p>
+                    {paidAmount > 0 && status !== "paid" && (
+                      <p className="text-xs text-emerald-600">₹{paidAmount.toFixed(2)} paid</p>
+                    )}
+                  </div>
+                  {canMarkDue && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="rounded-lg gap-1.5"
+                      disabled={markingId === milestone._id}
+                      onClick={() => handleMarkDue(milestone._id!)}
+                      title="Condition met: notify the client"
+                    >
+                      <BellRing className="h-4 w-4" /> Mark Due
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="rounded-xl sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Payment Schedule</DialogTitle>
+            <DialogDescription>
+              Milestones must add up to the project total of ₹{scheduleValue.toFixed(2)}. Remove all milestones to
+              bill without a schedule.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <Input
+                  className="col-span-3"
+                  value={row.label}
+                  onChange={(e) => updateRow(index, { label: e.target.value })}
+                  placeholder="Milestone"
+                />
+                <Select
+                  value={row.basis}
+                  onValueChange={(basis) => updateRow(index, { basis: basis as MilestoneRow["basis"] })}
+                >
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">%</SelectItem>
+                    <SelectItem value="amount">₹</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-2"
+                  type="number"
+                  value={row.value}
+                  onChange={(e) => updateRow(index, { value: Number(e.target.value) })}
+                />
+                <Select
+                  value={row.dueOn}
+                  onValueChange={(dueOn) => updateRow(index, { dueOn: dueOn as MilestoneRow["dueOn"] })}
+                >
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="condition">When</SelectItem>
+                    <SelectItem value="date">By date</SelectItem>
+                  </SelectContent>
+                </Select>
+                {row.dueOn === "date" ? (
+                  <Input
+                    className="col-span-2"
+                    type="date"
+                    value={row.dueDate}
+                    onChange={(e) => updateRow(index, { dueDate: e.target.value })}
+                  />
+                ) : (
+                  <Input
+                    className="col-span-2"
+                    value={row.condition}
+                    onChange={(e) => updateRow(index, { condition: e.target.value })}
+                    placeholder="On completion"
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="col-span-1 h-9 w-9"
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1.5"
+                onClick={() =>
+                  setRows([
+                    ...rows,
+                    { label: "", basis: "percent", value: 0, dueOn: "condition", dueDate: "", condition: "" },
+                  ])
+                }
+              >
+                <Plus className="h-4 w-4" /> Add Milestone
+              </Button>
+              <p
+                className={`text-sm font-medium ${
+                  rows.length && Math.abs(scheduledTotal - scheduleValue) > 1 ? "text-destructive" : ""
+                }`}
+              >
+                Scheduled: ₹{scheduledTotal.toFixed(2)}
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} className="rounded-lg">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="rounded-lg">
+              {isSaving ? "Saving..." : "Save Schedule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
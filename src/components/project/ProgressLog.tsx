@@ -0,0 +1,416 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Image from "next/image"
+import { Camera, ClipboardList, LinkIcon, Loader2, Pencil, Plus, Trash2, Users, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { apiFetch } from "@/app/lib/api"
+import type { Project } from "@/app/types"
+import { toDateKey } from "@/lib/crew-schedule"
+import {
+  MAX_PROGRESS_PHOTOS,
+  PROGRESS_STAGES,
+  PROGRESS_STAGE_LABELS,
+  type ProgressEntry,
+  type ProgressPhoto,
+  type ProgressStage,
+} from "@/lib/site-progress"
+
+interface ProgressLogProps {
+  project: Project
+  onUpdated: (project: Project) => void
+}
+
+interface ProgressForm {
+  date: string
+  stage: ProgressStage
+  notes: string
+  photos: ProgressPhoto[]
+}
+
+const emptyForm = (): ProgressForm => ({
+  date: toDateKey(new Date()),
+  stage: "site_preparation",
+  notes: "",
+  photos: [],
+})
+
+const formatUnits = (units: number) => (units === 1 ? "full day" : units === 0.5 ? "half day" : `${units} days`)
+
+/** Daily site progress with photos, and whether the client can follow it from their invoice link. */
+export function ProgressLog({ project, onUpdated }: ProgressLogProps) {
+  const [entries, setEntries] = useState<ProgressEntry[]>([])
+  const [clientUrl, setClientUrl] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<ProgressForm>(emptyForm)
+  const [isUploading, setIsUploading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSharing, setIsSharing] = useState(false)
+  const [deleteTarget, setDeleteTarget] = useState<ProgressEntry | null>(null)
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const data = await apiFetch<{ entries: ProgressEntry[]; clientUrl: string | null }>(
+        `/projects/${project.projectId}/progress`
+      )
+      setEntries(data.entries)
+      setClientUrl(data.clientUrl)
+    } catch (error: unknown) {
+      console.error("Fetch progress log error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to load progress log")
+    } finally {
+      setLoading(false)
+    }
+  }, [project.projectId])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm(emptyForm())
+    setDialogOpen(true)
+  }
+
+  const openEdit = (entry: ProgressEntry) => {
+    setEditingId(entry._id)
+    setForm({ date: toDateKey(entry.date), stage: entry.stage, notes: entry.notes || "", photos: entry.photos })
+    setDialogOpen(true)
+  }
+
+  const handleUploadPhotos = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    const room = MAX_PROGRESS_PHOTOS - form.photos.length
+    if (files.length > room) {
+      toast.error(`At most ${MAX_PROGRESS_PHOTOS} photos per entry`)
+      return
+    }
+    setIsUploading(true)
+    try {
+      const uploaded: ProgressPhoto[] = []
+      for (const file of Array.from(files)) {
+        const formData = new FormData()
+        formData.append("file", file)
+        formData.append("folder", `progress/${project.projectId}`)
+        const result = await apiFetch<{ secure_url: string; public_id: string }>("/upload", {
+          method: "POST",
+          body: formData,
+        })
+        uploaded.push({ url: result.secure_url, publicId: result.public_id })
+      }
+      setForm((prev) => ({ ...prev, photos: [...prev.photos, ...uploaded] }))
+    } catch (error: unknown) {
+      console.error("Upload progress photo error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to upload photo")
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form.date) {
+      toast.error("Please pick the day")
+      return
+    }
+    setIsSaving(true)
+    try {
+      await apiFetch(
+        editingId ? `/projects/${project.projectId}/progress/${editingId}` : `/projects/${project.projectId}/progress`,
+        {
+          method: editingId ? "PUT" : "POST",
+          body: JSON.stringify({
+            date: form.date,
+            stage: form.stage,
+            notes: form.notes.trim() || undefined,
+            photos: form.photos,
+          }),
+        }
+      )
+      setDialogOpen(false)
+      toast.success(editingId ? "Progress entry updated" : "Progress entry added")
+      fetchEntries()
+    } catch (error: unknown) {
+      console.error("Save progress entry error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save progress entry")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    setIsSaving(true)
+    try {
+      await apiFetch(`/projects/${project.projectId}/progress/${deleteTarget._id}`, { method: "DELETE" })
+      setDeleteTarget(null)
+      toast.success("Progress entry deleted")
+      fetchEntries()
+    } catch (error: unknown) {
+      console.error("Delete progress entry error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to delete progress entry")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleSharing = async (enabled: boolean) => {
+    setIsSharing(true)
+    try {
+      const updatedProject = await apiFetch<Project>(`/projects/${project.projectId}/progress/sharing`, {
+        method: "PUT",
+        body: JSON.stringify({ enabled }),
+      })
+      onUpdated(updatedProject)
+      toast.success(enabled ? "Client can now follow progress from their invoice link" : "Progress hidden from client")
+    } catch (error: unknown) {
+      console.error("Progress sharing error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to update sharing")
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  const handleCopyClientLink = () => {
+    if (!clientUrl) return
+    navigator.clipboard.writeText(clientUrl)
+    toast.success("Link copied to clipboard!")
+  }
+
+  return (
+    <div className="bg-background rounded-xl border border-border/50 overflow-hidden print:hidden">
+      <div className="p-5 sm:p-6 border-b border-border/50 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+            <ClipboardList className="h-4 w-4 text-primary" />
+          </div>
+          <div>
+            <h2 className="font-semibold text-foreground">Site Progress</h2>
+            <p className="text-xs text-muted-foreground">Daily log with photos and the crew on site</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="shareProgress"
+              checked={!!project.shareProgressWithClient}
+              disabled={isSharing}
+              onCheckedChange={handleToggleSharing}
+            />
+            <Label htmlFor="shareProgress" className="text-sm">
+              Share with client
+            </Label>
+          </div>
+          {project.shareProgressWithClient && clientUrl && (
+            <Button variant="outline" size="icon" className="h-9 w-9 rounded-lg" onClick={handleCopyClientLink}>
+              <LinkIcon className="h-4 w-4" />
+            </Button>
+          )}
+          <Button size="sm" className="rounded-lg gap-1.5" onClick={openCreate}>
+            <Plus className="h-4 w-4" /> Add Entry
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="p-5 sm:p-6 text-sm text-muted-foreground">Loading progress log...</p>
+      ) : entries.length === 0 ? (
+        <p className="p-5 sm:p-6 text-sm text-muted-foreground">No progress logged yet.</p>
+      ) : (
+        <ol className="divide-y divide-border/50">
+          {entries.map((entry) => (
+            <li key={entry._id} className="p-5 sm:p-6 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="font-medium text-foreground">{new Date(entry.date).toLocaleDateString()}</p>
+                    <Badge variant="secondary">{PROGRESS_STAGE_LABELS[entry.stage] || entry.stage}</Badge>
+                  </div>
+                  {entry.createdBy && <p className="text-xs text-muted-foreground">Logged by {entry.createdBy}</p>}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(entry)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => setDeleteTarget(entry)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {entry.notes && <p className="text-sm text-muted-foreground whitespace-pre-line">{entry.notes}</p>}
+              {entry.photos.length > 0 && (
+                <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                  {entry.photos.map((photo) => (
+                    <a
+                      key={photo.publicId}
+                      href={photo.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="relative aspect-square rounded-lg overflow-hidden border border-border/50 bg-muted"
+                    >
+                      <Image src={photo.url} alt={photo.caption || "Progress photo"} fill className="object-cover" unoptimized />
+                    </a>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                <Users className="h-3.5 w-3.5" />
+                {entry.workersPresent.length === 0
+                  ? "No attendance marked for this day"
+                  : entry.workersPresent.map((worker) => (
+                      <Badge key={worker.workerId} variant="outline" className="font-normal">
+                        {worker.name} · {formatUnits(worker.units)}
+                      </Badge>
+                    ))}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="rounded-xl sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Progress Entry" : "Log Site Progress"}</DialogTitle>
+            <DialogDescription>Workers present are taken from the attendance marked for this site on the day.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="progressDate">Date</Label>
+                <Input
+                  id="progressDate"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="progressStage">Stage</Label>
+                <Select value={form.stage} onValueChange={(stage) => setForm({ ...form, stage: stage as ProgressStage })}>
+                  <SelectTrigger id="progressStage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROGRESS_STAGES.map((stage) => (
+                      <SelectItem key={stage} value={stage}>
+                        {PROGRESS_STAGE_LABELS[stage]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="progressNotes">Notes</Label>
+              <Textarea
+                id="progressNotes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                placeholder="e.g. Finished putty in the living room, primer on bedroom walls"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="progressPhotos">
+                Photos ({form.photos.length}/{MAX_PROGRESS_PHOTOS})
+              </Label>
+              {form.photos.length > 0 && (
+                <div className="grid grid-cols-4 gap-2">
+                  {form.photos.map((photo) => (
+                    <div
+                      key={photo.publicId}
+                      className="relative aspect-square rounded-lg overflow-hidden border border-border/50 bg-muted"
+                    >
+                      <Image src={photo.url} alt="Progress photo" fill className="object-cover" unoptimized />
+                      <button
+                        type="button"
+                        className="absolute top-1 right-1 bg-white/90 p-1 rounded-full"
+                        onClick={() =>
+                          setForm((prev) => ({
+                            ...prev,
+                            photos: prev.photos.filter((kept) => kept.publicId !== photo.publicId),
+                          }))
+                        }
+                      >
+                        <X className="h-3 w-3 text-foreground" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Label
+                htmlFor="progressPhotos"
+                className="flex items-center justify-center gap-2 rounded-lg border border-dashed border-border p-3 text-sm text-muted-foreground cursor-pointer"
+              >
+                {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+                {isUploading ? "Uploading..." : "Add photos"}
+              </Label>
+              <input
+                id="progressPhotos"
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                disabled={isUploading || form.photos.length >= MAX_PROGRESS_PHOTOS}
+                onChange={(e) => {
+                  handleUploadPhotos(e.target.files)
+                  e.target.value = ""
+                }}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} className="rounded-lg">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || isUploading} className="rounded-lg">
+              {isSaving ? "Saving..." : editingId ? "Save Changes" : "Add Entry"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent className="rounded-xl sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Progress Entry</DialogTitle>
+            <DialogDescription>
+              {deleteTarget &&
+                `The entry for ${new Date(deleteTarget.date).toLocaleDateString()} and its photos will be removed.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} className="rounded-lg">
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving} className="rounded-lg">
+              {isSaving ? "Deleting..." : "Delete Entry"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -38,9 +38,17 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import Image from "next/image";
 import { apiFetch } from "@/app/lib/api";
-import type { Project, Quotation } from "@/app/types";
+import type { CatalogItem, Client, ClientSite, GeneralInfo, Project, Quotation } from "@/app/types";
 import { projectFormSchema } from "@/lib/validators";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { computeTaxBreakdown, type TaxInput } from "@/lib/gst";
+import { GstSettingsFields } from "@/components/tax/GstSettingsFields";
+import { TaxSummaryRows } from "@/components/tax/TaxSummaryRows";
+import { CatalogItemPicker } from "@/components/catalog/CatalogItemPicker";
+import { toLineItem } from "@/lib/catalog";
+import { ClientPicker } from "@/components/clients/ClientPicker";
+import { formatClientPhone } from "@/lib/clients";
+import type { ItemMeasurementRef } from "@/lib/measurements";
 
 interface ProjectFormProps {
   projectId?: string;
@@ -48,6 +56,7 @@ interface ProjectFormProps {
 
 interface FormData {
   quotationNumber: string;
+  clientId?: string;
   clientName: string;
   clientAddress: string;
   clientNumber: string;
@@ -58,6 +67,8 @@ interface FormData {
     rate: number;
     total?: number | null;
     note?: string;
+    hsnSac?: string;
+    measurement?: ItemMeasurementRef | null;
   }[];
   extraWork: {
     description: string;
@@ -72,11 +83,14 @@ interface FormData {
   existingImages: { url: string; publicId: string }[];
   terms: string[];
   discount: number;
+  tax: TaxInput;
   note?: string;
   subtotal: number;
   grandTotal: number;
 }
 
+const DEFAULT_TAX: TaxInput = { enabled: false, rateType: "exclusive" };
+
 interface ApiError {
   error?: string;
   details?: { message: string }[];
@@ -92,6 +106,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
   const [loading, setLoading] = useState(true);
   const [quotations, setQuotations] = useState<Quotation[]>([]);
   const [isSubmittingForm, setIsSubmittingForm] = useState(false);
+  const [generalInfo, setGeneralInfo] = useState<GeneralInfo | null>(null);
 
   const {
     control,
@@ -106,6 +121,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
     resolver: zodResolver(projectFormSchema) as any,
     defaultValues: {
       quotationNumber: "",
+      clientId: undefined,
       clientName: "",
       clientAddress: "",
       clientNumber: "",
@@ -116,6 +132,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
       existingImages: [],
       terms: [],
       discount: 0,
+      tax: DEFAULT_TAX,
       note: "",
       subtotal: 0,
       grandTotal: 0,
@@ -153,6 +170,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
   const items = watch("items");
   const extraWork = watch("extraWork");
   const discount = watch("discount");
+  const tax = watch("tax");
   const watchedImages = watch("siteImages");
 
   // Calculate totals
@@ -180,7 +198,11 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
     );
 
     const subtotal = itemSubtotal + extraWorkSubtotal;
-    const grandTotal = Math.max(0, subtotal - currentDiscount);
+    const { grandTotal } = computeTaxBreakdown({
+      subtotal,
+      discount: currentDiscount,
+      tax: getValues("tax"),
+    });
 
     setValue("subtotal", subtotal, { shouldValidate: true });
     setValue("grandTotal", grandTotal, { shouldValidate: true });
@@ -211,6 +233,25 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
     [getValues, setValue, calculateTotals]
   );
 
+  // Fill the first blank item from the rate card, or add a new one
+  const addCatalogItem = (catalogItem: CatalogItem) => {
+    const line = toLineItem(catalogItem);
+    const blankIndex = getValues("items").findIndex((item) => !item.description && !item.rate);
+    if (blankIndex >= 0) {
+      setValue(`items.${blankIndex}`, line, { shouldValidate: true, shouldDirty: true });
+    } else {
+      appendItem(line);
+    }
+    setTimeout(() => calculateTotals(), 0);
+  };
+
+  const applyClient = (client: Client, site?: ClientSite) => {
+    setValue("clientId", client._id, { shouldDirty: true });
+    setValue("clientName", client.name, { shouldValidate: true, shouldDirty: true });
+    setValue("clientNumber", formatClientPhone(client.phone), { shouldValidate: true, shouldDirty: true });
+    if (site) setValue("clientAddress", site.address, { shouldValidate: true, shouldDirty: true });
+  };
+
   // Auto-calculate totals
   useEffect(() => {
     // We don't blindly recalculate item totals here to avoid overwriting manual edits if logic is complex,
@@ -230,7 +271,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
     });
 
     calculateTotals();
-  }, [items, extraWork, discount, setValue, calculateTotals]);
+  }, [items, extraWork, discount, tax, setValue, calculateTotals]);
 
   // Fetch Data
   useEffect(() => {
@@ -250,6 +291,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
         const data = await apiFetch<Project>(`/projects/${effectiveProjectId}`);
         reset({
           quotationNumber: data.quotationNumber,
+          clientId: data.clientId,
           clientName: data.clientName,
           clientAddress: data.clientAddress,
           clientNumber: data.clientNumber,
@@ -260,12 +302,24 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
             rate: item.rate,
             total: item.total ?? null,
             note: item.note ?? "",
+            hsnSac: item.hsnSac ?? "",
+            // Keeps the room-sheet link carried over from the quotation
+            measurement: item.measurement ?? null,
           })),
           extraWork: data.extraWork || [],
           siteImages: data.siteImages?.map(img => ({ url: img.url, publicId: img.publicId })) || [],
           existingImages: data.siteImages || [],
           terms: data.terms || [],
           discount: data.discount,
+          tax: data.tax
+            ? {
+              enabled: data.tax.enabled,
+              gstPercent: data.tax.gstPercent,
+              rateType: data.tax.rateType,
+              placeOfSupply: data.tax.placeOfSupply ?? "",
+              clientGstNumber: data.tax.clientGstNumber ?? "",
+            }
+            : DEFAULT_TAX,
           note: data.note ?? "",
           subtotal: data.subtotal ?? 0,
           grandTotal: data.grandTotal ?? 0,
@@ -281,7 +335,16 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
       }
     };
 
+    const fetchGeneralInfo = async () => {
+      try {
+        setGeneralInfo(await apiFetch<GeneralInfo>("/general-info"));
+      } catch {
+        // GST defaults are optional; the form still works without them
+      }
+    };
+
     fetchQuotations();
+    fetchGeneralInfo();
     if (effectiveProjectId) {
       fetchProject();
     } else {
@@ -308,6 +371,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
       const formData = new FormData();
       formData.append("projectId", effectiveProjectId);
       formData.append("quotationNumber", data.quotationNumber);
+      if (data.clientId) formData.append("clientId", data.clientId);
       formData.append("clientName", data.clientName);
       formData.append("clientAddress", data.clientAddress);
       formData.append("clientNumber", data.clientNumber);
@@ -315,6 +379,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
       formData.append("items", JSON.stringify(data.items));
       formData.append("extraWork", JSON.stringify(data.extraWork));
       formData.append("discount", String(data.discount));
+      formData.append("tax", JSON.stringify(data.tax));
       formData.append("note", data.note || "");
       formData.append("subtotal", String(data.subtotal));
       formData.append("grandTotal", String(data.grandTotal));
@@ -485,13 +550,14 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
           <TabsContent value="details" className="mt-0 space-y-6">
             <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }} className="space-y-6">
               <Card className="overflow-hidden border-0 bg-card shadow-sm">
-                <div className="border-b bg-muted/30 px-4 py-3 sm:px-6 sm:py-4">
+                <div className="flex items-center justify-between border-b bg-muted/30 px-4 py-3 sm:px-6 sm:py-4">
                   <h3 className="flex items-center gap-2 font-semibold">
                     <div className="flex h-7 w-7 items-center justify-center rounded-lg bg-primary/10">
                       <User className="h-3.5 w-3.5 text-primary" />
                     </div>
                     Client Information
                   </h3>
+                  <ClientPicker onSelect={applyClient} className="gap-1.5 rounded-full h-8 px-3 text-xs" />
                 </div>
                 <CardContent className="space-y-4 p-4 sm:p-6">
                   <div className="grid gap-4 sm:grid-cols-2">
@@ -514,7 +580,15 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
                         name="clientNumber"
                         rules={{ required: "Client number is required" }}
                         render={({ field }) => (
-                          <Input {...field} placeholder="Client number" className="h-10 rounded-xl bg-muted/30" />
+                          <Input
+                            {...field}
+                            onChange={(e) => {
+                              field.onChange(e);
+                              setValue("clientId", undefined);
+                            }}
+                            placeholder="Client number"
+                            className="h-10 rounded-xl bg-muted/30"
+                          />
                         )}
                       />
                       {errors.clientNumber && <p className="text-xs text-destructive">{errors.clientNumber.message}</p>}
@@ -608,6 +682,7 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
                     </div>
                     Work Items
                   </h3>
+                  <CatalogItemPicker onSelect={addCatalogItem} className="gap-1.5 rounded-full h-8 px-3 text-xs" />
                 </div>
                 <CardContent className="p-0">
                   <div className="space-y-0 divide-y">
@@ -727,6 +802,26 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
                               )}
                             />
                           </div>
+                          {tax?.enabled && (
+                            <div className="sm:col-span-4 space-y-2">
+                              <Label className="text-xs font-medium">HSN/SAC</Label>
+                              <Controller
+                                control={control}
+                                name={`items.${index}.hsnSac`}
+                                render={({ field }) => (
+                                  <Input
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    placeholder="e.g. 995473"
+                                    className="h-10 rounded-xl bg-muted/30 font-mono"
+                                  />
+                                )}
+                              />
+                              {errors.items?.[index]?.hsnSac && (
+                                <p className="text-xs text-destructive">{errors.items[index]?.hsnSac?.message}</p>
+                              )}
+                            </div>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -963,6 +1058,24 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
                     {errors.discount && <p className="text-xs text-destructive mt-1">{errors.discount.message}</p>}
                   </div>
                 </div>
+                <div className="max-w-sm">
+                  <Controller
+                    control={control}
+                    name="tax"
+                    render={({ field }) => (
+                      <GstSettingsFields
+                        value={field.value ?? DEFAULT_TAX}
+                        onChange={(value) => {
+                          field.onChange(value);
+                          setTimeout(() => calculateTotals(), 0);
+                        }}
+                        supplierGstNumber={generalInfo?.gstNumber}
+                        defaultGstPercent={generalInfo?.gstPercent}
+                        error={errors.tax?.clientGstNumber?.message}
+                      />
+                    )}
+                  />
+                </div>
               </div>
 
               <div className="flex flex-col gap-2 rounded-2xl bg-muted/30 p-4 lg:w-1/3">
@@ -974,6 +1087,16 @@ export default function ProjectForm({ projectId }: ProjectFormProps) {
                   <span className="text-muted-foreground">Discount</span>
                   <span className="text-destructive">-₹{getValues("discount").toFixed(2)}</span>
                 </div>
+                <TaxSummaryRows
+                  tax={
+                    computeTaxBreakdown({
+                      subtotal: getValues("subtotal"),
+                      discount: discount || 0,
+                      tax,
+                      supplierGstNumber: generalInfo?.gstNumber,
+                    }).tax
+                  }
+                />
                 <Separator className="my-2" />
                 <div className="flex justify-between text-lg font-bold text-primary">
                   <span>Grand Total</span>
@@ -13,9 +13,6 @@ import {
   Phone,
   MapPin,
   Briefcase,
-  CheckCircle,
-  Clock,
-  AlertCircle,
   ArrowLeft,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
@@ -29,7 +26,6 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
@@ -37,6 +33,8 @@ import { getProjects, apiFetch } from "@/app/lib/api"
 import type { Project } from "@/app/types"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { InfiniteListFooter } from "@/components/admin/InfiniteListFooter"
+import { PROJECT_STATUS_STYLES, ProjectStatusBadge } from "@/components/project/ProjectStatusBadge"
+import { PROJECT_STATUSES, PROJECT_STATUS_LABELS, type ProjectStatus } from "@/lib/project-status"
 
 export default function ProjectList() {
   const router = useRouter()
@@ -45,7 +43,7 @@ export default function ProjectList() {
   const [loadingMore, setLoadingMore] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
-  const [statusFilter, setStatusFilter] = useState<"all" | "ongoing" | "completed" | "cancelled">("all")
+  const [statusFilter, setStatusFilter] = useState<"all" | ProjectStatus>("all")
   const [sortOrder, setSortOrder] = useState<"newest" | "oldest">("newest")
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [projectToDelete, setProjectToDelete] = useState<string | null>(null)
@@ -204,40 +202,6 @@ export default function ProjectList() {
     router.push(`/dashboard/projects/${projectId}`)
   }
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "completed":
-        return (
-          <Badge className="bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-50 gap-1 text-xs font-medium">
-            <CheckCircle className="h-3 w-3" /> Completed
-          </Badge>
-        )
-      case "cancelled":
-        return (
-          <Badge className="bg-red-50 text-red-700 border-red-200 hover:bg-red-50 gap-1 text-xs font-medium">
-            <AlertCircle className="h-3 w-3" /> Cancelled
-          </Badge>
-        )
-      default:
-        return (
-          <Badge className="bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-50 gap-1 text-xs font-medium">
-            <Clock className="h-3 w-3" /> In Progress
-          </Badge>
-        )
-    }
-  }
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "completed":
-        return "border-l-emerald-500"
-      case "cancelled":
-        return "border-l-red-500"
-      default:
-        return "border-l-blue-500"
-    }
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen bg-muted/30 p-4 sm:p-6 lg:p-8">
@@ -330,19 +294,17 @@ export default function ProjectList() {
                   <Button variant="outline" size="sm" className="h-10 rounded-full border-border/50 bg-background">
                     <Filter className="h-4 w-4 mr-2 text-muted-foreground" />
                     <span className="text-sm">
-                      {statusFilter === "all"
-                        ? "All Status"
-                        : statusFilter === "ongoing"
-                          ? "In Progress"
-                          : statusFilter.split("-").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ")}
+                      {statusFilter === "all" ? "All Status" : PROJECT_STATUS_LABELS[statusFilter]}
                     </span>
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-40">
                   <DropdownMenuItem onClick={() => setStatusFilter("all")}>All Status</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setStatusFilter("ongoing")}>In Progress</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setStatusFilter("completed")}>Completed</DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => setStatusFilter("cancelled")}>Cancelled</DropdownMenuItem>
+                  {PROJECT_STATUSES.map((status) => (
+                    <DropdownMenuItem key={status} onClick={() => setStatusFilter(status)}>
+                      {PROJECT_STATUS_LABELS[status]}
+                    </DropdownMenuItem>
+                  ))}
                 </DropdownMenuContent>
               </DropdownMenu>
 
@@ -411,7 +373,7 @@ export default function ProjectList() {
                   >
                     <div
                       onClick={() => handleCardClick(project.projectId)}
-                      className={`group bg-background rounded-xl border border-border/50 p-4 sm:p-5 cursor-pointer hover:shadow-md hover:border-primary/30 transition-all duration-200 border-l-4 ${getStatusColor(project.status)}`}
+                      className={`group bg-background rounded-xl border border-border/50 p-4 sm:p-5 cursor-pointer hover:shadow-md hover:border-primary/30 transition-all duration-200 border-l-4 ${PROJECT_STATUS_STYLES[project.status]?.border || "border-l-blue-500"}`}
                     >
                       {/* Mobile Layout */}
                       <div className="sm:hidden space-y-4">
@@ -421,7 +383,7 @@ export default function ProjectList() {
                               <span className="font-mono text-xs text-muted-foreground">
                                 #{project.projectId}
                               </span>
-                              {getStatusBadge(project.status)}
+                              <ProjectStatusBadge status={project.status} />
                             </div>
                             <h3 className="font-semibold text-foreground">{project.clientName}</h3>
                           </div>
@@ -484,7 +446,7 @@ export default function ProjectList() {
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-3 mb-2">
                             <span className="font-mono text-xs text-muted-foreground">#{project.projectId}</span>
-                            {getStatusBadge(project.status)}
+                            <ProjectStatusBadge status={project.status} />
                           </div>
                           <h3 className="font-semibold text-foreground truncate mb-2">{project.clientName}</h3>
                           <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
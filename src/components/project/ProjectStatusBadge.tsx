@@ -0,0 +1,31 @@
+import { AlertCircle, CalendarClock, CheckCircle, Clock, Handshake, PauseCircle, type LucideIcon } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { PROJECT_STATUS_LABELS, type ProjectStatus } from "@/lib/project-status"
+
+export const PROJECT_STATUS_STYLES: Record<ProjectStatus, { className: string; border: string; icon: LucideIcon }> = {
+  scheduled: { className: "bg-violet-50 text-violet-700 border-violet-200 hover:bg-violet-50", border: "border-l-violet-500", icon: CalendarClock },
+  in_progress: { className: "bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-50", border: "border-l-blue-500", icon: Clock },
+  on_hold: { className: "bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-50", border: "border-l-amber-500", icon: PauseCircle },
+  work_complete: { className: "bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-50", border: "border-l-emerald-500", icon: CheckCircle },
+  handed_over: { className: "bg-teal-50 text-teal-700 border-teal-200 hover:bg-teal-50", border: "border-l-teal-500", icon: Handshake },
+  cancelled: { className: "bg-red-50 text-red-700 border-red-200 hover:bg-red-50", border: "border-l-red-500", icon: AlertCircle },
+}
+
+interface ProjectStatusBadgeProps {
+  status: ProjectStatus
+  size?: "sm" | "lg"
+}
+
+export function ProjectStatusBadge({ status, size = "sm" }: ProjectStatusBadgeProps) {
+  const style = PROJECT_STATUS_STYLES[status] || PROJECT_STATUS_STYLES.scheduled
+  const Icon = style.icon
+  return size === "lg" ? (
+    <Badge className={`${style.className} gap-1.5 px-3 py-1 text-sm font-medium`}>
+      <Icon className="h-4 w-4" /> {PROJECT_STATUS_LABELS[status] || status}
+    </Badge>
+  ) : (
+    <Badge className={`${style.className} gap-1 text-xs font-medium`}>
+      <Icon className="h-3 w-3" /> {PROJECT_STATUS_LABELS[status] || status}
+    </Badge>
+  )
+}
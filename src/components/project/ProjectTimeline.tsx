@@ -0,0 +1,173 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowRightLeft, History } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { apiFetch } from "@/app/lib/api"
+import type { Project } from "@/app/types"
+import { PROJECT_STATUS_STYLES, ProjectStatusBadge } from "@/components/project/ProjectStatusBadge"
+import {
+  PROJECT_STATUS_LABELS,
+  PROJECT_STATUS_TRANSITIONS,
+  isStatusReasonRequired,
+  type ProjectStatus,
+} from "@/lib/project-status"
+
+interface ProjectTimelineProps {
+  project: Project
+  onUpdated: (project: Project) => void
+}
+
+/** Work status of the project with its change history and the dialog for moving it on. */
+export function ProjectTimeline({ project, onUpdated }: ProjectTimelineProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [nextStatus, setNextStatus] = useState<ProjectStatus | "">("")
+  const [reason, setReason] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const nextStatuses = PROJECT_STATUS_TRANSITIONS[project.status] || []
+  const history = [...(project.statusHistory || [])].reverse()
+  const reasonRequired = !!nextStatus && isStatusReasonRequired(project.status, nextStatus)
+
+  const openDialog = () => {
+    setNextStatus(nextStatuses[0] || "")
+    setReason("")
+    setDialogOpen(true)
+  }
+
+  const handleChangeStatus = async () => {
+    if (!nextStatus) return
+    if (reasonRequired && !reason.trim()) {
+      toast.error("Please enter a reason")
+      return
+    }
+    setIsSaving(true)
+    try {
+      const updatedProject = await apiFetch<Project>(`/projects/${project.projectId}/status`, {
+        method: "POST",
+        body: JSON.stringify({ status: nextStatus, reason: reason.trim() || undefined }),
+      })
+      onUpdated(updatedProject)
+      setDialogOpen(false)
+      toast.success(`Project moved to ${PROJECT_STATUS_LABELS[nextStatus]}`)
+    } catch (error: unknown) {
+      console.error("Change project status error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to change project status")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-background rounded-xl border border-border/50 overflow-hidden print:hidden">
+      <div className="p-5 sm:p-6 border-b border-border/50 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+            <History className="h-4 w-4 text-primary" />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <h2 className="font-semibold text-foreground">Work Status</h2>
+              <ProjectStatusBadge status={project.status} />
+            </div>
+            {project.plannedStartDate && (
+              <p className="text-xs text-muted-foreground">
+                Planned on site {new Date(project.plannedStartDate).toLocaleDateString()}
+                {project.plannedEndDate && ` – ${new Date(project.plannedEndDate).toLocaleDateString()}`}
+              </p>
+            )}
+          </div>
+        </div>
+        {nextStatuses.length > 0 && (
+          <Button variant="outline" size="sm" className="rounded-lg gap-1.5" onClick={openDialog}>
+            <ArrowRightLeft className="h-4 w-4" /> Change Status
+          </Button>
+        )}
+      </div>
+
+      {history.length === 0 ? (
+        <p className="p-5 sm:p-6 text-sm text-muted-foreground">No status changes recorded yet.</p>
+      ) : (
+        <ol className="p-5 sm:p-6 space-y-4">
+          {history.map((change, index) => {
+            const Icon = PROJECT_STATUS_STYLES[change.to]?.icon || History
+            return (
+              <li key={index} className="flex gap-3">
+                <div className="h-7 w-7 shrink-0 rounded-full bg-muted flex items-center justify-center">
+                  <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+                </div>
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm font-medium text-foreground">
+                    {change.from ? `${PROJECT_STATUS_LABELS[change.from] || change.from} → ` : ""}
+                    {PROJECT_STATUS_LABELS[change.to] || change.to}
+                  </p>
+                  {change.reason && <p className="text-sm text-muted-foreground">{change.reason}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(change.changedAt).toLocaleString()} · {change.changedBy}
+                  </p>
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="rounded-xl sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Change Work Status</DialogTitle>
+            <DialogDescription>
+              Currently {PROJECT_STATUS_LABELS[project.status]}. Payment status is tracked separately.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="projectStatus">New Status</Label>
+              <Select value={nextStatus} onValueChange={(status) => setNextStatus(status as ProjectStatus)}>
+                <SelectTrigger id="projectStatus">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {nextStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {PROJECT_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="projectStatusReason">Reason{reasonRequired ? "" : " (Optional)"}</Label>
+              <Textarea
+                id="projectStatusReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={nextStatus === "on_hold" ? "e.g. Waiting for the client to choose colours" : ""}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} className="rounded-lg">
+              Cancel
+            </Button>
+            <Button onClick={handleChangeStatus} disabled={isSaving || !nextStatus} className="rounded-lg">
+              {isSaving ? "Saving..." : "Change Status"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -10,8 +10,6 @@ import {
   Phone,
   Calendar,
   Download,
-  Clock,
-  CheckCircle,
   DollarSign,
   Plus,
   AlertCircle,
@@ -20,6 +18,9 @@ import {
   LinkIcon,
   ExternalLink,
   Info,
+  TrendingUp,
+  Pencil,
+  Undo2,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { toast } from "sonner"
@@ -27,8 +28,22 @@ import { Skeleton } from "@/components/ui/skeleton"
 import Link from "next/link"
 import Image from "next/image"
 import { apiFetch } from "@/app/lib/api"
-import type { Project, Payment } from "@/app/types"
-import { generateProjectPDF } from "@/app/lib/generate-pdf"
+import type { ApiError, Project, Payment, ProjectCosting } from "@/app/types"
+import { TaxSummaryRows } from "@/components/tax/TaxSummaryRows"
+import { generatePaymentReceiptPDF, generateProjectPDF } from "@/app/lib/generate-pdf"
+import {
+  EDITABLE_PAYMENT_FIELD_LABELS,
+  findPaymentReversal,
+  getPaymentMethodLabel,
+  type EditablePaymentField,
+} from "@/lib/payments"
+import { PaymentFields, getPaymentPayload } from "@/components/project/PaymentFields"
+import { PaymentSchedule } from "@/components/project/PaymentSchedule"
+import { ProjectStatusBadge } from "@/components/project/ProjectStatusBadge"
+import { ProjectTimeline } from "@/components/project/ProjectTimeline"
+import { ProgressLog } from "@/components/project/ProgressLog"
+import { SiteLocation } from "@/components/project/SiteLocation"
+import { PROJECT_PAYMENT_STATUS_LABELS, getProjectPaymentStatus } from "@/lib/project-status"
 import {
   Dialog,
   DialogContent,
@@ -49,19 +64,65 @@ interface ProjectViewProps {
   projectId: string
 }
 
+const formatSignedAmount = (amount: number) =>
+  amount < 0 ? `-₹${Math.abs(amount).toFixed(2)}` : `+₹${Number(amount).toFixed(2)}`
+
+// Reversed and corrected markers under a payment's note, with the correction trail on hover
+function PaymentFlags({ payment, reversed }: { payment: Payment; reversed: boolean }) {
+  const corrections = payment.corrections || []
+  if (!reversed && corrections.length === 0) return null
+
+  const trail = corrections
+    .map(
+      (entry) =>
+        `${new Date(entry.correctedAt).toLocaleDateString()} by ${entry.correctedBy} (${entry.reason}): ` +
+        entry.changes
+          .map(
+            (change) =>
+              `${EDITABLE_PAYMENT_FIELD_LABELS[change.field as EditablePaymentField] || change.field} ${change.from || "-"} → ${change.to || "-"}`
+          )
+          .join(", ")
+    )
+    .join("\n")
+
+  return (
+    <div className="mt-1 flex gap-1.5">
+      {reversed && (
+        <Badge variant="outline" className="text-xs text-red-600 border-red-200">
+          Reversed
+        </Badge>
+      )}
+      {corrections.length > 0 && (
+        <Badge variant="outline" className="text-xs cursor-help" title={trail}>
+          Corrected{corrections.length > 1 ? ` ×${corrections.length}` : ""}
+        </Badge>
+      )}
+    </div>
+  )
+}
+
+const createEmptyPayment = (): Partial<Payment> => ({
+  amount: 0,
+  date: new Date().toISOString().split("T")[0],
+  method: "cash",
+  note: "",
+})
+
 export default function ProjectView({ projectId }: ProjectViewProps) {
   const [project, setProject] = useState<Project | null>(null)
+  const [costing, setCosting] = useState<ProjectCosting | null>(null)
   const [loading, setLoading] = useState(true)
   const [isGenerating, setIsGenerating] = useState(false)
   const [paymentDialogOpen, setPaymentDialogOpen] = useState(false)
   const [failedImages, setFailedImages] = useState<number[]>([])
-  const [newPayment, setNewPayment] = useState<Partial<Payment>>({
-    amount: 0,
-    date: new Date().toISOString().split("T")[0],
-    method: "Cash",
-    note: "",
-  })
+  const [newPayment, setNewPayment] = useState<Partial<Payment>>(createEmptyPayment)
   const [isSubmittingPayment, setIsSubmittingPayment] = useState(false)
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null)
+  const [correction, setCorrection] = useState<Partial<Payment>>({})
+  const [correctionReason, setCorrectionReason] = useState("")
+  const [reversingPayment, setReversingPayment] = useState<Payment | null>(null)
+  const [reversalReason, setReversalReason] = useState("")
+  const [isCorrecting, setIsCorrecting] = useState(false)
 
   const fetchProject = useCallback(async () => {
     try {
@@ -76,11 +137,21 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
     }
   }, [projectId])
 
+  const fetchCosting = useCallback(async () => {
+    try {
+      const data = await apiFetch<{ costing: ProjectCosting }>(`/projects/${projectId}/costing`)
+      setCosting(data.costing)
+    } catch (error: unknown) {
+      console.error("Fetch project costing error:", error)
+    }
+  }, [projectId])
+
   useEffect(() => {
     if (projectId) {
       fetchProject()
+      fetchCosting()
     }
-  }, [projectId, fetchProject])
+  }, [projectId, fetchProject, fetchCosting])
 
   const handleCopyLink = () => {
     const url = window.location.href
@@ -109,21 +180,21 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
       toast.error("Please fill in all required fields")
       return
     }
+    if (newPayment.method === "cheque" && !newPayment.chequeNumber) {
+      toast.error("Please enter the cheque number")
+      return
+    }
 
     setIsSubmittingPayment(true)
     try {
       const updatedProject = await apiFetch<Project>(`/projects/${projectId}/payments`, {
         method: "POST",
-        body: JSON.stringify(newPayment),
+        body: JSON.stringify(getPaymentPayload(newPayment)),
       })
       setProject(updatedProject)
+      fetchCosting()
       setPaymentDialogOpen(false)
-      setNewPayment({
-        amount: 0,
-        date: new Date().toISOString().split("T")[0],
-        method: "Cash",
-        note: "",
-      })
+      setNewPayment(createEmptyPayment())
       toast.success("Payment added successfully")
     } catch (error: unknown) {
       console.error("Add payment error:", error)
@@ -133,28 +204,75 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
     }
   }
 
-  const getStatusBadge = () => {
-    if (!project) return null
-
-    switch (project.status) {
-      case "completed":
-        return (
-          <Badge className="bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-50 gap-1.5 px-3 py-1 text-sm font-medium">
-            <CheckCircle className="h-4 w-4" /> Completed
-          </Badge>
-        )
-      case "cancelled":
-        return (
-          <Badge className="bg-red-50 text-red-700 border-red-200 hover:bg-red-50 gap-1.5 px-3 py-1 text-sm font-medium">
-            <AlertCircle className="h-4 w-4" /> Cancelled
-          </Badge>
-        )
-      default:
-        return (
-          <Badge className="bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-50 gap-1.5 px-3 py-1 text-sm font-medium">
-            <Clock className="h-4 w-4" /> In Progress
-          </Badge>
-        )
+  const openCorrection = (payment: Payment) => {
+    setEditingPayment(payment)
+    setCorrection({ ...payment, date: new Date(payment.date).toISOString().split("T")[0] })
+    setCorrectionReason("")
+  }
+
+  const handleSaveCorrection = async () => {
+    if (!editingPayment?._id || !correction.amount || !correction.date) {
+      toast.error("Please fill in all required fields")
+      return
+    }
+    if (!correctionReason.trim()) {
+      toast.error("Please give a reason for the correction")
+      return
+    }
+
+    setIsCorrecting(true)
+    try {
+      const updatedProject = await apiFetch<Project>(`/projects/${projectId}/payments/${editingPayment._id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ ...getPaymentPayload(correction), reason: correctionReason }),
+      })
+      setProject(updatedProject)
+      fetchCosting()
+      setEditingPayment(null)
+      toast.success("Payment corrected")
+    } catch (error: unknown) {
+      console.error("Correct payment error:", error)
+      const apiError = error as ApiError
+      toast.error(typeof apiError.error === "string" ? apiError.error : "Failed to correct payment")
+    } finally {
+      setIsCorrecting(false)
+    }
+  }
+
+  const handleReversePayment = async () => {
+    if (!reversingPayment?._id) return
+    if (!reversalReason.trim()) {
+      toast.error("Please give a reason for the reversal")
+      return
+    }
+
+    setIsCorrecting(true)
+    try {
+      const updatedProject = await apiFetch<Project>(`/projects/${projectId}/payments/${reversingPayment._id}`, {
+        method: "DELETE",
+        body: JSON.stringify({ reason: reversalReason }),
+      })
+      setProject(updatedProject)
+      fetchCosting()
+      setReversingPayment(null)
+      setReversalReason("")
+      toast.success("Payment reversed")
+    } catch (error: unknown) {
+      console.error("Reverse payment error:", error)
+      const apiError = error as ApiError
+      toast.error(typeof apiError.error === "string" ? apiError.error : "Failed to reverse payment")
+    } finally {
+      setIsCorrecting(false)
+    }
+  }
+
+  const handleDownloadReceipt = (payment: Payment) => {
+    if (!project) return
+    try {
+      generatePaymentReceiptPDF(project, payment)
+    } catch (error) {
+      console.error("Error generating receipt:", error)
+      toast.error("Failed to generate receipt. Please try again.")
     }
   }
 
@@ -227,7 +345,10 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
                   <h1 className="text-xl sm:text-2xl font-bold text-foreground tracking-tight">
                     Project #{project.projectId}
                   </h1>
-                  {getStatusBadge()}
+                  <ProjectStatusBadge status={project.status} size="lg" />
+                  <Badge variant="outline" className="px-3 py-1 text-sm font-medium">
+                    {PROJECT_PAYMENT_STATUS_LABELS[getProjectPaymentStatus(project)]}
+                  </Badge>
                 </div>
                 <p className="text-sm text-muted-foreground">
                   Created on {project.createdAt ? new Date(project.createdAt).toLocaleDateString() : "N/A"}
@@ -307,6 +428,74 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
             </div>
           </div>
 
+          <ProjectTimeline project={project} onUpdated={setProject} />
+
+          <SiteLocation project={project} onUpdated={setProject} />
+
+          <PaymentSchedule project={project} onUpdated={setProject} />
+
+          {/* Cost & Margin */}
+          {costing && (
+            <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6 print:hidden">
+              <div className="flex items-center justify-between mb-5">
+                <div className="flex items-center gap-2">
+                  <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+                    <TrendingUp className="h-4 w-4 text-primary" />
+                  </div>
+                  <h2 className="font-semibold text-foreground">Cost & Margin</h2>
+                </div>
+                <span
+                  className={`text-sm font-semibold ${costing.margin >= 0 ? "text-emerald-600" : "text-destructive"}`}
+                >
+                  {costing.marginPercent.toFixed(1)}%
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-xs text-muted-foreground mb-0.5">Labour ({costing.labourUnits} units)</p>
+                  <p className="font-mono font-medium">₹{costing.labourCost.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-0.5">Material</p>
+                  <p className="font-mono font-medium">₹{costing.materialCost.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-0.5">Other Expenses</p>
+                  <p className="font-mono font-medium">₹{costing.otherCost.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-0.5">Total Cost</p>
+                  <p className="font-mono font-semibold">₹{costing.totalCost.toFixed(2)}</p>
+                </div>
+              </div>
+
+              <Separator className="my-4" />
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-xs text-muted-foreground mb-0.5">
+                    {project.tax?.enabled ? "Contract Value (excl. GST)" : "Contract Value"}
+                  </p>
+                  <p className="font-mono font-medium">₹{costing.revenue.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-0.5">Received So Far</p>
+                  <p className="font-mono font-medium text-emerald-600">₹{costing.paymentsReceived.toFixed(2)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-0.5">Margin</p>
+                  <p className={`font-mono font-semibold ${costing.margin >= 0 ? "text-emerald-600" : "text-destructive"}`}>
+                    ₹{costing.margin.toFixed(2)}
+                  </p>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground mt-4">
+                Labour is priced from attendance logged against this project. Add expenses from the Expenses page and link them to this project to include them here.
+              </p>
+            </div>
+          )}
+
           {/* Client Information */}
           <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6">
             <div className="flex items-center gap-2 mb-5">
@@ -406,6 +595,7 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
                       <td className="py-4 px-5">
                         <p className="font-medium text-foreground">{item.description}</p>
                         {item.note && <p className="text-sm text-muted-foreground mt-1">{item.note}</p>}
+                        {item.hsnSac && <p className="text-xs font-mono text-muted-foreground mt-1">HSN/SAC: {item.hsnSac}</p>}
                       </td>
                       <td className="text-right py-4 px-5 font-mono text-sm">{item.area ?? "-"}</td>
                       <td className="text-right py-4 px-5 font-mono text-sm">₹{Number(item.rate).toFixed(2)}</td>
@@ -428,6 +618,7 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
                   <div>
                     <p className="font-medium text-foreground">{item.description}</p>
                     {item.note && <p className="text-sm text-muted-foreground mt-1">{item.note}</p>}
+                    {item.hsnSac && <p className="text-xs font-mono text-muted-foreground mt-1">HSN/SAC: {item.hsnSac}</p>}
                   </div>
                   <div className="flex justify-between text-sm">
                     <div className="space-y-1">
@@ -461,6 +652,7 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
                     <span className="font-mono text-emerald-600">-₹{Number(project.discount).toFixed(2)}</span>
                   </div>
                 )}
+                <TaxSummaryRows tax={project.tax} />
                 <Separator />
                 <div className="flex justify-between items-center pt-2">
                   <span className="font-semibold text-foreground">Grand Total</span>
@@ -492,43 +684,7 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
                     <DialogDescription>Add a new payment record for this project.</DialogDescription>
                   </DialogHeader>
                   <div className="space-y-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="amount">Amount (₹)</Label>
-                      <Input
-                        id="amount"
-                        type="number"
-                        value={newPayment.amount}
-                        onChange={(e) => setNewPayment({ ...newPayment, amount: Number(e.target.value) })}
-                        placeholder="0.00"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="date">Date</Label>
-                      <Input
-                        id="date"
-                        type="date"
-                        value={newPayment.date as string}
-                        onChange={(e) => setNewPayment({ ...newPayment, date: e.target.value })}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="method">Payment Method</Label>
-                      <Input
-                        id="method"
-                        value={newPayment.method}
-                        onChange={(e) => setNewPayment({ ...newPayment, method: e.target.value })}
-                        placeholder="e.g. Cash, UPI, Bank Transfer"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="note">Note (Optional)</Label>
-                      <Textarea
-                        id="note"
-                        value={newPayment.note}
-                        onChange={(e) => setNewPayment({ ...newPayment, note: e.target.value })}
-                        placeholder="Additional details..."
-                      />
-                    </div>
+                    <PaymentFields value={newPayment} onChange={setNewPayment} />
                   </div>
                   <DialogFooter>
                     <Button variant="outline" onClick={() => setPaymentDialogOpen(false)} className="rounded-lg">
@@ -550,40 +706,150 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
                     <thead>
                       <tr className="bg-muted/50">
                         <th className="text-left py-3 px-5 font-medium text-muted-foreground text-sm">Date</th>
+                        <th className="text-left py-3 px-5 font-medium text-muted-foreground text-sm">Receipt</th>
                         <th className="text-left py-3 px-5 font-medium text-muted-foreground text-sm">Method</th>
                         <th className="text-left py-3 px-5 font-medium text-muted-foreground text-sm">Note</th>
                         <th className="text-right py-3 px-5 font-medium text-muted-foreground text-sm">Amount (₹)</th>
+                        <th className="py-3 px-3" />
                       </tr>
                     </thead>
                     <tbody>
-                      {project.paymentHistory.map((payment, index) => (
-                        <tr key={index} className="border-t border-border/50 hover:bg-muted/30 transition-colors">
-                          <td className="py-4 px-5 text-sm">{new Date(payment.date).toLocaleDateString()}</td>
-                          <td className="py-4 px-5 text-sm">{payment.method}</td>
-                          <td className="py-4 px-5 text-sm text-muted-foreground">{payment.note || "-"}</td>
-                          <td className="text-right py-4 px-5 font-mono font-medium text-emerald-600">
-                            +₹{Number(payment.amount).toFixed(2)}
-                          </td>
-                        </tr>
-                      ))}
+                      {project.paymentHistory.map((payment, index) => {
+                        const reversal = findPaymentReversal(project.paymentHistory, payment)
+                        return (
+                          <tr
+                            key={payment._id || index}
+                            className={`border-t border-border/50 hover:bg-muted/30 transition-colors ${
+                              payment.isReversal || reversal ? "bg-muted/20" : ""
+                            }`}
+                          >
+                            <td className="py-4 px-5 text-sm">{new Date(payment.date).toLocaleDateString()}</td>
+                            <td className="py-4 px-5 font-mono text-sm">{payment.receiptNumber || "-"}</td>
+                            <td className="py-4 px-5 text-sm">
+                              {getPaymentMethodLabel(payment)}
+                              {payment.referenceId && (
+                                <p className="text-xs text-muted-foreground">Ref: {payment.referenceId}</p>
+                              )}
+                            </td>
+                            <td className="py-4 px-5 text-sm text-muted-foreground">
+                              {payment.note || "-"}
+                              {payment.isReversal && payment.reason && <p className="text-xs">Reason: {payment.reason}</p>}
+                              {payment.receivedBy && <p className="text-xs">Received by {payment.receivedBy}</p>}
+                              <PaymentFlags payment={payment} reversed={!!reversal} />
+                            </td>
+                            <td
+                              className={`text-right py-4 px-5 font-mono font-medium ${
+                                payment.amount < 0 ? "text-red-600" : reversal ? "text-muted-foreground line-through" : "text-emerald-600"
+                              }`}
+                            >
+                              {formatSignedAmount(payment.amount)}
+                            </td>
+                            <td className="py-4 px-3">
+                              <div className="flex justify-end gap-1">
+                                {!payment.isReversal && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => handleDownloadReceipt(payment)}
+                                    title="Download receipt"
+                                  >
+                                    <Download className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                {!payment.isReversal && !reversal && payment._id && (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-8 w-8"
+                                      onClick={() => openCorrection(payment)}
+                                      title="Correct payment"
+                                    >
+                                      <Pencil className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-8 w-8 text-destructive hover:text-destructive"
+                                      onClick={() => setReversingPayment(payment)}
+                                      title="Reverse payment"
+                                    >
+                                      <Undo2 className="h-4 w-4" />
+                                    </Button>
+                                  </>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        )
+                      })}
                     </tbody>
                   </table>
                 </div>
 
                 {/* Mobile Cards */}
                 <div className="sm:hidden divide-y divide-border/50">
-                  {project.paymentHistory.map((payment, index) => (
-                    <div key={index} className="p-4 space-y-2">
-                      <div className="flex justify-between items-start">
-                        <div>
-                          <p className="font-medium text-foreground">{payment.method}</p>
-                          <p className="text-sm text-muted-foreground">{new Date(payment.date).toLocaleDateString()}</p>
+                  {project.paymentHistory.map((payment, index) => {
+                    const reversal = findPaymentReversal(project.paymentHistory, payment)
+                    return (
+                      <div key={payment._id || index} className="p-4 space-y-2">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <p className="font-medium text-foreground">{getPaymentMethodLabel(payment)}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {new Date(payment.date).toLocaleDateString()}
+                              {payment.receiptNumber && ` · #${payment.receiptNumber}`}
+                            </p>
+                          </div>
+                          <p
+                            className={`font-bold ${
+                              payment.amount < 0 ? "text-red-600" : reversal ? "text-muted-foreground line-through" : "text-emerald-600"
+                            }`}
+                          >
+                            {formatSignedAmount(payment.amount)}
+                          </p>
                         </div>
-                        <p className="font-bold text-emerald-600">+₹{Number(payment.amount).toFixed(2)}</p>
+                        {payment.note && <p className="text-sm text-muted-foreground">{payment.note}</p>}
+                        {payment.isReversal && payment.reason && (
+                          <p className="text-xs text-muted-foreground">Reason: {payment.reason}</p>
+                        )}
+                        <PaymentFlags payment={payment} reversed={!!reversal} />
+                        {!payment.isReversal && (
+                          <div className="flex flex-wrap gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="rounded-lg gap-1.5"
+                              onClick={() => handleDownloadReceipt(payment)}
+                            >
+                              <Download className="h-3.5 w-3.5" /> Receipt
+                            </Button>
+                            {!reversal && payment._id && (
+                              <>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="rounded-lg gap-1.5"
+                                  onClick={() => openCorrection(payment)}
+                                >
+                                  <Pencil className="h-3.5 w-3.5" /> Correct
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="rounded-lg gap-1.5 text-destructive hover:text-destructive"
+                                  onClick={() => setReversingPayment(payment)}
+                                >
+                                  <Undo2 className="h-3.5 w-3.5" /> Reverse
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        )}
                       </div>
-                      {payment.note && <p className="text-sm text-muted-foreground">{payment.note}</p>}
-                    </div>
-                  ))}
+                    )
+                  })}
                 </div>
               </>
             ) : (
@@ -591,6 +857,64 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
             )}
           </div>
 
+          <Dialog open={!!editingPayment} onOpenChange={(open) => !open && setEditingPayment(null)}>
+            <DialogContent className="rounded-xl sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Correct Payment{editingPayment?.receiptNumber && ` #${editingPayment.receiptNumber}`}</DialogTitle>
+                <DialogDescription>The previous values are kept on the payment&apos;s correction trail.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <PaymentFields value={correction} onChange={setCorrection} />
+                <div className="space-y-2">
+                  <Label htmlFor="correctionReason">Reason for Correction</Label>
+                  <Input
+                    id="correctionReason"
+                    value={correctionReason}
+                    onChange={(e) => setCorrectionReason(e.target.value)}
+                    placeholder="e.g. Amount entered wrongly"
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setEditingPayment(null)} className="rounded-lg">
+                  Cancel
+                </Button>
+                <Button onClick={handleSaveCorrection} disabled={isCorrecting} className="rounded-lg">
+                  {isCorrecting ? "Saving..." : "Save Correction"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={!!reversingPayment} onOpenChange={(open) => !open && setReversingPayment(null)}>
+            <DialogContent className="rounded-xl sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Reverse Payment</DialogTitle>
+                <DialogDescription>
+                  {reversingPayment &&
+                    `A reversal of ₹${Number(reversingPayment.amount).toFixed(2)} will be added to the payment history and the balance due updated. The original payment stays on record.`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2 py-4">
+                <Label htmlFor="reversalReason">Reason for Reversal</Label>
+                <Textarea
+                  id="reversalReason"
+                  value={reversalReason}
+                  onChange={(e) => setReversalReason(e.target.value)}
+                  placeholder="e.g. Cheque bounced"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setReversingPayment(null)} className="rounded-lg">
+                  Cancel
+                </Button>
+                <Button variant="destructive" onClick={handleReversePayment} disabled={isCorrecting} className="rounded-lg">
+                  {isCorrecting ? "Reversing..." : "Reverse Payment"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
           {/* Site Images */}
           {project.siteImages && project.siteImages.length > 0 && (
             <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6">
@@ -636,6 +960,8 @@ export default function ProjectView({ projectId }: ProjectViewProps) {
               </div>
             </div>
           )}
+
+          <ProgressLog project={project} onUpdated={setProject} />
         </div>
       </div>
 
@@ -0,0 +1,208 @@
+"use client"
+
+import { useState } from "react"
+import { Crosshair, MapPin } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { apiFetch } from "@/app/lib/api"
+import type { Project } from "@/app/types"
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  MAX_GEOFENCE_RADIUS_METERS,
+  MIN_GEOFENCE_RADIUS_METERS,
+  getGeofenceRadius,
+} from "@/lib/site-check-in"
+
+interface SiteLocationProps {
+  project: Project
+  onUpdated: (project: Project) => void
+}
+
+/** The pinned site location and geofence workers check in against. */
+export function SiteLocation({ project, onUpdated }: SiteLocationProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [form, setForm] = useState({ latitude: "", longitude: "", radiusMeters: "" })
+  const [isLocating, setIsLocating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const location = project.siteLocation
+
+  const openDialog = () => {
+    setForm({
+      latitude: location ? String(location.latitude) : "",
+      longitude: location ? String(location.longitude) : "",
+      radiusMeters: location?.radiusMeters ? String(location.radiusMeters) : "",
+    })
+    setDialogOpen(true)
+  }
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error("Location is not available on this device")
+      return
+    }
+    setIsLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setForm((prev) => ({
+          ...prev,
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6),
+        }))
+        setIsLocating(false)
+      },
+      (error) => {
+        toast.error(error.message || "Could not read your location")
+        setIsLocating(false)
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
+    )
+  }
+
+  const saveLocation = async (siteLocation: Project["siteLocation"] | null) => {
+    setIsSaving(true)
+    try {
+      const updatedProject = await apiFetch<Project>(`/projects/${project.projectId}/site-location`, {
+        method: "PUT",
+        body: JSON.stringify(siteLocation),
+      })
+      onUpdated(updatedProject)
+      setDialogOpen(false)
+      toast.success(siteLocation ? "Site location saved" : "Site location removed")
+    } catch (error: unknown) {
+      console.error("Save site location error:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save site location")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = () => {
+    const latitude = Number(form.latitude)
+    const longitude = Number(form.longitude)
+    if (!form.latitude || !form.longitude || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      toast.error("Enter the site's latitude and longitude")
+      return
+    }
+    saveLocation({
+      latitude,
+      longitude,
+      radiusMeters: form.radiusMeters ? Math.round(Number(form.radiusMeters)) : undefined,
+    })
+  }
+
+  return (
+    <div className="bg-background rounded-xl border border-border/50 p-5 sm:p-6 print:hidden">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
+            <MapPin className="h-4 w-4 text-primary" />
+          </div>
+          <div>
+            <h2 className="font-semibold text-foreground">Site Check-in</h2>
+            {location ? (
+              <p className="text-xs text-muted-foreground">
+                Workers check in within {getGeofenceRadius(location)} m of{" "}
+                <a
+                  href={`https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+                </a>
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Pin the site so workers can check in from their phones</p>
+            )}
+          </div>
+        </div>
+        <Button variant="outline" size="sm" className="rounded-lg" onClick={openDialog}>
+          {location ? "Edit" : "Pin Site"}
+        </Button>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="rounded-xl sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Site Location</DialogTitle>
+            <DialogDescription>
+              Workers assigned to this project can only check in from inside the radius.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full rounded-lg gap-1.5"
+              onClick={handleUseCurrentLocation}
+              disabled={isLocating}
+            >
+              <Crosshair className="h-4 w-4" /> {isLocating ? "Locating..." : "Use my current location"}
+            </Button>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="siteLatitude">Latitude</Label>
+                <Input
+                  id="siteLatitude"
+                  inputMode="decimal"
+                  value={form.latitude}
+                  onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="siteLongitude">Longitude</Label>
+                <Input
+                  id="siteLongitude"
+                  inputMode="decimal"
+                  value={form.longitude}
+                  onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="siteRadius">Radius (m)</Label>
+              <Input
+                id="siteRadius"
+                type="number"
+                min={MIN_GEOFENCE_RADIUS_METERS}
+                max={MAX_GEOFENCE_RADIUS_METERS}
+                placeholder={String(DEFAULT_GEOFENCE_RADIUS_METERS)}
+                value={form.radiusMeters}
+                onChange={(e) => setForm({ ...form, radiusMeters: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            {location && (
+              <Button
+                variant="outline"
+                onClick={() => saveLocation(null)}
+                disabled={isSaving}
+                className="rounded-lg text-destructive sm:mr-auto"
+              >
+                Remove
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setDialogOpen(false)} className="rounded-lg">
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="rounded-lg">
+              {isSaving ? "Saving..." : "Save Location"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
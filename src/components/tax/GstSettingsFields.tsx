@@ -0,0 +1,110 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { GST_STATES, resolveSupplyType, type TaxInput } from "@/lib/gst"
+
+const numberInputClass =
+  "[appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+
+interface GstSettingsFieldsProps {
+  value: TaxInput
+  onChange: (value: TaxInput) => void
+  supplierGstNumber?: string
+  defaultGstPercent?: number
+  error?: string
+}
+
+export function GstSettingsFields({
+  value,
+  onChange,
+  supplierGstNumber,
+  defaultGstPercent = 0,
+  error,
+}: GstSettingsFieldsProps) {
+  const update = (patch: Partial<TaxInput>) => onChange({ ...value, ...patch })
+  const supplyType = resolveSupplyType(supplierGstNumber, value.placeOfSupply)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="text-muted-foreground">Apply GST</span>
+        <Switch
+          checked={value.enabled}
+          onCheckedChange={(checked) =>
+            update({ enabled: checked, gstPercent: value.gstPercent ?? defaultGstPercent })
+          }
+        />
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-3 rounded-xl border bg-background/60 p-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-[10px] uppercase text-muted-foreground">GST %</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={value.gstPercent ?? ""}
+                onChange={(e) => update({ gstPercent: Math.min(100, Math.max(0, Number(e.target.value))) })}
+                className={`${numberInputClass} h-8 rounded-lg text-right font-mono`}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-[10px] uppercase text-muted-foreground">Rates are</Label>
+              <Select
+                value={value.rateType ?? "exclusive"}
+                onValueChange={(rateType) => update({ rateType: rateType as TaxInput["rateType"] })}
+              >
+                <SelectTrigger className="h-8 rounded-lg text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="exclusive">Excl. GST</SelectItem>
+                  <SelectItem value="inclusive">Incl. GST</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-[10px] uppercase text-muted-foreground">Place of supply</Label>
+            <Select
+              value={value.placeOfSupply || undefined}
+              onValueChange={(placeOfSupply) => update({ placeOfSupply })}
+            >
+              <SelectTrigger className="h-8 rounded-lg text-xs">
+                <SelectValue placeholder="Same as business state" />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                {GST_STATES.map((state) => (
+                  <SelectItem key={state.code} value={state.code}>
+                    {state.code} - {state.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-[11px] text-muted-foreground">
+              {supplyType === "inter" ? "Inter-state supply: IGST applies" : "Intra-state supply: CGST + SGST apply"}
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-[10px] uppercase text-muted-foreground">Client GSTIN (optional)</Label>
+            <Input
+              value={value.clientGstNumber ?? ""}
+              onChange={(e) => update({ clientGstNumber: e.target.value.toUpperCase().trim() })}
+              placeholder="27ABCDE1234F1Z5"
+              maxLength={15}
+              className={`h-8 rounded-lg font-mono text-xs uppercase ${error ? "border-destructive" : ""}`}
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
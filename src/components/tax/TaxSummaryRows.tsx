@@ -0,0 +1,34 @@
+"use client"
+
+import { getStateName, getTaxSummaryLines, type TaxBreakdown } from "@/lib/gst"
+
+interface TaxSummaryRowsProps {
+  tax?: TaxBreakdown | null
+  showPlaceOfSupply?: boolean
+}
+
+export function TaxSummaryRows({ tax, showPlaceOfSupply = true }: TaxSummaryRowsProps) {
+  const lines = getTaxSummaryLines(tax)
+  if (!tax || lines.length === 0) return null
+
+  const stateName = getStateName(tax.placeOfSupply)
+
+  return (
+    <>
+      {lines.map((line) => (
+        <div key={line.label} className="flex justify-between text-sm">
+          <span className="text-muted-foreground">{line.label}</span>
+          <span className="font-mono">₹{line.amount.toFixed(2)}</span>
+        </div>
+      ))}
+      {tax.rateType === "inclusive" && (
+        <p className="text-xs text-muted-foreground">Rates are inclusive of GST</p>
+      )}
+      {showPlaceOfSupply && stateName && (
+        <p className="text-xs text-muted-foreground">
+          Place of supply: {stateName} ({tax.placeOfSupply})
+        </p>
+      )}
+    </>
+  )
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
     Dialog,
     DialogContent,
@@ -38,6 +38,12 @@ const CATEGORIES = [
     { value: "other", label: "Other" },
 ];
 
+interface ProjectOption {
+    _id: string;
+    projectId: string;
+    clientName: string;
+}
+
 export default function AddTransactionDialog({
     open,
     onOpenChange,
@@ -49,6 +55,16 @@ export default function AddTransactionDialog({
     const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
     const [note, setNote] = useState("");
     const [category, setCategory] = useState("");
+    const [projectId, setProjectId] = useState("");
+    const [projects, setProjects] = useState<ProjectOption[]>([]);
+
+    useEffect(() => {
+        if (!open) return;
+        fetch("/api/projects/ongoing")
+            .then((response) => (response.ok ? response.json() : { projects: [] }))
+            .then((data) => setProjects(data.projects || []))
+            .catch(() => setProjects([]));
+    }, [open]);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -74,6 +90,7 @@ export default function AddTransactionDialog({
                     date,
                     note: note.trim(),
                     category: category || undefined,
+                    projectId: type === "debit" && projectId ? projectId : undefined,
                 }),
             });
 
@@ -92,6 +109,7 @@ export default function AddTransactionDialog({
             setDate(new Date().toISOString().split("T")[0]);
             setNote("");
             setCategory("");
+            setProjectId("");
 
             onSuccess();
         } catch (error) {
@@ -191,6 +209,29 @@ export default function AddTransactionDialog({
                         </Select>
                     </div>
 
+                    {/* Project (expenses only, used for project costing) */}
+                    {type === "debit" && (
+                        <div className="space-y-2">
+                            <Label htmlFor="project">Project (Optional)</Label>
+                            <Select
+                                value={projectId || "none"}
+                                onValueChange={(value) => setProjectId(value === "none" ? "" : value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Not linked to a project" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">Not linked to a project</SelectItem>
+                                    {projects.map((project) => (
+                                        <SelectItem key={project._id} value={project._id}>
+                                            #{project.projectId} · {project.clientName}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
                     {/* Note */}
                     <div className="space-y-2">
                         <Label htmlFor="note">Note</Label>
@@ -51,6 +51,7 @@ interface Transaction {
     date: string;
     note: string;
     category?: string;
+    projectId?: { _id: string; projectId: string; clientName: string } | null;
     createdAt: string;
 }
 
@@ -440,6 +441,7 @@ export default function TransactionList() {
                                                 <p className="text-xs text-slate-500">
                                                     {formatDate(transaction.date)}
                                                     {transaction.category && ` • ${transaction.category}`}
+                                                    {transaction.projectId && ` • #${transaction.projectId.projectId}`}
                                                 </p>
                                             </div>
                                         </div>
@@ -0,0 +1,41 @@
+// Rate card units and the mapping from a catalogue entry to a quotation/project line.
+// No mongoose imports so the item editors can use it client-side.
+
+export const CATALOG_UNITS = ["sqft", "rft", "nos", "lump_sum"] as const;
+
+export type CatalogUnit = (typeof CATALOG_UNITS)[number];
+
+export const CATALOG_UNIT_LABELS: Record<CatalogUnit, string> = {
+  sqft: "sq.ft",
+  rft: "r.ft",
+  nos: "nos",
+  lump_sum: "lump sum",
+};
+
+export interface CatalogLineSource {
+  name: string;
+  unit: CatalogUnit;
+  defaultRate: number;
+  defaultNote?: string;
+  hsnSac?: string;
+}
+
+export function formatCatalogRate(item: Pick<CatalogLineSource, "unit" | "defaultRate">) {
+  const rate = `₹${item.defaultRate.toLocaleString("en-IN")}`;
+  return item.unit === "lump_sum" ? `${rate} lump sum` : `${rate} / ${CATALOG_UNIT_LABELS[item.unit]}`;
+}
+
+/**
+ * Line item prefilled from a catalogue entry. Lump-sum work has no quantity, so
+ * its rate is the line total; other units leave the quantity for the editor.
+ */
+export function toLineItem(item: CatalogLineSource) {
+  return {
+    description: item.name,
+    area: null,
+    rate: item.defaultRate,
+    total: item.unit === "lump_sum" ? item.defaultRate : null,
+    note: item.defaultNote || "",
+    hsnSac: item.hsnSac || "",
+  };
+}
@@ -0,0 +1,110 @@
+import mongoose, { type ClientSession } from "mongoose";
+import Client, { IClient } from "@/models/Client";
+import Quotation from "@/models/Quotation";
+import Project from "@/models/Project";
+import Invoice from "@/models/Invoice";
+import { isSameAddress, normalizePhone } from "@/lib/clients";
+
+interface ClientDetails {
+  // Client chosen in the picker; when absent the phone number decides
+  clientId?: string;
+  clientName: string;
+  clientNumber: string;
+  clientAddress?: string;
+  createdBy?: string;
+}
+
+/**
+ * Finds the client a quotation or project belongs to, creating one for a new
+ * phone number. A new address becomes another site, and a new number on a
+ * picked client becomes another contact, so the client record keeps up with
+ * what was quoted.
+ */
+export async function resolveClient(details: ClientDetails, session?: ClientSession): Promise<IClient> {
+  const phone = normalizePhone(details.clientNumber);
+
+  let client: IClient | null = null;
+  if (details.clientId && mongoose.isValidObjectId(details.clientId)) {
+    client = await Client.findById(details.clientId).session(session ?? null);
+  }
+  if (!client && phone) {
+    client = await Client.findOne({ $or: [{ phone }, { "contacts.phone": phone }] }).session(session ?? null);
+  }
+
+  if (!client) {
+    const [created] = await Client.create(
+      [
+        {
+          name: details.clientName,
+          phone,
+          sites: details.clientAddress ? [{ label: "Site 1", address: details.clientAddress }] : [],
+          contacts: [],
+          createdBy: details.createdBy,
+        },
+      ],
+      { session }
+    );
+    return created;
+  }
+
+  let changed = false;
+  if (details.clientAddress && !client.sites.some((site) => isSameAddress(site.address, details.clientAddress))) {
+    client.sites.push({ label: `Site ${client.sites.length + 1}`, address: details.clientAddress });
+    changed = true;
+  }
+  if (phone && client.phone !== phone && !client.contacts.some((contact) => contact.phone === phone)) {
+    client.contacts.push({ name: details.clientName, phone });
+    changed = true;
+  }
+  if (changed) {
+    await client.save({ session });
+  }
+  return client;
+}
+
+export interface ClientSummary {
+  quotationCount: number;
+  projectCount: number;
+  billed: number;
+  outstanding: number;
+}
+
+/** Lifetime counts and dues per client, keyed by client id. */
+export async function getClientSummaries(clientIds: mongoose.Types.ObjectId[]) {
+  const [quotationCounts, projectCounts, invoiceTotals] = await Promise.all([
+    Quotation.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      { $match: { clientId: { $in: clientIds } } },
+      { $group: { _id: "$clientId", count: { $sum: 1 } } },
+    ]),
+    Project.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      { $match: { clientId: { $in: clientIds } } },
+      { $group: { _id: "$clientId", count: { $sum: 1 } } },
+    ]),
+    Invoice.aggregate<{ _id: mongoose.Types.ObjectId; billed: number; outstanding: number }>([
+      { $match: { clientId: { $in: clientIds } } },
+      {
+        $group: {
+          _id: "$clientId",
+          billed: { $sum: { $ifNull: ["$grandTotal", 0] } },
+          outstanding: { $sum: { $max: [{ $ifNull: ["$amountDue", 0] }, 0] } },
+        },
+      },
+    ]),
+  ]);
+
+  const summaries = new Map<string, ClientSummary>(
+    clientIds.map((id) => [id.toString(), { quotationCount: 0, projectCount: 0, billed: 0, outstanding: 0 }])
+  );
+  quotationCounts.forEach((row) => {
+    summaries.get(row._id.toString())!.quotationCount = row.count;
+  });
+  projectCounts.forEach((row) => {
+    summaries.get(row._id.toString())!.projectCount = row.count;
+  });
+  invoiceTotals.forEach((row) => {
+    const summary = summaries.get(row._id.toString())!;
+    summary.billed = row.billed;
+    summary.outstanding = row.outstanding;
+  });
+  return summaries;
+}
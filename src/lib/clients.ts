@@ -0,0 +1,23 @@
+// Client identity helpers. scripts/migrate-clients.js mirrors normalizePhone;
+// keep the two in step.
+
+/**
+ * Phone numbers arrive as "+919876543210", "98765 43210" or "09876543210".
+ * Indian numbers reduce to their 10 digits; others keep their country code digits.
+ */
+export function normalizePhone(raw?: string | null) {
+  const digits = (raw || "").replace(/\D/g, "");
+  if (digits.length === 12 && digits.startsWith("91")) return digits.slice(2);
+  if (digits.length === 11 && digits.startsWith("0")) return digits.slice(1);
+  return digits;
+}
+
+/** Normalised phone back to the "+<code><number>" form stored on quotations. */
+export function formatClientPhone(phone: string) {
+  return phone.length === 10 ? `+91${phone}` : `+${phone}`;
+}
+
+export function isSameAddress(a?: string | null, b?: string | null) {
+  const normalize = (value?: string | null) => (value || "").toLowerCase().replace(/[\s,.]+/g, " ").trim();
+  return normalize(a) === normalize(b);
+}
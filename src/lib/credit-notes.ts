@@ -0,0 +1,28 @@
+// Credit note kinds, and the totals and GST of a credit note
+import { computeTaxBreakdown, roundCurrency, type TaxBreakdown } from "@/lib/gst";
+
+export const CREDIT_NOTE_TYPES = ["refund", "discount", "cancelled_work"] as const;
+export type CreditNoteType = (typeof CREDIT_NOTE_TYPES)[number];
+
+export const CREDIT_NOTE_TYPE_LABELS: Record<CreditNoteType, string> = {
+  refund: "Refund",
+  discount: "Discount",
+  cancelled_work: "Cancelled Work",
+};
+
+export function getCreditNoteTotal(items: { amount: number }[]) {
+  return roundCurrency(items.reduce((sum, item) => sum + (Number(item.amount) || 0), 0));
+}
+
+/**
+ * GST reversed by a credit note on a GST invoice. Credit amounts include GST, so
+ * the tax is backed out at the invoice's rate and split the same way (CGST/SGST or IGST).
+ */
+export function getCreditNoteTax(total: number, invoiceTax?: TaxBreakdown | null) {
+  if (!invoiceTax?.enabled) return undefined;
+  return computeTaxBreakdown({
+    subtotal: total,
+    tax: { ...invoiceTax, rateType: "inclusive" },
+    supplierGstNumber: invoiceTax.supplierGstNumber,
+  }).tax;
+}
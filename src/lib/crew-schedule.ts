@@ -0,0 +1,56 @@
+// Daily crew assignments: which workers are planned onto which project's site
+
+// Longest range a crew can be assigned in one go
+export const MAX_ASSIGNMENT_DAYS = 62;
+
+export interface CrewAssignmentEntry {
+  workerId: string;
+  projectId: string;
+  date: string | Date;
+}
+
+/** Local calendar day as YYYY-MM-DD, the key assignments are grouped by. */
+export function toDateKey(value: string | Date) {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/** Every day from start to end inclusive, at local midnight. */
+export function getScheduleDays(start: string | Date, end: string | Date) {
+  const days: Date[] = [];
+  const cursor = new Date(start);
+  cursor.setHours(0, 0, 0, 0);
+  const last = new Date(end);
+  last.setHours(0, 0, 0, 0);
+  while (cursor.getTime() <= last.getTime()) {
+    days.push(new Date(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+}
+
+const bookingKey = (workerId: string, date: string | Date) => `${workerId}:${toDateKey(date)}`;
+
+/** Worker/day keys where a worker is planned onto more than one site on the same day. */
+export function findDoubleBookings(assignments: CrewAssignmentEntry[]) {
+  const sitesByBooking = new Map<string, Set<string>>();
+  for (const assignment of assignments) {
+    const key = bookingKey(assignment.workerId, assignment.date);
+    if (!sitesByBooking.has(key)) sitesByBooking.set(key, new Set());
+    sitesByBooking.get(key)!.add(assignment.projectId);
+  }
+  return new Set([...sitesByBooking].filter(([, sites]) => sites.size > 1).map(([key]) => key));
+}
+
+export function isDoubleBooked(doubleBookings: Set<string>, workerId: string, date: string | Date) {
+  return doubleBookings.has(bookingKey(workerId, date));
+}
+
+/** Workers with no site planned for the day. */
+export function findIdleWorkers(workerIds: string[], assignments: CrewAssignmentEntry[], date: string | Date) {
+  const dateKey = toDateKey(date);
+  const busy = new Set(
+    assignments.filter((assignment) => toDateKey(assignment.date) === dateKey).map((assignment) => assignment.workerId)
+  );
+  return workerIds.filter((workerId) => !busy.has(workerId));
+}
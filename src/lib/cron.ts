@@ -0,0 +1,13 @@
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Scheduled jobs authenticate with `Authorization: Bearer <CRON_SECRET>`, the
+ * header Vercel Cron sends. Without a configured secret every call is refused.
+ */
+export function isValidCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const provided = Buffer.from(request.headers.get("authorization") || "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -35,9 +35,24 @@ const envSchema = z.object({
   TWILIO_QUOTATION_ACCEPTED_SID: z.string().optional(),
   TWILIO_QUOTATION_REJECTED_SID: z.string().optional(),
   TWILIO_QUOTATION_UPDATED_SID: z.string().optional(),
+  TWILIO_QUOTATION_REMINDER_SID: z.string().optional(),
   TWILIO_PAYMENT_RECEIVED_SID: z.string().optional(),
+  TWILIO_PAYMENT_REMINDER_SID: z.string().optional(),
+  TWILIO_MILESTONE_DUE_SID: z.string().optional(),
   TWILIO_PROJECT_UPDATED_SID: z.string().optional(),
   WORKER_AUTH_SECRET: z.string().optional(),
+
+  // Scheduled jobs
+  CRON_SECRET: z.string().optional(),
+
+  // Online payments (optional)
+  PAYMENT_PROVIDER: z.enum(["razorpay", "upi", "fake"]).optional(),
+  RAZORPAY_KEY_ID: z.string().optional(),
+  RAZORPAY_KEY_SECRET: z.string().optional(),
+  RAZORPAY_WEBHOOK_SECRET: z.string().optional(),
+  UPI_VPA: z.string().optional(),
+  UPI_PAYEE_NAME: z.string().optional(),
+  FAKE_PAYMENT_SECRET: z.string().optional(),
   
   // Frontend
   NEXT_PUBLIC_FRONTEND_URL: z.string().url("NEXT_PUBLIC_FRONTEND_URL must be a valid URL"),
@@ -0,0 +1,21 @@
+import dbConnect from "@/lib/mongodb";
+import Counter from "@/models/Counter";
+
+export async function generateCreditNoteNumber(): Promise<string> {
+  try {
+    await dbConnect();
+    const counter = await Counter.findOneAndUpdate(
+      { _id: "credit_note_counter" },
+      { $inc: { count: 1 } },
+      { upsert: true, new: true }
+    );
+    if (!counter) {
+      throw new Error("Failed to generate credit note number: Counter not found");
+    }
+    return `CN${counter.count.toString().padStart(5, "0")}`;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error generating credit note number:", error);
+    throw new Error(`Failed to generate credit note number: ${errorMessage}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import type { ClientSession } from "mongoose";
+import dbConnect from "@/lib/mongodb";
+import Counter from "@/models/Counter";
+
+// Takes the caller's session so a payment that is rolled back gives its number back
+export async function generateReceiptNumber(session: ClientSession): Promise<string> {
+  try {
+    await dbConnect();
+    const counter = await Counter.findOneAndUpdate(
+      { _id: "receipt_counter" },
+      { $inc: { count: 1 } },
+      { upsert: true, new: true, session }
+    );
+    if (!counter) {
+      throw new Error("Failed to generate receipt number: Counter not found");
+    }
+    return `RCP${counter.count.toString().padStart(5, "0")}`;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error generating receipt number:", error);
+    throw new Error(`Failed to generate receipt number: ${errorMessage}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,181 @@
+// GST helpers shared by the quotation/project/invoice routes, forms and PDFs.
+// Everything here is pure so it can run both on the server and in the browser.
+
+export type GstRateType = "exclusive" | "inclusive";
+export type GstSupplyType = "intra" | "inter";
+
+export interface TaxInput {
+  enabled: boolean;
+  gstPercent?: number;
+  rateType?: GstRateType;
+  placeOfSupply?: string; // Two-digit GST state code of the site
+  clientGstNumber?: string;
+}
+
+export interface TaxBreakdown {
+  enabled: boolean;
+  gstPercent: number;
+  rateType: GstRateType;
+  supplyType: GstSupplyType;
+  placeOfSupply?: string;
+  supplierGstNumber?: string;
+  clientGstNumber?: string;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+];
+
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function stateCodeFromGstin(gstin?: string): string | undefined {
+  const match = gstin?.trim().match(/^(\d{2})/);
+  return match ? match[1] : undefined;
+}
+
+export function getStateName(code?: string): string | undefined {
+  return GST_STATES.find((state) => state.code === code)?.name;
+}
+
+/**
+ * Intra-state supplies are split into CGST + SGST, inter-state supplies carry IGST.
+ * Without a place of supply (or a supplier GSTIN) we assume the site is in our own state.
+ */
+export function resolveSupplyType(supplierGstNumber?: string, placeOfSupply?: string): GstSupplyType {
+  const supplierState = stateCodeFromGstin(supplierGstNumber);
+  if (!supplierState || !placeOfSupply) return "intra";
+  return supplierState === placeOfSupply ? "intra" : "inter";
+}
+
+/**
+ * Computes the tax breakdown and grand total for a document.
+ * Exclusive rates add GST on top of (subtotal - discount); inclusive rates
+ * treat (subtotal - discount) as the gross amount and back the tax out of it.
+ */
+export function computeTaxBreakdown({
+  subtotal,
+  discount = 0,
+  tax,
+  supplierGstNumber,
+  defaultGstPercent = 0,
+}: {
+  subtotal: number;
+  discount?: number;
+  tax?: Partial<TaxInput> | null;
+  supplierGstNumber?: string;
+  defaultGstPercent?: number;
+}): { tax: TaxBreakdown; grandTotal: number } {
+  const net = roundCurrency(Math.max(0, subtotal - discount));
+  const enabled = !!tax?.enabled;
+  const gstPercent = enabled ? tax?.gstPercent ?? defaultGstPercent : 0;
+  const rateType: GstRateType = tax?.rateType ?? "exclusive";
+  const supplyType = resolveSupplyType(supplierGstNumber, tax?.placeOfSupply);
+
+  let taxableValue = net;
+  let totalTax = 0;
+  let grandTotal = net;
+
+  if (enabled && gstPercent > 0) {
+    if (rateType === "inclusive") {
+      taxableValue = roundCurrency((net * 100) / (100 + gstPercent));
+      totalTax = roundCurrency(net - taxableValue);
+    } else {
+      totalTax = roundCurrency((net * gstPercent) / 100);
+      grandTotal = roundCurrency(net + totalTax);
+    }
+  }
+
+  const cgst = supplyType === "intra" ? roundCurrency(totalTax / 2) : 0;
+  const sgst = supplyType === "intra" ? roundCurrency(totalTax - cgst) : 0;
+  const igst = supplyType === "inter" ? totalTax : 0;
+
+  return {
+    tax: {
+      enabled,
+      gstPercent,
+      rateType,
+      supplyType,
+      placeOfSupply: tax?.placeOfSupply || undefined,
+      supplierGstNumber: enabled ? supplierGstNumber || undefined : undefined,
+      clientGstNumber: tax?.clientGstNumber || undefined,
+      taxableValue,
+      cgst,
+      sgst,
+      igst,
+      totalTax,
+    },
+    grandTotal,
+  };
+}
+
+/**
+ * Label/amount rows shown between the discount and the grand total on
+ * screens and PDFs. Returns an empty list when GST is not applied.
+ */
+export function getTaxSummaryLines(tax?: TaxBreakdown | null): { label: string; amount: number }[] {
+  if (!tax?.enabled || !tax.gstPercent) return [];
+
+  const lines = [{ label: "Taxable Value", amount: tax.taxableValue }];
+  if (tax.supplyType === "inter") {
+    lines.push({ label: `IGST @ ${tax.gstPercent}%`, amount: tax.igst });
+  } else {
+    const half = tax.gstPercent / 2;
+    lines.push({ label: `CGST @ ${half}%`, amount: tax.cgst });
+    lines.push({ label: `SGST @ ${half}%`, amount: tax.sgst });
+  }
+  return lines;
+}
+
+export function hasTaxChanged(previous?: Partial<TaxBreakdown> | null, next?: Partial<TaxBreakdown> | null): boolean {
+  const keys: (keyof TaxBreakdown)[] = [
+    "enabled",
+    "gstPercent",
+    "rateType",
+    "supplyType",
+    "placeOfSupply",
+    "clientGstNumber",
+    "taxableValue",
+    "totalTax",
+  ];
+  return keys.some((key) => (previous?.[key] ?? null) !== (next?.[key] ?? null));
+}
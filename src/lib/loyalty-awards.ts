@@ -0,0 +1,265 @@
+import { Types } from "mongoose";
+import Worker from "@/models/Worker";
+import WorkerAttendance from "@/models/WorkerAttendance";
+import WorkerLoyaltyEntry from "@/models/WorkerLoyaltyEntry";
+import Review from "@/models/Review";
+import Client from "@/models/Client";
+import Project, { IProject } from "@/models/Project";
+import { toDateKey } from "@/lib/crew-schedule";
+import { formatClientPhone, normalizePhone } from "@/lib/clients";
+import { findEarnCapConflict, getLoyaltyPolicy } from "@/lib/worker-loyalty";
+import {
+  AUTO_AWARD_LOOKBACK_DAYS,
+  AUTO_AWARD_RULE_LABELS,
+  FULL_ATTENDANCE_WEEK_DAYS,
+  findLoyaltyCategory,
+  type AutoAwardRule,
+  type AutoAwardSetting,
+  type LoyaltyPolicyRules,
+} from "@/lib/loyalty-policy";
+
+// One worker's share of an event an automatic rule can award for
+interface AwardCandidate {
+  workerId: string;
+  sourceRef: string;
+  date: Date;
+  reason: string;
+}
+
+export interface LoyaltyAwardSummary {
+  awarded: { rule: AutoAwardRule; workerId: string; sourceRef: string; points: number }[];
+  skipped: { rule: AutoAwardRule; workerId?: string; sourceRef?: string; reason: string }[];
+}
+
+const startOfDay = (value: Date) => {
+  const date = new Date(value);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const addDays = (value: Date, days: number) => {
+  const date = new Date(value);
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+/** Workers with attendance linked to any of the projects, keyed by project _id. */
+async function getProjectCrews(projectIds: Types.ObjectId[], before?: Date) {
+  const query: Record<string, unknown> = { projectId: { $in: projectIds } };
+  if (before) query.date = { $lte: before };
+  const rows = await WorkerAttendance.aggregate<{ _id: Types.ObjectId; workerIds: Types.ObjectId[]; lastDate: Date }>([
+    { $match: query },
+    { $group: { _id: "$projectId", workerIds: { $addToSet: "$workerId" }, lastDate: { $max: "$date" } } },
+  ]);
+  return new Map(rows.map((row) => [String(row._id), row]));
+}
+
+/** Completed Monday–Sunday weeks inside the lookback window with attendance on enough days. */
+async function findFullAttendanceWeeks(now: Date): Promise<AwardCandidate[]> {
+  const today = startOfDay(now);
+  // Sunday that ended the last completed week
+  const lastWeekEnd = addDays(today, -((today.getDay() + 6) % 7) - 1);
+  const firstWeekStart = addDays(lastWeekEnd, -Math.ceil(AUTO_AWARD_LOOKBACK_DAYS / 7) * 7 + 1);
+
+  const entries = await WorkerAttendance.find({
+    date: { $gte: firstWeekStart, $lte: new Date(lastWeekEnd.getTime() + 24 * 60 * 60 * 1000 - 1) },
+  })
+    .select("workerId date")
+    .lean<{ workerId: Types.ObjectId; date: Date }[]>();
+
+  const daysByWorkerWeek = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    const day = startOfDay(entry.date);
+    const weekStart = addDays(day, -((day.getDay() + 6) % 7));
+    const key = `${entry.workerId}|${toDateKey(weekStart)}`;
+    if (!daysByWorkerWeek.has(key)) daysByWorkerWeek.set(key, new Set());
+    daysByWorkerWeek.get(key)!.add(toDateKey(day));
+  }
+
+  return [...daysByWorkerWeek]
+    .filter(([, days]) => days.size >= FULL_ATTENDANCE_WEEK_DAYS)
+    .map(([key, days]) => {
+      const [workerId, weekStartKey] = key.split("|");
+      return {
+        workerId,
+        sourceRef: `full_attendance_week:${weekStartKey}`,
+        date: addDays(new Date(`${weekStartKey}T00:00:00`), 6),
+        reason: `Full attendance week of ${weekStartKey} (${days.size} days)`,
+      };
+    });
+}
+
+/**
+ * Approved 5-star reviews from the lookback window. Reviews carry the client's phone
+ * rather than a project, so each is credited to the crew of that client's project
+ * most recently worked on before the review came in.
+ */
+async function findFiveStarReviews(now: Date): Promise<AwardCandidate[]> {
+  const since = addDays(startOfDay(now), -AUTO_AWARD_LOOKBACK_DAYS);
+  const reviews = await Review.find({
+    status: "approved",
+    rating: 5,
+    $or: [{ moderatedAt: { $gte: since } }, { moderatedAt: { $exists: false }, updatedAt: { $gte: since } }],
+  })
+    .select("phone name createdAt moderatedAt updatedAt")
+    .lean<{ _id: Types.ObjectId; phone: string; name: string; createdAt: Date; moderatedAt?: Date; updatedAt: Date }[]>();
+
+  const candidates: AwardCandidate[] = [];
+  for (const review of reviews) {
+    const phone = normalizePhone(review.phone);
+    if (!phone) continue;
+
+    const clients = await Client.find({ $or: [{ phone }, { "contacts.phone": phone }] })
+      .select("_id")
+      .lean<{ _id: Types.ObjectId }[]>();
+    const projects = await Project.find({
+      $or: [{ clientId: { $in: clients.map((client) => client._id) } }, { clientNumber: { $in: [phone, formatClientPhone(phone)] } }],
+    })
+      .select("_id projectId")
+      .lean<{ _id: Types.ObjectId; projectId: string }[]>();
+    if (projects.length === 0) continue;
+
+    const crews = await getProjectCrews(
+      projects.map((project) => project._id),
+      review.createdAt
+    );
+    const latest = [...crews.values()].sort((a, b) => b.lastDate.getTime() - a.lastDate.getTime())[0];
+    if (!latest) continue;
+
+    const project = projects.find((item) => String(item._id) === String(latest._id))!;
+    for (const workerId of latest.workerIds) {
+      candidates.push({
+        workerId: String(workerId),
+        sourceRef: `five_star_review:${review._id}`,
+        date: startOfDay(review.moderatedAt || review.updatedAt),
+        reason: `5-star review from ${review.name} for project #${project.projectId}`,
+      });
+    }
+  }
+  return candidates;
+}
+
+/** Projects whose work was marked complete, within the lookback window, before their planned end date. */
+async function findProjectsAheadOfSchedule(now: Date): Promise<AwardCandidate[]> {
+  const since = addDays(startOfDay(now), -AUTO_AWARD_LOOKBACK_DAYS);
+  const projects: IProject[] = await Project.find({
+    status: { $in: ["work_complete", "handed_over"] },
+    plannedEndDate: { $exists: true, $ne: null },
+    statusHistory: { $elemMatch: { to: "work_complete", changedAt: { $gte: since } } },
+  }).select("projectId plannedEndDate statusHistory");
+
+  const finished = projects
+    .map((project) => {
+      const completion = project.statusHistory.filter((change) => change.to === "work_complete").pop();
+      return { project, completedAt: completion?.changedAt };
+    })
+    .filter(
+      ({ project, completedAt }) =>
+        completedAt &&
+        completedAt >= since &&
+        startOfDay(completedAt).getTime() < startOfDay(project.plannedEndDate!).getTime()
+    );
+  if (finished.length === 0) return [];
+
+  const crews = await getProjectCrews(finished.map(({ project }) => project._id as Types.ObjectId));
+  return finished.flatMap(({ project, completedAt }) =>
+    (crews.get(String(project._id))?.workerIds || []).map((workerId) => ({
+      workerId: String(workerId),
+      sourceRef: `ahead_of_schedule:${project.projectId}`,
+      date: startOfDay(completedAt!),
+      reason: `Project #${project.projectId} completed ahead of its planned end date`,
+    }))
+  );
+}
+
+const CANDIDATE_FINDERS: Record<AutoAwardRule, (now: Date) => Promise<AwardCandidate[]>> = {
+  full_attendance_week: findFullAttendanceWeeks,
+  five_star_review: findFiveStarReviews,
+  ahead_of_schedule: findProjectsAheadOfSchedule,
+};
+
+async function applyRule(
+  setting: AutoAwardSetting,
+  policy: LoyaltyPolicyRules,
+  now: Date,
+  summary: LoyaltyAwardSummary
+) {
+  const { rule } = setting;
+  const category = findLoyaltyCategory(policy, setting.category);
+  if (!category || !category.active) {
+    summary.skipped.push({ rule, reason: `Category ${setting.category} is not in the catalogue` });
+    return;
+  }
+
+  const candidates = await CANDIDATE_FINDERS[rule](now);
+  if (candidates.length === 0) return;
+
+  const activeWorkerIds = new Set(
+    (
+      await Worker.find({ _id: { $in: candidates.map((candidate) => candidate.workerId) }, status: "active" })
+        .select("_id")
+        .lean<{ _id: Types.ObjectId }[]>()
+    ).map((worker) => String(worker._id))
+  );
+  const alreadyAwarded = new Set(
+    (
+      await WorkerLoyaltyEntry.find({ sourceRef: { $in: candidates.map((candidate) => candidate.sourceRef) } })
+        .select("workerId sourceRef")
+        .lean<{ workerId: Types.ObjectId; sourceRef: string }[]>()
+    ).map((entry) => `${entry.workerId}|${entry.sourceRef}`)
+  );
+
+  for (const candidate of candidates) {
+    if (alreadyAwarded.has(`${candidate.workerId}|${candidate.sourceRef}`)) continue;
+    if (!activeWorkerIds.has(candidate.workerId)) continue;
+
+    if (category.entryType === "credit") {
+      const capConflict = await findEarnCapConflict({
+        workerId: candidate.workerId,
+        date: candidate.date,
+        points: setting.points,
+        policy,
+      });
+      if (capConflict) {
+        summary.skipped.push({ rule, workerId: candidate.workerId, sourceRef: candidate.sourceRef, reason: capConflict.error });
+        continue;
+      }
+    }
+
+    try {
+      await WorkerLoyaltyEntry.create({
+        workerId: candidate.workerId,
+        entryType: category.entryType,
+        points: category.entryType === "credit" ? setting.points : -setting.points,
+        category: category.key,
+        reason: candidate.reason,
+        note: `Automatic: ${AUTO_AWARD_RULE_LABELS[rule]}`,
+        date: candidate.date,
+        isAutomatic: true,
+        autoRule: rule,
+        sourceRef: candidate.sourceRef,
+      });
+      summary.awarded.push({ rule, workerId: candidate.workerId, sourceRef: candidate.sourceRef, points: setting.points });
+    } catch (error) {
+      // A run that overlapped this one got there first
+      if ((error as { code?: number }).code === 11000) continue;
+      throw error;
+    }
+  }
+}
+
+/**
+ * Records loyalty entries for the events behind each enabled automatic rule. Safe to
+ * run repeatedly: every worker is awarded at most once per event, and an award that
+ * was reversed is not given again.
+ */
+export async function runLoyaltyAwards(now = new Date()): Promise<LoyaltyAwardSummary> {
+  const summary: LoyaltyAwardSummary = { awarded: [], skipped: [] };
+  const policy = await getLoyaltyPolicy();
+
+  for (const setting of policy.autoAwards) {
+    if (setting.enabled) await applyRule(setting, policy, now, summary);
+  }
+
+  return summary;
+}
@@ -0,0 +1,166 @@
+// Worker loyalty rules: the category catalogue, earn caps and what a point is worth
+
+export const LOYALTY_ENTRY_TYPES = ["credit", "debit"] as const;
+
+export type LoyaltyEntryType = (typeof LOYALTY_ENTRY_TYPES)[number];
+
+// Category written by reversals; never part of the catalogue
+export const REVERSAL_CATEGORY = "reversal";
+
+export interface LoyaltyCategory {
+  key: string;
+  label: string;
+  entryType: LoyaltyEntryType;
+  defaultPoints: number;
+  // Retired categories stay listed so older entries keep their label
+  active: boolean;
+}
+
+export interface PointRate {
+  rupeesPerPoint: number;
+  effectiveFrom: Date | string;
+}
+
+// Events the system already records that can award or deduct points on their own
+export const AUTO_AWARD_RULES = ["full_attendance_week", "five_star_review", "ahead_of_schedule"] as const;
+
+export type AutoAwardRule = (typeof AUTO_AWARD_RULES)[number];
+
+export const AUTO_AWARD_RULE_LABELS: Record<AutoAwardRule, string> = {
+  full_attendance_week: "Full attendance week",
+  five_star_review: "5-star client review",
+  ahead_of_schedule: "Project finished ahead of schedule",
+};
+
+export const AUTO_AWARD_RULE_DESCRIPTIONS: Record<AutoAwardRule, string> = {
+  full_attendance_week: "Attendance on at least 6 days of a Monday–Sunday week.",
+  five_star_review: "An approved 5-star review from a client whose project the worker had attendance on.",
+  ahead_of_schedule: "Work marked complete before the project's planned end date, for every worker with attendance on it.",
+};
+
+// Days with attendance that make a full week (Monday to Saturday, Sunday off)
+export const FULL_ATTENDANCE_WEEK_DAYS = 6;
+
+// Events older than this are left alone, so switching a rule on does not back-award history
+export const AUTO_AWARD_LOOKBACK_DAYS = 14;
+
+export interface AutoAwardSetting {
+  rule: AutoAwardRule;
+  enabled: boolean;
+  // Catalogue category the entry is recorded under; its type decides credit or debit
+  category: string;
+  points: number;
+}
+
+export interface LoyaltyPolicyRules {
+  categories: LoyaltyCategory[];
+  dailyEarnCap: number;
+  weeklyEarnCap?: number | null;
+  pointRates: PointRate[];
+  autoAwards: AutoAwardSetting[];
+}
+
+export const DEFAULT_DAILY_EARN_CAP = 100;
+export const DEFAULT_POINT_VALUE_RUPEES = 1;
+
+const category = (key: string, label: string, entryType: LoyaltyEntryType, defaultPoints = 5): LoyaltyCategory => ({
+  key,
+  label,
+  entryType,
+  defaultPoints,
+  active: true,
+});
+
+// The catalogue from LOYALTY_PROGRAM.md, used until an admin saves a policy
+export const DEFAULT_LOYALTY_CATEGORIES: LoyaltyCategory[] = [
+  category("on_time", "On Time", "credit"),
+  category("attendance_consistency", "Attendance Consistency", "credit"),
+  category("quality_work", "Quality Work", "credit"),
+  category("zero_rework_day", "Zero Rework Day", "credit"),
+  category("productivity_target_met", "Productivity Target Met", "credit"),
+  category("ahead_of_schedule", "Ahead Of Schedule", "credit", 10),
+  category("customer_praise", "Customer Praise", "credit", 10),
+  category("site_cleanliness", "Site Cleanliness", "credit"),
+  category("material_saving", "Material Saving", "credit"),
+  category("tool_care", "Tool Care", "credit"),
+  category("safety_followed", "Safety Followed", "credit"),
+  category("team_support", "Team Support", "credit"),
+  category("issue_reporting", "Issue Reporting", "credit"),
+  category("professional_behavior", "Professional Behavior", "credit"),
+  category("documentation_support", "Documentation Support", "credit"),
+  category("late_arrival", "Late Arrival", "debit"),
+  category("unauthorized_absence", "Unauthorized Absence", "debit", 10),
+  category("early_leave_without_approval", "Early Leave Without Approval", "debit"),
+  category("customer_complaint", "Customer Complaint", "debit", 10),
+  category("rework_needed", "Rework Needed", "debit", 10),
+  category("damage_to_work", "Damage To Work", "debit", 10),
+  category("material_wastage", "Material Wastage", "debit"),
+  category("unsafe_practice", "Unsafe Practice", "debit", 10),
+  category("site_mess", "Site Mess", "debit"),
+  category("tool_damage_or_loss", "Tool Damage Or Loss", "debit", 10),
+  category("instruction_non_compliance", "Instruction Non Compliance", "debit"),
+  category("misconduct", "Misconduct", "debit", 15),
+  category("mobile_misuse", "Mobile Misuse", "debit"),
+  category("false_update", "False Update", "debit", 10),
+  category("delay_caused_to_team", "Delay Caused To Team", "debit"),
+];
+
+// Automatic awards cost money, so each rule stays off until an admin switches it on
+export const DEFAULT_AUTO_AWARDS: AutoAwardSetting[] = [
+  { rule: "full_attendance_week", enabled: false, category: "attendance_consistency", points: 10 },
+  { rule: "five_star_review", enabled: false, category: "customer_praise", points: 10 },
+  { rule: "ahead_of_schedule", enabled: false, category: "ahead_of_schedule", points: 15 },
+];
+
+export const DEFAULT_LOYALTY_POLICY: LoyaltyPolicyRules = {
+  categories: DEFAULT_LOYALTY_CATEGORIES,
+  dailyEarnCap: DEFAULT_DAILY_EARN_CAP,
+  weeklyEarnCap: null,
+  pointRates: [{ rupeesPerPoint: DEFAULT_POINT_VALUE_RUPEES, effectiveFrom: new Date(2000, 0, 1) }],
+  autoAwards: DEFAULT_AUTO_AWARDS,
+};
+
+/** One setting per rule, in rule order; rules missing from a saved policy take the default. */
+export function normalizeAutoAwards(saved: AutoAwardSetting[] = []) {
+  return AUTO_AWARD_RULES.map(
+    (rule) =>
+      saved.find((setting) => setting.rule === rule) || DEFAULT_AUTO_AWARDS.find((setting) => setting.rule === rule)!
+  );
+}
+
+/** Catalogue key from a label, e.g. "Tool Care" → "tool_care". */
+export function toCategoryKey(label: string) {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export function findLoyaltyCategory(policy: Pick<LoyaltyPolicyRules, "categories">, key: string) {
+  return policy.categories.find((item) => item.key === key);
+}
+
+/** Label for a category key, falling back to the key for entries outside the catalogue. */
+export function getLoyaltyCategoryLabel(policy: Pick<LoyaltyPolicyRules, "categories">, key: string) {
+  if (key === REVERSAL_CATEGORY) return "Reversal";
+  return findLoyaltyCategory(policy, key)?.label || key;
+}
+
+/**
+ * Rupee value of one point on `date`. Dates before the first recorded rate use
+ * that first rate, the same way wage rates are resolved.
+ */
+export function resolvePointValue(rates: PointRate[], date: Date | string) {
+  const time = new Date(date).getTime();
+  const sorted = [...rates].sort(
+    (a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime()
+  );
+  const current = sorted.filter((rate) => new Date(rate.effectiveFrom).getTime() <= time).pop();
+  return (current || sorted[0])?.rupeesPerPoint ?? DEFAULT_POINT_VALUE_RUPEES;
+}
+
+/** Cash for a week's net points, at the point value in effect when the week starts. Negative weeks pay nothing. */
+export function getWeeklyPayoutRupees(netPoints: number, rates: PointRate[], weekStart: Date | string) {
+  return Math.max(0, netPoints) * resolvePointValue(rates, weekStart);
+}
@@ -0,0 +1,116 @@
+// Room-by-room measurement sheets for quotations. Dimensions are in feet, areas in sq.ft.
+
+export const MEASURED_SURFACES = ["walls", "ceiling", "walls_ceiling", "floor"] as const;
+
+export type MeasuredSurface = (typeof MEASURED_SURFACES)[number];
+
+export const MEASURED_SURFACE_LABELS: Record<MeasuredSurface, string> = {
+  walls: "Walls",
+  ceiling: "Ceiling",
+  walls_ceiling: "Walls + Ceiling",
+  floor: "Floor",
+};
+
+export interface MeasurementDeduction {
+  label: string;
+  width: number;
+  height: number;
+  count: number;
+}
+
+export interface MeasurementRoom {
+  // Stable client-generated key; item links refer to it so rooms can be renamed
+  id: string;
+  name: string;
+  length: number;
+  width: number;
+  height: number;
+  deductions: MeasurementDeduction[];
+}
+
+/** Links a line item's area to the sheet. An empty `roomIds` means every room. */
+export interface ItemMeasurementRef {
+  surface: MeasuredSurface;
+  roomIds: string[];
+}
+
+export interface RoomAreas {
+  perimeter: number;
+  grossWallArea: number;
+  deductionArea: number;
+  netWallArea: number;
+  ceilingArea: number;
+  floorArea: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function createMeasurementRoom(name = ""): MeasurementRoom {
+  return {
+    id: `room-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    length: 0,
+    width: 0,
+    height: 0,
+    deductions: [],
+  };
+}
+
+export function computeRoomAreas(room: MeasurementRoom): RoomAreas {
+  const perimeter = 2 * ((room.length || 0) + (room.width || 0));
+  const grossWallArea = perimeter * (room.height || 0);
+  const deductionArea = (room.deductions || []).reduce(
+    (sum, deduction) => sum + (deduction.width || 0) * (deduction.height || 0) * (deduction.count || 0),
+    0
+  );
+  const floorArea = (room.length || 0) * (room.width || 0);
+
+  return {
+    perimeter: round2(perimeter),
+    grossWallArea: round2(grossWallArea),
+    deductionArea: round2(deductionArea),
+    // Openings larger than the walls (bad input) never make the area negative
+    netWallArea: round2(Math.max(0, grossWallArea - deductionArea)),
+    ceilingArea: round2(floorArea),
+    floorArea: round2(floorArea),
+  };
+}
+
+export function getSurfaceArea(room: MeasurementRoom, surface: MeasuredSurface) {
+  const areas = computeRoomAreas(room);
+  switch (surface) {
+    case "walls":
+      return areas.netWallArea;
+    case "ceiling":
+      return areas.ceilingArea;
+    case "walls_ceiling":
+      return round2(areas.netWallArea + areas.ceilingArea);
+    case "floor":
+      return areas.floorArea;
+  }
+}
+
+/** Total area for an item linked to the sheet, summed over its rooms. */
+export function computeMeasuredArea(rooms: MeasurementRoom[], ref: ItemMeasurementRef) {
+  const selected = ref.roomIds.length > 0 ? rooms.filter((room) => ref.roomIds.includes(room.id)) : rooms;
+  return round2(selected.reduce((sum, room) => sum + getSurfaceArea(room, ref.surface), 0));
+}
+
+export function computeSheetTotals(rooms: MeasurementRoom[]) {
+  return rooms.reduce(
+    (totals, room) => {
+      const areas = computeRoomAreas(room);
+      return {
+        netWallArea: round2(totals.netWallArea + areas.netWallArea),
+        deductionArea: round2(totals.deductionArea + areas.deductionArea),
+        ceilingArea: round2(totals.ceilingArea + areas.ceilingArea),
+      };
+    },
+    { netWallArea: 0, deductionArea: 0, ceilingArea: 0 }
+  );
+}
+
+export function isSameMeasurementRef(a?: ItemMeasurementRef | null, b?: ItemMeasurementRef | null) {
+  if (!a || !b) return !a && !b;
+  return a.surface === b.surface && [...a.roomIds].sort().join(",") === [...b.roomIds].sort().join(",");
+}
@@ -0,0 +1,86 @@
+import Project, { IPaymentMilestone, IProject } from "@/models/Project";
+import Invoice from "@/models/Invoice";
+import { sendNotification } from "@/lib/notifications";
+import { getCancelledProjectIds, getInvoicePortalUrl } from "@/lib/payment-reminders";
+import { describeMilestoneDue, resolvePaymentSchedule, type ResolvedMilestone } from "@/lib/payment-schedule";
+
+/** WhatsApp message telling the client a milestone payment has fallen due. */
+export async function notifyMilestoneDue(project: IProject, entry: ResolvedMilestone<IPaymentMilestone>) {
+  const invoice = await Invoice.findOne({ projectId: project.projectId }).select("invoiceId accessToken");
+  const invoiceUrl = invoice
+    ? getInvoicePortalUrl(invoice.invoiceId, invoice.accessToken)
+    : `${process.env.NEXT_PUBLIC_FRONTEND_URL}/invoice/${project.projectId}`;
+  const reference = project.quotationNumber || project.projectId;
+  const balance = entry.balance.toFixed(2);
+  const due = describeMilestoneDue(entry.milestone) || "now";
+
+  return sendNotification({
+    to: project.clientNumber,
+    message: `Dear ${project.clientName}, the "${entry.milestone.label}" payment of ₹${balance} for Quotation #${reference} is now due (${due}). View and pay here: ${invoiceUrl}`,
+    action: "milestone_due",
+    // A client can have more than one milestone fall due on the same run
+    debounceSeconds: 1,
+    templateVariables: {
+      "1": project.clientName, // Dear {{1}}
+      "2": entry.milestone.label, // the "{{2}}" payment
+      "3": balance, // of ₹{{3}}
+      "4": reference, // for Quotation #{{4}}
+      "5": due, // is now due ({{5}})
+      "6": invoiceUrl, // View and pay here: {{6}}
+    },
+  });
+}
+
+/** Records on the project, and its invoice copy, that the client was told about a milestone. */
+export async function markMilestoneNotified(project: IProject, milestone: IPaymentMilestone, at = new Date()) {
+  await Project.updateOne(
+    { _id: project._id, "paymentSchedule._id": milestone._id },
+    { $set: { "paymentSchedule.$.notifiedAt": at } }
+  );
+  await Invoice.updateOne(
+    { projectId: project.projectId, "paymentSchedule._id": milestone._id },
+    { $set: { "paymentSchedule.$.notifiedAt": at } }
+  );
+}
+
+export interface MilestoneReminderSummary {
+  notified: string[];
+  failed: { projectId: string; milestone: string; error: string }[];
+}
+
+/**
+ * Tells clients about dated milestones that have fallen due and are still unpaid.
+ * Each milestone is notified once. Condition milestones are notified when staff
+ * mark them as due.
+ */
+export async function runMilestoneReminders(now = new Date()): Promise<MilestoneReminderSummary> {
+  const summary: MilestoneReminderSummary = { notified: [], failed: [] };
+
+  const projects: IProject[] = await Project.find({
+    projectId: { $nin: await getCancelledProjectIds() },
+    paymentSchedule: {
+      $elemMatch: { dueDate: { $lte: now }, notifiedAt: { $exists: false }, paidAt: { $exists: false } },
+    },
+  });
+
+  for (const project of projects) {
+    for (const entry of resolvePaymentSchedule(project, now)) {
+      const { milestone } = entry;
+      if (!milestone.dueDate || milestone.notifiedAt || entry.status === "paid" || entry.status === "upcoming") {
+        continue;
+      }
+      try {
+        if (await notifyMilestoneDue(project, entry)) {
+          summary.notified.push(`${project.projectId}: ${milestone.label}`);
+        }
+      } catch (sendError: unknown) {
+        const error = sendError instanceof Error ? sendError.message : String(sendError);
+        summary.failed.push({ projectId: project.projectId, milestone: milestone.label, error });
+      }
+      // Marked even when sending failed, like payment reminders, so a bad number isn't retried daily
+      await markMilestoneNotified(project, milestone, now);
+    }
+  }
+
+  return summary;
+}
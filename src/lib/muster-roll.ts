@@ -0,0 +1,78 @@
+// Monthly attendance register ("muster roll"): one row per worker, one column per day
+
+import { getScheduleDays, toDateKey } from "@/lib/crew-schedule";
+
+export interface MusterRollWorker {
+  _id: string;
+  workerCode: string;
+  name: string;
+}
+
+export interface MusterRollEntry {
+  _id: string;
+  workerId: string;
+  date: string | Date;
+  units: number;
+}
+
+export interface MusterRollRow<W extends MusterRollWorker = MusterRollWorker, E extends MusterRollEntry = MusterRollEntry> {
+  worker: W;
+  // Entries keyed by YYYY-MM-DD; a day can hold more than one entry when split across sites
+  cells: Map<string, E[]>;
+  totalUnits: number;
+  daysPresent: number;
+}
+
+/** Month as YYYY-MM, the value of an `<input type="month">`. */
+export function toMonthKey(value: string | Date) {
+  return toDateKey(value).slice(0, 7);
+}
+
+/** Every day of a YYYY-MM month, at local midnight. */
+export function getMonthDays(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return getScheduleDays(new Date(year, monthIndex - 1, 1), new Date(year, monthIndex, 0));
+}
+
+export function sumUnits(entries: { units: number }[]) {
+  return entries.reduce((sum, entry) => sum + entry.units, 0);
+}
+
+/** Rows for each worker in the order given, plus the crew's total units for each day. */
+export function buildMusterRoll<W extends MusterRollWorker, E extends MusterRollEntry>(
+  workers: W[],
+  entries: E[],
+  days: Date[]
+) {
+  const dayKeys = new Set(days.map(toDateKey));
+  const rows: MusterRollRow<W, E>[] = workers.map((worker) => {
+    const cells = new Map<string, E[]>();
+    for (const entry of entries) {
+      const dayKey = toDateKey(entry.date);
+      if (entry.workerId !== worker._id || !dayKeys.has(dayKey)) continue;
+      if (!cells.has(dayKey)) cells.set(dayKey, []);
+      cells.get(dayKey)!.push(entry);
+    }
+    const cellEntries = [...cells.values()];
+    return {
+      worker,
+      cells,
+      totalUnits: sumUnits(cellEntries.flat()),
+      daysPresent: cellEntries.length,
+    };
+  });
+
+  const dayTotals = new Map(
+    days.map((day) => {
+      const dayKey = toDateKey(day);
+      return [dayKey, sumUnits(rows.flatMap((row) => row.cells.get(dayKey) || []))];
+    })
+  );
+
+  return { rows, dayTotals, totalUnits: sumUnits(rows.map((row) => ({ units: row.totalUnits }))) };
+}
+
+/** What a cell shows on the register: the units worked, or "A" for absent. */
+export function formatMusterCell(units: number) {
+  return units ? String(units) : "A";
+}
@@ -14,7 +14,10 @@ export type NotificationAction =
   | "quotation_accepted"
   | "quotation_rejected"
   | "quotation_updated"
+  | "quotation_reminder"
   | "payment_received"
+  | "payment_reminder"
+  | "milestone_due"
   | "project_updated";
 
 const TEMPLATE_SIDS: Record<NotificationAction, string | undefined> = {
@@ -22,7 +25,10 @@ const TEMPLATE_SIDS: Record<NotificationAction, string | undefined> = {
   quotation_accepted: process.env.TWILIO_QUOTATION_ACCEPTED_SID,
   quotation_rejected: process.env.TWILIO_QUOTATION_REJECTED_SID,
   quotation_updated: process.env.TWILIO_QUOTATION_UPDATED_SID,
+  quotation_reminder: process.env.TWILIO_QUOTATION_REMINDER_SID,
   payment_received: process.env.TWILIO_PAYMENT_RECEIVED_SID,
+  payment_reminder: process.env.TWILIO_PAYMENT_REMINDER_SID,
+  milestone_due: process.env.TWILIO_MILESTONE_DUE_SID,
   project_updated: process.env.TWILIO_PROJECT_UPDATED_SID,
 };
 
@@ -0,0 +1,141 @@
+import mongoose from "mongoose";
+import { randomBytes } from "crypto";
+import dbConnect from "@/lib/mongodb";
+import OnlinePayment from "@/models/OnlinePayment";
+import Project from "@/models/Project";
+import type { IInvoice } from "@/models/Invoice";
+import type { GatewayPaymentEvent, PaymentProvider } from "@/lib/payment-gateway";
+import { getInvoicePortalUrl } from "@/lib/payment-reminders";
+import { addProjectPayment, notifyPaymentReceived } from "@/lib/project-payments";
+
+// Razorpay caps reference_id at 40 characters
+function createPaymentReference() {
+  return `OP${Date.now().toString(36)}${randomBytes(4).toString("hex")}`.toUpperCase();
+}
+
+/** Opens a checkout with the provider for part or all of the invoice balance. */
+export async function startOnlinePayment(provider: PaymentProvider, invoice: IInvoice, amount: number) {
+  const reference = createPaymentReference();
+  const returnUrl = new URL(getInvoicePortalUrl(invoice.invoiceId, invoice.accessToken));
+  returnUrl.searchParams.set("payment", reference);
+
+  const checkout = await provider.createCheckout({
+    reference,
+    amount,
+    invoiceId: invoice.invoiceId,
+    clientName: invoice.clientName,
+    clientNumber: invoice.clientNumber,
+    returnUrl: returnUrl.toString(),
+  });
+
+  await OnlinePayment.create({
+    reference,
+    provider: provider.id,
+    invoiceId: invoice.invoiceId,
+    projectId: invoice.projectId,
+    amount,
+    providerOrderId: checkout.providerOrderId,
+  });
+
+  return { reference, ...checkout };
+}
+
+/**
+ * Records a captured gateway payment on the project the same way a payment
+ * entered by staff is recorded. Repeat deliveries of the same webhook are
+ * ignored. A payment that would overpay the project is kept as "unapplied" for
+ * staff to refund or settle by hand.
+ */
+export async function applyGatewayPayment(provider: PaymentProvider, event: GatewayPaymentEvent) {
+  await dbConnect();
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  try {
+    const online = await OnlinePayment.findOne({ reference: event.reference, provider: provider.id }).session(session);
+    if (!online) {
+      await session.abortTransaction();
+      return null;
+    }
+    if (online.status !== "created") {
+      await session.abortTransaction();
+      return online;
+    }
+
+    const project = await Project.findOne({ projectId: online.projectId }).session(session);
+    const result = project
+      ? await addProjectPayment(
+          project,
+          {
+            amount: event.amount,
+            date: new Date(),
+            method: event.method,
+            referenceId: event.providerPaymentId,
+            receivedBy: provider.label,
+            note: `Paid online (ref ${online.reference})`,
+          },
+          `gateway:${provider.id}`,
+          session
+        )
+      : null;
+
+    online.providerPaymentId = event.providerPaymentId;
+    online.paidAt = new Date();
+    if (result) {
+      online.status = "paid";
+      online.receiptNumber = result.payment.receiptNumber;
+    } else {
+      online.status = "unapplied";
+      online.error = project ? "Payment exceeds the balance due" : "Project not found";
+    }
+    await online.save({ session });
+    await session.commitTransaction();
+
+    if (result && project) {
+      try {
+        await notifyPaymentReceived(project, result.invoice, result.payment);
+      } catch (notificationError) {
+        console.error("Failed to send payment notification:", notificationError);
+      }
+    } else {
+      console.error(`Online payment ${online.reference} could not be applied: ${online.error}`);
+    }
+    return online;
+  } catch (error) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
+
+/**
+ * Verifies and applies a provider webhook. Returns the HTTP status to answer
+ * with; anything other than 200 makes the provider retry later.
+ */
+export async function handleGatewayWebhook(provider: PaymentProvider, rawBody: string, headers: Headers) {
+  if (!provider.verifyWebhook || !provider.parseWebhook) {
+    return { status: 404, error: "This provider does not send webhooks" };
+  }
+  if (!provider.verifyWebhook(rawBody, headers)) {
+    return { status: 401, error: "Invalid signature" };
+  }
+
+  let event: GatewayPaymentEvent | null;
+  try {
+    event = provider.parseWebhook(rawBody);
+  } catch {
+    return { status: 400, error: "Invalid payload" };
+  }
+  if (!event) return { status: 200 };
+  if (!(event.amount > 0)) {
+    return { status: 400, error: "Invalid payment amount" };
+  }
+
+  const online = await applyGatewayPayment(provider, event);
+  if (!online) {
+    return { status: 404, error: "Unknown payment reference" };
+  }
+  return { status: 200, online };
+}
@@ -0,0 +1,201 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { DEFAULT_SITE_NAME } from "@/lib/brand";
+import type { PaymentMethod } from "@/lib/payments";
+
+// Online payment providers behind one interface. PAYMENT_PROVIDER picks one
+// explicitly; otherwise the first configured of Razorpay, then UPI, is used, and
+// the fake provider stands in outside production when FAKE_PAYMENT_SECRET is set.
+
+export const PAYMENT_PROVIDER_IDS = ["razorpay", "upi", "fake"] as const;
+export type PaymentProviderId = (typeof PAYMENT_PROVIDER_IDS)[number];
+
+export interface CheckoutRequest {
+  // Our reference for this checkout, echoed back by the provider's webhook
+  reference: string;
+  amount: number;
+  invoiceId: string;
+  clientName: string;
+  clientNumber: string;
+  // Invoice page the client comes back to after paying on a hosted page
+  returnUrl: string;
+}
+
+export interface Checkout {
+  // Hosted payment page to send the client to
+  redirectUrl?: string;
+  // upi:// link for the client's UPI app; these payments are confirmed by staff
+  upiUri?: string;
+  upiId?: string;
+  providerOrderId?: string;
+}
+
+/** A captured payment reported by a provider's webhook. */
+export interface GatewayPaymentEvent {
+  reference: string;
+  providerPaymentId: string;
+  amount: number;
+  method: PaymentMethod;
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  label: string;
+  isConfigured(): boolean;
+  createCheckout(request: CheckoutRequest): Promise<Checkout>;
+  // Providers without webhooks leave these out
+  verifyWebhook?(rawBody: string, headers: Headers): boolean;
+  // Null for events that don't report a captured payment
+  parseWebhook?(rawBody: string): GatewayPaymentEvent | null;
+}
+
+function hmacMatches(secret: string | undefined, rawBody: string, signature: string | null) {
+  if (!secret || !signature) return false;
+  const expected = Buffer.from(createHmac("sha256", secret).update(rawBody).digest("hex"));
+  const provided = Buffer.from(signature);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+const RAZORPAY_METHODS: Record<string, PaymentMethod> = {
+  upi: "upi",
+  netbanking: "bank_transfer",
+};
+
+// Razorpay Payment Links: the client pays on Razorpay's page and the
+// payment_link.paid webhook reports it back
+const razorpayProvider: PaymentProvider = {
+  id: "razorpay",
+  label: "Razorpay",
+  isConfigured() {
+    return Boolean(
+      process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET && process.env.RAZORPAY_WEBHOOK_SECRET
+    );
+  },
+  async createCheckout(request) {
+    const auth = Buffer.from(`${process.env.RAZORPAY_KEY_ID}:${process.env.RAZORPAY_KEY_SECRET}`).toString("base64");
+    const response = await fetch("https://api.razorpay.com/v1/payment_links", {
+      method: "POST",
+      headers: { Authorization: `Basic ${auth}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        amount: Math.round(request.amount * 100),
+        currency: "INR",
+        reference_id: request.reference,
+        description: `Invoice #${request.invoiceId}`,
+        customer: { name: request.clientName, contact: request.clientNumber },
+        notify: { sms: false, email: false },
+        callback_url: request.returnUrl,
+        callback_method: "get",
+      }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.short_url) {
+      throw new Error(body?.error?.description || `Razorpay request failed with status ${response.status}`);
+    }
+    return { redirectUrl: body.short_url, providerOrderId: body.id };
+  },
+  verifyWebhook(rawBody, headers) {
+    return hmacMatches(process.env.RAZORPAY_WEBHOOK_SECRET, rawBody, headers.get("x-razorpay-signature"));
+  },
+  parseWebhook(rawBody) {
+    const event = JSON.parse(rawBody);
+    if (event?.event !== "payment_link.paid") return null;
+    const link = event.payload?.payment_link?.entity;
+    const payment = event.payload?.payment?.entity;
+    if (!link?.reference_id || !payment?.id) return null;
+    return {
+      reference: link.reference_id,
+      providerPaymentId: payment.id,
+      amount: Number(payment.amount) / 100,
+      method: RAZORPAY_METHODS[payment.method] || "online",
+    };
+  },
+};
+
+// Plain UPI intent link to the business VPA; there is no webhook, so staff record the payment once it arrives
+const upiProvider: PaymentProvider = {
+  id: "upi",
+  label: "UPI",
+  isConfigured() {
+    return Boolean(process.env.UPI_VPA);
+  },
+  async createCheckout(request) {
+    const upiId = process.env.UPI_VPA!;
+    const params: Record<string, string> = {
+      pa: upiId,
+      pn: process.env.UPI_PAYEE_NAME || DEFAULT_SITE_NAME,
+      am: request.amount.toFixed(2),
+      cu: "INR",
+      tn: `Invoice ${request.invoiceId}`,
+      tr: request.reference,
+    };
+    const query = Object.entries(params)
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join("&");
+    return { upiUri: `upi://pay?${query}`, upiId };
+  },
+};
+
+function signFake(value: string) {
+  const secret = process.env.FAKE_PAYMENT_SECRET;
+  if (!secret) throw new Error("FAKE_PAYMENT_SECRET is not set");
+  return createHmac("sha256", secret).update(value).digest("hex");
+}
+
+/** Signs a fake gateway webhook body the way the fake provider expects. */
+export function signFakeWebhook(rawBody: string) {
+  return signFake(rawBody);
+}
+
+/** Whether a fake checkout link was issued by the fake provider for this reference. */
+export function verifyFakeCheckout(reference: string, signature: string | null) {
+  return hmacMatches(process.env.FAKE_PAYMENT_SECRET, reference, signature);
+}
+
+// Local stand-in for a hosted gateway: the "payment page" immediately reports a
+// successful payment through the same signed-webhook path
+const fakeProvider: PaymentProvider = {
+  id: "fake",
+  label: "Test Gateway",
+  isConfigured() {
+    return process.env.NODE_ENV !== "production" && Boolean(process.env.FAKE_PAYMENT_SECRET);
+  },
+  async createCheckout(request) {
+    // The link is signed so only the client who started the checkout can complete it
+    const params = new URLSearchParams({ reference: request.reference, signature: signFake(request.reference) });
+    return {
+      redirectUrl: `${process.env.NEXT_PUBLIC_FRONTEND_URL}/api/payments/fake/checkout?${params.toString()}`,
+      providerOrderId: `fake_order_${request.reference}`,
+    };
+  },
+  verifyWebhook(rawBody, headers) {
+    return hmacMatches(process.env.FAKE_PAYMENT_SECRET, rawBody, headers.get("x-fake-signature"));
+  },
+  parseWebhook(rawBody) {
+    const event = JSON.parse(rawBody);
+    if (!event?.reference || !event?.paymentId) return null;
+    return {
+      reference: event.reference,
+      providerPaymentId: event.paymentId,
+      amount: Number(event.amount),
+      method: "online",
+    };
+  },
+};
+
+const PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  razorpay: razorpayProvider,
+  upi: upiProvider,
+  fake: fakeProvider,
+};
+
+/** The provider with the given id, if it is configured. */
+export function getPaymentProviderById(id: string): PaymentProvider | null {
+  const provider = PROVIDERS[id as PaymentProviderId];
+  return provider && provider.isConfigured() ? provider : null;
+}
+
+/** The provider clients pay through, or null when online payment is off. */
+export function getPaymentProvider(): PaymentProvider | null {
+  const configured = process.env.PAYMENT_PROVIDER;
+  if (configured) return getPaymentProviderById(configured);
+  return [razorpayProvider, upiProvider, fakeProvider].find((provider) => provider.isConfigured()) || null;
+}
@@ -0,0 +1,127 @@
+import Invoice, { IInvoice, IInvoicePaymentReminder } from "@/models/Invoice";
+import Project from "@/models/Project";
+import GeneralInfo from "@/models/GeneralInfo";
+import { sendNotification } from "@/lib/notifications";
+import {
+  DEFAULT_PAYMENT_REMINDER_DAYS,
+  DEFAULT_PAYMENT_TERMS_DAYS,
+  getDaysOverdue,
+  getDuePaymentReminderDay,
+  getInvoiceDueDate,
+  normalizePaymentReminderDays,
+} from "@/lib/receivables";
+
+export interface PaymentSettings {
+  paymentTermsDays: number;
+  paymentReminderDays: number[];
+}
+
+export async function getPaymentSettings(): Promise<PaymentSettings> {
+  const generalInfo = await GeneralInfo.findOne()
+    .select("paymentTermsDays paymentReminderDays")
+    .lean<{ paymentTermsDays?: number; paymentReminderDays?: number[] }>();
+  return {
+    paymentTermsDays: generalInfo?.paymentTermsDays ?? DEFAULT_PAYMENT_TERMS_DAYS,
+    paymentReminderDays: normalizePaymentReminderDays(generalInfo?.paymentReminderDays ?? DEFAULT_PAYMENT_REMINDER_DAYS),
+  };
+}
+
+/** Link the client uses to view an invoice and its balance. */
+export function getInvoicePortalUrl(invoiceId: string, accessToken?: string) {
+  const baseUrl = `${process.env.NEXT_PUBLIC_FRONTEND_URL}/invoice/${invoiceId}`;
+  return accessToken ? `${baseUrl}?token=${accessToken}` : baseUrl;
+}
+
+/** Project IDs whose invoices are no longer collected. */
+export async function getCancelledProjectIds() {
+  const projects = await Project.find({ status: "cancelled" }).select("projectId").lean<{ projectId: string }[]>();
+  return projects.map((project) => project.projectId);
+}
+
+export interface PaymentReminderSummary {
+  backfilled: number;
+  reminded: string[];
+  failed: { invoiceId: string; error: string }[];
+}
+
+/**
+ * Sends the WhatsApp payment reminders that are due for overdue invoices. Safe to
+ * run repeatedly: each step of the schedule is recorded on the invoice and sent
+ * at most once per due date.
+ */
+export async function runPaymentReminders(now = new Date()): Promise<PaymentReminderSummary> {
+  const summary: PaymentReminderSummary = { backfilled: 0, reminded: [], failed: [] };
+  const { paymentTermsDays, paymentReminderDays } = await getPaymentSettings();
+
+  // Invoices issued before due dates were stored take the current terms
+  const missingDueDate = await Invoice.find({ dueDate: { $exists: false } }).select("date paymentTermsDays");
+  for (const invoice of missingDueDate) {
+    const termsDays = invoice.paymentTermsDays ?? paymentTermsDays;
+    await Invoice.updateOne(
+      { _id: invoice._id },
+      { $set: { paymentTermsDays: termsDays, dueDate: getInvoiceDueDate(invoice.date, termsDays) } }
+    );
+    summary.backfilled++;
+  }
+
+  if (paymentReminderDays.length === 0) return summary;
+
+  const overdue: IInvoice[] = await Invoice.find({
+    amountDue: { $gt: 0 },
+    dueDate: { $lte: new Date(now.getTime() - paymentReminderDays[0] * 24 * 60 * 60 * 1000) },
+    projectId: { $nin: await getCancelledProjectIds() },
+  });
+  // The last step of a multi-step schedule is worded as a final notice
+  const finalStep = paymentReminderDays.length > 1 ? paymentReminderDays[paymentReminderDays.length - 1] : null;
+
+  for (const invoice of overdue) {
+    const dueDate = invoice.dueDate!;
+    const daysOverdue = getDaysOverdue(dueDate, now);
+    const step = getDuePaymentReminderDay(daysOverdue, paymentReminderDays);
+    if (step === null) continue;
+    const alreadySent = (invoice.paymentReminders || []).some(
+      (entry) => entry.daysOverdue === step && new Date(entry.dueDate).getTime() === dueDate.getTime()
+    );
+    if (alreadySent) continue;
+
+    const amountDue = (invoice.amountDue || 0).toFixed(2);
+    const dueDateText = dueDate.toLocaleDateString("en-IN");
+    const invoiceUrl = getInvoicePortalUrl(invoice.invoiceId, invoice.accessToken);
+    const opening = step === finalStep ? "this is a final reminder that" : "a gentle reminder that";
+    let delivered = false;
+    let error: string | undefined;
+    try {
+      delivered = await sendNotification({
+        to: invoice.clientNumber,
+        message: `Dear ${invoice.clientName}, ${opening} ₹${amountDue} on Invoice #${invoice.invoiceId} was due on ${dueDateText} and is now ${daysOverdue} day${daysOverdue === 1 ? "" : "s"} overdue. View and pay here: ${invoiceUrl}`,
+        action: "payment_reminder",
+        // One client may have several invoices overdue on the same run
+        debounceSeconds: 1,
+        templateVariables: {
+          "1": invoice.clientName, // Dear {{1}}
+          "2": amountDue, // ₹{{2}}
+          "3": invoice.invoiceId, // Invoice #{{3}}
+          "4": dueDateText, // was due on {{4}}
+          "5": String(daysOverdue), // {{5}} days overdue
+          "6": invoiceUrl, // View and pay here: {{6}}
+        },
+      });
+    } catch (sendError: unknown) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+      summary.failed.push({ invoiceId: invoice.invoiceId, error });
+    }
+
+    const reminder: IInvoicePaymentReminder = {
+      daysOverdue: step,
+      dueDate,
+      amountDue: invoice.amountDue || 0,
+      delivered,
+      error,
+      createdAt: now,
+    };
+    await Invoice.updateOne({ _id: invoice._id }, { $push: { paymentReminders: reminder } });
+    if (delivered) summary.reminded.push(invoice.invoiceId);
+  }
+
+  return summary;
+}
@@ -0,0 +1,99 @@
+// Milestone payment schedules (e.g. 40% advance / 40% mid-way / 20% on completion)
+import { roundCurrency } from "@/lib/gst";
+import { getTotalPaid } from "@/lib/payments";
+
+export type MilestoneStatus = "upcoming" | "due" | "partially_paid" | "paid";
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  upcoming: "Upcoming",
+  due: "Due",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+};
+
+export interface PaymentMilestone {
+  _id?: unknown;
+  label: string;
+  // Either a share of the project value or a fixed amount
+  percent?: number;
+  amount?: number;
+  // Either a calendar date, or a condition (e.g. "On completion") that staff mark as met
+  dueDate?: Date | string;
+  condition?: string;
+  dueAt?: Date | string;
+  paidAt?: Date | string;
+  notifiedAt?: Date | string;
+}
+
+export interface ResolvedMilestone<T extends PaymentMilestone = PaymentMilestone> {
+  milestone: T;
+  amount: number;
+  paidAmount: number;
+  balance: number;
+  status: MilestoneStatus;
+  // When the milestone fell or falls due, if known
+  dueOn?: Date;
+}
+
+interface ScheduledProject<T extends PaymentMilestone> {
+  grandTotal?: number;
+  creditedAmount?: number;
+  refundedAmount?: number;
+  paymentHistory?: { amount: number }[];
+  paymentSchedule?: T[];
+}
+
+export function getMilestoneAmount(milestone: PaymentMilestone, contractValue: number) {
+  if (milestone.amount !== undefined && milestone.amount !== null) return roundCurrency(milestone.amount);
+  return roundCurrency((contractValue * (milestone.percent || 0)) / 100);
+}
+
+/** The project value milestones are a share of: the grand total less credit notes. */
+export function getScheduleValue(project: Pick<ScheduledProject<PaymentMilestone>, "grandTotal" | "creditedAmount">) {
+  return (project.grandTotal || 0) - (project.creditedAmount || 0);
+}
+
+/**
+ * Works out each milestone's amount and status. Payments are applied to
+ * milestones in schedule order, so a payment larger than the current milestone
+ * counts toward the next one.
+ */
+export function resolvePaymentSchedule<T extends PaymentMilestone>(
+  project: ScheduledProject<T>,
+  now = new Date()
+): ResolvedMilestone<T>[] {
+  const contractValue = getScheduleValue(project);
+  let unallocated = getTotalPaid(project.paymentHistory) - (project.refundedAmount || 0);
+
+  return (project.paymentSchedule || []).map((milestone) => {
+    const amount = getMilestoneAmount(milestone, contractValue);
+    const paidAmount = roundCurrency(Math.max(0, Math.min(amount, unallocated)));
+    unallocated -= paidAmount;
+    const balance = roundCurrency(amount - paidAmount);
+
+    const dueOn = milestone.dueDate
+      ? new Date(milestone.dueDate)
+      : milestone.dueAt
+        ? new Date(milestone.dueAt)
+        : undefined;
+    const isDue = !!dueOn && dueOn.getTime() <= now.getTime();
+
+    let status: MilestoneStatus;
+    if (balance <= 0) status = "paid";
+    else if (paidAmount > 0) status = "partially_paid";
+    else status = isDue ? "due" : "upcoming";
+
+    return { milestone, amount, paidAmount, balance, status, dueOn };
+  });
+}
+
+/** The first milestone not yet fully paid. */
+export function getNextDueMilestone<T extends PaymentMilestone>(resolved: ResolvedMilestone<T>[]) {
+  return resolved.find((entry) => entry.status !== "paid");
+}
+
+/** "by 12/03/2026", "On completion", or the condition once it has been met. */
+export function describeMilestoneDue(milestone: PaymentMilestone) {
+  if (milestone.dueDate) return `by ${new Date(milestone.dueDate).toLocaleDateString("en-IN")}`;
+  return milestone.condition || "";
+}
@@ -0,0 +1,90 @@
+// Payment methods, receipt links and corrections for project/invoice payment history
+
+export const PAYMENT_METHODS = ["cash", "upi", "bank_transfer", "cheque", "online"] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  bank_transfer: "Bank Transfer",
+  cheque: "Cheque",
+  // Card, wallet and other payments collected through the online gateway
+  online: "Online",
+};
+
+interface PaymentMethodDetails {
+  method?: string;
+  chequeNumber?: string;
+  chequeBank?: string;
+}
+
+/** Method as shown on screens and receipts, with cheque details. Payments recorded before methods were tracked show "-". */
+export function getPaymentMethodLabel(payment: PaymentMethodDetails) {
+  if (!payment.method) return "-";
+  const label = PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method;
+  if (payment.method !== "cheque" || !payment.chequeNumber) return label;
+  return `${label} #${payment.chequeNumber}${payment.chequeBank ? ` (${payment.chequeBank})` : ""}`;
+}
+
+/** Invoice page link that opens with the given payment receipt ready to download. */
+export function getPaymentReceiptUrl(invoiceId: string, receiptNumber: string, accessToken?: string) {
+  const params = new URLSearchParams({ receipt: receiptNumber });
+  if (accessToken) params.set("token", accessToken);
+  return `${process.env.NEXT_PUBLIC_FRONTEND_URL}/invoice/${invoiceId}?${params.toString()}`;
+}
+
+/** Payment fields that can be corrected after a payment is recorded. */
+export const EDITABLE_PAYMENT_FIELDS = [
+  "amount",
+  "date",
+  "method",
+  "chequeNumber",
+  "chequeBank",
+  "referenceId",
+  "receivedBy",
+  "note",
+] as const;
+export type EditablePaymentField = (typeof EDITABLE_PAYMENT_FIELDS)[number];
+
+export const EDITABLE_PAYMENT_FIELD_LABELS: Record<EditablePaymentField, string> = {
+  amount: "Amount",
+  date: "Date",
+  method: "Method",
+  chequeNumber: "Cheque number",
+  chequeBank: "Bank",
+  referenceId: "Reference ID",
+  receivedBy: "Received by",
+  note: "Note",
+};
+
+interface PaymentEntry {
+  _id?: unknown;
+  amount: number;
+  isReversal?: boolean;
+  reversalOf?: unknown;
+}
+
+/** Net amount received; reversal entries carry negative amounts. */
+export function getTotalPaid(paymentHistory: PaymentEntry[] = []) {
+  return paymentHistory.reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+}
+
+/** The reversal entry that cancels the given payment, if any. */
+export function findPaymentReversal<T extends PaymentEntry>(paymentHistory: T[], payment: PaymentEntry) {
+  if (!payment._id) return undefined;
+  const paymentId = String(payment._id);
+  return paymentHistory.find((entry) => entry.isReversal && String(entry.reversalOf) === paymentId);
+}
+
+interface Receivable {
+  grandTotal?: number;
+  paymentHistory?: PaymentEntry[];
+  creditedAmount?: number;
+  refundedAmount?: number;
+}
+
+/** What the client still owes: the grand total less credit notes, less payments net of refunds. */
+export function getBalanceDue(receivable: Receivable) {
+  const kept = getTotalPaid(receivable.paymentHistory) - (receivable.refundedAmount || 0);
+  return (receivable.grandTotal || 0) - (receivable.creditedAmount || 0) - kept;
+}
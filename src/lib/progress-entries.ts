@@ -0,0 +1,68 @@
+import mongoose from "mongoose";
+import ProgressEntry from "@/models/ProgressEntry";
+import WorkerAttendance from "@/models/WorkerAttendance";
+import { toDateKey } from "@/lib/crew-schedule";
+import type { ProgressEntry as ProgressEntryView, ProgressPhoto, ProgressStage, ProgressWorkerPresent } from "@/lib/site-progress";
+
+interface StoredProgressEntry {
+  _id: mongoose.Types.ObjectId;
+  date: Date;
+  stage: ProgressStage;
+  notes?: string;
+  photos: ProgressPhoto[];
+  createdBy: string;
+  createdAt: Date;
+}
+
+interface PopulatedAttendance {
+  date: Date;
+  units: number;
+  workerId: { _id: mongoose.Types.ObjectId; name: string } | null;
+}
+
+/**
+ * The project's progress log, newest day first, with the workers present on each
+ * day taken from the attendance marked against the project.
+ */
+export async function getProgressEntries(project: { _id: unknown; projectId: string }): Promise<ProgressEntryView[]> {
+  const entries = await ProgressEntry.find({ projectId: project.projectId })
+    .sort({ date: -1, createdAt: -1 })
+    .lean<StoredProgressEntry[]>();
+  if (entries.length === 0) return [];
+
+  const firstDay = new Date(entries[entries.length - 1].date);
+  firstDay.setHours(0, 0, 0, 0);
+  const lastDay = new Date(entries[0].date);
+  lastDay.setHours(23, 59, 59, 999);
+
+  const attendance = await WorkerAttendance.find({
+    projectId: project._id,
+    date: { $gte: firstDay, $lte: lastDay },
+  })
+    .populate("workerId", "name")
+    .select("workerId date units")
+    .lean<PopulatedAttendance[]>();
+
+  const workersByDay = new Map<string, ProgressWorkerPresent[]>();
+  for (const record of attendance) {
+    if (!record.workerId) continue;
+    const key = toDateKey(record.date);
+    if (!workersByDay.has(key)) workersByDay.set(key, []);
+    workersByDay.get(key)!.push({
+      workerId: String(record.workerId._id),
+      name: record.workerId.name,
+      units: record.units,
+    });
+  }
+
+  return entries.map((entry) => ({
+    _id: String(entry._id),
+    date: entry.date,
+    stage: entry.stage,
+    notes: entry.notes,
+    photos: entry.photos,
+    workersPresent: workersByDay.get(toDateKey(entry.date)) || [],
+    createdBy: entry.createdBy,
+    createdAt: entry.createdAt,
+  }));
+}
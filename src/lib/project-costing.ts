@@ -0,0 +1,128 @@
+import type { Types } from "mongoose";
+import WorkerAttendance from "@/models/WorkerAttendance";
+import Transaction from "@/models/Transaction";
+import type { IProject } from "@/models/Project";
+import { resolveDailyWage } from "@/lib/wage-payroll";
+
+type CostableProject = Pick<
+  IProject,
+  | "_id"
+  | "projectId"
+  | "clientName"
+  | "status"
+  | "grandTotal"
+  | "tax"
+  | "paymentHistory"
+  | "creditedAmount"
+  | "refundedAmount"
+>;
+
+type AttendanceWithWorker = {
+  date: Date;
+  units: number;
+  projectId: Types.ObjectId;
+  workerId: { dailyWage?: number; wageRates?: { dailyWage: number; effectiveFrom: Date; projectId?: unknown }[] } | null;
+};
+
+export type ProjectCosting = {
+  projectId: string;
+  clientName: string;
+  status: string;
+  contractValue: number;
+  revenue: number;
+  labourUnits: number;
+  labourCost: number;
+  materialCost: number;
+  otherCost: number;
+  totalCost: number;
+  paymentsReceived: number;
+  margin: number;
+  marginPercent: number;
+};
+
+function roundAmount(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Rolls up what each project has cost so far: attendance units priced at the wage
+ * rate in effect on the day, plus expense transactions linked to the project.
+ * Margin is measured against the contract value net of GST, since the tax portion
+ * is passed on and never earned, and net of credit notes. Refunds paid out on
+ * credit notes are money returned, not project costs.
+ */
+export async function computeProjectCostings(projects: CostableProject[]): Promise<ProjectCosting[]> {
+  if (projects.length === 0) return [];
+
+  const ids = projects.map((project) => project._id);
+
+  const [attendance, expenses] = await Promise.all([
+    WorkerAttendance.find({ projectId: { $in: ids } })
+      .select("date units projectId workerId")
+      .populate("workerId", "dailyWage wageRates")
+      .lean<AttendanceWithWorker[]>(),
+    Transaction.aggregate<{ _id: { projectId: Types.ObjectId; category: string | null }; total: number }>([
+      { $match: { projectId: { $in: ids }, type: "debit", category: { $ne: "refund" } } },
+      {
+        $group: {
+          _id: { projectId: "$projectId", category: "$category" },
+          total: { $sum: "$amount" },
+        },
+      },
+    ]),
+  ]);
+
+  const labourByProject = new Map<string, { units: number; cost: number }>();
+  for (const entry of attendance) {
+    const key = String(entry.projectId);
+    const bucket = labourByProject.get(key) || { units: 0, cost: 0 };
+    const dailyWage = entry.workerId ? resolveDailyWage(entry.workerId, entry.date, entry.projectId) : 0;
+    bucket.units += entry.units;
+    bucket.cost += entry.units * dailyWage;
+    labourByProject.set(key, bucket);
+  }
+
+  const expensesByProject = new Map<string, { material: number; other: number }>();
+  for (const row of expenses) {
+    const key = String(row._id.projectId);
+    const bucket = expensesByProject.get(key) || { material: 0, other: 0 };
+    if (row._id.category === "material") bucket.material += row.total;
+    else bucket.other += row.total;
+    expensesByProject.set(key, bucket);
+  }
+
+  return projects.map((project) => {
+    const key = String(project._id);
+    const labour = labourByProject.get(key) || { units: 0, cost: 0 };
+    const spend = expensesByProject.get(key) || { material: 0, other: 0 };
+
+    const grandTotal = Number(project.grandTotal) || 0;
+    const contractValue = grandTotal - (Number(project.creditedAmount) || 0);
+    // Credit notes carry GST in the same proportion as the invoice
+    const revenue =
+      project.tax?.enabled && grandTotal > 0
+        ? ((Number(project.tax.taxableValue) || 0) * contractValue) / grandTotal
+        : contractValue;
+    const totalCost = labour.cost + spend.material + spend.other;
+    const paymentsReceived =
+      (project.paymentHistory || []).reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0) -
+      (Number(project.refundedAmount) || 0);
+    const margin = revenue - totalCost;
+
+    return {
+      projectId: project.projectId,
+      clientName: project.clientName,
+      status: project.status,
+      contractValue: roundAmount(contractValue),
+      revenue: roundAmount(revenue),
+      labourUnits: labour.units,
+      labourCost: roundAmount(labour.cost),
+      materialCost: roundAmount(spend.material),
+      otherCost: roundAmount(spend.other),
+      totalCost: roundAmount(totalCost),
+      paymentsReceived: roundAmount(paymentsReceived),
+      margin: roundAmount(margin),
+      marginPercent: revenue > 0 ? roundAmount((margin / revenue) * 100) : 0,
+    };
+  });
+}
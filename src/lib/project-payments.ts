@@ -0,0 +1,112 @@
+import type { ClientSession } from "mongoose";
+import Invoice, { IInvoice } from "@/models/Invoice";
+import AuditLog from "@/models/AuditLog";
+import type { IPayment, IProject } from "@/models/Project";
+import { generateReceiptNumber } from "@/lib/generateReceiptNumber";
+import { sendNotification } from "@/lib/notifications";
+import { getBalanceDue, getPaymentReceiptUrl } from "@/lib/payments";
+import { resolvePaymentSchedule } from "@/lib/payment-schedule";
+
+export type NewProjectPayment = Omit<IPayment, "_id" | "receiptNumber" | "isReversal" | "reversalOf" | "reason" | "corrections">;
+
+/** Recomputes the balance and milestone progress after the project's payments or credit notes change. */
+export function applyPaymentTotals(project: IProject) {
+  project.amountDue = getBalanceDue(project);
+  applyMilestoneProgress(project);
+}
+
+/** Stamps milestones as paid once payments cover them, and unstamps any a reversal or credit uncovers. */
+export function applyMilestoneProgress(project: IProject) {
+  for (const { milestone, status } of resolvePaymentSchedule(project)) {
+    if (status === "paid" && !milestone.paidAt) milestone.paidAt = new Date();
+    if (status !== "paid" && milestone.paidAt) milestone.paidAt = undefined;
+  }
+}
+
+/** Copies the project's payments, credits, schedule and balance onto its invoice, if it has one. */
+export async function syncInvoicePayments(project: IProject, session: ClientSession) {
+  const invoice = await Invoice.findOne({ projectId: project.projectId }).session(session);
+  if (invoice) {
+    invoice.paymentHistory = project.paymentHistory;
+    invoice.creditedAmount = project.creditedAmount || 0;
+    invoice.refundedAmount = project.refundedAmount || 0;
+    invoice.paymentSchedule = project.paymentSchedule || [];
+    invoice.amountDue = project.amountDue;
+    invoice.lastUpdated = new Date();
+    await invoice.save({ session });
+  }
+  return invoice;
+}
+
+/**
+ * Records a received payment against the project inside the caller's transaction:
+ * assigns the receipt number, recomputes the balance, mirrors it onto the invoice
+ * and writes the audit entry. Returns null, leaving the project untouched, when the
+ * payment is more than the balance due.
+ */
+export async function addProjectPayment(
+  project: IProject,
+  payment: NewProjectPayment,
+  userId: string,
+  session: ClientSession
+) {
+  if (payment.amount > getBalanceDue(project)) {
+    return null;
+  }
+
+  const recorded = { ...payment, receiptNumber: await generateReceiptNumber(session) };
+  project.paymentHistory.push(recorded);
+  project.lastUpdated = new Date();
+  applyPaymentTotals(project);
+
+  await project.save({ session });
+  const invoice = await syncInvoicePayments(project, session);
+
+  await AuditLog.create(
+    [
+      {
+        action: "add_project_payment",
+        userId,
+        details: {
+          projectId: project.projectId,
+          amount: recorded.amount,
+          method: recorded.method,
+          referenceId: recorded.referenceId,
+          receiptNumber: recorded.receiptNumber,
+          note: recorded.note,
+        },
+      },
+    ],
+    { session }
+  );
+
+  return { payment: recorded, invoice };
+}
+
+/** WhatsApp confirmation with the receipt link; send after the transaction commits. */
+export async function notifyPaymentReceived(
+  project: IProject,
+  invoice: IInvoice | null,
+  payment: { amount: number; receiptNumber: string }
+) {
+  const { projectId } = project;
+  const receiptUrl = invoice
+    ? getPaymentReceiptUrl(invoice.invoiceId, payment.receiptNumber, invoice.accessToken)
+    : `${process.env.NEXT_PUBLIC_FRONTEND_URL}/invoice/${projectId}`;
+  const templateVariables: Record<string, string> = {
+    "1": project.clientName, // Dear {{1}}
+    "2": payment.amount.toFixed(2), // Payment amount {{2}}
+    "3": project.quotationNumber || projectId, // Quotation #{{3}}
+    "4": (project.amountDue || 0).toFixed(2), // Amount Due {{4}}
+    "5": receiptUrl, // Download receipt {{5}}
+    "6": payment.receiptNumber, // Receipt #{{6}}
+  };
+  const whatsappMessage = `Dear ${project.clientName}, we have received a payment of ₹${payment.amount.toFixed(2)} towards Quotation #${project.quotationNumber || projectId}. Amount Due: ₹${(project.amountDue || 0).toFixed(2)}. Receipt #${payment.receiptNumber}: ${receiptUrl}`;
+
+  return sendNotification({
+    to: project.clientNumber,
+    message: whatsappMessage,
+    action: "payment_received",
+    templateVariables,
+  });
+}
@@ -0,0 +1,59 @@
+// Work status of a project, tracked separately from whether it has been paid
+import { getBalanceDue, getTotalPaid } from "@/lib/payments";
+
+export const PROJECT_STATUSES = [
+  "scheduled",
+  "in_progress",
+  "on_hold",
+  "work_complete",
+  "handed_over",
+  "cancelled",
+] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  scheduled: "Scheduled",
+  in_progress: "In Progress",
+  on_hold: "On Hold",
+  work_complete: "Work Complete",
+  handed_over: "Handed Over",
+  cancelled: "Cancelled",
+};
+
+// Where a project can move from each status. Finished work can be reopened for
+// rework, and a cancelled job can be put back on the schedule.
+export const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  scheduled: ["in_progress", "on_hold", "cancelled"],
+  in_progress: ["on_hold", "work_complete", "cancelled"],
+  on_hold: ["scheduled", "in_progress", "cancelled"],
+  work_complete: ["handed_over", "in_progress"],
+  handed_over: ["in_progress"],
+  cancelled: ["scheduled"],
+};
+
+// Statuses workers can be on site for, and so have attendance marked against
+export const ACTIVE_PROJECT_STATUSES: ProjectStatus[] = ["scheduled", "in_progress"];
+
+export function canChangeProjectStatus(from: ProjectStatus, to: ProjectStatus) {
+  return PROJECT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** Pausing, cancelling or reopening a job needs a reason on record. */
+export function isStatusReasonRequired(from: ProjectStatus, to: ProjectStatus) {
+  return to === "on_hold" || to === "cancelled" || (to === "in_progress" && (from === "work_complete" || from === "handed_over"));
+}
+
+export type ProjectPaymentStatus = "unpaid" | "partially_paid" | "paid";
+
+export const PROJECT_PAYMENT_STATUS_LABELS: Record<ProjectPaymentStatus, string> = {
+  unpaid: "Unpaid",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+};
+
+/** Payment status, derived from the balance rather than stored. */
+export function getProjectPaymentStatus(project: Parameters<typeof getBalanceDue>[0]): ProjectPaymentStatus {
+  if (getBalanceDue(project) <= 0) return "paid";
+  return getTotalPaid(project.paymentHistory) - (project.refundedAmount || 0) > 0 ? "partially_paid" : "unpaid";
+}
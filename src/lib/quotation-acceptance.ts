@@ -0,0 +1,186 @@
+import type { ClientSession } from "mongoose";
+import { randomBytes } from "crypto";
+import type { IQuotation } from "@/models/Quotation";
+import Project, { IProject } from "@/models/Project";
+import Invoice, { IInvoice } from "@/models/Invoice";
+import { generateProjectId } from "@/lib/generateProjectId";
+import { generateInvoiceId } from "@/lib/generateInvoiceId";
+import { getPaymentSettings } from "@/lib/payment-reminders";
+import { getInvoiceDueDate } from "@/lib/receivables";
+import { getBalanceDue } from "@/lib/payments";
+import { applyPaymentTotals, syncInvoicePayments } from "@/lib/project-payments";
+
+/** Link the client uses to review and respond to a quotation. */
+export function getQuotationPortalUrl(quotationNumber: string, accessToken?: string) {
+  const baseUrl = `${process.env.NEXT_PUBLIC_FRONTEND_URL}/quotations/${quotationNumber}`;
+  return accessToken ? `${baseUrl}?token=${accessToken}` : baseUrl;
+}
+
+export function generateQuotationAccessToken() {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Creates the project and invoice for a newly accepted quotation, or brings the
+ * existing ones in line with it when a re-quoted job is accepted again.
+ */
+export async function syncProjectWithAcceptedQuotation(
+  quotation: IQuotation,
+  userId: string,
+  session: ClientSession
+) {
+  const { quotationNumber } = quotation;
+  // Quotation items store a missing area/total as null; projects and invoices leave them unset
+  const items = quotation.items as IProject["items"];
+  const existingProject = await Project.findOne({
+    quotationNumber,
+  }).session(session);
+  if (existingProject) {
+    const projectUpdate: Partial<IProject> = {
+      clientName: quotation.clientName,
+      clientAddress: quotation.clientAddress,
+      clientNumber: quotation.clientNumber,
+      clientId: quotation.clientId,
+      date: quotation.date,
+      items,
+      measurements: quotation.measurements || [],
+      subtotal: quotation.subtotal,
+      discount: quotation.discount,
+      grandTotal: quotation.grandTotal,
+      tax: quotation.tax,
+      amountDue: getBalanceDue({
+        grandTotal: quotation.grandTotal,
+        paymentHistory: existingProject.paymentHistory,
+        creditedAmount: existingProject.creditedAmount,
+        refundedAmount: existingProject.refundedAmount,
+      }),
+      terms: quotation.terms,
+      note: quotation.note,
+      lastUpdated: new Date(),
+    };
+    const updatedProject = await Project.findOneAndUpdate(
+      { quotationNumber },
+      { $set: projectUpdate },
+      { new: true, session }
+    );
+    if (!updatedProject) {
+      throw new Error(
+        `Failed to update project for quotation ${quotationNumber}`
+      );
+    }
+    // Re-quoting changes the total, and with it what each percentage milestone covers
+    applyPaymentTotals(updatedProject);
+    await updatedProject.save({ session });
+    console.log(`Project updated for quotation ${quotationNumber}`);
+
+    const invoice = await Invoice.findOne({
+      quotationNumber,
+      projectId: existingProject.projectId,
+    }).session(session);
+    if (invoice) {
+      const paymentTermsDays = invoice.paymentTermsDays ?? (await getPaymentSettings()).paymentTermsDays;
+      const invoiceUpdate: Partial<IInvoice> = {
+        clientName: quotation.clientName,
+        clientAddress: quotation.clientAddress,
+        clientNumber: quotation.clientNumber,
+        clientId: quotation.clientId,
+        date: quotation.date,
+        paymentTermsDays,
+        dueDate: getInvoiceDueDate(quotation.date, paymentTermsDays),
+        items,
+        subtotal: quotation.subtotal || 0,
+        discount: quotation.discount || 0,
+        grandTotal: quotation.grandTotal || 0,
+        tax: quotation.tax,
+        lastUpdated: new Date(),
+        terms: quotation.terms,
+        note: quotation.note,
+      };
+      const updatedInvoice = await Invoice.findOneAndUpdate(
+        { quotationNumber, projectId: existingProject.projectId },
+        { $set: invoiceUpdate },
+        { new: true, session }
+      );
+      if (!updatedInvoice) {
+        throw new Error(
+          `Failed to update invoice for quotation ${quotationNumber}`
+        );
+      }
+      await syncInvoicePayments(updatedProject, session);
+      console.log(`Invoice updated for quotation ${quotationNumber}`);
+    }
+  } else {
+    const projectId = await generateProjectId();
+    const projectData: Partial<IProject> = {
+      projectId,
+      quotationNumber,
+      clientName: quotation.clientName,
+      clientAddress: quotation.clientAddress,
+      clientNumber: quotation.clientNumber,
+      clientId: quotation.clientId,
+      date: quotation.date,
+      items,
+      measurements: quotation.measurements || [],
+      extraWork: [],
+      subtotal: quotation.subtotal,
+      discount: quotation.discount,
+      grandTotal: quotation.grandTotal,
+      tax: quotation.tax,
+      amountDue: quotation.grandTotal || 0,
+      paymentHistory: [],
+      siteImages: [],
+      terms: quotation.terms,
+      note: quotation.note,
+      createdAt: new Date(),
+      createdBy: userId,
+      status: "scheduled",
+      statusHistory: [{ to: "scheduled", reason: "Quotation accepted", changedBy: userId, changedAt: new Date() }],
+    };
+    const newProject = await Project.create([projectData], { session });
+    if (!newProject || newProject.length === 0) {
+      throw new Error(
+        `Failed to create project for quotation ${quotationNumber}`
+      );
+    }
+    console.log(
+      `Project ${projectId} created for quotation ${quotationNumber}`
+    );
+
+    const invoiceId = await generateInvoiceId();
+    const { paymentTermsDays } = await getPaymentSettings();
+    const invoiceData: Partial<IInvoice> = {
+      invoiceId,
+      projectId,
+      quotationNumber,
+      clientName: quotation.clientName,
+      clientAddress: quotation.clientAddress,
+      clientNumber: quotation.clientNumber,
+      clientId: quotation.clientId,
+      date: quotation.date,
+      paymentTermsDays,
+      dueDate: getInvoiceDueDate(quotation.date, paymentTermsDays),
+      paymentReminders: [],
+      items,
+      extraWork: [],
+      subtotal: quotation.subtotal || 0,
+      discount: quotation.discount || 0,
+      grandTotal: quotation.grandTotal || 0,
+      tax: quotation.tax,
+      amountDue: quotation.grandTotal || 0,
+      paymentHistory: [],
+      accessToken: randomBytes(16).toString("hex"),
+      createdAt: new Date(),
+      terms: quotation.terms,
+      note: quotation.note,
+    };
+    const newInvoice = await Invoice.create([invoiceData], { session });
+    if (!newInvoice || newInvoice.length === 0) {
+      throw new Error(
+        `Failed to create invoice for quotation ${quotationNumber}`
+      );
+    }
+    console.log(
+      `Invoice ${invoiceId} created for quotation ${quotationNumber}`
+    );
+  }
+}
@@ -0,0 +1,34 @@
+// Quotation validity window and follow-up schedule
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days before expiry a follow-up goes out when settings don't say otherwise. */
+export const DEFAULT_REMINDER_DAYS = [3, 1];
+
+/** End of the validity window, or null for quotations without a validity. */
+export function getQuotationExpiry(date: Date | string, validityDays?: number | null) {
+  if (!validityDays) return null;
+  const start = new Date(date);
+  if (isNaN(start.getTime())) return null;
+  return new Date(start.getTime() + validityDays * DAY_MS);
+}
+
+/** Whole days left before expiry, rounded up; zero or less once it has passed. */
+export function getDaysUntilExpiry(expiresAt: Date | string, now = new Date()) {
+  return Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS);
+}
+
+/** Unique positive day counts, largest first. */
+export function normalizeReminderDays(days?: number[] | null) {
+  const valid = (days || []).filter((day) => Number.isInteger(day) && day > 0);
+  return Array.from(new Set(valid)).sort((a, b) => b - a);
+}
+
+/**
+ * The reminder that is due now: the tightest interval the quotation has
+ * entered. Earlier intervals missed by the scheduler are not sent late.
+ */
+export function getDueReminderDay(daysLeft: number, reminderDays: number[]) {
+  const due = reminderDays.filter((day) => daysLeft <= day);
+  return due.length > 0 ? Math.min(...due) : null;
+}
@@ -0,0 +1,129 @@
+import Quotation, { IQuotation, IQuotationFollowUp } from "@/models/Quotation";
+import GeneralInfo from "@/models/GeneralInfo";
+import AuditLog from "@/models/AuditLog";
+import { sendNotification } from "@/lib/notifications";
+import { getQuotationPortalUrl } from "@/lib/quotation-acceptance";
+import {
+  DEFAULT_REMINDER_DAYS,
+  getDaysUntilExpiry,
+  getDueReminderDay,
+  getQuotationExpiry,
+  normalizeReminderDays,
+} from "@/lib/quotation-expiry";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Audit entries written by the scheduler rather than a signed-in user
+const SYSTEM_USER = "system";
+
+export interface QuotationFollowUpSummary {
+  backfilled: number;
+  expired: string[];
+  reminded: string[];
+  failed: { quotationNumber: string; error: string }[];
+}
+
+/**
+ * Expires pending quotations whose validity has passed and sends the WhatsApp
+ * follow-ups that are due. Safe to run repeatedly: each reminder is recorded on
+ * the quotation and never sent twice for the same expiry.
+ */
+export async function runQuotationFollowUps(now = new Date()): Promise<QuotationFollowUpSummary> {
+  const summary: QuotationFollowUpSummary = { backfilled: 0, expired: [], reminded: [], failed: [] };
+
+  // Quotations saved with a validity before expiry dates were stored
+  const missingExpiry = await Quotation.find({
+    isAccepted: "pending",
+    validityDays: { $gte: 1 },
+    expiresAt: { $exists: false },
+  }).select("quotationNumber date validityDays");
+  for (const quotation of missingExpiry) {
+    const expiresAt = getQuotationExpiry(quotation.date, quotation.validityDays);
+    if (!expiresAt) continue;
+    await Quotation.updateOne({ _id: quotation._id }, { $set: { expiresAt } });
+    summary.backfilled++;
+  }
+
+  const dueForExpiry: IQuotation[] = await Quotation.find({
+    isAccepted: "pending",
+    expiresAt: { $lte: now },
+  });
+  for (const quotation of dueForExpiry) {
+    const followUp: IQuotationFollowUp = {
+      kind: "expired",
+      expiresAt: quotation.expiresAt!,
+      delivered: false,
+      createdAt: now,
+    };
+    // Guarded on status so a client response that lands mid-run is not overwritten
+    const result = await Quotation.updateOne(
+      { _id: quotation._id, isAccepted: "pending" },
+      { $set: { isAccepted: "expired", lastUpdated: now }, $push: { followUps: followUp } }
+    );
+    if (result.modifiedCount === 0) continue;
+    await AuditLog.create({
+      action: "expire_quotation",
+      userId: SYSTEM_USER,
+      details: { quotationNumber: quotation.quotationNumber, expiresAt: quotation.expiresAt },
+    });
+    summary.expired.push(quotation.quotationNumber);
+  }
+
+  const generalInfo = await GeneralInfo.findOne().select("quotationReminderDays");
+  const reminderDays = normalizeReminderDays(generalInfo?.quotationReminderDays ?? DEFAULT_REMINDER_DAYS);
+  if (reminderDays.length === 0) return summary;
+
+  const expiringSoon: IQuotation[] = await Quotation.find({
+    isAccepted: "pending",
+    expiresAt: { $gt: now, $lte: new Date(now.getTime() + reminderDays[0] * DAY_MS) },
+  });
+  for (const quotation of expiringSoon) {
+    const expiresAt = quotation.expiresAt!;
+    const daysBefore = getDueReminderDay(getDaysUntilExpiry(expiresAt, now), reminderDays);
+    if (daysBefore === null) continue;
+    const alreadySent = (quotation.followUps || []).some(
+      (entry) =>
+        entry.kind === "reminder" &&
+        entry.daysBefore === daysBefore &&
+        new Date(entry.expiresAt).getTime() === expiresAt.getTime()
+    );
+    if (alreadySent) continue;
+
+    const expiryDate = expiresAt.toLocaleDateString("en-IN");
+    const quotationUrl = getQuotationPortalUrl(quotation.quotationNumber, quotation.accessToken);
+    let delivered = false;
+    let error: string | undefined;
+    try {
+      delivered = await sendNotification({
+        to: quotation.clientNumber,
+        message: `Dear ${quotation.clientName}, a reminder that Quotation #${quotation.quotationNumber} is valid until ${expiryDate}. You can review and accept it here: ${quotationUrl}`,
+        action: "quotation_reminder",
+        // One client may have several quotations expiring on the same run
+        debounceSeconds: 1,
+        templateVariables: {
+          "1": quotation.clientName, // Dear {{1}}
+          "2": quotation.quotationNumber, // Quotation #{{2}}
+          "3": expiryDate, // valid until {{3}}
+          "4": quotationUrl, // review here: {{4}}
+        },
+      });
+    } catch (sendError: unknown) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+      summary.failed.push({ quotationNumber: quotation.quotationNumber, error });
+    }
+
+    // Failed sends are recorded too, so the admin sees the attempt and the job does not retry every run
+    const followUp: IQuotationFollowUp = {
+      kind: "reminder",
+      daysBefore,
+      expiresAt,
+      delivered,
+      error,
+      createdAt: now,
+    };
+    await Quotation.updateOne({ _id: quotation._id }, { $push: { followUps: followUp } });
+    if (delivered) summary.reminded.push(quotation.quotationNumber);
+  }
+
+  return summary;
+}
@@ -0,0 +1,151 @@
+// Quotation revision snapshots and the diff between two of them
+
+import type { TaxBreakdown } from "@/lib/gst";
+
+export interface RevisionItem {
+  description: string;
+  area?: number | null;
+  rate: number;
+  total?: number | null;
+  note?: string;
+  hsnSac?: string;
+}
+
+export interface QuotationRevisionSnapshot {
+  label: string;
+  items: RevisionItem[];
+  subtotal?: number;
+  discount?: number;
+  grandTotal?: number;
+  tax?: TaxBreakdown;
+  terms: string[];
+  note?: string;
+  createdAt: Date | string;
+  createdBy?: string;
+}
+
+type RevisionSource = Omit<QuotationRevisionSnapshot, "label" | "createdAt" | "createdBy">;
+
+export type ItemDiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface ItemDiff {
+  status: ItemDiffStatus;
+  description: string;
+  before?: RevisionItem;
+  after?: RevisionItem;
+  delta: number;
+}
+
+export interface RevisionDiff {
+  items: ItemDiff[];
+  subtotalDelta: number;
+  discountDelta: number;
+  taxDelta: number;
+  grandTotalDelta: number;
+  termsAdded: string[];
+  termsRemoved: string[];
+  noteChanged: boolean;
+}
+
+// Fields whose change makes a new revision
+export const REVISIONED_FIELDS = ["items", "subtotal", "discount", "grandTotal", "tax", "terms", "note"] as const;
+
+/** Rev A, B, ... Z, AA, AB, ... */
+export function getRevisionLabel(index: number): string {
+  let label = "";
+  let value = index;
+  do {
+    label = String.fromCharCode(65 + (value % 26)) + label;
+    value = Math.floor(value / 26) - 1;
+  } while (value >= 0);
+  return label;
+}
+
+export function buildRevisionSnapshot(
+  source: RevisionSource,
+  index: number,
+  createdBy?: string
+): QuotationRevisionSnapshot {
+  return {
+    label: getRevisionLabel(index),
+    items: (source.items || []).map((item) => ({
+      description: item.description,
+      area: item.area ?? null,
+      rate: item.rate,
+      total: item.total ?? null,
+      note: item.note,
+      hsnSac: item.hsnSac,
+    })),
+    subtotal: source.subtotal,
+    discount: source.discount,
+    grandTotal: source.grandTotal,
+    tax: source.tax,
+    terms: [...(source.terms || [])],
+    note: source.note,
+    createdAt: new Date(),
+    createdBy,
+  };
+}
+
+export function getItemAmount(item: RevisionItem) {
+  if (typeof item.total === "number") return item.total;
+  return item.area ? item.area * item.rate : item.rate;
+}
+
+const itemKey = (item: RevisionItem) => item.description.trim().toLowerCase();
+
+function isSameItem(a: RevisionItem, b: RevisionItem) {
+  return (
+    (a.area ?? null) === (b.area ?? null) &&
+    a.rate === b.rate &&
+    getItemAmount(a) === getItemAmount(b) &&
+    (a.note ?? "") === (b.note ?? "") &&
+    (a.hsnSac ?? "") === (b.hsnSac ?? "")
+  );
+}
+
+/**
+ * Line-by-line comparison of two revisions. Items are matched on their
+ * description, so a renamed line shows up as one removal plus one addition.
+ */
+export function diffRevisions(from: QuotationRevisionSnapshot, to: QuotationRevisionSnapshot): RevisionDiff {
+  const remaining = new Map<string, RevisionItem[]>();
+  for (const item of from.items) {
+    const key = itemKey(item);
+    remaining.set(key, [...(remaining.get(key) || []), item]);
+  }
+
+  const items: ItemDiff[] = [];
+  for (const after of to.items) {
+    const matches = remaining.get(itemKey(after));
+    const before = matches?.shift();
+    if (!before) {
+      items.push({ status: "added", description: after.description, after, delta: getItemAmount(after) });
+      continue;
+    }
+    items.push({
+      status: isSameItem(before, after) ? "unchanged" : "changed",
+      description: after.description,
+      before,
+      after,
+      delta: getItemAmount(after) - getItemAmount(before),
+    });
+  }
+
+  for (const leftovers of remaining.values()) {
+    for (const before of leftovers) {
+      items.push({ status: "removed", description: before.description, before, delta: -getItemAmount(before) });
+    }
+  }
+
+  return {
+    items,
+    subtotalDelta: (to.subtotal || 0) - (from.subtotal || 0),
+    discountDelta: (to.discount || 0) - (from.discount || 0),
+    taxDelta: (to.tax?.totalTax || 0) - (from.tax?.totalTax || 0),
+    grandTotalDelta: (to.grandTotal || 0) - (from.grandTotal || 0),
+    termsAdded: to.terms.filter((term) => !from.terms.includes(term)),
+    termsRemoved: from.terms.filter((term) => !to.terms.includes(term)),
+    noteChanged: (from.note || "") !== (to.note || ""),
+  };
+}
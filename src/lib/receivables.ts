@@ -0,0 +1,56 @@
+// Invoice due dates, receivables ageing and the overdue reminder schedule
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days after the invoice date that payment falls due when settings don't say otherwise. */
+export const DEFAULT_PAYMENT_TERMS_DAYS = 15;
+
+/** Days past the due date that reminders go out, each one firmer than the last. */
+export const DEFAULT_PAYMENT_REMINDER_DAYS = [1, 7, 15, 30];
+
+export const AGEING_BUCKETS = ["current", "0-30", "31-60", "61-90", "90+"] as const;
+export type AgeingBucket = (typeof AGEING_BUCKETS)[number];
+
+export const AGEING_BUCKET_LABELS: Record<AgeingBucket, string> = {
+  current: "Not yet due",
+  "0-30": "0–30 days",
+  "31-60": "31–60 days",
+  "61-90": "61–90 days",
+  "90+": "90+ days",
+};
+
+export function getInvoiceDueDate(date: Date | string, paymentTermsDays: number) {
+  return new Date(new Date(date).getTime() + Math.max(0, paymentTermsDays) * DAY_MS);
+}
+
+/** Whole days since the due date; negative while the invoice is not yet due. */
+export function getDaysOverdue(dueDate: Date | string, now = new Date()) {
+  return Math.floor((now.getTime() - new Date(dueDate).getTime()) / DAY_MS);
+}
+
+export function getAgeingBucket(daysOverdue: number): AgeingBucket {
+  if (daysOverdue < 0) return "current";
+  if (daysOverdue <= 30) return "0-30";
+  if (daysOverdue <= 60) return "31-60";
+  if (daysOverdue <= 90) return "61-90";
+  return "90+";
+}
+
+export function emptyAgeingTotals(): Record<AgeingBucket, number> {
+  return { current: 0, "0-30": 0, "31-60": 0, "61-90": 0, "90+": 0 };
+}
+
+/** Unique positive day counts, smallest first. */
+export function normalizePaymentReminderDays(days?: number[] | null) {
+  const valid = (days || []).filter((day) => Number.isInteger(day) && day > 0);
+  return Array.from(new Set(valid)).sort((a, b) => a - b);
+}
+
+/**
+ * The reminder step that is due now: the latest one the invoice has passed.
+ * Earlier steps missed by the scheduler are not sent late.
+ */
+export function getDuePaymentReminderDay(daysOverdue: number, reminderDays: number[]) {
+  const due = reminderDays.filter((day) => daysOverdue >= day);
+  return due.length > 0 ? Math.max(...due) : null;
+}
@@ -181,6 +181,12 @@ export function generateSecureToken(length: number = 32): string {
   return randomBytes(length).toString("hex");
 }
 
+// Constant-time check of a link's access token against the stored one
+export function isValidAccessToken(expected: string | undefined, provided: string): boolean {
+  if (!expected || !provided || expected.length !== provided.length) return false;
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(provided));
+}
+
 // Password hashing (if needed for future features)
 export async function hashPassword(password: string): Promise<string> {
   const bcrypt = await import("bcryptjs");
@@ -264,5 +270,5 @@ export function logSecurityEvent(
 }
 
 // Import required modules
-import { randomBytes } from "crypto";
+import { randomBytes, timingSafeEqual } from "crypto";
 import sanitizeHtml from "sanitize-html";
\ No newline at end of file
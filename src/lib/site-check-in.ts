@@ -0,0 +1,74 @@
+// Worker self check-in at a project's site: the geofence, and the attendance units
+// suggested from the time on site
+
+export const CHECK_IN_STATUSES = ["checked_in", "pending", "approved", "rejected"] as const;
+
+export type CheckInStatus = (typeof CHECK_IN_STATUSES)[number];
+
+export const CHECK_IN_STATUS_LABELS: Record<CheckInStatus, string> = {
+  checked_in: "On Site",
+  pending: "Awaiting Approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+// How close to the site a worker has to be, unless the project sets its own radius
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 150;
+export const MIN_GEOFENCE_RADIUS_METERS = 25;
+export const MAX_GEOFENCE_RADIUS_METERS = 2000;
+
+// Hours on site up to which a day counts as half, and from which it counts as overtime
+export const HALF_DAY_MAX_HOURS = 5;
+export const OVERTIME_MIN_HOURS = 10;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface SiteLocation extends GeoPoint {
+  radiusMeters?: number;
+}
+
+export function isValidGeoPoint(point: Partial<GeoPoint>): point is GeoPoint {
+  return (
+    typeof point.latitude === "number" &&
+    typeof point.longitude === "number" &&
+    Number.isFinite(point.latitude) &&
+    Number.isFinite(point.longitude) &&
+    Math.abs(point.latitude) <= 90 &&
+    Math.abs(point.longitude) <= 180
+  );
+}
+
+/** Great-circle distance in metres. */
+export function getDistanceMeters(from: GeoPoint, to: GeoPoint) {
+  const earthRadius = 6371000;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return Math.round(2 * earthRadius * Math.asin(Math.sqrt(a)));
+}
+
+export function getGeofenceRadius(site: SiteLocation) {
+  return site.radiusMeters || DEFAULT_GEOFENCE_RADIUS_METERS;
+}
+
+export function isWithinGeofence(site: SiteLocation, point: GeoPoint) {
+  return getDistanceMeters(site, point) <= getGeofenceRadius(site);
+}
+
+export function getHoursOnSite(checkInAt: string | Date, checkOutAt: string | Date) {
+  return Math.max(0, new Date(checkOutAt).getTime() - new Date(checkInAt).getTime()) / 3600000;
+}
+
+/** Half day, full day or overtime from the time between check-in and check-out. */
+export function suggestAttendanceUnits(checkInAt: string | Date, checkOutAt: string | Date) {
+  const hours = getHoursOnSite(checkInAt, checkOutAt);
+  if (hours <= HALF_DAY_MAX_HOURS) return 0.5;
+  if (hours < OVERTIME_MIN_HOURS) return 1;
+  return 1.5;
+}
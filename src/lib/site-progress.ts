@@ -0,0 +1,73 @@
+// Daily site progress log: what the crew got done on a project each day
+
+export const PROGRESS_STAGES = [
+  "site_preparation",
+  "surface_repair",
+  "primer",
+  "first_coat",
+  "final_coat",
+  "touch_up",
+  "cleanup",
+  "other",
+] as const;
+
+export type ProgressStage = (typeof PROGRESS_STAGES)[number];
+
+export const PROGRESS_STAGE_LABELS: Record<ProgressStage, string> = {
+  site_preparation: "Site Preparation",
+  surface_repair: "Putty & Surface Repair",
+  primer: "Primer",
+  first_coat: "First Coat",
+  final_coat: "Final Coat",
+  touch_up: "Touch-up",
+  cleanup: "Cleanup",
+  other: "Other",
+};
+
+// Keeps a day's entry to a handful of representative shots
+export const MAX_PROGRESS_PHOTOS = 10;
+
+export interface ProgressPhoto {
+  url: string;
+  publicId: string;
+  caption?: string;
+}
+
+/** Attendance marked for the project on the entry's day. */
+export interface ProgressWorkerPresent {
+  workerId: string;
+  name: string;
+  units: number;
+}
+
+export interface ProgressEntry {
+  _id: string;
+  date: string | Date;
+  stage: ProgressStage;
+  notes?: string;
+  photos: ProgressPhoto[];
+  workersPresent: ProgressWorkerPresent[];
+  createdBy?: string;
+  createdAt?: string | Date;
+}
+
+/** What the client sees: worker names and who wrote the entry stay internal. */
+export interface ClientProgressEntry {
+  _id: string;
+  date: string | Date;
+  stage: ProgressStage;
+  notes?: string;
+  photos: ProgressPhoto[];
+  crewSize: number;
+}
+
+export function toClientProgressEntry(entry: ProgressEntry): ClientProgressEntry {
+  return {
+    _id: entry._id,
+    date: entry.date,
+    stage: entry.stage,
+    notes: entry.notes,
+    photos: entry.photos,
+    crewSize: entry.workersPresent.length,
+  };
+}
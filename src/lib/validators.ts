@@ -1,4 +1,14 @@
 import { z } from "zod";
+import { CATALOG_UNITS } from "@/lib/catalog";
+import { MEASURED_SURFACES } from "@/lib/measurements";
+import { services } from "@/app/lib/servicesData";
+import { normalizePhone } from "@/lib/clients";
+import { PAYMENT_METHODS } from "@/lib/payments";
+import { CREDIT_NOTE_TYPES } from "@/lib/credit-notes";
+import { PROJECT_STATUSES } from "@/lib/project-status";
+import { MAX_PROGRESS_PHOTOS, PROGRESS_STAGES } from "@/lib/site-progress";
+import { MAX_GEOFENCE_RADIUS_METERS, MIN_GEOFENCE_RADIUS_METERS } from "@/lib/site-check-in";
+import { AUTO_AWARD_RULES, LOYALTY_ENTRY_TYPES, REVERSAL_CATEGORY } from "@/lib/loyalty-policy";
 
 // Common validation schemas
 const phoneNumberSchema = z
@@ -27,11 +37,41 @@ const addressSchema = z
   .min(10, "Address must be at least 10 characters")
   .max(500, "Address must be less than 500 characters");
 
+const objectIdSchema = z.string().regex(/^[a-f\d]{24}$/i, "Invalid ID");
+
+// Any stored phone format; compared and saved in normalised form
+const clientPhoneSchema = z
+  .string()
+  .transform(normalizePhone)
+  .refine((val) => val.length >= 7 && val.length <= 15, "Phone number must be between 7 and 15 digits");
+
 const descriptionSchema = z
   .string()
   .min(1, "Description is required")
   .max(1000, "Description must be less than 1000 characters");
 
+// Measurement sheet schemas (dimensions in feet)
+const dimensionSchema = z.number().min(0, "Dimensions must be non-negative").max(10000, "Dimension is too large");
+
+const measurementRoomSchema = z.object({
+  id: z.string().min(1).max(50),
+  name: z.string().min(1, "Room name is required").max(100, "Room name must be less than 100 characters"),
+  length: dimensionSchema,
+  width: dimensionSchema,
+  height: dimensionSchema,
+  deductions: z.array(z.object({
+    label: z.string().max(100).default(""),
+    width: dimensionSchema,
+    height: dimensionSchema,
+    count: z.number().int().min(0).max(100).default(1),
+  })).default([]),
+});
+
+const itemMeasurementSchema = z.object({
+  surface: z.enum(MEASURED_SURFACES),
+  roomIds: z.array(z.string()).default([]),
+});
+
 // Item schema for quotations/projects
 const itemSchema = z.object({
   description: descriptionSchema,
@@ -39,6 +79,21 @@ const itemSchema = z.object({
   rate: z.number().min(0, "Rate must be non-negative"),
   total: z.number().min(0, "Total must be non-negative").nullable().optional(),
   note: z.string().max(500, "Note must be less than 500 characters").optional(),
+  hsnSac: z.string().regex(/^\d{4,8}$/, "HSN/SAC code must be 4 to 8 digits").or(z.literal("")).optional(),
+  measurement: itemMeasurementSchema.nullable().optional(),
+});
+
+// GST settings submitted with a quotation/project; amounts are computed server-side
+const gstNumberSchema = z
+  .string()
+  .regex(/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/, "Invalid GST number format");
+
+const taxSchema = z.object({
+  enabled: z.boolean().default(false),
+  gstPercent: z.number().min(0).max(100, "GST percent must be between 0 and 100").optional(),
+  rateType: z.enum(["exclusive", "inclusive"]).default("exclusive"),
+  placeOfSupply: z.string().regex(/^\d{2}$/, "Place of supply must be a 2-digit state code").or(z.literal("")).optional(),
+  clientGstNumber: gstNumberSchema.or(z.literal("")).optional(),
 });
 
 // Extra work schema
@@ -56,12 +111,215 @@ const siteImageSchema = z.object({
 });
 
 // Payment history schema
-const paymentHistorySchema = z.object({
+const paymentFieldsSchema = z.object({
   amount: z.number().positive("Payment amount must be positive"),
   date: z.date().or(z.string().refine((val) => !isNaN(Date.parse(val)), "Invalid date format")),
+  method: z.enum(PAYMENT_METHODS).optional(),
+  chequeNumber: z.string().trim().max(30, "Cheque number must be less than 30 characters").optional(),
+  chequeBank: z.string().trim().max(100, "Bank name must be less than 100 characters").optional(),
+  referenceId: z.string().trim().max(100, "Reference ID must be less than 100 characters").optional(),
+  receivedBy: z.string().trim().max(100, "Received by must be less than 100 characters").optional(),
   note: z.string().max(200, "Note must be less than 200 characters").optional(),
 });
 
+const paymentHistorySchema = paymentFieldsSchema
+  .extend({
+    amount: z.number().refine((val) => val !== 0, "Payment amount cannot be zero"),
+    receiptNumber: z.string().optional(),
+    isReversal: z.boolean().optional(),
+    reversalOf: z.string().optional(),
+    reason: z.string().optional(),
+  })
+  .refine((payment) => (payment.isReversal ? payment.amount < 0 : payment.amount > 0), {
+    message: "Only reversal entries can have a negative amount",
+    path: ["amount"],
+  });
+
+const paymentReasonSchema = z
+  .string()
+  .trim()
+  .min(1, "A reason is required")
+  .max(200, "Reason must be less than 200 characters");
+
+// A new payment being recorded; the receipt number is assigned by the server
+export const recordPaymentSchema = paymentFieldsSchema
+  .extend({ method: z.enum(PAYMENT_METHODS).default("cash") })
+  .refine((payment) => payment.method !== "cheque" || !!payment.chequeNumber, {
+    message: "Cheque number is required for cheque payments",
+    path: ["chequeNumber"],
+  });
+
+// Correction to a recorded payment; only the fields being changed are sent
+export const updatePaymentSchema = paymentFieldsSchema.partial().extend({
+  reason: paymentReasonSchema,
+});
+
+export const reversePaymentSchema = z.object({
+  reason: paymentReasonSchema,
+});
+
+// Payment schedule milestone: a percentage or a fixed amount, due on a date or on a condition
+const paymentMilestoneSchema = z
+  .object({
+    _id: z.string().optional(),
+    label: z.string().trim().min(1, "Milestone name is required").max(100, "Milestone name must be less than 100 characters"),
+    percent: z.number().positive("Percentage must be positive").max(100, "Percentage cannot exceed 100").optional(),
+    amount: z.number().positive("Amount must be positive").optional(),
+    dueDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Invalid date format").optional(),
+    condition: z.string().trim().max(200, "Condition must be less than 200 characters").optional(),
+  })
+  .refine((milestone) => (milestone.percent === undefined) !== (milestone.amount === undefined), {
+    message: "Give either a percentage or a fixed amount",
+    path: ["amount"],
+  })
+  .refine((milestone) => !!milestone.dueDate || !!milestone.condition, {
+    message: "Give a due date or a condition",
+    path: ["dueDate"],
+  });
+
+export const paymentScheduleSchema = z.object({
+  milestones: z.array(paymentMilestoneSchema).max(12, "A schedule can have at most 12 milestones"),
+});
+
+// Manual move of a project to another work status
+export const changeProjectStatusSchema = z.object({
+  status: z.enum(PROJECT_STATUSES),
+  reason: z.string().trim().max(500, "Reason must be less than 500 characters").optional(),
+});
+
+// Planned start and finish on site; null clears a date
+export const projectPlanSchema = z
+  .object({
+    plannedStartDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Invalid date format").nullable(),
+    plannedEndDate: z.string().refine((val) => !isNaN(Date.parse(val)), "Invalid date format").nullable(),
+  })
+  .refine(
+    (plan) => !plan.plannedStartDate || !plan.plannedEndDate || Date.parse(plan.plannedEndDate) >= Date.parse(plan.plannedStartDate),
+    { message: "Planned end must be on or after the planned start", path: ["plannedEndDate"] }
+  );
+
+// Pinned site location for worker check-in; null unpins it
+export const siteLocationSchema = z
+  .object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    radiusMeters: z
+      .number()
+      .int()
+      .min(MIN_GEOFENCE_RADIUS_METERS, `Radius must be at least ${MIN_GEOFENCE_RADIUS_METERS} m`)
+      .max(MAX_GEOFENCE_RADIUS_METERS, `Radius must be at most ${MAX_GEOFENCE_RADIUS_METERS} m`)
+      .optional(),
+  })
+  .nullable();
+
+// Worker loyalty policy: category catalogue, earn caps and point value over time
+export const loyaltyPolicySchema = z
+  .object({
+    categories: z
+      .array(
+        z.object({
+          key: z
+            .string()
+            .regex(/^[a-z0-9_]+$/, "Category keys use lowercase letters, digits and underscores")
+            .max(50, "Category key must be less than 50 characters")
+            .refine((val) => val !== REVERSAL_CATEGORY, "\"reversal\" is reserved for reversals"),
+          label: z.string().trim().min(1, "Category label is required").max(60, "Category label must be less than 60 characters"),
+          entryType: z.enum(LOYALTY_ENTRY_TYPES),
+          defaultPoints: z.number().int("Default points must be a whole number").min(1, "Default points must be at least 1").max(1000),
+          active: z.boolean(),
+        })
+      )
+      .min(1, "Add at least one category")
+      .max(100, "Add at most 100 categories"),
+    dailyEarnCap: z.number().int("Daily cap must be a whole number").min(1, "Daily cap must be at least 1").max(10000),
+    weeklyEarnCap: z.number().int("Weekly cap must be a whole number").min(1, "Weekly cap must be at least 1").max(70000).nullable(),
+    pointRates: z
+      .array(
+        z.object({
+          rupeesPerPoint: z.number().min(0, "Point value cannot be negative").max(1000),
+          effectiveFrom: z.string().refine((val) => !isNaN(Date.parse(val)), "Invalid date format"),
+        })
+      )
+      .min(1, "Add at least one point value"),
+    autoAwards: z
+      .array(
+        z.object({
+          rule: z.enum(AUTO_AWARD_RULES),
+          enabled: z.boolean(),
+          category: z.string().min(1, "Pick a category for each automatic award"),
+          points: z.number().int("Award points must be a whole number").min(1, "Award points must be at least 1").max(1000),
+        })
+      )
+      .optional(),
+  })
+  .refine((policy) => new Set(policy.categories.map((category) => category.key)).size === policy.categories.length, {
+    message: "Category keys must be unique",
+    path: ["categories"],
+  })
+  .refine(
+    (policy) =>
+      new Set(policy.pointRates.map((rate) => new Date(rate.effectiveFrom).toDateString())).size === policy.pointRates.length,
+    { message: "Only one point value can start on a given date", path: ["pointRates"] }
+  )
+  .refine((policy) => !policy.weeklyEarnCap || policy.weeklyEarnCap >= policy.dailyEarnCap, {
+    message: "Weekly cap cannot be lower than the daily cap",
+    path: ["weeklyEarnCap"],
+  })
+  .refine(
+    (policy) =>
+      (policy.autoAwards || []).every(
+        (setting) =>
+          !setting.enabled ||
+          policy.categories.some((category) => category.key === setting.category && category.active)
+      ),
+    { message: "Automatic awards must use an active category", path: ["autoAwards"] }
+  );
+
+// A day's entry in the site progress log
+export const progressEntrySchema = z.object({
+  date: z.string().refine((val) => !isNaN(Date.parse(val)), "Invalid date format"),
+  stage: z.enum(PROGRESS_STAGES),
+  notes: z.string().trim().max(2000, "Notes must be less than 2000 characters").optional(),
+  photos: z
+    .array(
+      z.object({
+        url: z.string().url("Invalid image URL"),
+        publicId: z.string().min(1, "Public ID is required"),
+        caption: z.string().trim().max(200, "Caption must be less than 200 characters").optional(),
+      })
+    )
+    .max(MAX_PROGRESS_PHOTOS, `At most ${MAX_PROGRESS_PHOTOS} photos per entry`)
+    .default([]),
+});
+
+// Credit note against an invoice; a refund pays part or all of the credit back to the client
+export const createCreditNoteSchema = z
+  .object({
+    type: z.enum(CREDIT_NOTE_TYPES),
+    reason: z.string().trim().min(1, "A reason is required").max(500, "Reason must be less than 500 characters"),
+    date: z.string().refine((val) => !isNaN(Date.parse(val)), "Invalid date format").optional(),
+    items: z
+      .array(
+        z.object({
+          description: z.string().trim().min(1, "Description is required").max(200, "Description must be less than 200 characters"),
+          amount: z.number().positive("Amount must be positive"),
+          note: z.string().max(200, "Note must be less than 200 characters").optional(),
+        })
+      )
+      .min(1, "Add at least one line item"),
+    refund: z
+      .object({
+        amount: z.number().positive("Refund amount must be positive"),
+        method: z.enum(PAYMENT_METHODS),
+        referenceId: z.string().trim().max(100, "Reference ID must be less than 100 characters").optional(),
+      })
+      .optional(),
+  })
+  .refine((creditNote) => creditNote.type !== "refund" || !!creditNote.refund, {
+    message: "Refund details are required for a refund credit note",
+    path: ["refund"],
+  });
+
 // Contact form schema
 export const contactFormSchema = z.object({
   name: nameSchema,
@@ -82,6 +340,12 @@ export const reviewSchema = z.object({
   }),
 });
 
+const validityDaysSchema = z
+  .number()
+  .int("Validity must be a whole number of days")
+  .min(1, "Validity must be at least 1 day")
+  .max(365, "Validity cannot exceed 365 days");
+
 // Quotation schemas
 export const createQuotationSchema = z.object({
   clientName: nameSchema,
@@ -96,9 +360,13 @@ export const createQuotationSchema = z.object({
   subtotal: z.number().min(0).default(0),
   discount: z.number().min(0).default(0),
   grandTotal: z.number().min(0).default(0),
+  tax: taxSchema.optional(),
   terms: z.array(z.string().max(1000, "Term must be less than 1000 characters")).optional(),
   note: z.string().max(500, "Note must be less than 500 characters").optional(),
   siteImages: z.array(siteImageSchema).optional(),
+  measurements: z.array(measurementRoomSchema).optional(),
+  validityDays: validityDaysSchema.optional(),
+  clientId: objectIdSchema.optional(),
 });
 
 // Schema for the frontend form (allows files and string dates)
@@ -150,17 +418,16 @@ export const createProjectSchema = createQuotationSchema.extend({
   extraWork: z.array(extraWorkSchema).default([]),
   paymentHistory: z.array(paymentHistorySchema).default([]),
   amountDue: z.number().min(0).optional(),
-  status: z.enum(["ongoing", "completed"]).default("ongoing"),
+  status: z.enum(PROJECT_STATUSES).default("scheduled"),
 });
 
-export const updateProjectSchema = createProjectSchema.partial().extend({
-  newPayment: paymentHistorySchema.optional(),
-});
+export const updateProjectSchema = createProjectSchema.partial();
 
 // Invoice schemas
 export const createInvoiceSchema = createProjectSchema.extend({
   projectId: z.string().min(1, "Project ID is required"),
   accessToken: z.string().min(1, "Access token is required"),
+  paymentTermsDays: z.number().int("Payment terms must be a whole number of days").min(0).max(365).optional(),
 });
 
 // Schema for the frontend project form
@@ -179,6 +446,55 @@ export const projectFormSchema = createProjectSchema.extend({
 
 export const updateInvoiceSchema = createInvoiceSchema.partial();
 
+const serviceCategorySchema = z
+  .string()
+  .refine((value) => services.some((service) => service.slug === value), "Unknown service category");
+
+// Rate card entry
+export const catalogItemSchema = z.object({
+  name: descriptionSchema,
+  unit: z.enum(CATALOG_UNITS),
+  defaultRate: z.number().min(0, "Rate must be non-negative"),
+  defaultNote: z.string().max(500, "Note must be less than 500 characters").optional(),
+  serviceCategory: serviceCategorySchema,
+  hsnSac: z.string().regex(/^\d{4,8}$/, "HSN/SAC code must be 4 to 8 digits").or(z.literal("")).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateCatalogItemSchema = catalogItemSchema.partial();
+
+// Quotation template: reusable items, terms and note for a service
+export const quotationTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100, "Name must be less than 100 characters"),
+  serviceCategory: serviceCategorySchema,
+  items: z.array(itemSchema.omit({ total: true, measurement: true })).min(1, "At least one item is required"),
+  terms: z.array(z.string().max(1000, "Term must be less than 1000 characters")).default([]),
+  note: z.string().max(500, "Note must be less than 500 characters").optional(),
+  validityDays: validityDaysSchema.optional(),
+});
+
+export const updateQuotationTemplateSchema = quotationTemplateSchema.partial();
+
+// Client directory
+export const clientSchema = z.object({
+  name: nameSchema,
+  phone: clientPhoneSchema,
+  email: emailSchema.or(z.literal("")).optional(),
+  gstNumber: gstNumberSchema.or(z.literal("")).optional(),
+  sites: z.array(z.object({
+    label: z.string().trim().min(1, "Site label is required").max(100, "Label must be less than 100 characters"),
+    address: addressSchema,
+  })).default([]),
+  contacts: z.array(z.object({
+    name: z.string().trim().min(1, "Contact name is required").max(100, "Name must be less than 100 characters"),
+    phone: clientPhoneSchema,
+    role: z.string().max(100, "Role must be less than 100 characters").optional(),
+  })).default([]),
+  notes: z.string().max(1000, "Notes must be less than 1000 characters").optional(),
+});
+
+export const updateClientSchema = clientSchema.partial();
+
 // Portfolio schema
 export const portfolioSchema = z.object({
   title: z.string().min(1, "Title is required").max(100, "Title must be less than 100 characters"),
@@ -192,9 +508,23 @@ export const generalInfoSchema = z.object({
   mobileNumber1: phoneNumberSchema,
   mobileNumber2: phoneNumberSchema.optional(),
   logoUrl: z.string().url("Invalid logo URL").optional(),
-  gstNumber: z.string().regex(/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[1-9A-Z]{1}Z[0-9A-Z]{1}$/, "Invalid GST number format").or(z.literal("")).optional(),
+  gstNumber: gstNumberSchema.or(z.literal("")).optional(),
   gstPercent: z.number().min(0).max(100, "GST percent must be between 0 and 100").optional(),
   termsAndConditions: z.array(z.string().max(1000, "Term must be less than 1000 characters")).optional(),
+  quotationReminderDays: z
+    .array(z.number().int("Reminder days must be whole numbers").min(1, "Reminder days must be at least 1").max(365, "Reminder days must be at most 365"))
+    .max(5, "Set at most 5 reminders")
+    .optional(),
+  paymentTermsDays: z
+    .number()
+    .int("Payment terms must be a whole number of days")
+    .min(0, "Payment terms cannot be negative")
+    .max(365, "Payment terms cannot exceed 365 days")
+    .optional(),
+  paymentReminderDays: z
+    .array(z.number().int("Reminder days must be whole numbers").min(1, "Reminder days must be at least 1").max(365, "Reminder days must be at most 365"))
+    .max(6, "Set at most 6 reminders")
+    .optional(),
 });
 
 export const updateGeneralInfoSchema = generalInfoSchema.partial();
@@ -286,4 +616,5 @@ export type CreateInvoiceData = z.infer<typeof createInvoiceSchema>;
 export type UpdateInvoiceData = z.infer<typeof updateInvoiceSchema>;
 export type PortfolioData = z.infer<typeof portfolioSchema>;
 export type GeneralInfoData = z.infer<typeof generalInfoSchema>;
+export type TaxSettingsData = z.infer<typeof taxSchema>;
 export type BlogPostData = z.infer<typeof blogPostSchema>;
\ No newline at end of file
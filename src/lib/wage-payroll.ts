@@ -0,0 +1,267 @@
+import type { Types } from "mongoose";
+import WorkerAttendance from "@/models/WorkerAttendance";
+import WorkerAdvance from "@/models/WorkerAdvance";
+import WorkerWagePayout, { type IWorkerWagePayout } from "@/models/WorkerWagePayout";
+import type { IWorker, IWorkerWageRate } from "@/models/Worker";
+
+export type WagePeriod = { year: number; month: number };
+
+type WageRateLike = {
+  dailyWage: number;
+  effectiveFrom: Date | string;
+  projectId?: unknown;
+};
+
+type WorkerWageSource = {
+  dailyWage?: number;
+  wageRates?: WageRateLike[];
+};
+
+type AttendanceForWage = {
+  date: Date | string;
+  units: number;
+  projectId?: unknown;
+};
+
+// Accepts a raw ObjectId, a string or a populated document
+function toRefId(value: unknown): string {
+  if (!value) return "";
+  if (typeof value === "object" && "_id" in value) return String((value as { _id: unknown })._id);
+  return String(value);
+}
+
+function latestEffectiveRate(rates: WageRateLike[], time: number) {
+  return rates
+    .filter((rate) => new Date(rate.effectiveFrom).getTime() <= time)
+    .sort((a, b) => new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime())[0];
+}
+
+/**
+ * Daily wage in effect for a worker on `date`. A project override wins over the
+ * general rate; attendance dated before the first recorded rate uses that first
+ * rate, and workers without any rate history fall back to `dailyWage`.
+ */
+export function resolveDailyWage(worker: WorkerWageSource, date: Date | string, projectId?: unknown): number {
+  const rates = worker.wageRates || [];
+  const time = new Date(date).getTime();
+
+  const projectKey = toRefId(projectId);
+  if (projectKey) {
+    const override = latestEffectiveRate(
+      rates.filter((rate) => toRefId(rate.projectId) === projectKey),
+      time
+    );
+    if (override) return override.dailyWage;
+  }
+
+  const generalRates = rates.filter((rate) => !toRefId(rate.projectId));
+  const current = latestEffectiveRate(generalRates, time);
+  if (current) return current.dailyWage;
+
+  const earliest = [...generalRates].sort(
+    (a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime()
+  )[0];
+  return earliest ? earliest.dailyWage : worker.dailyWage || 0;
+}
+
+/** Prices each attendance entry at the rate in effect on its date. */
+export function calculateGrossWage(worker: WorkerWageSource, entries: AttendanceForWage[]) {
+  const byRate = new Map<number, { dailyWage: number; units: number; amount: number }>();
+  let grossWage = 0;
+
+  for (const entry of entries) {
+    const dailyWage = resolveDailyWage(worker, entry.date, entry.projectId);
+    const amount = entry.units * dailyWage;
+    grossWage += amount;
+
+    const bucket = byRate.get(dailyWage) || { dailyWage, units: 0, amount: 0 };
+    bucket.units += entry.units;
+    bucket.amount += amount;
+    byRate.set(dailyWage, bucket);
+  }
+
+  return {
+    grossWage,
+    rateBreakdown: [...byRate.values()].sort((a, b) => a.dailyWage - b.dailyWage),
+  };
+}
+
+/**
+ * Records a new wage rate. The first general rate added to a worker without
+ * history is preceded by their existing `dailyWage`, so earlier attendance keeps
+ * the rate it was worked at. A rate for the same day and project replaces it.
+ * The stored `dailyWage` is left alone: a rate can start in the future, so the
+ * current rate is always read with resolveDailyWage.
+ */
+export function addWageRate(
+  worker: IWorker,
+  rate: { dailyWage: number; effectiveFrom: Date; projectId?: string | null; note?: string; createdBy?: string }
+) {
+  const projectKey = rate.projectId || "";
+  const dayKey = rate.effectiveFrom.toDateString();
+
+  if (!projectKey && !worker.wageRates.some((existing) => !toRefId(existing.projectId))) {
+    worker.wageRates.push({
+      dailyWage: worker.dailyWage || 0,
+      effectiveFrom: worker.joinedOn || worker.createdAt || new Date(0),
+      projectId: null,
+      note: "Opening rate",
+    });
+  }
+
+  const sameDay = worker.wageRates.find(
+    (existing) =>
+      toRefId(existing.projectId) === projectKey &&
+      new Date(existing.effectiveFrom).toDateString() === dayKey
+  );
+
+  if (sameDay) {
+    sameDay.dailyWage = rate.dailyWage;
+    sameDay.note = rate.note;
+  } else {
+    worker.wageRates.push({
+      dailyWage: rate.dailyWage,
+      effectiveFrom: rate.effectiveFrom,
+      projectId: (rate.projectId || null) as IWorkerWageRate["projectId"],
+      note: rate.note,
+      createdBy: rate.createdBy as IWorkerWageRate["createdBy"],
+    });
+  }
+}
+
+export function parseWagePeriod(value: string): WagePeriod | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  if (year < 2000 || month < 1 || month > 12) return null;
+  return { year, month };
+}
+
+export function formatWagePeriod({ year, month }: WagePeriod) {
+  return `${year}-${String(month).padStart(2, "0")}`;
+}
+
+export function getWagePeriodRange({ year, month }: WagePeriod) {
+  const start = new Date(year, month - 1, 1);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(year, month, 0);
+  end.setHours(23, 59, 59, 999);
+  return { start, end };
+}
+
+// Mongo filter matching payout records strictly before / after the given month
+function periodBefore({ year, month }: WagePeriod) {
+  return { $or: [{ year: { $lt: year } }, { year, month: { $lt: month } }] };
+}
+
+function periodAfter({ year, month }: WagePeriod) {
+  return { $or: [{ year: { $gt: year } }, { year, month: { $gt: month } }] };
+}
+
+export async function computeMonthlyWage(
+  worker: WorkerWageSource & { _id: Types.ObjectId | string },
+  period: WagePeriod
+) {
+  const { start, end } = getWagePeriodRange(period);
+  const match = { workerId: worker._id, date: { $gte: start, $lte: end } };
+
+  const [attendanceEntries, advancesAgg] = await Promise.all([
+    WorkerAttendance.find(match).select("date units projectId").lean<AttendanceForWage[]>(),
+    WorkerAdvance.aggregate([
+      { $match: match },
+      { $group: { _id: null, totalAdvance: { $sum: "$amount" } } },
+    ]),
+  ]);
+
+  const totalUnits = attendanceEntries.reduce((sum, entry) => sum + entry.units, 0);
+  const dailyWage = resolveDailyWage(worker, end);
+  const { grossWage } = calculateGrossWage(worker, attendanceEntries);
+  const totalAdvance = advancesAgg[0]?.totalAdvance || 0;
+
+  return { totalUnits, dailyWage, grossWage, totalAdvance, netPayable: grossWage - totalAdvance };
+}
+
+/**
+ * The most recent settled month before `period`. Its closing balance is what
+ * carries into `period` as the opening balance.
+ */
+export async function getPreviousSettlement(workerId: Types.ObjectId | string, period: WagePeriod) {
+  return WorkerWagePayout.findOne({
+    workerId,
+    status: "paid",
+    ...periodBefore(period),
+  })
+    .sort({ year: -1, month: -1 })
+    .lean<IWorkerWagePayout>();
+}
+
+export async function hasLaterSettlement(workerId: Types.ObjectId | string, period: WagePeriod) {
+  const later = await WorkerWagePayout.exists({
+    workerId,
+    status: "paid",
+    ...periodAfter(period),
+  });
+  return !!later;
+}
+
+/**
+ * Finds the earliest month between the previous settlement and `period` that has
+ * attendance or advances but was never settled. Settling past it would drop that
+ * month's balance from the carry-forward chain. Without a previous settlement the
+ * search starts at the worker's first attendance or advance.
+ */
+export async function findUnsettledGap(
+  workerId: Types.ObjectId | string,
+  period: WagePeriod,
+  previous: WagePeriod | null
+): Promise<WagePeriod | null> {
+  const gapEnd = getWagePeriodRange(period).start;
+  const date: { $lt: Date; $gte?: Date } = { $lt: gapEnd };
+  if (previous) {
+    const gapStart = new Date(previous.year, previous.month, 1);
+    gapStart.setHours(0, 0, 0, 0);
+    if (gapStart >= gapEnd) return null;
+    date.$gte = gapStart;
+  }
+
+  const range = { workerId, date };
+  const [attendance, advance] = await Promise.all([
+    WorkerAttendance.findOne(range).sort({ date: 1 }).select("date").lean<{ date: Date }>(),
+    WorkerAdvance.findOne(range).sort({ date: 1 }).select("date").lean<{ date: Date }>(),
+  ]);
+
+  const dates = [attendance?.date, advance?.date].filter((date): date is Date => !!date);
+  if (dates.length === 0) return null;
+
+  const earliest = new Date(Math.min(...dates.map((date) => new Date(date).getTime())));
+  return { year: earliest.getFullYear(), month: earliest.getMonth() + 1 };
+}
+
+/** Whether attendance/advances dated `date` fall in a month that has already been paid out. */
+export async function isWageMonthSettled(workerId: Types.ObjectId | string, date: Date) {
+  const settled = await WorkerWagePayout.exists({
+    workerId,
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    status: "paid",
+  });
+  return !!settled;
+}
+
+/**
+ * Rates effective on or before the latest settled month would change figures that
+ * have already been paid out. Returns an error message when that is the case.
+ */
+export async function getSettledRateConflict(workerId: Types.ObjectId | string, effectiveFrom: Date) {
+  const latest = await WorkerWagePayout.findOne({ workerId, status: "paid" })
+    .sort({ year: -1, month: -1 })
+    .lean<IWorkerWagePayout>();
+  if (!latest) return null;
+
+  const year = effectiveFrom.getFullYear();
+  const month = effectiveFrom.getMonth() + 1;
+  if (year > latest.year || (year === latest.year && month > latest.month)) return null;
+
+  return `Wages are settled up to ${formatWagePeriod(latest)}. Choose a later effective date or reopen that month.`;
+}
@@ -0,0 +1,104 @@
+import { Types, type ClientSession } from "mongoose";
+import WorkerAttendance from "@/models/WorkerAttendance";
+import Project from "@/models/Project";
+import { isWageMonthSettled } from "@/lib/wage-payroll";
+import { ACTIVE_PROJECT_STATUSES } from "@/lib/project-status";
+
+// Attendance is recorded in half-day steps, up to a double shift
+export const MAX_DAILY_UNITS = 2;
+
+export function isValidUnits(value: number) {
+  return [0.5, 1, 1.5, 2].includes(value);
+}
+
+export function toDayRange(dateInput: Date | string) {
+  const date = new Date(dateInput);
+  if (Number.isNaN(date.getTime())) return null;
+
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+
+  return { start, end };
+}
+
+type AttendanceConflict = { error: string; status: number };
+
+/**
+ * Why an attendance entry cannot be recorded for the worker on that day, or null
+ * when it can. Pass the entry's own id as excludeId when editing it, and the
+ * session when checking inside a transaction.
+ */
+export async function findAttendanceConflict({
+  workerId,
+  projectId,
+  date,
+  units,
+  excludeId,
+  session,
+}: {
+  workerId: Types.ObjectId | string;
+  projectId?: Types.ObjectId | string | null;
+  date: Date;
+  units: number;
+  excludeId?: Types.ObjectId | string;
+  session?: ClientSession;
+}): Promise<AttendanceConflict | null> {
+  const day = toDayRange(date)!;
+  const workerObjectId = new Types.ObjectId(String(workerId));
+
+  if (await isWageMonthSettled(workerObjectId, day.start)) {
+    return { error: "Wages for this month are already settled. Reopen the month to make changes.", status: 409 };
+  }
+
+  if (projectId) {
+    const project = await Project.findOne({ _id: projectId, status: { $in: ACTIVE_PROJECT_STATUSES } })
+      .select("_id")
+      .session(session ?? null)
+      .lean();
+    if (!project) {
+      return { error: "Selected project not found or inactive", status: 404 };
+    }
+  }
+
+  const sameDay: Record<string, unknown> = {
+    workerId: workerObjectId,
+    date: { $gte: day.start, $lte: day.end },
+  };
+  if (excludeId) sameDay._id = { $ne: new Types.ObjectId(String(excludeId)) };
+
+  const totals = await WorkerAttendance.aggregate([
+    { $match: sameDay },
+    {
+      $group: {
+        _id: null,
+        totalUnits: { $sum: "$units" },
+      },
+    },
+  ]).session(session ?? null);
+  const existingUnits = totals[0]?.totalUnits || 0;
+
+  const duplicateQuery: Record<string, unknown> = { ...sameDay };
+  if (projectId) {
+    duplicateQuery.projectId = projectId;
+  } else {
+    duplicateQuery.$or = [{ projectId: { $exists: false } }, { projectId: null }];
+  }
+
+  const duplicateEntry = await WorkerAttendance.findOne(duplicateQuery).session(session ?? null).lean();
+  if (duplicateEntry) {
+    return {
+      error: projectId
+        ? "Attendance is already linked to this project for that date"
+        : "Attendance without a project already exists for that date",
+      status: 409,
+    };
+  }
+
+  if (existingUnits + units > MAX_DAILY_UNITS) {
+    return { error: "Total units for this worker on this date cannot exceed 2", status: 400 };
+  }
+
+  return null;
+}
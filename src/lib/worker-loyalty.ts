@@ -0,0 +1,168 @@
+import { Types } from "mongoose";
+import LoyaltyPolicy from "@/models/LoyaltyPolicy";
+import WorkerLoyaltyEntry from "@/models/WorkerLoyaltyEntry";
+import WorkerLoyaltyWeeklyPayout from "@/models/WorkerLoyaltyWeeklyPayout";
+import { toDayRange } from "@/lib/worker-attendance";
+import {
+  DEFAULT_LOYALTY_POLICY,
+  getWeeklyPayoutRupees,
+  normalizeAutoAwards,
+  type LoyaltyPolicyRules,
+} from "@/lib/loyalty-policy";
+
+/** The saved loyalty policy, or the defaults when none has been saved yet. */
+export async function getLoyaltyPolicy(): Promise<LoyaltyPolicyRules> {
+  const policy = await LoyaltyPolicy.findOne().lean<LoyaltyPolicyRules>();
+  if (!policy) return DEFAULT_LOYALTY_POLICY;
+
+  return {
+    categories: policy.categories,
+    dailyEarnCap: policy.dailyEarnCap,
+    weeklyEarnCap: policy.weeklyEarnCap ?? null,
+    pointRates: policy.pointRates.length ? policy.pointRates : DEFAULT_LOYALTY_POLICY.pointRates,
+    autoAwards: normalizeAutoAwards(policy.autoAwards),
+  };
+}
+
+// Weeks run Monday to Sunday, matching the weekly payouts
+function toWeekRange(date: Date) {
+  const start = new Date(date);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(start.getDate() + 6);
+  end.setHours(23, 59, 59, 999);
+  return { start, end };
+}
+
+async function sumCredits(workerId: Types.ObjectId, start: Date, end: Date): Promise<number> {
+  const totals = await WorkerLoyaltyEntry.aggregate([
+    { $match: { workerId, entryType: "credit", date: { $gte: start, $lte: end } } },
+    { $group: { _id: null, totalEarned: { $sum: "$points" } } },
+  ]);
+  return totals[0]?.totalEarned || 0;
+}
+
+type EarnCapConflict = { error: string; alreadyEarned: number; requested: number };
+
+/**
+ * Why crediting `points` to the worker on `date` would break the policy's daily or
+ * weekly earn cap, or null when it fits. Debits are never capped.
+ */
+export async function findEarnCapConflict({
+  workerId,
+  date,
+  points,
+  policy,
+}: {
+  workerId: Types.ObjectId | string;
+  date: Date;
+  points: number;
+  policy: LoyaltyPolicyRules;
+}): Promise<EarnCapConflict | null> {
+  const workerObjectId = new Types.ObjectId(String(workerId));
+  const day = toDayRange(date)!;
+
+  const earnedToday = await sumCredits(workerObjectId, day.start, day.end);
+  if (earnedToday + points > policy.dailyEarnCap) {
+    return {
+      error: `Daily earn limit exceeded. Max earn is ${policy.dailyEarnCap} points/day`,
+      alreadyEarned: earnedToday,
+      requested: points,
+    };
+  }
+
+  if (policy.weeklyEarnCap) {
+    const week = toWeekRange(day.start);
+    const earnedThisWeek = await sumCredits(workerObjectId, week.start, week.end);
+    if (earnedThisWeek + points > policy.weeklyEarnCap) {
+      return {
+        error: `Weekly earn limit exceeded. Max earn is ${policy.weeklyEarnCap} points/week`,
+        alreadyEarned: earnedThisWeek,
+        requested: points,
+      };
+    }
+  }
+
+  return null;
+}
+
+/** From the start of the first week to the end of the last week that ends between `start` and `end`. */
+export function getLoyaltyWeekSpan(start: Date, end: Date) {
+  const lastWeek = toWeekRange(end);
+  return {
+    start: toWeekRange(start).start,
+    end: lastWeek.end.getTime() <= end.getTime() ? lastWeek.end : new Date(lastWeek.start.getTime() - 1),
+  };
+}
+
+/**
+ * Loyalty totals and payout for each week that ends between `start` and `end`,
+ * counting all of the week's entries. A week spanning two months belongs to the
+ * month it ends in, so its payout is only counted once. Paid weeks keep the
+ * amount recorded when they were paid.
+ */
+export async function getLoyaltyWeeks(
+  workerId: Types.ObjectId | string,
+  start: Date,
+  end: Date,
+  policy: LoyaltyPolicyRules
+) {
+  const workerObjectId = new Types.ObjectId(String(workerId));
+  const span = getLoyaltyWeekSpan(start, end);
+
+  const weeks = await WorkerLoyaltyEntry.aggregate<{
+    _id: { isoWeekYear: number; isoWeek: number };
+    totalPoints: number;
+    earnedPoints: number;
+    deductedPoints: number;
+    firstDate: Date;
+  }>([
+    { $match: { workerId: workerObjectId, date: { $gte: span.start, $lte: span.end } } },
+    {
+      $group: {
+        _id: {
+          isoWeekYear: { $isoWeekYear: "$date" },
+          isoWeek: { $isoWeek: "$date" },
+        },
+        totalPoints: { $sum: "$points" },
+        earnedPoints: { $sum: { $cond: [{ $gt: ["$points", 0] }, "$points", 0] } },
+        deductedPoints: { $sum: { $cond: [{ $lt: ["$points", 0] }, "$points", 0] } },
+        firstDate: { $min: "$date" },
+      },
+    },
+    { $sort: { "_id.isoWeekYear": 1, "_id.isoWeek": 1 } },
+  ]);
+
+  const payoutRecords = weeks.length
+    ? await WorkerLoyaltyWeeklyPayout.find({
+        workerId: workerObjectId,
+        $or: weeks.map((week) => ({ isoWeekYear: week._id.isoWeekYear, isoWeek: week._id.isoWeek })),
+      }).lean()
+    : [];
+  const payoutMap = new Map(
+    payoutRecords.map((payout) => [`${payout.isoWeekYear}-${payout.isoWeek}`, payout])
+  );
+
+  return weeks.map((week) => {
+    const { start: weekStart, end: weekEnd } = toWeekRange(new Date(week.firstDate));
+    const netPoints = week.totalPoints || 0;
+    const payoutRecord = payoutMap.get(`${week._id.isoWeekYear}-${week._id.isoWeek}`);
+    return {
+      isoWeekYear: week._id.isoWeekYear,
+      isoWeek: week._id.isoWeek,
+      weekStart,
+      weekEnd,
+      earnedPoints: week.earnedPoints || 0,
+      deductedPoints: Math.abs(week.deductedPoints || 0),
+      netPoints,
+      weeklyPayoutRupees:
+        payoutRecord?.status === "paid"
+          ? payoutRecord.payoutRupees
+          : getWeeklyPayoutRupees(netPoints, policy.pointRates, weekStart),
+      payoutStatus: payoutRecord?.status || "pending",
+      paidAt: payoutRecord?.paidAt || null,
+      payoutRecordId: payoutRecord?._id || null,
+    };
+  });
+}
@@ -0,0 +1,109 @@
+import { Types } from "mongoose";
+import GeneralInfo from "@/models/GeneralInfo";
+import WorkerAttendance from "@/models/WorkerAttendance";
+import WorkerAdvance from "@/models/WorkerAdvance";
+import WorkerLoyaltyEntry from "@/models/WorkerLoyaltyEntry";
+import WorkerWagePayout, { type IWorkerWagePayout } from "@/models/WorkerWagePayout";
+import type { IWorker } from "@/models/Worker";
+import { toDateKey } from "@/lib/crew-schedule";
+import { getLoyaltyWeeks } from "@/lib/worker-loyalty";
+import type { LoyaltyPolicyRules } from "@/lib/loyalty-policy";
+import {
+  calculateGrossWage,
+  formatWagePeriod,
+  getPreviousSettlement,
+  getWagePeriodRange,
+  type WagePeriod,
+} from "@/lib/wage-payroll";
+
+/** Company name, address and phone numbers for the payslip header, from Business Settings. */
+export async function getCompanyDetails() {
+  const info = await GeneralInfo.findOne()
+    .select("siteName address mobileNumber1 mobileNumber2")
+    .lean<{ siteName: string; address: string; mobileNumber1: string; mobileNumber2?: string }>();
+  if (!info) return null;
+  return {
+    siteName: info.siteName,
+    address: info.address,
+    mobileNumber1: info.mobileNumber1,
+    mobileNumber2: info.mobileNumber2,
+  };
+}
+
+/** Workers with attendance, advances, loyalty entries or a wage settlement in the month. */
+export async function findPayslipWorkerIds(period: WagePeriod) {
+  const { start, end } = getWagePeriodRange(period);
+  const inMonth = { date: { $gte: start, $lte: end } };
+  const idLists = await Promise.all([
+    WorkerAttendance.distinct("workerId", inMonth),
+    WorkerAdvance.distinct("workerId", inMonth),
+    WorkerLoyaltyEntry.distinct("workerId", inMonth),
+    WorkerWagePayout.distinct("workerId", period),
+  ]);
+  return [...new Set(idLists.flat().map(String))];
+}
+
+/**
+ * One month's pay for a worker, on the same figures as the payroll summary: wages at
+ * the rates in effect on each day, advances, the carried balance and the loyalty
+ * payout for weeks with entries in the month.
+ */
+export async function buildPayslip(worker: IWorker, period: WagePeriod, policy: LoyaltyPolicyRules) {
+  const { start, end } = getWagePeriodRange(period);
+  const workerId = worker._id as Types.ObjectId;
+  const match = { workerId, date: { $gte: start, $lte: end } };
+
+  const [attendanceEntries, advancesAgg, loyaltyWeeks, wagePayout, previousSettlement] = await Promise.all([
+    WorkerAttendance.find(match)
+      .select("date units projectId")
+      .lean<{ date: Date; units: number; projectId?: Types.ObjectId }[]>(),
+    WorkerAdvance.aggregate([
+      { $match: match },
+      { $group: { _id: null, totalAdvance: { $sum: "$amount" } } },
+    ]),
+    getLoyaltyWeeks(workerId, start, end, policy),
+    WorkerWagePayout.findOne({ workerId, ...period }).lean<IWorkerWagePayout>(),
+    getPreviousSettlement(workerId, period),
+  ]);
+
+  const { grossWage, rateBreakdown } = calculateGrossWage(worker, attendanceEntries);
+  const totalUnits = attendanceEntries.reduce((sum, entry) => sum + entry.units, 0);
+  const attendanceDays = new Set(attendanceEntries.map((entry) => toDateKey(entry.date))).size;
+  const totalAdvance = advancesAgg[0]?.totalAdvance || 0;
+
+  const isSettled = wagePayout?.status === "paid";
+  const openingBalance = isSettled ? wagePayout.openingBalance : previousSettlement?.closingBalance || 0;
+  const totalPayable = isSettled ? wagePayout.totalPayable : grossWage - totalAdvance + openingBalance;
+  const wagePaid = isSettled ? wagePayout.amountPaid : 0;
+
+  const loyaltyPayout = loyaltyWeeks.reduce((sum, week) => sum + week.weeklyPayoutRupees, 0);
+  const loyaltyPaid = loyaltyWeeks
+    .filter((week) => week.payoutStatus === "paid")
+    .reduce((sum, week) => sum + week.weeklyPayoutRupees, 0);
+
+  return {
+    month: formatWagePeriod(period),
+    worker: {
+      id: String(workerId),
+      workerCode: worker.workerCode,
+      name: worker.name,
+      mobile: worker.mobile,
+    },
+    attendanceDays,
+    totalUnits,
+    rateBreakdown,
+    grossWage,
+    totalAdvance,
+    loyaltyPoints: loyaltyWeeks.reduce((sum, week) => sum + week.netPoints, 0),
+    loyaltyPayout,
+    netPay: grossWage - totalAdvance + loyaltyPayout,
+    openingBalance,
+    wageStatus: isSettled ? "paid" : "pending",
+    wagePaid,
+    paymentMethod: isSettled ? wagePayout.paymentMethod || null : null,
+    paidAt: isSettled ? wagePayout.paidAt || null : null,
+    closingBalance: totalPayable - wagePaid,
+    loyaltyPaid,
+    netPaid: wagePaid + loyaltyPaid,
+  };
+}
@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { CATALOG_UNITS, type CatalogUnit } from "@/lib/catalog";
+
+export interface ICatalogRateChange {
+  _id?: Schema.Types.ObjectId;
+  rate: number;
+  changedAt: Date;
+  changedBy?: Schema.Types.ObjectId;
+}
+
+export interface ICatalogItem extends Document {
+  name: string;
+  unit: CatalogUnit;
+  defaultRate: number;
+  defaultNote?: string;
+  // Service slug from servicesData (painting, carpentry, pop, ...)
+  serviceCategory: string;
+  hsnSac?: string;
+  isActive: boolean;
+  rateHistory: ICatalogRateChange[];
+  createdBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CatalogRateChangeSchema = new Schema<ICatalogRateChange>({
+  rate: { type: Number, required: true, min: 0, immutable: true },
+  changedAt: { type: Date, required: true, default: Date.now, immutable: true },
+  changedBy: { type: Schema.Types.ObjectId, ref: "User", immutable: true },
+});
+
+const CatalogItemSchema = new Schema<ICatalogItem>(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 1000 },
+    unit: { type: String, enum: CATALOG_UNITS, required: true, default: "sqft" },
+    defaultRate: { type: Number, required: true, min: 0 },
+    defaultNote: { type: String, trim: true, maxlength: 500 },
+    serviceCategory: { type: String, required: true, trim: true, index: true },
+    hsnSac: { type: String, trim: true },
+    isActive: { type: Boolean, default: true, index: true },
+    // Every rate the item has had, oldest first; the last entry matches defaultRate
+    rateHistory: { type: [CatalogRateChangeSchema], default: [] },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+CatalogItemSchema.index({ name: 1, serviceCategory: 1 }, { unique: true });
+
+export default mongoose.models.CatalogItem || mongoose.model<ICatalogItem>("CatalogItem", CatalogItemSchema);
@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IClientSite {
+  _id?: mongoose.Types.ObjectId;
+  label: string;
+  address: string;
+}
+
+export interface IClientContact {
+  _id?: mongoose.Types.ObjectId;
+  name: string;
+  // Normalised with normalizePhone
+  phone: string;
+  role?: string;
+}
+
+export interface IClient extends Document<mongoose.Types.ObjectId> {
+  name: string;
+  // Primary number, normalised with normalizePhone; the de-duplication key
+  phone: string;
+  email?: string;
+  gstNumber?: string;
+  sites: IClientSite[];
+  contacts: IClientContact[];
+  notes?: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ClientSiteSchema = new Schema<IClientSite>({
+  label: { type: String, required: true, trim: true, maxlength: 100 },
+  address: { type: String, required: true, trim: true, maxlength: 500 },
+});
+
+const ClientContactSchema = new Schema<IClientContact>({
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  phone: { type: String, required: true, trim: true },
+  role: { type: String, trim: true, maxlength: 100 },
+});
+
+const ClientSchema = new Schema<IClient>(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    phone: { type: String, required: true, trim: true, unique: true },
+    email: { type: String, trim: true, lowercase: true },
+    gstNumber: { type: String, trim: true, uppercase: true },
+    sites: { type: [ClientSiteSchema], default: [] },
+    contacts: { type: [ClientContactSchema], default: [] },
+    notes: { type: String, maxlength: 1000 },
+    createdBy: { type: String },
+  },
+  { timestamps: true }
+);
+
+ClientSchema.index({ "contacts.phone": 1 });
+ClientSchema.index({ name: 1 });
+
+export default mongoose.models.Client || mongoose.model<IClient>("Client", ClientSchema);
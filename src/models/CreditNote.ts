@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from "mongoose";
+import type { TaxBreakdown } from "@/lib/gst";
+import { CREDIT_NOTE_TYPES, type CreditNoteType } from "@/lib/credit-notes";
+import { PAYMENT_METHODS, type PaymentMethod } from "@/lib/payments";
+
+export interface ICreditNoteItem {
+  description: string;
+  amount: number;
+  note?: string;
+}
+
+export interface ICreditNoteRefund {
+  amount: number;
+  method: PaymentMethod;
+  referenceId?: string;
+  date: Date;
+  // Debit recorded in the expenses ledger for the money paid back
+  transactionId?: mongoose.Types.ObjectId;
+}
+
+// Reduces what the client owes on an invoice; issued once and never edited
+export interface ICreditNote extends Document<mongoose.Types.ObjectId> {
+  creditNoteNumber: string;
+  invoiceId: string;
+  projectId: string;
+  quotationNumber: string;
+  clientName: string;
+  clientAddress: string;
+  clientNumber: string;
+  clientId?: mongoose.Types.ObjectId;
+  date: Date;
+  type: CreditNoteType;
+  reason: string;
+  items: ICreditNoteItem[];
+  // GST-inclusive, like the invoice's grand total
+  total: number;
+  tax?: TaxBreakdown;
+  refund?: ICreditNoteRefund;
+  createdBy: string;
+  createdAt: Date;
+}
+
+const CreditNoteSchema = new Schema<ICreditNote>({
+  creditNoteNumber: { type: String, required: true, unique: true },
+  invoiceId: { type: String, required: true, index: true },
+  projectId: { type: String, required: true, index: true },
+  quotationNumber: { type: String, required: true },
+  clientName: { type: String, required: true },
+  clientAddress: { type: String, required: true },
+  clientNumber: { type: String, required: true },
+  clientId: { type: Schema.Types.ObjectId, ref: "Client" },
+  date: { type: Date, required: true },
+  type: { type: String, enum: CREDIT_NOTE_TYPES, required: true },
+  reason: { type: String, required: true },
+  items: [
+    {
+      _id: false,
+      description: { type: String, required: true },
+      amount: { type: Number, required: true, min: 0 },
+      note: { type: String },
+    },
+  ],
+  total: { type: Number, required: true, min: 0 },
+  tax: {
+    enabled: { type: Boolean },
+    gstPercent: { type: Number },
+    rateType: { type: String, enum: ["exclusive", "inclusive"] },
+    supplyType: { type: String, enum: ["intra", "inter"] },
+    placeOfSupply: { type: String },
+    supplierGstNumber: { type: String },
+    clientGstNumber: { type: String },
+    taxableValue: { type: Number },
+    cgst: { type: Number },
+    sgst: { type: Number },
+    igst: { type: Number },
+    totalTax: { type: Number },
+  },
+  refund: {
+    type: {
+      _id: false,
+      amount: { type: Number, required: true, min: 0 },
+      method: { type: String, enum: PAYMENT_METHODS, required: true },
+      referenceId: { type: String },
+      date: { type: Date, required: true },
+      transactionId: { type: Schema.Types.ObjectId, ref: "Transaction" },
+    },
+    required: false,
+  },
+  createdBy: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+export default mongoose.models.CreditNote || mongoose.model<ICreditNote>("CreditNote", CreditNoteSchema);
@@ -0,0 +1,28 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// One worker planned onto one project's site for one day
+export interface ICrewAssignment extends Document {
+  workerId: Schema.Types.ObjectId;
+  projectId: Schema.Types.ObjectId;
+  date: Date;
+  note?: string;
+  assignedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CrewAssignmentSchema = new Schema<ICrewAssignment>(
+  {
+    workerId: { type: Schema.Types.ObjectId, ref: "Worker", required: true, index: true },
+    projectId: { type: Schema.Types.ObjectId, ref: "Project", required: true, index: true },
+    date: { type: Date, required: true, index: true },
+    note: { type: String },
+    assignedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+CrewAssignmentSchema.index({ workerId: 1, date: 1, projectId: 1 }, { unique: true });
+
+export default mongoose.models.CrewAssignment ||
+  mongoose.model<ICrewAssignment>("CrewAssignment", CrewAssignmentSchema);
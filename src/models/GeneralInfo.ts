@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { DEFAULT_REMINDER_DAYS } from "@/lib/quotation-expiry";
+import { DEFAULT_PAYMENT_REMINDER_DAYS, DEFAULT_PAYMENT_TERMS_DAYS } from "@/lib/receivables";
 
 export interface IGeneralInfo extends Document {
   logoUrl: string; // Cloudinary URL for logo
@@ -10,6 +12,9 @@ export interface IGeneralInfo extends Document {
   mobileNumber1: string; // Primary mobile number
   mobileNumber2?: string; // Secondary mobile number (optional)
   address: string; // Business address
+  quotationReminderDays: number[]; // Days before expiry to send quotation follow-ups
+  paymentTermsDays: number; // Days after the invoice date that payment is due
+  paymentReminderDays: number[]; // Days past the due date to send payment reminders
   lastUpdated: Date;
 }
 
@@ -23,6 +28,9 @@ const GeneralInfoSchema: Schema = new Schema({
   mobileNumber1: { type: String, required: true },
   mobileNumber2: { type: String },
   address: { type: String, required: true },
+  quotationReminderDays: { type: [Number], default: DEFAULT_REMINDER_DAYS },
+  paymentTermsDays: { type: Number, min: 0, default: DEFAULT_PAYMENT_TERMS_DAYS },
+  paymentReminderDays: { type: [Number], default: DEFAULT_PAYMENT_REMINDER_DAYS },
   lastUpdated: { type: Date, default: Date.now },
 });
 
@@ -1,4 +1,16 @@
 import mongoose, { Schema, Document } from "mongoose";
+import type { TaxBreakdown } from "@/lib/gst";
+import { PaymentMilestoneSchema, PaymentSchema, type IPayment, type IPaymentMilestone } from "@/models/Project";
+
+export interface IInvoicePaymentReminder {
+  // Step of the reminder schedule, in days past the due date
+  daysOverdue: number;
+  dueDate: Date;
+  amountDue: number;
+  delivered: boolean;
+  error?: string;
+  createdAt: Date;
+}
 
 export interface IInvoice extends Document {
   invoiceId: string;
@@ -7,6 +19,7 @@ export interface IInvoice extends Document {
   clientName: string;
   clientAddress: string;
   clientNumber: string;
+  clientId?: mongoose.Types.ObjectId;
   date: Date;
   items: {
     description: string;
@@ -14,6 +27,7 @@ export interface IInvoice extends Document {
     rate: number;
     total?: number;
     note?: string;
+    hsnSac?: string;
   }[];
   extraWork: {
     description: string;
@@ -23,12 +37,15 @@ export interface IInvoice extends Document {
   subtotal?: number;
   discount: number;
   grandTotal?: number;
+  tax?: TaxBreakdown;
   amountDue?: number;
-  paymentHistory: {
-    amount: number;
-    date: Date;
-    note?: string;
-  }[];
+  paymentTermsDays?: number;
+  dueDate?: Date;
+  paymentReminders: IInvoicePaymentReminder[];
+  paymentHistory: IPayment[];
+  creditedAmount?: number;
+  refundedAmount?: number;
+  paymentSchedule: IPaymentMilestone[];
   accessToken: string;
   terms: string[];
   note?: string;
@@ -36,6 +53,18 @@ export interface IInvoice extends Document {
   lastUpdated?: Date;
 }
 
+const InvoicePaymentReminderSchema = new Schema<IInvoicePaymentReminder>(
+  {
+    daysOverdue: { type: Number, required: true, immutable: true },
+    dueDate: { type: Date, required: true, immutable: true },
+    amountDue: { type: Number, required: true, immutable: true },
+    delivered: { type: Boolean, default: false, immutable: true },
+    error: { type: String, immutable: true },
+    createdAt: { type: Date, required: true, immutable: true },
+  },
+  { _id: false }
+);
+
 const InvoiceSchema: Schema = new Schema({
   invoiceId: { type: String, required: true, unique: true },
   projectId: { type: String, required: true },
@@ -43,6 +72,7 @@ const InvoiceSchema: Schema = new Schema({
   clientName: { type: String, required: true },
   clientAddress: { type: String, required: true },
   clientNumber: { type: String, required: true },
+  clientId: { type: Schema.Types.ObjectId, ref: "Client", index: true },
   date: { type: Date, required: true },
   items: [
     {
@@ -51,6 +81,7 @@ const InvoiceSchema: Schema = new Schema({
       rate: { type: Number, required: true },
       total: { type: Number },
       note: { type: String },
+      hsnSac: { type: String },
     },
   ],
   extraWork: [
@@ -63,14 +94,28 @@ const InvoiceSchema: Schema = new Schema({
   subtotal: { type: Number },
   discount: { type: Number, default: 0 },
   grandTotal: { type: Number },
+  tax: {
+    enabled: { type: Boolean, default: false },
+    gstPercent: { type: Number, default: 0 },
+    rateType: { type: String, enum: ["exclusive", "inclusive"], default: "exclusive" },
+    supplyType: { type: String, enum: ["intra", "inter"], default: "intra" },
+    placeOfSupply: { type: String },
+    supplierGstNumber: { type: String },
+    clientGstNumber: { type: String },
+    taxableValue: { type: Number, default: 0 },
+    cgst: { type: Number, default: 0 },
+    sgst: { type: Number, default: 0 },
+    igst: { type: Number, default: 0 },
+    totalTax: { type: Number, default: 0 },
+  },
   amountDue: { type: Number },
-  paymentHistory: [
-    {
-      amount: { type: Number, required: true },
-      date: { type: Date, default: Date.now },
-      note: { type: String },
-    },
-  ],
+  paymentTermsDays: { type: Number, min: 0 },
+  dueDate: { type: Date },
+  paymentReminders: { type: [InvoicePaymentReminderSchema], default: [] },
+  paymentHistory: [PaymentSchema],
+  creditedAmount: { type: Number, default: 0, min: 0 },
+  refundedAmount: { type: Number, default: 0, min: 0 },
+  paymentSchedule: { type: [PaymentMilestoneSchema], default: [] },
   accessToken: { type: String, required: true },
   terms: [{ type: String }],
   createdAt: { type: Date, default: Date.now },
@@ -79,5 +124,6 @@ const InvoiceSchema: Schema = new Schema({
 
 InvoiceSchema.index({ projectId: 1 });
 InvoiceSchema.index({ quotationNumber: 1 });
+InvoiceSchema.index({ amountDue: 1, dueDate: 1 });
 
 export default mongoose.models.Invoice || mongoose.model<IInvoice>("Invoice", InvoiceSchema);
\ No newline at end of file
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  AUTO_AWARD_RULES,
+  DEFAULT_DAILY_EARN_CAP,
+  LOYALTY_ENTRY_TYPES,
+  type AutoAwardSetting,
+  type LoyaltyCategory,
+  type PointRate,
+} from "@/lib/loyalty-policy";
+
+// The single loyalty policy document; routes fall back to the defaults until one is saved
+export interface ILoyaltyPolicy extends Document {
+  categories: LoyaltyCategory[];
+  dailyEarnCap: number;
+  weeklyEarnCap?: number | null;
+  pointRates: PointRate[];
+  autoAwards: AutoAwardSetting[];
+  updatedBy?: Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LoyaltyCategorySchema = new Schema<LoyaltyCategory>(
+  {
+    key: { type: String, required: true, trim: true },
+    label: { type: String, required: true, trim: true },
+    entryType: { type: String, enum: LOYALTY_ENTRY_TYPES, required: true },
+    defaultPoints: { type: Number, required: true, min: 1 },
+    active: { type: Boolean, default: true },
+  },
+  { _id: false }
+);
+
+const PointRateSchema = new Schema<PointRate>(
+  {
+    rupeesPerPoint: { type: Number, required: true, min: 0 },
+    effectiveFrom: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const AutoAwardSettingSchema = new Schema<AutoAwardSetting>(
+  {
+    rule: { type: String, enum: AUTO_AWARD_RULES, required: true },
+    enabled: { type: Boolean, default: false },
+    category: { type: String, required: true, trim: true },
+    points: { type: Number, required: true, min: 1 },
+  },
+  { _id: false }
+);
+
+const LoyaltyPolicySchema = new Schema<ILoyaltyPolicy>(
+  {
+    categories: { type: [LoyaltyCategorySchema], default: [] },
+    dailyEarnCap: { type: Number, required: true, min: 1, default: DEFAULT_DAILY_EARN_CAP },
+    weeklyEarnCap: { type: Number, min: 1, default: null },
+    pointRates: { type: [PointRateSchema], default: [] },
+    autoAwards: { type: [AutoAwardSettingSchema], default: [] },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.models.LoyaltyPolicy || mongoose.model<ILoyaltyPolicy>("LoyaltyPolicy", LoyaltyPolicySchema);
@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { PAYMENT_PROVIDER_IDS, type PaymentProviderId } from "@/lib/payment-gateway";
+
+export type OnlinePaymentStatus = "created" | "paid" | "unapplied";
+
+// One checkout started from the public invoice page; the gateway reports back by webhook
+export interface IOnlinePayment extends Document<mongoose.Types.ObjectId> {
+  // Our reference, sent to the gateway and echoed back in its webhook
+  reference: string;
+  provider: PaymentProviderId;
+  invoiceId: string;
+  projectId: string;
+  amount: number;
+  status: OnlinePaymentStatus;
+  // Gateway-side ids: the checkout/link id and, once paid, the payment id
+  providerOrderId?: string;
+  providerPaymentId?: string;
+  receiptNumber?: string;
+  // Why a paid checkout could not be applied to the invoice (e.g. it was already settled)
+  error?: string;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OnlinePaymentSchema = new Schema<IOnlinePayment>(
+  {
+    reference: { type: String, required: true, unique: true },
+    provider: { type: String, enum: PAYMENT_PROVIDER_IDS, required: true },
+    invoiceId: { type: String, required: true, index: true },
+    projectId: { type: String, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    status: { type: String, enum: ["created", "paid", "unapplied"], default: "created" },
+    providerOrderId: { type: String },
+    providerPaymentId: { type: String },
+    receiptNumber: { type: String },
+    error: { type: String },
+    paidAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+export default mongoose.models.OnlinePayment ||
+  mongoose.model<IOnlinePayment>("OnlinePayment", OnlinePaymentSchema);
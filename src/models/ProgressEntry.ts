@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { PROGRESS_STAGES, type ProgressPhoto, type ProgressStage } from "@/lib/site-progress";
+
+// One day's work on a project's site. Workers present are not stored here; they
+// are read from that day's attendance so late marking still shows up.
+export interface IProgressEntry extends Document {
+  projectId: string;
+  date: Date;
+  stage: ProgressStage;
+  notes?: string;
+  photos: ProgressPhoto[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProgressEntrySchema = new Schema<IProgressEntry>(
+  {
+    projectId: { type: String, required: true, index: true },
+    date: { type: Date, required: true },
+    stage: { type: String, enum: PROGRESS_STAGES, required: true },
+    notes: { type: String },
+    photos: {
+      type: [
+        {
+          _id: false,
+          url: { type: String, required: true },
+          publicId: { type: String, required: true },
+          caption: { type: String },
+        },
+      ],
+      default: [],
+    },
+    createdBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+ProgressEntrySchema.index({ projectId: 1, date: -1 });
+
+export default mongoose.models.ProgressEntry ||
+  mongoose.model<IProgressEntry>("ProgressEntry", ProgressEntrySchema);
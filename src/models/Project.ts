@@ -1,4 +1,57 @@
 import mongoose, { Schema, Document } from "mongoose";
+import type { TaxBreakdown } from "@/lib/gst";
+import type { ItemMeasurementRef, MeasurementRoom } from "@/lib/measurements";
+import { PAYMENT_METHODS, type PaymentMethod } from "@/lib/payments";
+import { PROJECT_STATUSES, type ProjectStatus } from "@/lib/project-status";
+import { MAX_GEOFENCE_RADIUS_METERS, MIN_GEOFENCE_RADIUS_METERS } from "@/lib/site-check-in";
+import { MeasurementRoomSchema, itemMeasurementField } from "@/models/Quotation";
+
+export interface IPaymentCorrection {
+  reason: string;
+  changes: { field: string; from?: string; to?: string }[];
+  correctedBy: string;
+  correctedAt: Date;
+}
+
+export interface IPayment {
+  _id?: mongoose.Types.ObjectId;
+  amount: number;
+  date: Date;
+  method?: PaymentMethod;
+  chequeNumber?: string;
+  chequeBank?: string;
+  referenceId?: string;
+  receivedBy?: string;
+  receiptNumber?: string;
+  note?: string;
+  // Reversal entries cancel an earlier payment with a negative amount
+  isReversal?: boolean;
+  reversalOf?: mongoose.Types.ObjectId;
+  reason?: string;
+  corrections?: IPaymentCorrection[];
+}
+
+export interface IPaymentMilestone {
+  _id?: mongoose.Types.ObjectId;
+  label: string;
+  percent?: number;
+  amount?: number;
+  dueDate?: Date;
+  condition?: string;
+  // When staff marked the condition as met
+  dueAt?: Date;
+  // Set once payments cover the milestone; cleared if a reversal uncovers it again
+  paidAt?: Date;
+  notifiedAt?: Date;
+}
+
+export interface IProjectStatusChange {
+  from?: ProjectStatus;
+  to: ProjectStatus;
+  reason?: string;
+  changedBy: string;
+  changedAt: Date;
+}
 
 export interface IProject extends Document {
   projectId: string;
@@ -6,6 +59,7 @@ export interface IProject extends Document {
   clientName: string;
   clientAddress: string;
   clientNumber: string;
+  clientId?: mongoose.Types.ObjectId;
   date: Date;
   items: {
     description: string;
@@ -13,7 +67,11 @@ export interface IProject extends Document {
     rate: number;
     total?: number;
     note?: string;
+    hsnSac?: string;
+    measurement?: ItemMeasurementRef | null;
   }[];
+  // Carried over from the accepted quotation
+  measurements: MeasurementRoom[];
   extraWork: {
     description: string;
     total: number;
@@ -22,27 +80,92 @@ export interface IProject extends Document {
   subtotal?: number;
   discount: number;
   grandTotal?: number;
+  tax?: TaxBreakdown;
   amountDue?: number;
-  paymentHistory: {
-    amount: number;
-    date: Date;
-    note?: string;
-  }[];
+  paymentHistory: IPayment[];
+  // Totals of the credit notes issued against the invoice and the refunds paid out with them
+  creditedAmount?: number;
+  refundedAmount?: number;
+  paymentSchedule: IPaymentMilestone[];
   siteImages: { url: string; publicId: string }[];
+  // Opt-in: lets the client follow the progress log from their invoice link
+  shareProgressWithClient: boolean;
   terms: string[];
   note?: string;
   createdAt: Date;
   createdBy: string;
   lastUpdated?: Date;
-  status: "ongoing" | "completed";
+  // When the crew is planned to start and finish on site
+  plannedStartDate?: Date;
+  plannedEndDate?: Date;
+  // Pinned site location workers check in against; radius falls back to the default geofence
+  siteLocation?: { latitude: number; longitude: number; radiusMeters?: number };
+  status: ProjectStatus;
+  statusHistory: IProjectStatusChange[];
 }
 
+// Corrections are appended, never edited, so each payment keeps its own trail
+const PaymentCorrectionSchema = new Schema<IPaymentCorrection>(
+  {
+    reason: { type: String, required: true, immutable: true },
+    changes: {
+      type: [{ _id: false, field: { type: String, required: true }, from: { type: String }, to: { type: String } }],
+      immutable: true,
+    },
+    correctedBy: { type: String, required: true, immutable: true },
+    correctedAt: { type: Date, default: Date.now, immutable: true },
+  },
+  { _id: false }
+);
+
+// Shared with Invoice, which mirrors the project's payment history
+export const PaymentSchema = new Schema<IPayment>({
+  amount: { type: Number, required: true },
+  date: { type: Date, default: Date.now },
+  method: { type: String, enum: PAYMENT_METHODS },
+  chequeNumber: { type: String },
+  chequeBank: { type: String },
+  referenceId: { type: String },
+  receivedBy: { type: String },
+  receiptNumber: { type: String },
+  note: { type: String },
+  isReversal: { type: Boolean, default: false },
+  reversalOf: { type: Schema.Types.ObjectId },
+  reason: { type: String },
+  corrections: { type: [PaymentCorrectionSchema], default: undefined },
+});
+
+// Shared with Invoice, which mirrors the project's payment schedule
+export const PaymentMilestoneSchema = new Schema<IPaymentMilestone>({
+  label: { type: String, required: true },
+  percent: { type: Number, min: 0, max: 100 },
+  amount: { type: Number, min: 0 },
+  dueDate: { type: Date },
+  condition: { type: String },
+  dueAt: { type: Date },
+  paidAt: { type: Date },
+  notifiedAt: { type: Date },
+});
+
+// Status changes are appended as they happen and make up the project timeline
+const ProjectStatusChangeSchema = new Schema<IProjectStatusChange>(
+  {
+    from: { type: String, enum: PROJECT_STATUSES },
+    to: { type: String, enum: PROJECT_STATUSES, required: true },
+    reason: { type: String },
+    changedBy: { type: String, required: true },
+    changedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 const ProjectSchema: Schema = new Schema({
   projectId: { type: String, required: true, unique: true },
   quotationNumber: { type: String, required: true, unique: true },
   clientName: { type: String, required: true },
   clientAddress: { type: String, required: true },
   clientNumber: { type: String, required: true },
+  clientId: { type: Schema.Types.ObjectId, ref: "Client", index: true },
   date: { type: Date, required: true },
   items: [
     {
@@ -51,8 +174,11 @@ const ProjectSchema: Schema = new Schema({
       rate: { type: Number, required: true },
       total: { type: Number },
       note: { type: String },
+      hsnSac: { type: String },
+      measurement: itemMeasurementField,
     },
   ],
+  measurements: { type: [MeasurementRoomSchema], default: [] },
   extraWork: [
     {
       description: { type: String, required: true },
@@ -63,25 +189,50 @@ const ProjectSchema: Schema = new Schema({
   subtotal: { type: Number },
   discount: { type: Number, default: 0 },
   grandTotal: { type: Number },
+  tax: {
+    enabled: { type: Boolean, default: false },
+    gstPercent: { type: Number, default: 0 },
+    rateType: { type: String, enum: ["exclusive", "inclusive"], default: "exclusive" },
+    supplyType: { type: String, enum: ["intra", "inter"], default: "intra" },
+    placeOfSupply: { type: String },
+    supplierGstNumber: { type: String },
+    clientGstNumber: { type: String },
+    taxableValue: { type: Number, default: 0 },
+    cgst: { type: Number, default: 0 },
+    sgst: { type: Number, default: 0 },
+    igst: { type: Number, default: 0 },
+    totalTax: { type: Number, default: 0 },
+  },
   amountDue: { type: Number },
-  paymentHistory: [
-    {
-      amount: { type: Number, required: true },
-      date: { type: Date, default: Date.now },
-      note: { type: String },
-    },
-  ],
+  paymentHistory: [PaymentSchema],
+  creditedAmount: { type: Number, default: 0, min: 0 },
+  refundedAmount: { type: Number, default: 0, min: 0 },
+  paymentSchedule: { type: [PaymentMilestoneSchema], default: [] },
   siteImages: [{ url: { type: String, required: true }, publicId: { type: String, required: true } }],
+  shareProgressWithClient: { type: Boolean, default: false },
   terms: [{ type: String }],
   note: { type: String },
   createdAt: { type: Date, default: Date.now },
   createdBy: { type: String, required: true },
   lastUpdated: { type: Date },
+  plannedStartDate: { type: Date },
+  plannedEndDate: { type: Date },
+  siteLocation: {
+    type: new Schema(
+      {
+        latitude: { type: Number, required: true, min: -90, max: 90 },
+        longitude: { type: Number, required: true, min: -180, max: 180 },
+        radiusMeters: { type: Number, min: MIN_GEOFENCE_RADIUS_METERS, max: MAX_GEOFENCE_RADIUS_METERS },
+      },
+      { _id: false }
+    ),
+  },
   status: {
     type: String,
-    enum: ["ongoing", "completed"],
-    default: "ongoing",
+    enum: PROJECT_STATUSES,
+    default: "scheduled",
   },
+  statusHistory: { type: [ProjectStatusChangeSchema], default: [] },
 });
 
 ProjectSchema.index({ createdBy: 1, createdAt: -1 });
@@ -1,10 +1,38 @@
 import mongoose, { Schema, Document } from "mongoose";
+import type { TaxBreakdown } from "@/lib/gst";
+import type { QuotationRevisionSnapshot } from "@/lib/quotation-revisions";
+import { MEASURED_SURFACES, type ItemMeasurementRef, type MeasurementRoom } from "@/lib/measurements";
+
+export interface IQuotationAcceptance {
+  decision: "accepted" | "rejected";
+  signerName: string;
+  signature?: { url: string; publicId: string };
+  reason?: string;
+  grandTotal?: number;
+  revision?: string;
+  ipAddress: string;
+  userAgent?: string;
+  respondedAt: Date;
+}
+
+export interface IQuotationFollowUp {
+  kind: "reminder" | "expired";
+  // Days left before expiry when the reminder went out
+  daysBefore?: number;
+  // Expiry the entry belongs to, so a revised quotation gets a fresh set of reminders
+  expiresAt: Date;
+  delivered: boolean;
+  error?: string;
+  createdAt: Date;
+}
 
 export interface IQuotation extends Document {
   quotationNumber: string;
   clientName: string;
   clientAddress: string;
   clientNumber: string;
+  // Client record; the name, address and number above stay as quoted
+  clientId?: mongoose.Types.ObjectId;
   clientMobile?: {
     countryCode: string;
     number: string;
@@ -16,16 +44,28 @@ export interface IQuotation extends Document {
     rate: number;
     total?: number | null;
     note?: string;
+    hsnSac?: string;
+    measurement?: ItemMeasurementRef | null;
   }[];
+  measurements: MeasurementRoom[];
   subtotal?: number;
   discount?: number;
   grandTotal?: number;
+  tax?: TaxBreakdown;
   terms: string[];
   note?: string;
+  // Days from the quotation date the offer stays open
+  validityDays?: number;
+  expiresAt?: Date;
+  followUps: IQuotationFollowUp[];
   createdBy: string;
   createdAt: Date;
   lastUpdated?: Date;
-  isAccepted?: "pending" | "accepted" | "rejected";
+  isAccepted?: "pending" | "accepted" | "rejected" | "expired";
+  accessToken?: string;
+  acceptanceRecords: IQuotationAcceptance[];
+  revisions: QuotationRevisionSnapshot[];
+  currentRevision?: string;
   siteImages?: {
     url: string;
     publicId: string;
@@ -33,11 +73,120 @@ export interface IQuotation extends Document {
   }[];
 }
 
+// Client responses are an audit trail: every field is immutable once written
+const QuotationAcceptanceSchema = new Schema<IQuotationAcceptance>(
+  {
+    decision: { type: String, enum: ["accepted", "rejected"], required: true, immutable: true },
+    signerName: { type: String, required: true, immutable: true },
+    signature: {
+      url: { type: String, immutable: true },
+      publicId: { type: String, immutable: true },
+    },
+    reason: { type: String, immutable: true },
+    grandTotal: { type: Number, immutable: true },
+    revision: { type: String, immutable: true },
+    ipAddress: { type: String, required: true, immutable: true },
+    userAgent: { type: String, immutable: true },
+    respondedAt: { type: Date, required: true, immutable: true },
+  },
+  { _id: false }
+);
+
+// Reminders and expiry written by the follow-up job
+const QuotationFollowUpSchema = new Schema<IQuotationFollowUp>(
+  {
+    kind: { type: String, enum: ["reminder", "expired"], required: true, immutable: true },
+    daysBefore: { type: Number, immutable: true },
+    expiresAt: { type: Date, required: true, immutable: true },
+    delivered: { type: Boolean, default: false, immutable: true },
+    error: { type: String, immutable: true },
+    createdAt: { type: Date, required: true, immutable: true },
+  },
+  { _id: false }
+);
+
+const taxFields = {
+  enabled: { type: Boolean, default: false },
+  gstPercent: { type: Number, default: 0 },
+  rateType: { type: String, enum: ["exclusive", "inclusive"], default: "exclusive" },
+  supplyType: { type: String, enum: ["intra", "inter"], default: "intra" },
+  placeOfSupply: { type: String },
+  supplierGstNumber: { type: String },
+  clientGstNumber: { type: String },
+  taxableValue: { type: Number, default: 0 },
+  cgst: { type: Number, default: 0 },
+  sgst: { type: Number, default: 0 },
+  igst: { type: Number, default: 0 },
+  totalTax: { type: Number, default: 0 },
+};
+
+// Room-wise measurement sheet; items may take their area from it
+export const MeasurementRoomSchema = new Schema<MeasurementRoom>(
+  {
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    length: { type: Number, default: 0 },
+    width: { type: Number, default: 0 },
+    height: { type: Number, default: 0 },
+    deductions: [
+      {
+        _id: false,
+        label: { type: String },
+        width: { type: Number, default: 0 },
+        height: { type: Number, default: 0 },
+        count: { type: Number, default: 1 },
+      },
+    ],
+  },
+  { _id: false }
+);
+
+const ItemMeasurementSchema = new Schema<ItemMeasurementRef>(
+  {
+    surface: { type: String, enum: MEASURED_SURFACES, required: true },
+    roomIds: [{ type: String }],
+  },
+  { _id: false }
+);
+
+export const itemMeasurementField = { type: ItemMeasurementSchema, default: null };
+
+// Full copy of the priced content at each revision (Rev A, Rev B, ...); never edited after it is written
+const QuotationRevisionSchema = new Schema<QuotationRevisionSnapshot>(
+  {
+    label: { type: String, required: true, immutable: true },
+    items: {
+      type: [
+        {
+          _id: false,
+          description: { type: String, required: true },
+          area: { type: Number, default: null },
+          rate: { type: Number, required: true },
+          total: { type: Number, default: null },
+          note: { type: String },
+          hsnSac: { type: String },
+        },
+      ],
+      immutable: true,
+    },
+    subtotal: { type: Number, immutable: true },
+    discount: { type: Number, immutable: true },
+    grandTotal: { type: Number, immutable: true },
+    tax: { type: taxFields, immutable: true },
+    terms: { type: [String], immutable: true },
+    note: { type: String, immutable: true },
+    createdAt: { type: Date, required: true, immutable: true },
+    createdBy: { type: String, immutable: true },
+  },
+  { _id: false }
+);
+
 const QuotationSchema: Schema = new Schema({
   quotationNumber: { type: String, required: true, unique: true },
   clientName: { type: String, required: true },
   clientAddress: { type: String, required: true },
   clientNumber: { type: String, required: true },
+  clientId: { type: Schema.Types.ObjectId, ref: "Client", index: true },
   clientMobile: {
     countryCode: { type: String, default: "+91" },
     number: { type: String },
@@ -50,21 +199,33 @@ const QuotationSchema: Schema = new Schema({
       rate: { type: Number, required: true },
       total: { type: Number, default: null },
       note: { type: String },
+      hsnSac: { type: String },
+      measurement: itemMeasurementField,
     },
   ],
+  measurements: { type: [MeasurementRoomSchema], default: [] },
   subtotal: { type: Number },
   discount: { type: Number, default: 0 },
   grandTotal: { type: Number },
+  tax: taxFields,
   terms: [{ type: String }],
   note: { type: String },
+  validityDays: { type: Number, min: 1 },
+  expiresAt: { type: Date },
+  followUps: { type: [QuotationFollowUpSchema], default: [] },
   createdBy: { type: String, required: true },
   createdAt: { type: Date, default: Date.now },
   lastUpdated: { type: Date },
   isAccepted: {
     type: String,
-    enum: ["pending", "accepted", "rejected"],
+    enum: ["pending", "accepted", "rejected", "expired"],
     default: "pending",
   },
+  // Secret for the client portal link; older quotations get one on first admin view
+  accessToken: { type: String },
+  acceptanceRecords: { type: [QuotationAcceptanceSchema], default: [] },
+  revisions: { type: [QuotationRevisionSchema], default: [] },
+  currentRevision: { type: String },
   siteImages: [
     {
       url: { type: String, required: true },
@@ -76,6 +237,7 @@ const QuotationSchema: Schema = new Schema({
 
 // Add indexes
 QuotationSchema.index({ createdBy: 1, createdAt: -1 });
+QuotationSchema.index({ isAccepted: 1, expiresAt: 1 });
 
 export default mongoose.models.Quotation ||
   mongoose.model<IQuotation>("Quotation", QuotationSchema);
\ No newline at end of file
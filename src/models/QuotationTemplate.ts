@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IQuotationTemplate extends Document {
+  name: string;
+  // Service slug from servicesData (painting, carpentry, pop, ...)
+  serviceCategory: string;
+  items: {
+    description: string;
+    area?: number | null;
+    rate: number;
+    note?: string;
+    hsnSac?: string;
+  }[];
+  terms: string[];
+  note?: string;
+  validityDays?: number;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const QuotationTemplateSchema = new Schema<IQuotationTemplate>(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    serviceCategory: { type: String, required: true, trim: true, index: true },
+    items: [
+      {
+        _id: false,
+        description: { type: String, required: true },
+        area: { type: Number, default: null },
+        rate: { type: Number, required: true },
+        note: { type: String },
+        hsnSac: { type: String },
+      },
+    ],
+    terms: [{ type: String }],
+    note: { type: String },
+    validityDays: { type: Number, min: 1 },
+    createdBy: { type: String, required: true },
+  },
+  { timestamps: true }
+);
+
+QuotationTemplateSchema.index({ serviceCategory: 1, name: 1 }, { unique: true });
+
+export default mongoose.models.QuotationTemplate ||
+  mongoose.model<IQuotationTemplate>("QuotationTemplate", QuotationTemplateSchema);
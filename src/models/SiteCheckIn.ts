@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { CHECK_IN_STATUSES, type CheckInStatus } from "@/lib/site-check-in";
+
+export interface ICheckInLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  // Distance from the site's pinned location when the reading was taken
+  distanceMeters: number;
+}
+
+// A worker checking in and out of a project's site. Nothing counts towards wages
+// until an admin approves it, which creates the attendance entry.
+export interface ISiteCheckIn extends Document {
+  workerId: Schema.Types.ObjectId;
+  projectId: Schema.Types.ObjectId;
+  date: Date;
+  checkInAt: Date;
+  checkInLocation: ICheckInLocation;
+  checkOutAt?: Date;
+  checkOutLocation?: ICheckInLocation;
+  selfie?: { url: string; publicId: string };
+  status: CheckInStatus;
+  suggestedUnits?: number;
+  units?: number;
+  attendanceId?: Schema.Types.ObjectId;
+  reviewedBy?: Schema.Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CheckInLocationSchema = new Schema<ICheckInLocation>(
+  {
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true },
+    accuracy: { type: Number },
+    distanceMeters: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const SiteCheckInSchema = new Schema<ISiteCheckIn>(
+  {
+    workerId: { type: Schema.Types.ObjectId, ref: "Worker", required: true, index: true },
+    projectId: { type: Schema.Types.ObjectId, ref: "Project", required: true },
+    date: { type: Date, required: true, index: true },
+    checkInAt: { type: Date, required: true },
+    checkInLocation: { type: CheckInLocationSchema, required: true },
+    checkOutAt: { type: Date },
+    checkOutLocation: { type: CheckInLocationSchema },
+    selfie: {
+      type: new Schema({ url: { type: String, required: true }, publicId: { type: String, required: true } }, { _id: false }),
+    },
+    status: { type: String, enum: CHECK_IN_STATUSES, default: "checked_in", index: true },
+    suggestedUnits: { type: Number },
+    units: { type: Number },
+    attendanceId: { type: Schema.Types.ObjectId, ref: "WorkerAttendance" },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    reviewedAt: { type: Date },
+    reviewNote: { type: String },
+  },
+  { timestamps: true }
+);
+
+SiteCheckInSchema.index({ workerId: 1, date: 1, projectId: 1 }, { unique: true });
+
+export default mongoose.models.SiteCheckIn || mongoose.model<ISiteCheckIn>("SiteCheckIn", SiteCheckInSchema);
@@ -6,6 +6,7 @@ export interface ITransaction extends Document {
     date: Date;
     note: string;
     category?: string;
+    projectId?: Schema.Types.ObjectId;
     createdBy: string;
     createdAt: Date;
 }
@@ -20,12 +21,15 @@ const TransactionSchema: Schema = new Schema({
     date: { type: Date, required: true },
     note: { type: String, required: true },
     category: { type: String },
+    // Optional link to the project this income/expense belongs to (for project costing)
+    projectId: { type: Schema.Types.ObjectId, ref: "Project" },
     createdBy: { type: String, required: true },
     createdAt: { type: Date, default: Date.now },
 });
 
 TransactionSchema.index({ date: -1 });
 TransactionSchema.index({ type: 1, date: -1 });
+TransactionSchema.index({ projectId: 1, type: 1 });
 
 export default mongoose.models.Transaction ||
     mongoose.model<ITransaction>("Transaction", TransactionSchema);
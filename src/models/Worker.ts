@@ -1,10 +1,21 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+export interface IWorkerWageRate {
+  _id?: Schema.Types.ObjectId;
+  dailyWage: number;
+  effectiveFrom: Date;
+  projectId?: Schema.Types.ObjectId | null;
+  note?: string;
+  createdBy?: Schema.Types.ObjectId;
+  createdAt?: Date;
+}
+
 export interface IWorker extends Document {
   workerCode: string;
   mobile: string;
   name: string;
   dailyWage: number;
+  wageRates: IWorkerWageRate[];
   defaultShiftUnits: number;
   status: "active" | "inactive";
   isProfileCompleted: boolean;
@@ -18,12 +29,24 @@ export interface IWorker extends Document {
   updatedAt: Date;
 }
 
+// Effective-dated wage rates. Rates without a projectId apply to all work; rates
+// with one override the general rate for attendance on that project.
+const WorkerWageRateSchema = new Schema<IWorkerWageRate>({
+  dailyWage: { type: Number, required: true, min: 0 },
+  effectiveFrom: { type: Date, required: true },
+  projectId: { type: Schema.Types.ObjectId, ref: "Project", default: null },
+  note: { type: String, trim: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  createdAt: { type: Date, default: Date.now },
+});
+
 const WorkerSchema = new Schema<IWorker>(
   {
     workerCode: { type: String, required: true, unique: true, index: true },
     mobile: { type: String, required: true, unique: true, index: true },
     name: { type: String, default: "" },
     dailyWage: { type: Number, required: true, default: 0, min: 0 },
+    wageRates: { type: [WorkerWageRateSchema], default: [] },
     defaultShiftUnits: { type: Number, required: true, default: 1, min: 0.5, max: 2 },
     status: {
       type: String,
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { AUTO_AWARD_RULES, type AutoAwardRule } from "@/lib/loyalty-policy";
 
 export type LoyaltyEntryType = "credit" | "debit";
 
@@ -13,6 +14,11 @@ export interface IWorkerLoyaltyEntry extends Document {
   date: Date;
   reversalOf?: Schema.Types.ObjectId;
   isReversal: boolean;
+  // Awarded by an automatic rule rather than typed in by an admin
+  isAutomatic: boolean;
+  autoRule?: AutoAwardRule;
+  // The event behind an automatic award, e.g. "five_star_review:<reviewId>"; awarded once per worker
+  sourceRef?: string;
   awardedBy?: Schema.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -35,6 +41,9 @@ const WorkerLoyaltyEntrySchema = new Schema<IWorkerLoyaltyEntry>(
     date: { type: Date, required: true, index: true },
     reversalOf: { type: Schema.Types.ObjectId, ref: "WorkerLoyaltyEntry" },
     isReversal: { type: Boolean, default: false, index: true },
+    isAutomatic: { type: Boolean, default: false, index: true },
+    autoRule: { type: String, enum: AUTO_AWARD_RULES },
+    sourceRef: { type: String },
     awardedBy: { type: Schema.Types.ObjectId, ref: "User" },
   },
   { timestamps: true }
@@ -42,6 +51,10 @@ const WorkerLoyaltyEntrySchema = new Schema<IWorkerLoyaltyEntry>(
 
 WorkerLoyaltyEntrySchema.index({ workerId: 1, date: -1 });
 WorkerLoyaltyEntrySchema.index({ reversalOf: 1 }, { unique: true, sparse: true });
+WorkerLoyaltyEntrySchema.index(
+  { workerId: 1, sourceRef: 1 },
+  { unique: true, partialFilterExpression: { sourceRef: { $type: "string" } } }
+);
 
 export default mongoose.models.WorkerLoyaltyEntry ||
   mongoose.model<IWorkerLoyaltyEntry>("WorkerLoyaltyEntry", WorkerLoyaltyEntrySchema);
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type WagePayoutStatus = "pending" | "paid";
+export const WAGE_PAYMENT_METHODS = ["cash", "upi", "bank_transfer", "cheque"] as const;
+export type WagePaymentMethod = (typeof WAGE_PAYMENT_METHODS)[number];
+
+export interface IWorkerWagePayout extends Document {
+  workerId: Schema.Types.ObjectId;
+  year: number;
+  month: number;
+  totalUnits: number;
+  dailyWage: number;
+  grossWage: number;
+  totalAdvance: number;
+  openingBalance: number;
+  totalPayable: number;
+  amountPaid: number;
+  closingBalance: number;
+  paymentMethod?: WagePaymentMethod;
+  status: WagePayoutStatus;
+  paidAt?: Date;
+  markedBy?: Schema.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkerWagePayoutSchema = new Schema<IWorkerWagePayout>(
+  {
+    workerId: { type: Schema.Types.ObjectId, ref: "Worker", required: true, index: true },
+    year: { type: Number, required: true, index: true },
+    month: { type: Number, required: true, min: 1, max: 12, index: true },
+    totalUnits: { type: Number, required: true, default: 0 },
+    dailyWage: { type: Number, required: true, default: 0 },
+    grossWage: { type: Number, required: true, default: 0 },
+    totalAdvance: { type: Number, required: true, default: 0 },
+    // Balance carried in from the previous settled month. Positive = wages still owed
+    // to the worker, negative = advance the worker has yet to work off.
+    openingBalance: { type: Number, required: true, default: 0 },
+    totalPayable: { type: Number, required: true, default: 0 },
+    amountPaid: { type: Number, required: true, default: 0, min: 0 },
+    // Carried into the next month (totalPayable - amountPaid)
+    closingBalance: { type: Number, required: true, default: 0 },
+    paymentMethod: {
+      type: String,
+      enum: WAGE_PAYMENT_METHODS,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "paid"],
+      default: "pending",
+      index: true,
+    },
+    paidAt: { type: Date },
+    markedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    note: { type: String, trim: true },
+  },
+  { timestamps: true }
+);
+
+WorkerWagePayoutSchema.index({ workerId: 1, year: 1, month: 1 }, { unique: true });
+
+export default mongoose.models.WorkerWagePayout ||
+  mongoose.model<IWorkerWagePayout>("WorkerWagePayout", WorkerWagePayoutSchema);